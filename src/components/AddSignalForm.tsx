@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { MapPin, Calendar, AlertTriangle, FileText, Plus, Loader } from 'lucide-react';
-import { createSignal } from '../lib/supabase';
+import { createSignal } from '../lib/repository';
+import { SIGNAL_TYPES } from '../lib/constants';
+import type { NewSignal, Severity } from '../lib/types';
 
 interface AddSignalFormProps {
   onSignalAdded?: () => void;
@@ -12,24 +14,13 @@ const AddSignalForm: React.FC<AddSignalFormProps> = ({ onSignalAdded }) => {
     location: '',
     latitude: '',
     longitude: '',
-    severity: 'medium',
+    severity: 'medium' as Severity,
     notes: ''
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
 
-  const signalTypes = [
-    'Cough',
-    'Fever',
-    'Respiratory',
-    'Wastewater',
-    'Pharmacy',
-    'Environmental',
-    'Acoustic',
-    'Other'
-  ];
-
   const severityLevels = [
     { value: 'low', label: 'Low', color: 'text-green-600' },
     { value: 'medium', label: 'Medium', color: 'text-yellow-600' },
@@ -57,7 +48,7 @@ const AddSignalForm: React.FC<AddSignalFormProps> = ({ onSignalAdded }) => {
       }
 
       // Prepare signal data
-      const signalData = {
+      const signalData: NewSignal = {
         type: formData.type,
         location: formData.location.trim(),
         latitude: formData.latitude ? parseFloat(formData.latitude) : null,
@@ -68,10 +59,10 @@ const AddSignalForm: React.FC<AddSignalFormProps> = ({ onSignalAdded }) => {
       };
 
       // Create signal in database
-      const { data, error: createError } = await createSignal(signalData);
+      const result = await createSignal(signalData);
 
-      if (createError) {
-        setError(createError.message || 'Failed to create signal');
+      if (!result.ok) {
+        setError(result.error.message || 'Failed to create signal');
         return;
       }
 
@@ -156,7 +147,7 @@ const AddSignalForm: React.FC<AddSignalFormProps> = ({ onSignalAdded }) => {
               required
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
-              {signalTypes.map(type => (
+              {SIGNAL_TYPES.map(type => (
                 <option key={type} value={type}>{type}</option>
               ))}
             </select>
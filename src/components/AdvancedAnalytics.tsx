@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { BarChart3, TrendingUp, MapPin, Calendar, Download, Filter, RefreshCw, Target, Zap, Activity, AlertTriangle } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
-import { getSignals, getEvents } from '../lib/supabase';
+import { getSignals, getEvents, getSignalBaseline } from '../lib/repository';
+import type { BaselinePoint, Signal } from '../lib/types';
 
 interface AnalyticsData {
   signalTrends: any[];
@@ -17,6 +18,8 @@ const AdvancedAnalytics: React.FC = () => {
   const [timeRange, setTimeRange] = useState('7d');
   const [selectedMetric, setSelectedMetric] = useState('signals');
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [baselineError, setBaselineError] = useState('');
 
   useEffect(() => {
     loadAnalyticsData();
@@ -24,17 +27,25 @@ const AdvancedAnalytics: React.FC = () => {
 
   const loadAnalyticsData = async () => {
     setIsLoading(true);
+    setLoadError('');
     try {
-      const [signalsResult, eventsResult] = await Promise.all([
+      const [signalsResult, eventsResult, baselineResult] = await Promise.all([
         getSignals(),
-        getEvents()
+        getEvents(),
+        getSignalBaseline({ days: rangeToDays(timeRange) })
       ]);
 
-      const signals = signalsResult.data || [];
-      const events = eventsResult.data || [];
+      if (!signalsResult.ok) throw signalsResult.error;
+      if (!eventsResult.ok) throw eventsResult.error;
+      // The charts still work without the baseline, so only flag it
+      setBaselineError(baselineResult.ok ? '' : baselineResult.error.message);
+
+      const signals = signalsResult.data;
+      const events = eventsResult.data;
+      const baseline = baselineResult.ok ? baselineResult.data : [];
 
       // Generate signal trends over time
-      const signalTrends = generateSignalTrends(signals, timeRange);
+      const signalTrends = generateSignalTrends(signals, timeRange, baseline);
       
       // Calculate severity distribution
       const severityDistribution = [
@@ -44,7 +55,7 @@ const AdvancedAnalytics: React.FC = () => {
       ];
 
       // Generate location hotspots
-      const locationCounts = {};
+      const locationCounts: Record<string, number> = {};
       signals.forEach(signal => {
         const location = signal.location.split(',')[0];
         locationCounts[location] = (locationCounts[location] || 0) + 1;
@@ -56,7 +67,7 @@ const AdvancedAnalytics: React.FC = () => {
         .slice(0, 10);
 
       // Signal type breakdown
-      const typeCounts = {};
+      const typeCounts: Record<string, number> = {};
       signals.forEach(signal => {
         typeCounts[signal.type] = (typeCounts[signal.type] || 0) + 1;
       });
@@ -88,13 +99,18 @@ const AdvancedAnalytics: React.FC = () => {
       });
     } catch (error) {
       console.error('Error loading analytics data:', error);
+      setAnalyticsData(null);
+      setLoadError(error instanceof Error ? error.message : 'Unknown error');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const generateSignalTrends = (signals: any[], range: string) => {
-    const days = range === '7d' ? 7 : range === '30d' ? 30 : 1;
+  const rangeToDays = (range: string) => (range === '7d' ? 7 : range === '30d' ? 30 : 1);
+
+  const generateSignalTrends = (signals: Signal[], range: string, baseline: BaselinePoint[]) => {
+    const days = rangeToDays(range);
+    const baselineByDay = new Map(baseline.map(point => [point.day, point]));
     const trends = [];
     
     for (let i = days - 1; i >= 0; i--) {
@@ -105,6 +121,7 @@ const AdvancedAnalytics: React.FC = () => {
       const daySignals = signals.filter(signal => 
         signal.created_at.startsWith(dateStr)
       );
+      const dayBaseline = baselineByDay.get(dateStr);
       
       trends.push({
         date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
@@ -112,14 +129,15 @@ const AdvancedAnalytics: React.FC = () => {
         high: daySignals.filter(s => s.severity === 'high').length,
         medium: daySignals.filter(s => s.severity === 'medium').length,
         low: daySignals.filter(s => s.severity === 'low').length,
-        anomaly: Math.random() * 0.3 + 0.1 // Simulated anomaly score
+        baseline: dayBaseline ? Number(dayBaseline.ewma.toFixed(1)) : null,
+        anomaly: dayBaseline?.anomaly_score ?? 0
       });
     }
     
     return trends;
   };
 
-  const generateTimePatterns = (signals: any[]) => {
+  const generateTimePatterns = (signals: Signal[]) => {
     const hourCounts = Array(24).fill(0);
     
     signals.forEach(signal => {
@@ -184,6 +202,17 @@ const AdvancedAnalytics: React.FC = () => {
             </button>
           </div>
         </div>
+
+        {loadError && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700 text-sm">Could not load analytics: {loadError}</p>
+          </div>
+        )}
+        {!loadError && baselineError && (
+          <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <p className="text-yellow-800 text-sm">Baseline unavailable, so trends are shown without it: {baselineError}</p>
+          </div>
+        )}
       </div>
 
       {/* Key Metrics */}
@@ -256,6 +285,7 @@ const AdvancedAnalytics: React.FC = () => {
               <Tooltip />
               <Area type="monotone" dataKey="signals" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.3} />
               <Area type="monotone" dataKey="high" stroke="#ef4444" fill="#ef4444" fillOpacity={0.3} />
+              <Area type="monotone" dataKey="baseline" name="expected" stroke="#6b7280" strokeDasharray="5 5" fill="none" />
             </AreaChart>
           </ResponsiveContainer>
         </div>
@@ -0,0 +1,526 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, Plus, Save, Clock, Ban, Copy, History, Loader, X } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { getAlerts, getAlertVersions, getEvents, manageAlert } from '../lib/repository';
+import { SEVERITIES, SIGNAL_TYPES } from '../lib/constants';
+import type { Alert, AlertChange, AlertVersion, HealthEvent, Severity } from '../lib/types';
+
+interface AlertDraft {
+  event_id: string;
+  title: string;
+  location: string;
+  type: string;
+  severity: Severity;
+  description: string;
+  recommendations: string;
+  expires_at: string;
+}
+
+const emptyDraft: AlertDraft = {
+  event_id: '',
+  title: '',
+  location: '',
+  type: SIGNAL_TYPES[0],
+  severity: 'medium',
+  description: '',
+  recommendations: '',
+  expires_at: ''
+};
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (timestamp: string | null) => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toDraft = (alert: Alert): AlertDraft => ({
+  event_id: alert.event_id ?? '',
+  title: alert.title,
+  location: alert.location,
+  type: alert.type,
+  severity: alert.severity,
+  description: alert.description ?? '',
+  recommendations: (alert.recommendations ?? []).join('\n'),
+  expires_at: toLocalInput(alert.expires_at)
+});
+
+const actionLabels: Record<AlertVersion['action'], string> = {
+  issue: 'Issued',
+  update: 'Updated',
+  extend: 'Extended',
+  retract: 'Retracted',
+  supersede: 'Superseded',
+  event_sync: 'Followed event',
+  expire: 'Expired',
+  system: 'Changed by system'
+};
+
+const statusClass = (status: Alert['status']) => {
+  switch (status) {
+    case 'active': return 'bg-red-100 text-red-800';
+    case 'monitoring': return 'bg-yellow-100 text-yellow-800';
+    case 'resolved': return 'bg-green-100 text-green-800';
+    default: return 'bg-gray-100 text-gray-600';
+  }
+};
+
+const AlertManagementPanel: React.FC = () => {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [events, setEvents] = useState<HealthEvent[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AlertDraft>(emptyDraft);
+  const [reason, setReason] = useState('');
+  const [versions, setVersions] = useState<AlertVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadAlerts();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId && selectedId !== 'new') {
+      loadVersions(selectedId);
+    } else {
+      setVersions([]);
+    }
+  }, [selectedId]);
+
+  const loadAlerts = async () => {
+    setIsLoading(true);
+    const [alertsResult, eventsResult] = await Promise.all([getAlerts(), getEvents()]);
+
+    if (alertsResult.ok) {
+      setAlerts(alertsResult.data);
+    } else {
+      setError(alertsResult.error.message);
+    }
+    if (eventsResult.ok) {
+      setEvents(eventsResult.data);
+    }
+    setIsLoading(false);
+  };
+
+  const loadVersions = async (alertId: string) => {
+    const result = await getAlertVersions(alertId);
+    if (result.ok) {
+      setVersions(result.data);
+    } else {
+      setError(result.error.message);
+    }
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const selectAlert = (alert: Alert | null) => {
+    setError('');
+    setReason('');
+    setSelectedId(alert ? alert.id : 'new');
+    setDraft(alert ? toDraft(alert) : emptyDraft);
+  };
+
+  const selected = alerts.find(alert => alert.id === selectedId) ?? null;
+  const isFinal = selected?.status === 'retracted' || selected?.status === 'superseded';
+  const openEvents = events.filter(event => event.status === 'active' || event.status === 'monitoring');
+
+  const submit = async (action: AlertChange['action']) => {
+    if (!reason.trim()) {
+      setError('Give a reason for this change');
+      return;
+    }
+    if ((action === 'issue' || action === 'supersede' || action === 'update') && !draft.title.trim()) {
+      setError('Title is required');
+      return;
+    }
+    if (action === 'issue' && !draft.event_id && !draft.location.trim()) {
+      setError('Location is required for an alert without an event');
+      return;
+    }
+    if (action === 'extend' && !draft.expires_at) {
+      setError('Choose the new expiry time');
+      return;
+    }
+    if (action === 'retract' && !window.confirm('Retract this alert? It will no longer be shown as current.')) {
+      return;
+    }
+
+    const expiresAt = draft.expires_at ? new Date(draft.expires_at).toISOString() : null;
+    const content = {
+      title: draft.title.trim(),
+      severity: draft.severity,
+      description: draft.description.trim() || null,
+      recommendations: draft.recommendations.split('\n').map(line => line.trim()).filter(Boolean)
+    };
+
+    const fields: AlertChange['fields'] =
+      action === 'issue'
+        ? {
+            ...content,
+            event_id: draft.event_id || null,
+            location: draft.location.trim() || undefined,
+            type: draft.event_id ? undefined : draft.type,
+            expires_at: expiresAt
+          }
+        : action === 'supersede'
+          ? { ...content, expires_at: expiresAt }
+          : action === 'update'
+            ? content
+            : action === 'extend'
+              ? { expires_at: expiresAt }
+              : undefined;
+
+    setIsSaving(true);
+    setError('');
+    const result = await manageAlert({
+      action,
+      alertId: action === 'issue' ? undefined : selectedId ?? undefined,
+      fields,
+      reason: reason.trim()
+    });
+    setIsSaving(false);
+
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    flash(
+      action === 'issue' ? 'Alert issued'
+        : action === 'supersede' ? 'Alert superseded by a new version'
+          : action === 'retract' ? 'Alert retracted'
+            : action === 'extend' ? 'Alert extended'
+              : 'Alert updated'
+    );
+    setReason('');
+    setSelectedId(result.data.id);
+    setDraft(toDraft(result.data));
+    await loadAlerts();
+    loadVersions(result.data.id);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
+            <AlertTriangle className="h-5 w-5 text-red-600" />
+            <span>Alerts</span>
+          </h3>
+          <button
+            onClick={() => selectAlert(null)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Create Alert</span>
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+          </div>
+        ) : alerts.length === 0 ? (
+          <div className="text-center py-12">
+            <AlertTriangle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No alerts</h3>
+            <p className="text-gray-500">Alerts are raised with detected events, or can be issued by hand.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Alert</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Severity</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {alerts.map(alert => (
+                  <tr
+                    key={alert.id}
+                    onClick={() => selectAlert(alert)}
+                    className={`cursor-pointer hover:bg-gray-50 ${selectedId === alert.id ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{alert.title}</div>
+                      <div className="text-xs text-gray-500">
+                        v{alert.version} · {alert.origin === 'manual' ? 'Manual' : 'Detected'} · {new Date(alert.issued_at).toLocaleString()}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{alert.location}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">{alert.severity}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusClass(alert.status)}`}>
+                        {alert.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {alert.event_id ? (
+                        <Link
+                          to={`/event/${alert.event_id}`}
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-blue-600 hover:underline"
+                        >
+                          View event
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {alert.expires_at ? new Date(alert.expires_at).toLocaleString() : 'No expiry'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selectedId && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white rounded-xl p-6 shadow-lg">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-gray-900">
+                {selectedId === 'new' ? 'Issue Alert' : `Alert v${selected?.version ?? ''}`}
+              </h3>
+              <button onClick={() => setSelectedId(null)} className="p-1 text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {isFinal && (
+              <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg mb-4 text-sm text-gray-700">
+                This alert was {selected?.status} and can no longer change.
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {selectedId === 'new' && (
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Event</label>
+                  <select
+                    value={draft.event_id}
+                    onChange={(e) => setDraft({ ...draft, event_id: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">No event (manual alert)</option>
+                    {openEvents.map(event => (
+                      <option key={event.id} value={event.id}>
+                        {event.title} · {event.location}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                <input
+                  type="text"
+                  value={draft.title}
+                  disabled={isFinal}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              {selectedId === 'new' && !draft.event_id && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                    <input
+                      type="text"
+                      value={draft.location}
+                      onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                    <select
+                      value={draft.type}
+                      onChange={(e) => setDraft({ ...draft, type: e.target.value })}
+                      className={inputClass}
+                    >
+                      {SIGNAL_TYPES.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Severity</label>
+                <select
+                  value={draft.severity}
+                  disabled={isFinal}
+                  onChange={(e) => setDraft({ ...draft, severity: e.target.value as Severity })}
+                  className={inputClass}
+                >
+                  {SEVERITIES.map(severity => (
+                    <option key={severity} value={severity}>{severity}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+                <input
+                  type="datetime-local"
+                  value={draft.expires_at}
+                  disabled={isFinal}
+                  onChange={(e) => setDraft({ ...draft, expires_at: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  value={draft.description}
+                  disabled={isFinal}
+                  rows={3}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Recommendations (one per line)</label>
+                <textarea
+                  value={draft.recommendations}
+                  disabled={isFinal}
+                  rows={3}
+                  onChange={(e) => setDraft({ ...draft, recommendations: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              {!isFinal && (
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                  <input
+                    type="text"
+                    value={reason}
+                    placeholder="Recorded in the version history"
+                    onChange={(e) => setReason(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+            </div>
+
+            {!isFinal && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {selectedId === 'new' ? (
+                  <button
+                    onClick={() => submit('issue')}
+                    disabled={isSaving}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center space-x-2"
+                  >
+                    <AlertTriangle className="h-4 w-4" />
+                    <span>Issue Alert</span>
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => submit('update')}
+                      disabled={isSaving}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center space-x-2"
+                    >
+                      <Save className="h-4 w-4" />
+                      <span>Update</span>
+                    </button>
+                    <button
+                      onClick={() => submit('extend')}
+                      disabled={isSaving}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center space-x-2"
+                    >
+                      <Clock className="h-4 w-4" />
+                      <span>Extend</span>
+                    </button>
+                    <button
+                      onClick={() => submit('supersede')}
+                      disabled={isSaving}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center space-x-2"
+                    >
+                      <Copy className="h-4 w-4" />
+                      <span>Supersede</span>
+                    </button>
+                    <button
+                      onClick={() => submit('retract')}
+                      disabled={isSaving}
+                      className="px-4 py-2 border border-red-200 text-red-700 rounded-lg font-medium hover:bg-red-50 transition-colors disabled:opacity-50 flex items-center space-x-2"
+                    >
+                      <Ban className="h-4 w-4" />
+                      <span>Retract</span>
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          {selectedId !== 'new' && (
+            <div className="bg-white rounded-xl p-6 shadow-lg">
+              <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center space-x-2">
+                <History className="h-5 w-5 text-purple-600" />
+                <span>Version History</span>
+              </h3>
+              {versions.length === 0 ? (
+                <p className="text-sm text-gray-500">No versions recorded.</p>
+              ) : (
+                <ol className="space-y-3">
+                  {versions.map(version => (
+                    <li key={version.id} className="p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-900">
+                          v{version.version} · {actionLabels[version.action]}
+                        </span>
+                        <span className="text-xs text-gray-500">{new Date(version.changed_at).toLocaleString()}</span>
+                      </div>
+                      {(version.reason || version.changed_by_name) && (
+                        <p className="text-xs text-gray-600 mt-1">
+                          {[version.reason, version.changed_by_name && `by ${version.changed_by_name}`].filter(Boolean).join(' — ')}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertManagementPanel;
@@ -0,0 +1,431 @@
+import React, { useState, useEffect } from 'react';
+import { Bell, Plus, Pencil, Trash2, Pause, Play, Undo2, Loader, MapPin } from 'lucide-react';
+import AreaPickerMap from './AreaPickerMap';
+import { getCurrentUser } from '../lib/supabase';
+import { getAlertSubscriptions, saveAlertSubscription, deleteAlertSubscription } from '../lib/repository';
+import { SEVERITIES, SIGNAL_TYPES } from '../lib/constants';
+import type { AlertSubscription, PolygonPoint, Severity, SubscriptionAreaType } from '../lib/types';
+
+interface SubscriptionForm {
+  id?: string;
+  name: string;
+  areaType: SubscriptionAreaType;
+  placeName: string;
+  center: PolygonPoint | null;
+  radiusKm: number;
+  polygon: PolygonPoint[];
+  minSeverity: Severity;
+  signalTypes: string[];
+}
+
+const emptyForm: SubscriptionForm = {
+  name: '',
+  areaType: 'place',
+  placeName: '',
+  center: null,
+  radiusKm: 10,
+  polygon: [],
+  minSeverity: 'medium',
+  signalTypes: []
+};
+
+const toForm = (subscription: AlertSubscription): SubscriptionForm => ({
+  id: subscription.id,
+  name: subscription.name,
+  areaType: subscription.area_type,
+  placeName: subscription.place_name ?? '',
+  center:
+    subscription.center_latitude !== null && subscription.center_longitude !== null
+      ? [subscription.center_latitude, subscription.center_longitude]
+      : null,
+  radiusKm: subscription.radius_km ?? 10,
+  polygon: Array.isArray(subscription.polygon) ? (subscription.polygon as PolygonPoint[]) : [],
+  minSeverity: subscription.min_severity,
+  signalTypes: subscription.signal_types
+});
+
+const describeArea = (subscription: AlertSubscription) => {
+  switch (subscription.area_type) {
+    case 'place':
+      return `Alerts mentioning ${subscription.place_name}`;
+    case 'radius':
+      return `Within ${subscription.radius_km} km of ${subscription.center_latitude?.toFixed(3)}, ${subscription.center_longitude?.toFixed(3)}`;
+    default:
+      return `Inside a ${Array.isArray(subscription.polygon) ? subscription.polygon.length : 0}-point area`;
+  }
+};
+
+const AlertSubscriptionsPanel: React.FC = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [subscriptions, setSubscriptions] = useState<AlertSubscription[]>([]);
+  const [form, setForm] = useState<SubscriptionForm | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, []);
+
+  const loadSubscriptions = async () => {
+    setIsLoading(true);
+    const { user } = await getCurrentUser();
+    setUserId(user?.id ?? null);
+
+    if (user) {
+      const result = await getAlertSubscriptions();
+      if (result.ok) {
+        setSubscriptions(result.data);
+      } else {
+        setError(result.error.message);
+      }
+    }
+    setIsLoading(false);
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const updateForm = (changes: Partial<SubscriptionForm>) => {
+    setForm(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const handlePick = (point: PolygonPoint) => {
+    if (!form) return;
+    if (form.areaType === 'radius') {
+      updateForm({ center: point });
+    } else if (form.areaType === 'polygon') {
+      updateForm({ polygon: [...form.polygon, point] });
+    }
+  };
+
+  const toggleSignalType = (type: string) => {
+    if (!form) return;
+    updateForm({
+      signalTypes: form.signalTypes.includes(type)
+        ? form.signalTypes.filter(item => item !== type)
+        : [...form.signalTypes, type]
+    });
+  };
+
+  const validate = (values: SubscriptionForm) => {
+    if (!values.name.trim()) return 'Give the subscription a name';
+    if (values.areaType === 'place' && !values.placeName.trim()) return 'Enter a place name';
+    if (values.areaType === 'radius') {
+      if (!values.center) return 'Click the map to choose the centre of the area';
+      if (!(values.radiusKm > 0 && values.radiusKm <= 500)) return 'Radius must be between 1 and 500 km';
+    }
+    if (values.areaType === 'polygon' && values.polygon.length < 3) return 'Click at least three points on the map';
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!form || !userId) return;
+
+    const validationError = validate(form);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    // Only the fields of the chosen area type are kept
+    const result = await saveAlertSubscription({
+      ...(form.id ? { id: form.id } : {}),
+      user_id: userId,
+      name: form.name.trim(),
+      area_type: form.areaType,
+      place_name: form.areaType === 'place' ? form.placeName.trim() : null,
+      center_latitude: form.areaType === 'radius' ? form.center?.[0] ?? null : null,
+      center_longitude: form.areaType === 'radius' ? form.center?.[1] ?? null : null,
+      radius_km: form.areaType === 'radius' ? form.radiusKm : null,
+      polygon: form.areaType === 'polygon' ? form.polygon : null,
+      min_severity: form.minSeverity,
+      signal_types: form.signalTypes
+    });
+    setIsSaving(false);
+
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    setForm(null);
+    flash(form.id ? 'Subscription updated' : 'Subscription created');
+    loadSubscriptions();
+  };
+
+  const handleToggle = async (subscription: AlertSubscription) => {
+    setError('');
+    const result = await saveAlertSubscription({ ...subscription, is_active: !subscription.is_active });
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    setSubscriptions(current => current.map(item => (item.id === subscription.id ? result.data : item)));
+  };
+
+  const handleDelete = async (subscription: AlertSubscription) => {
+    if (!window.confirm(`Delete the subscription "${subscription.name}"?`)) return;
+
+    setError('');
+    const result = await deleteAlertSubscription(subscription.id);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    setSubscriptions(current => current.filter(item => item.id !== subscription.id));
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
+          <Bell className="h-5 w-5 text-blue-600" />
+          <span>Alert Subscriptions</span>
+        </h3>
+        {userId && !form && (
+          <button
+            onClick={() => setForm(emptyForm)}
+            className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Subscription</span>
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Get an email when an alert is issued for an area you follow.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg mb-4">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+        </div>
+      ) : !userId ? (
+        <p className="text-sm text-gray-500">Sign in to subscribe to alerts.</p>
+      ) : form ? (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              className={inputClass}
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              placeholder="e.g. Home, Office, District"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Area</label>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {([
+                { value: 'place', label: 'Place name' },
+                { value: 'radius', label: 'Radius around a point' },
+                { value: 'polygon', label: 'Drawn area' }
+              ] as { value: SubscriptionAreaType; label: string }[]).map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => updateForm({ areaType: option.value })}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                    form.areaType === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {form.areaType === 'place' ? (
+              <input
+                type="text"
+                className={inputClass}
+                value={form.placeName}
+                onChange={(e) => updateForm({ placeName: e.target.value })}
+                placeholder="City, district or neighbourhood, e.g. Pune"
+              />
+            ) : (
+              <>
+                <AreaPickerMap
+                  mode={form.areaType}
+                  center={form.center}
+                  radiusKm={form.radiusKm}
+                  polygon={form.polygon}
+                  onPick={handlePick}
+                />
+                <div className="flex items-center justify-between mt-2 text-sm text-gray-600">
+                  {form.areaType === 'radius' ? (
+                    <>
+                      <span className="flex items-center space-x-1">
+                        <MapPin className="h-4 w-4" />
+                        <span>
+                          {form.center ? `${form.center[0]}, ${form.center[1]}` : 'Click the map to place the centre'}
+                        </span>
+                      </span>
+                      <label className="flex items-center space-x-2">
+                        <span>Radius (km)</span>
+                        <input
+                          type="number"
+                          min={1}
+                          max={500}
+                          className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          value={Number.isNaN(form.radiusKm) ? '' : form.radiusKm}
+                          onChange={(e) => updateForm({ radiusKm: parseFloat(e.target.value) })}
+                        />
+                      </label>
+                    </>
+                  ) : (
+                    <>
+                      <span>{form.polygon.length} point{form.polygon.length === 1 ? '' : 's'} — click the map to add more</span>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => updateForm({ polygon: form.polygon.slice(0, -1) })}
+                          disabled={form.polygon.length === 0}
+                          className="px-2 py-1 text-xs border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center space-x-1"
+                        >
+                          <Undo2 className="h-3 w-3" />
+                          <span>Undo</span>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => updateForm({ polygon: [] })}
+                          disabled={form.polygon.length === 0}
+                          className="px-2 py-1 text-xs border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors disabled:opacity-50"
+                        >
+                          Clear
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Minimum severity</label>
+            <select
+              className={inputClass}
+              value={form.minSeverity}
+              onChange={(e) => updateForm({ minSeverity: e.target.value as Severity })}
+            >
+              {SEVERITIES.map(severity => (
+                <option key={severity} value={severity}>
+                  {severity.charAt(0).toUpperCase() + severity.slice(1)}
+                  {severity !== 'high' ? ' and above' : ' only'}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Signal types</label>
+            <p className="text-xs text-gray-500 mb-2">Leave all unticked to hear about every type.</p>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {SIGNAL_TYPES.map(type => (
+                <label key={type} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="rounded"
+                    checked={form.signalTypes.includes(type)}
+                    onChange={() => toggleSignalType(type)}
+                  />
+                  <span>{type}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : form.id ? 'Save Changes' : 'Subscribe'}
+            </button>
+            <button
+              onClick={() => {
+                setForm(null);
+                setError('');
+              }}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : subscriptions.length === 0 ? (
+        <p className="text-sm text-gray-500">You are not subscribed to any areas yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {subscriptions.map(subscription => (
+            <div key={subscription.id} className="p-3 flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className={`text-sm font-medium ${subscription.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {subscription.name}
+                  </span>
+                  {!subscription.is_active && (
+                    <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">Paused</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{describeArea(subscription)}</p>
+                <p className="text-xs text-gray-500">
+                  {subscription.min_severity} severity and above ·{' '}
+                  {subscription.signal_types.length > 0 ? subscription.signal_types.join(', ') : 'all signal types'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1 shrink-0">
+                <button
+                  onClick={() => handleToggle(subscription)}
+                  className="p-1 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                  title={subscription.is_active ? 'Pause emails' : 'Resume emails'}
+                >
+                  {subscription.is_active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </button>
+                <button
+                  onClick={() => setForm(toForm(subscription))}
+                  className="p-1 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                  title="Edit"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(subscription)}
+                  className="p-1 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertSubscriptionsPanel;
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { PolygonPoint } from '../lib/types';
+
+interface AreaPickerMapProps {
+  mode: 'radius' | 'polygon';
+  center: PolygonPoint | null;
+  radiusKm: number;
+  polygon: PolygonPoint[];
+  onPick: (point: PolygonPoint) => void;
+  height?: string;
+}
+
+// Clicks set the centre of a radius or add the next vertex of a polygon
+const AreaPickerMap: React.FC<AreaPickerMapProps> = ({
+  mode,
+  center,
+  radiusKm,
+  polygon,
+  onPick,
+  height = '300px'
+}) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.LayerGroup | null>(null);
+  // Read through a ref so the click handler bound once always sees the latest callback
+  const onPickRef = useRef(onPick);
+  onPickRef.current = onPick;
+  // Start on the saved area when editing, otherwise on India
+  const initialViewRef = useRef<{ center: PolygonPoint; zoom: number }>(
+    center || polygon.length > 0
+      ? { center: center ?? polygon[0], zoom: 9 }
+      : { center: [20.5937, 78.9629], zoom: 5 }
+  );
+
+  useEffect(() => {
+    if (!mapRef.current || mapInstanceRef.current) return;
+
+    const map = L.map(mapRef.current, { zoomControl: true, scrollWheelZoom: true })
+      .setView(initialViewRef.current.center, initialViewRef.current.zoom);
+
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '© OpenStreetMap contributors',
+      maxZoom: 18
+    }).addTo(map);
+
+    map.on('click', (e: L.LeafletMouseEvent) => {
+      onPickRef.current([
+        Number(e.latlng.lat.toFixed(5)),
+        Number(e.latlng.lng.toFixed(5))
+      ]);
+    });
+
+    layerRef.current = L.layerGroup().addTo(map);
+    mapInstanceRef.current = map;
+
+    return () => {
+      map.remove();
+      mapInstanceRef.current = null;
+      layerRef.current = null;
+    };
+  }, []);
+
+  // Redraw the chosen area whenever it changes
+  useEffect(() => {
+    const layer = layerRef.current;
+    if (!layer) return;
+
+    layer.clearLayers();
+    const style = { color: '#2563eb', weight: 2, fillOpacity: 0.15 };
+
+    if (mode === 'radius' && center) {
+      L.circle(center, { ...style, radius: radiusKm * 1000 }).addTo(layer);
+      L.circleMarker(center, { radius: 4, color: '#2563eb', fillOpacity: 1 }).addTo(layer);
+    }
+
+    if (mode === 'polygon' && polygon.length > 0) {
+      if (polygon.length >= 3) {
+        L.polygon(polygon, style).addTo(layer);
+      } else {
+        L.polyline(polygon, style).addTo(layer);
+      }
+      polygon.forEach(point => {
+        L.circleMarker(point, { radius: 4, color: '#2563eb', fillOpacity: 1 }).addTo(layer);
+      });
+    }
+  }, [mode, center, radiusKm, polygon]);
+
+  return (
+    <div className="relative" style={{ zIndex: 1 }}>
+      <div
+        ref={mapRef}
+        style={{ height, zIndex: 1 }}
+        className="rounded-lg overflow-hidden border border-gray-200 cursor-crosshair"
+      />
+    </div>
+  );
+};
+
+export default AreaPickerMap;
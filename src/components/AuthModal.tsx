@@ -1,14 +1,45 @@
-import React, { useState } from 'react';
-import { X, Mail, Lock, User, Building, Eye, EyeOff, Shield, CheckCircle, AlertCircle, UserCheck, Send, Clock } from 'lucide-react';
-import { signUp, signIn, resetPassword, sendAdminOTP, verifyAdminOTP, resendEmailVerification } from '../lib/supabase';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Mail, Lock, User, Building, Eye, EyeOff, Shield, ShieldCheck, KeyRound, CheckCircle, AlertCircle, UserCheck, Send, Clock } from 'lucide-react';
+import {
+  signUp,
+  signIn,
+  resetPassword,
+  sendAdminOTP,
+  verifyAdminOTP,
+  resendEmailVerification,
+  isMfaRequired,
+  getAssuranceLevel,
+  getTotpFactorId,
+  enrollTotp,
+  verifyTotp,
+  generateRecoveryCodes,
+  redeemRecoveryCode
+} from '../lib/supabase';
+import { getInvitationPreview, isUsernameAvailable, respondToInvitation } from '../lib/repository';
+import { USERNAME_PATTERN } from '../lib/constants';
+import type { AuthMode } from '../lib/auth';
+import type { InvitationPreview } from '../lib/types';
+
+type MfaStage = 'challenge' | 'recovery' | 'enroll' | 'codes';
+
+interface TotpEnrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
 
 interface AuthModalProps {
-  mode: 'login' | 'signup' | 'admin';
+  // `mfa` is for a signed-in user whose session still needs its second factor
+  mode: AuthMode;
   onClose: () => void;
-  onSwitchMode: (mode: 'login' | 'signup' | 'admin') => void;
+  onSwitchMode: (mode: AuthMode) => void;
+  // Organization invitation from an invite link; pre-fills and locks the signup email
+  inviteId?: string | null;
+  // Where to go after signing in, when a route guard sent the user here
+  returnTo?: string | null;
 }
 
-const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) => {
+const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode, inviteId, returnTo }) => {
   const [formData, setFormData] = useState({
     identifier: '', // Can be email or username for login
     email: '',
@@ -18,14 +49,82 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
     fullName: '',
     userType: 'researcher',
     orgName: '',
-    subscribed: true,
-    otp: ''
+    otp: '',
+    totp: '',
+    recoveryCode: ''
   });
   const [showPassword, setShowPassword] = useState(false);
   const [step, setStep] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [inviteError, setInviteError] = useState('');
+  const [otpEmail, setOtpEmail] = useState('');
+  const [mfaStage, setMfaStage] = useState<MfaStage | null>(null);
+  const [factorId, setFactorId] = useState('');
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  // Where sign-in continues once the second factor is done
+  const afterMfa = useRef<() => void | Promise<void>>(() => {});
+
+  useEffect(() => {
+    if (!inviteId) return;
+    let isCurrent = true;
+
+    getInvitationPreview(inviteId).then(result => {
+      if (!isCurrent) return;
+      if (!result.ok || !result.data) {
+        setInviteError('This invitation has expired or is no longer valid. You can still create an account.');
+        return;
+      }
+
+      const preview = result.data;
+      setInvitation(preview);
+      setFormData(prev => ({ ...prev, email: preview.email, identifier: prev.identifier || preview.email, orgName: preview.organization_name }));
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [inviteId]);
+
+  const startEnrollment = async () => {
+    const { data, error } = await enrollTotp();
+    if (error || !data) {
+      setError(error?.message ?? 'Could not start authenticator setup');
+      return;
+    }
+    setEnrollment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+    setMfaStage('enroll');
+  };
+
+  // Runs `next` straight away unless the session still needs its second factor,
+  // in which case the challenge or, for staff without one, enrollment comes first
+  const continueWithMfa = async (next: () => void | Promise<void>) => {
+    const [{ data: level }, { data: required }] = await Promise.all([getAssuranceLevel(), isMfaRequired()]);
+    const hasFactor = level?.nextLevel === 'aal2';
+
+    if (level?.currentLevel === 'aal2' || (!hasFactor && !required)) {
+      await next();
+      return;
+    }
+
+    afterMfa.current = next;
+    setFormData(prev => ({ ...prev, totp: '', recoveryCode: '' }));
+    setSuccess('');
+
+    if (hasFactor) {
+      const { data: id } = await getTotpFactorId();
+      setFactorId(id ?? '');
+      setMfaStage('challenge');
+    } else {
+      await startEnrollment();
+    }
+  };
+
+  // Invited users land on the organization tab, where the invitation waits to be accepted
+  const dashboardPath = invitation ? '/dashboard?tab=organization' : returnTo ?? '/dashboard';
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
@@ -49,24 +148,47 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
           return;
         }
 
-        if (!formData.username.trim()) {
-          setError('Username is required');
+        const username = formData.username.trim().toLowerCase();
+        if (!USERNAME_PATTERN.test(username)) {
+          setError('Usernames are 3-30 characters: letters, numbers and underscores');
+          setIsLoading(false);
+          return;
+        }
+
+        const available = await isUsernameAvailable(username);
+        if (!available.ok || !available.data) {
+          setError(available.ok ? `The username ${username} is taken` : available.error.message);
           setIsLoading(false);
           return;
         }
 
         const userData = {
-          username: formData.username,
+          username,
           full_name: formData.fullName,
           user_type: formData.userType,
-          org_name: formData.orgName,
-          subscribed: formData.subscribed
+          org_name: formData.orgName
         };
 
-        const { data, error } = await signUp(formData.email, formData.password, userData);
+        const { data, error } = await signUp(formData.email, formData.password, userData, dashboardPath);
         
         if (error) {
           setError(error.message);
+        } else if (data.session && invitation && inviteId) {
+          // Projects without email confirmation sign the user straight in
+          const result = await respondToInvitation(inviteId, true);
+          if (!result.ok) {
+            setSuccess('Account created.');
+            setError(
+              `Could not join ${invitation.organization_name}: ${result.error.message}. ` +
+              'You can accept the invitation from the Organization tab of your dashboard.'
+            );
+          } else {
+            setSuccess(`Account created and you joined ${invitation.organization_name}!`);
+            setTimeout(() => {
+              onClose();
+              window.location.href = dashboardPath;
+            }, 1000);
+          }
         } else {
           setSuccess('Account created! Please check your email for verification link before logging in.');
           setStep(2); // Move to email verification step
@@ -77,29 +199,29 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
         if (error) {
           setError(error.message);
         } else {
-          setSuccess('Login successful!');
-          setTimeout(() => {
-            onClose();
-            window.location.href = '/dashboard';
-          }, 1000);
+          await continueWithMfa(() => {
+            setSuccess('Login successful!');
+            setTimeout(() => {
+              onClose();
+              window.location.href = dashboardPath;
+            }, 1000);
+          });
         }
       } else if (mode === 'admin') {
         if (step === 1) {
-          // Send OTP to admin email
-          const { error } = await sendAdminOTP(formData.email);
-          if (error) {
-            setError(error.message);
+          // Codes are only issued to a signed-in platform admin, so sign in first
+          const { error: signInError } = await signIn(formData.email, formData.password);
+          if (signInError) {
+            setError(signInError.message);
           } else {
-            setStep(2);
-            setSuccess('OTP sent to your email address');
+            await continueWithMfa(requestAdminCode);
           }
         } else {
-          // Verify OTP
-          const { error } = await verifyAdminOTP(formData.email, formData.otp);
+          const { error } = await verifyAdminOTP(formData.otp);
           if (error) {
             setError(error.message);
           } else {
-            setSuccess('Admin login successful!');
+            setSuccess('Admin access verified!');
             setTimeout(() => {
               onClose();
               window.location.href = '/admin';
@@ -114,6 +236,76 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
     setIsLoading(false);
   };
 
+  const requestAdminCode = async () => {
+    const { data, error } = await sendAdminOTP();
+    if (error) {
+      setError(error.message);
+    } else {
+      setOtpEmail(data?.email ?? formData.email);
+      setStep(2);
+      setSuccess('Verification code sent to your email address');
+    }
+  };
+
+  const handleResendAdminCode = async () => {
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+    await requestAdminCode();
+    setIsLoading(false);
+  };
+
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      if (mfaStage === 'challenge' || mfaStage === 'enroll') {
+        const id = mfaStage === 'enroll' ? enrollment?.factorId ?? '' : factorId;
+        const { error } = await verifyTotp(id, formData.totp.trim());
+        if (error) {
+          setError(error.message);
+        } else if (mfaStage === 'enroll') {
+          // Recovery codes are shown once, straight after enrollment
+          const { data, error: codesError } = await generateRecoveryCodes();
+          if (codesError) {
+            setError(codesError.message);
+          } else {
+            setRecoveryCodes(data ?? []);
+            setMfaStage('codes');
+          }
+        } else {
+          setMfaStage(null);
+          await afterMfa.current();
+        }
+      } else if (mfaStage === 'recovery') {
+        const { error } = await redeemRecoveryCode(formData.recoveryCode);
+        if (error) {
+          setError(error.message);
+        } else {
+          setSuccess('Recovery code accepted. Set up your authenticator app again.');
+          await startEnrollment();
+        }
+      } else if (mfaStage === 'codes') {
+        setMfaStage(null);
+        await afterMfa.current();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // A signed-in user sent here by a page that needs an AAL2 session
+  const handleStartMfa = async () => {
+    setIsLoading(true);
+    setError('');
+    await continueWithMfa(() => window.location.reload());
+    setIsLoading(false);
+  };
+
   const handleForgotPassword = async () => {
     if (!formData.identifier) {
       setError('Please enter your email address');
@@ -249,6 +441,11 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
               We've sent a verification link to <strong>{formData.email}</strong>. 
               Please click the link in your email to verify your account before logging in.
             </p>
+            {invitation && (
+              <p className="text-green-700 text-sm mt-2">
+                Once verified, accept your invitation to {invitation.organization_name} from the Organization tab of your dashboard.
+              </p>
+            )}
           </div>
 
           <div className="space-y-4">
@@ -291,6 +488,23 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
           </div>
         )}
 
+        {invitation && (
+          <div className="flex items-center space-x-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+            <Building className="h-5 w-5 text-blue-600" />
+            <span className="text-blue-800 text-sm">
+              You've been invited to join <strong>{invitation.organization_name}</strong> as{' '}
+              {invitation.member_role === 'admin' ? 'an admin' : 'a member'}.
+            </span>
+          </div>
+        )}
+
+        {inviteError && (
+          <div className="flex items-center space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <AlertCircle className="h-5 w-5 text-yellow-600" />
+            <span className="text-yellow-800 text-sm">{inviteError}</span>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
           <div>
             <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
@@ -305,10 +519,15 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
                 value={formData.username}
                 onChange={handleInputChange}
                 required
+                minLength={3}
+                maxLength={30}
+                pattern="[A-Za-z0-9_]{3,30}"
+                title="3-30 letters, numbers or underscores"
                 className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
                 placeholder="Choose a username"
               />
             </div>
+            <p className="text-xs text-gray-500 mt-1">Letters, numbers and underscores; you can sign in with it.</p>
           </div>
 
           <div>
@@ -343,10 +562,14 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
               value={formData.email}
               onChange={handleInputChange}
               required
-              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+              readOnly={!!invitation}
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors read-only:bg-gray-50"
               placeholder="your.email@example.com"
             />
           </div>
+          {invitation && (
+            <p className="text-xs text-gray-500 mt-1">The invitation is for this address.</p>
+          )}
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -419,37 +642,28 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
             </select>
           </div>
 
-          <div>
-            <label htmlFor="orgName" className="block text-sm font-medium text-gray-700 mb-2">
-              Organization Name (Optional)
-            </label>
-            <div className="relative">
-              <Building className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-              <input
-                type="text"
-                id="orgName"
-                name="orgName"
-                value={formData.orgName}
-                onChange={handleInputChange}
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Your organization"
-              />
+          {!invitation && (
+            <div>
+              <label htmlFor="orgName" className="block text-sm font-medium text-gray-700 mb-2">
+                Organization Name (Optional)
+              </label>
+              <div className="relative">
+                <Building className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                <input
+                  type="text"
+                  id="orgName"
+                  name="orgName"
+                  value={formData.orgName}
+                  onChange={handleInputChange}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Your organization"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Partner organizations get a shared workspace; an organization admin can invite you to theirs.
+              </p>
             </div>
-          </div>
-
-          <div className="flex items-center space-x-2">
-            <input
-              type="checkbox"
-              id="subscribed"
-              name="subscribed"
-              checked={formData.subscribed}
-              onChange={handleInputChange}
-              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-            />
-            <label htmlFor="subscribed" className="text-sm text-gray-700">
-              Subscribe to early updates & research alerts
-            </label>
-          </div>
+          )}
         </div>
 
         <button
@@ -495,7 +709,7 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
           <div className="text-center mb-6">
             <Shield className="h-12 w-12 text-blue-600 mx-auto mb-2" />
             <h3 className="text-lg font-semibold text-gray-900">Admin Access</h3>
-            <p className="text-sm text-gray-600">Secure login with email verification</p>
+            <p className="text-sm text-gray-600">Sign in, then confirm with a code sent to your email</p>
           </div>
 
           <div>
@@ -517,6 +731,32 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
             </div>
           </div>
 
+          <div>
+            <label htmlFor="adminPassword" className="block text-sm font-medium text-gray-700 mb-2">
+              Password
+            </label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                type={showPassword ? 'text' : 'password'}
+                id="adminPassword"
+                name="password"
+                value={formData.password}
+                onChange={handleInputChange}
+                required
+                className="w-full pl-10 pr-12 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                placeholder="Enter your password"
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+              >
+                {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+              </button>
+            </div>
+          </div>
+
           <button
             type="submit"
             disabled={isLoading}
@@ -525,7 +765,7 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
             {isLoading ? (
               <>
                 <Send className="h-4 w-4 animate-pulse" />
-                <span>Sending OTP...</span>
+                <span>Sending code...</span>
               </>
             ) : (
               <>
@@ -540,8 +780,8 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
           <div className="text-center mb-6">
             <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-2" />
             <h3 className="text-lg font-semibold text-gray-900">Check Your Email</h3>
-            <p className="text-sm text-gray-600">We've sent a verification code to {formData.email}</p>
-            <p className="text-xs text-gray-500 mt-2">For demo purposes, use: 123456</p>
+            <p className="text-sm text-gray-600">We've sent a verification code to {otpEmail}</p>
+            <p className="text-xs text-gray-500 mt-2">It expires in 10 minutes and works once.</p>
           </div>
 
           <div>
@@ -558,6 +798,8 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
                 onChange={handleInputChange}
                 required
                 maxLength={6}
+                inputMode="numeric"
+                autoComplete="one-time-code"
                 className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-center text-2xl font-mono tracking-widest"
                 placeholder="000000"
               />
@@ -569,13 +811,14 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
             disabled={isLoading}
             className="w-full px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg font-semibold hover:shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {isLoading ? 'Verifying...' : 'Verify & Log In'}
+            {isLoading ? 'Verifying...' : 'Verify & Continue'}
           </button>
 
           <div className="text-center">
             <button
               type="button"
-              onClick={() => setStep(1)}
+              onClick={handleResendAdminCode}
+              disabled={isLoading}
               className="text-blue-600 hover:text-blue-700 text-sm font-medium"
             >
               Resend Code
@@ -597,6 +840,206 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
     </form>
   );
 
+  const renderMfa = () => (
+    <form onSubmit={handleMfaSubmit} className="space-y-6">
+      {error && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="h-5 w-5 text-red-600" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded-lg">
+          <CheckCircle className="h-5 w-5 text-green-600" />
+          <span className="text-green-700 text-sm">{success}</span>
+        </div>
+      )}
+
+      {mfaStage === 'challenge' && (
+        <>
+          <div className="text-center mb-6">
+            <ShieldCheck className="h-12 w-12 text-blue-600 mx-auto mb-2" />
+            <h3 className="text-lg font-semibold text-gray-900">Two-Factor Verification</h3>
+            <p className="text-sm text-gray-600">Enter the 6-digit code from your authenticator app</p>
+          </div>
+          {renderTotpInput()}
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg font-semibold hover:shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Verifying...' : 'Verify'}
+          </button>
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => {
+                setMfaStage('recovery');
+                setError('');
+              }}
+              className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+            >
+              Lost your device? Use a recovery code
+            </button>
+          </div>
+        </>
+      )}
+
+      {mfaStage === 'recovery' && (
+        <>
+          <div className="text-center mb-6">
+            <KeyRound className="h-12 w-12 text-blue-600 mx-auto mb-2" />
+            <h3 className="text-lg font-semibold text-gray-900">Use a Recovery Code</h3>
+            <p className="text-sm text-gray-600">
+              This removes your current authenticator; you'll set up a new one next.
+            </p>
+          </div>
+          <div>
+            <label htmlFor="recoveryCode" className="block text-sm font-medium text-gray-700 mb-2">
+              Recovery Code
+            </label>
+            <input
+              type="text"
+              id="recoveryCode"
+              name="recoveryCode"
+              value={formData.recoveryCode}
+              onChange={handleInputChange}
+              required
+              autoComplete="off"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-center font-mono tracking-wider"
+              placeholder="xxxxx-xxxxx"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg font-semibold hover:shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Checking...' : 'Use Recovery Code'}
+          </button>
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => {
+                setMfaStage('challenge');
+                setError('');
+              }}
+              className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+            >
+              Back to authenticator code
+            </button>
+          </div>
+        </>
+      )}
+
+      {mfaStage === 'enroll' && enrollment && (
+        <>
+          <div className="text-center">
+            <ShieldCheck className="h-12 w-12 text-blue-600 mx-auto mb-2" />
+            <h3 className="text-lg font-semibold text-gray-900">Set Up Two-Factor Authentication</h3>
+            <p className="text-sm text-gray-600">
+              Your role requires it. Scan this code with an authenticator app such as Google Authenticator or 1Password.
+            </p>
+          </div>
+          <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-44 w-44 mx-auto" />
+          <p className="text-xs text-gray-500 text-center">
+            Can't scan it? Enter this key instead:{' '}
+            <code className="font-mono text-gray-800 break-all">{enrollment.secret}</code>
+          </p>
+          {renderTotpInput()}
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg font-semibold hover:shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Verifying...' : 'Verify & Enable'}
+          </button>
+        </>
+      )}
+
+      {mfaStage === 'codes' && (
+        <>
+          <div className="text-center">
+            <KeyRound className="h-12 w-12 text-green-600 mx-auto mb-2" />
+            <h3 className="text-lg font-semibold text-gray-900">Save Your Recovery Codes</h3>
+            <p className="text-sm text-gray-600">
+              Each code works once if you lose your authenticator. They won't be shown again.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border border-gray-200 rounded-lg font-mono text-sm text-gray-800 text-center">
+            {recoveryCodes.map(code => (
+              <span key={code}>{code}</span>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+            className="w-full px-6 py-3 border border-blue-600 text-blue-600 rounded-lg font-medium hover:bg-blue-50 transition-colors"
+          >
+            Copy Codes
+          </button>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg font-semibold hover:shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            I've Saved Them, Continue
+          </button>
+        </>
+      )}
+    </form>
+  );
+
+  const renderTotpInput = () => (
+    <div>
+      <label htmlFor="totp" className="block text-sm font-medium text-gray-700 mb-2">
+        Authenticator Code
+      </label>
+      <div className="relative">
+        <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+        <input
+          type="text"
+          id="totp"
+          name="totp"
+          value={formData.totp}
+          onChange={handleInputChange}
+          required
+          maxLength={6}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-center text-2xl font-mono tracking-widest"
+          placeholder="000000"
+        />
+      </div>
+    </div>
+  );
+
+  const renderMfaStart = () => (
+    <div className="text-center space-y-6">
+      {error && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-left">
+          <AlertCircle className="h-5 w-5 text-red-600" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+      <div>
+        <ShieldCheck className="h-12 w-12 text-blue-600 mx-auto mb-2" />
+        <h3 className="text-lg font-semibold text-gray-900">Verify It's You</h3>
+        <p className="text-sm text-gray-600">
+          Your role needs two-factor authentication. Continue to enter a code from your authenticator app, or to set one up.
+        </p>
+      </div>
+      <button
+        onClick={handleStartMfa}
+        disabled={isLoading}
+        className="w-full px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg font-semibold hover:shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? 'Checking...' : 'Continue'}
+      </button>
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
@@ -609,6 +1052,7 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
                 {mode === 'login' && 'Sign in to your account'}
                 {mode === 'signup' && 'Create your account'}
                 {mode === 'admin' && 'Admin portal access'}
+                {mode === 'mfa' && 'Two-factor verification'}
               </p>
             </div>
             <button
@@ -656,9 +1100,14 @@ const AuthModal: React.FC<AuthModalProps> = ({ mode, onClose, onSwitchMode }) =>
 
         {/* Content */}
         <div className="p-6">
-          {mode === 'login' && renderLogin()}
-          {mode === 'signup' && renderSignup()}
-          {mode === 'admin' && renderAdmin()}
+          {mfaStage ? renderMfa() : (
+            <>
+              {mode === 'login' && renderLogin()}
+              {mode === 'signup' && renderSignup()}
+              {mode === 'admin' && renderAdmin()}
+              {mode === 'mfa' && renderMfaStart()}
+            </>
+          )}
         </div>
 
         {/* Footer */}
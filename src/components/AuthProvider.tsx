@@ -0,0 +1,82 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import type { User } from '@supabase/supabase-js';
+import AuthModal from './AuthModal';
+import { supabase, signOut as endSession } from '../lib/supabase';
+import { useCurrentRole } from '../lib/roles';
+import { AuthContext, safeReturnPath, type AuthContextValue, type AuthMode } from '../lib/auth';
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+// Holds the session, role and sign-in modal for the whole app; read them with useAuth()
+const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // An organization invite link (/?invite=<id>) opens straight into signup
+  const [inviteId] = useState(() => new URLSearchParams(window.location.search).get('invite'));
+  const [showAuthModal, setShowAuthModal] = useState(!!inviteId);
+  const [authMode, setAuthMode] = useState<AuthMode>(inviteId ? 'signup' : 'login');
+  const [returnTo, setReturnTo] = useState<string | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const { role, needsMfa, isLoading } = useCurrentRole();
+
+  useEffect(() => {
+    // Fires once straight away with the stored session
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Route guards send signed-out visitors to /login?returnTo=<where they were going>
+  useEffect(() => {
+    if (location.pathname !== '/login') return;
+    setReturnTo(safeReturnPath(new URLSearchParams(location.search).get('returnTo')));
+    setAuthMode('login');
+    setShowAuthModal(true);
+  }, [location.pathname, location.search]);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    user,
+    role,
+    needsMfa,
+    isLoading,
+    openAuth: (mode, path) => {
+      setAuthMode(mode);
+      setReturnTo(safeReturnPath(path));
+      setShowAuthModal(true);
+    },
+    signOut: async () => {
+      await endSession();
+      navigate('/');
+    }
+  }), [user, role, needsMfa, isLoading, navigate]);
+
+  const closeAuthModal = () => {
+    setShowAuthModal(false);
+    if (location.pathname === '/login') {
+      navigate('/', { replace: true });
+    }
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      {showAuthModal && (
+        <AuthModal
+          mode={authMode}
+          onClose={closeAuthModal}
+          onSwitchMode={setAuthMode}
+          inviteId={inviteId}
+          returnTo={returnTo}
+        />
+      )}
+    </AuthContext.Provider>
+  );
+};
+
+export default AuthProvider;
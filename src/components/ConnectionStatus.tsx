@@ -0,0 +1,47 @@
+import React from 'react';
+import { Wifi, WifiOff, RefreshCw } from 'lucide-react';
+import type { LiveConnection } from '../lib/realtime';
+
+interface ConnectionStatusProps {
+  connection: LiveConnection;
+  showReconnect?: boolean;
+}
+
+const stateStyles = {
+  connected: { label: 'Live', className: 'text-green-600' },
+  connecting: { label: 'Connecting...', className: 'text-blue-600' },
+  reconnecting: { label: 'Reconnecting...', className: 'text-yellow-600' },
+  disconnected: { label: 'Disconnected', className: 'text-red-600' }
+};
+
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ connection, showReconnect = true }) => {
+  const { label, className } = stateStyles[connection.state];
+  const isUp = connection.state === 'connected';
+
+  return (
+    <div className="flex items-center space-x-2">
+      {isUp ? (
+        <Wifi className={`h-5 w-5 ${className}`} />
+      ) : (
+        <WifiOff className={`h-5 w-5 ${className} ${connection.state === 'disconnected' ? '' : 'animate-pulse'}`} />
+      )}
+      <span className={`font-medium text-sm ${className}`}>{label}</span>
+      {connection.reconnects > 0 && (
+        <span className="text-xs text-gray-500">
+          {connection.reconnects} reconnect{connection.reconnects === 1 ? '' : 's'}
+        </span>
+      )}
+      {showReconnect && !isUp && (
+        <button
+          onClick={connection.reconnect}
+          className="p-1 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+          title="Reconnect now"
+        >
+          <RefreshCw className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionStatus;
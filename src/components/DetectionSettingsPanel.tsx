@@ -0,0 +1,331 @@
+import React, { useState, useEffect } from 'react';
+import { Sliders, Plus, Save, Trash2, History, Loader } from 'lucide-react';
+import {
+  getDetectionSettings,
+  saveDetectionSetting,
+  deleteDetectionSetting,
+  getDetectionSettingsAudit
+} from '../lib/repository';
+import { SIGNAL_TYPES } from '../lib/constants';
+import type { DetectionSetting, DetectionSettingAudit, Json } from '../lib/types';
+
+type ThresholdField = 'min_signals' | 'medium_threshold' | 'high_threshold' | 'z_threshold';
+
+const thresholdFields: { field: ThresholdField; label: string; hint: string; step: string }[] = [
+  { field: 'high_threshold', label: 'High Severity Threshold', hint: 'Signals in 24h that make an event high severity', step: '1' },
+  { field: 'medium_threshold', label: 'Medium Severity Threshold', hint: 'Signals in 24h that make an event medium severity', step: '1' },
+  { field: 'min_signals', label: 'Low Severity Threshold', hint: 'Minimum signals in 24h before an event can open', step: '1' },
+  { field: 'z_threshold', label: 'Anomaly Z-Score', hint: 'Standard deviations above the area baseline', step: '0.1' }
+];
+
+const describeScope = (setting: Pick<DetectionSetting, 'signal_type' | 'region'>) =>
+  `${setting.signal_type || 'All signal types'} · ${setting.region || 'Everywhere'}`;
+
+// Lists the thresholds that differ between two audited snapshots
+const describeChange = (entry: DetectionSettingAudit) => {
+  const before = (entry.old_values ?? {}) as Record<string, Json | undefined>;
+  const after = (entry.new_values ?? {}) as Record<string, Json | undefined>;
+  const source = entry.action === 'deleted' ? before : after;
+  const scope = describeScope({
+    signal_type: (source.signal_type as string | null) ?? null,
+    region: (source.region as string | null) ?? null
+  });
+
+  if (entry.action !== 'updated') return `${entry.action} ${scope}`;
+
+  const changes = thresholdFields
+    .filter(({ field }) => before[field] !== after[field])
+    .map(({ field, label }) => `${label}: ${before[field]} → ${after[field]}`);
+
+  return `updated ${scope} — ${changes.length > 0 ? changes.join(', ') : 'no threshold changes'}`;
+};
+
+const DetectionSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<DetectionSetting[]>([]);
+  const [audit, setAudit] = useState<DetectionSettingAudit[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [draft, setDraft] = useState<Record<ThresholdField, string>>({
+    min_signals: '',
+    medium_threshold: '',
+    high_threshold: '',
+    z_threshold: ''
+  });
+  const [newRule, setNewRule] = useState({ signal_type: '', region: '' });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    const selected = settings.find(setting => setting.id === selectedId);
+    if (selected) {
+      setDraft({
+        min_signals: String(selected.min_signals),
+        medium_threshold: String(selected.medium_threshold),
+        high_threshold: String(selected.high_threshold),
+        z_threshold: String(selected.z_threshold)
+      });
+    }
+  }, [selectedId, settings]);
+
+  const loadSettings = async () => {
+    setIsLoading(true);
+    const [settingsResult, auditResult] = await Promise.all([
+      getDetectionSettings(),
+      getDetectionSettingsAudit()
+    ]);
+
+    if (settingsResult.ok) {
+      setSettings(settingsResult.data);
+      setSelectedId(current =>
+        settingsResult.data.some(setting => setting.id === current)
+          ? current
+          : settingsResult.data[0]?.id ?? ''
+      );
+    } else {
+      setError(settingsResult.error.message);
+    }
+
+    if (auditResult.ok) setAudit(auditResult.data);
+    setIsLoading(false);
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const handleSave = async () => {
+    const selected = settings.find(setting => setting.id === selectedId);
+    if (!selected) return;
+
+    const minSignals = parseInt(draft.min_signals, 10);
+    const medium = parseInt(draft.medium_threshold, 10);
+    const high = parseInt(draft.high_threshold, 10);
+    const zScore = parseFloat(draft.z_threshold);
+
+    if ([minSignals, medium, high, zScore].some(value => isNaN(value) || value <= 0)) {
+      setError('All thresholds must be positive numbers');
+      return;
+    }
+    if (!(minSignals <= medium && medium <= high)) {
+      setError('Thresholds must increase from low to medium to high');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    const result = await saveDetectionSetting({
+      id: selected.id,
+      signal_type: selected.signal_type,
+      region: selected.region,
+      min_signals: minSignals,
+      medium_threshold: medium,
+      high_threshold: high,
+      z_threshold: zScore
+    });
+    setIsSaving(false);
+
+    if (!result.ok) {
+      setError(result.error.message || 'Failed to save thresholds');
+      return;
+    }
+
+    flash('Thresholds saved');
+    loadSettings();
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const signalType = newRule.signal_type || null;
+    const region = newRule.region.trim() || null;
+
+    if (!signalType && !region) {
+      setError('Choose a signal type or a region for the new rule');
+      return;
+    }
+
+    // New rules start from the default thresholds
+    const fallback = settings.find(setting => setting.signal_type === null && setting.region === null);
+
+    setIsSaving(true);
+    setError('');
+    const result = await saveDetectionSetting({
+      signal_type: signalType,
+      region,
+      min_signals: fallback?.min_signals,
+      medium_threshold: fallback?.medium_threshold,
+      high_threshold: fallback?.high_threshold,
+      z_threshold: fallback?.z_threshold
+    });
+    setIsSaving(false);
+
+    if (!result.ok) {
+      setError(result.error.code === '23505' ? 'A rule for that scope already exists' : result.error.message);
+      return;
+    }
+
+    setNewRule({ signal_type: '', region: '' });
+    setSelectedId(result.data.id);
+    flash('Rule added');
+    loadSettings();
+  };
+
+  const handleDelete = async () => {
+    const selected = settings.find(setting => setting.id === selectedId);
+    if (!selected || (!selected.signal_type && !selected.region)) return;
+    if (!confirm(`Delete the rule for ${describeScope(selected)}?`)) return;
+
+    const result = await deleteDetectionSetting(selected.id);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    setSelectedId('');
+    flash('Rule deleted');
+    loadSettings();
+  };
+
+  const selected = settings.find(setting => setting.id === selectedId);
+  const isDefault = !!selected && !selected.signal_type && !selected.region;
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg">
+      <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center space-x-2">
+        <Sliders className="h-5 w-5 text-blue-600" />
+        <span>Alert Thresholds</span>
+      </h3>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Rule</label>
+            <select
+              value={selectedId}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {settings.map(setting => (
+                <option key={setting.id} value={setting.id}>{describeScope(setting)}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              The most specific rule for a signal's type and location applies; the default covers everything else.
+            </p>
+          </div>
+
+          {thresholdFields.map(({ field, label, hint, step }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+              <input
+                type="number"
+                min="0"
+                step={step}
+                value={draft[field]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">{hint}</p>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-end space-x-3">
+            {!isDefault && (
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 border border-red-200 text-red-600 rounded-lg font-medium hover:bg-red-50 transition-colors flex items-center space-x-2"
+              >
+                <Trash2 className="h-4 w-4" />
+                <span>Delete Rule</span>
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !selected}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4" />
+              <span>Save Thresholds</span>
+            </button>
+          </div>
+
+          <form onSubmit={handleAddRule} className="pt-4 border-t border-gray-200 space-y-3">
+            <p className="text-sm font-medium text-gray-700">Add a rule for a signal type or region</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <select
+                value={newRule.signal_type}
+                onChange={(e) => setNewRule(prev => ({ ...prev, signal_type: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All signal types</option>
+                {SIGNAL_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={newRule.region}
+                onChange={(e) => setNewRule(prev => ({ ...prev, region: e.target.value }))}
+                placeholder="Region, e.g. Mumbai"
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add Rule</span>
+              </button>
+            </div>
+          </form>
+
+          <div className="pt-4 border-t border-gray-200">
+            <p className="text-sm font-medium text-gray-700 mb-3 flex items-center space-x-2">
+              <History className="h-4 w-4" />
+              <span>Recent Changes</span>
+            </p>
+            {audit.length > 0 ? (
+              <ul className="space-y-2 max-h-48 overflow-y-auto">
+                {audit.map(entry => (
+                  <li key={entry.id} className="text-xs text-gray-600">
+                    <span className="font-medium text-gray-900">{entry.changed_by_name || 'System'}</span>
+                    {' '}{describeChange(entry)}
+                    <span className="text-gray-400"> · {new Date(entry.changed_at).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-500">No changes recorded yet</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DetectionSettingsPanel;
@@ -1,21 +1,10 @@
 import React from 'react';
 import { MapPin, Clock, TrendingUp, AlertTriangle, Users, ChevronRight } from 'lucide-react';
 import { Link } from 'react-router-dom';
-
-interface Event {
-  id: string;
-  title: string;
-  location: string;
-  event_type: string;
-  severity: 'low' | 'medium' | 'high';
-  status: string;
-  signal_count: number;
-  description: string;
-  created_at: string;
-}
+import type { HealthEvent } from '../lib/types';
 
 interface EventCardProps {
-  event: Event;
+  event: HealthEvent;
   className?: string;
 }
 
@@ -77,7 +66,7 @@ const EventCard: React.FC<EventCardProps> = ({ event, className = '' }) => {
         <div className="p-2 bg-white rounded-lg shadow-sm">
           <AlertTriangle className="h-4 w-4 text-gray-600" />
         </div>
-        <span className="text-sm font-medium text-gray-600">{event.event_type} Event</span>
+        <span className="text-sm font-medium text-gray-600">{event.type} Event</span>
       </div>
 
       <h3 className="font-bold text-gray-900 mb-3 group-hover:text-blue-600 transition-colors line-clamp-2">
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { GitMerge, ArrowUpCircle, ArrowDownCircle, CheckCircle, RotateCcw, Loader } from 'lucide-react';
+import { getEvents, transitionEvent } from '../lib/repository';
+import type { EventTransition, HealthEvent } from '../lib/types';
+
+type LifecycleAction = EventTransition['action'];
+
+interface EventLifecyclePanelProps {
+  event: HealthEvent;
+  onTransition: (event: HealthEvent) => void;
+}
+
+const actionStyles: Record<LifecycleAction, { label: string; icon: React.ElementType; className: string }> = {
+  escalate: { label: 'Escalate', icon: ArrowUpCircle, className: 'border-red-200 text-red-700 hover:bg-red-50' },
+  downgrade: { label: 'Downgrade', icon: ArrowDownCircle, className: 'border-yellow-200 text-yellow-700 hover:bg-yellow-50' },
+  merge: { label: 'Merge', icon: GitMerge, className: 'border-purple-200 text-purple-700 hover:bg-purple-50' },
+  resolve: { label: 'Resolve', icon: CheckCircle, className: 'border-green-200 text-green-700 hover:bg-green-50' },
+  reopen: { label: 'Reopen', icon: RotateCcw, className: 'border-blue-200 text-blue-700 hover:bg-blue-50' }
+};
+
+// Mirrors what transition_event() accepts, so only actions that can succeed are offered
+const availableActions = (event: HealthEvent): LifecycleAction[] => {
+  switch (event.status) {
+    case 'active':
+      return event.severity === 'high' ? ['downgrade', 'merge', 'resolve'] : ['escalate', 'downgrade', 'merge', 'resolve'];
+    case 'monitoring':
+      return event.severity === 'low' ? ['escalate', 'merge', 'resolve'] : ['escalate', 'downgrade', 'merge', 'resolve'];
+    case 'resolved':
+      return ['reopen'];
+    default:
+      return [];
+  }
+};
+
+const EventLifecyclePanel: React.FC<EventLifecyclePanelProps> = ({ event, onTransition }) => {
+  const [action, setAction] = useState<LifecycleAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [targetId, setTargetId] = useState('');
+  const [mergeTargets, setMergeTargets] = useState<HealthEvent[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (action !== 'merge') return;
+
+    getEvents().then(result => {
+      if (!result.ok) {
+        setError(result.error.message);
+        return;
+      }
+
+      // Same-type events first, as those are the usual duplicates
+      const open = result.data.filter(candidate =>
+        candidate.id !== event.id && (candidate.status === 'active' || candidate.status === 'monitoring')
+      );
+      setMergeTargets([
+        ...open.filter(candidate => candidate.type === event.type),
+        ...open.filter(candidate => candidate.type !== event.type)
+      ]);
+    });
+  }, [action, event.id, event.type]);
+
+  const chooseAction = (next: LifecycleAction) => {
+    setError('');
+    setAction(current => (current === next ? null : next));
+    setTargetId('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action) return;
+
+    if (!reason.trim()) {
+      setError('Give a reason for this change');
+      return;
+    }
+    if (action === 'merge' && !targetId) {
+      setError('Choose the event to merge into');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    const result = await transitionEvent({
+      eventId: event.id,
+      action,
+      reason: reason.trim(),
+      targetEventId: action === 'merge' ? targetId : undefined
+    });
+    setIsSaving(false);
+
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    setAction(null);
+    setReason('');
+    setTargetId('');
+    onTransition(result.data);
+  };
+
+  const actions = availableActions(event);
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg mb-8">
+      <h3 className="text-lg font-bold text-gray-900 mb-1">Manage Lifecycle</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Every change is recorded on the event timeline with your name and reason.
+      </p>
+
+      {actions.length === 0 ? (
+        <p className="text-sm text-gray-500">This event has been merged and can no longer change.</p>
+      ) : (
+        <div className="flex flex-wrap gap-3">
+          {actions.map(option => {
+            const { label, icon: Icon, className } = actionStyles[option];
+            return (
+              <button
+                key={option}
+                onClick={() => chooseAction(option)}
+                className={`px-4 py-2 border rounded-lg font-medium transition-colors flex items-center space-x-2 ${className} ${
+                  action === option ? 'ring-2 ring-offset-1 ring-blue-500' : ''
+                }`}
+              >
+                <Icon className="h-4 w-4" />
+                <span>{label}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {action && (
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          {action === 'merge' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Merge into</label>
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Select an open event</option>
+                {mergeTargets.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.title} · {candidate.location} ({candidate.severity})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              placeholder="Why is this change being made?"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex items-center space-x-3">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center space-x-2"
+            >
+              {isSaving && <Loader className="h-4 w-4 animate-spin" />}
+              <span>Confirm {actionStyles[action].label.toLowerCase()}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setAction(null)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default EventLifecyclePanel;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { StickyNote, Trash2, Loader } from 'lucide-react';
+import { getMyMembership, getEventNotes, addEventNote, deleteEventNote } from '../lib/repository';
+import type { EventNote, OrganizationMembership } from '../lib/types';
+
+interface EventNotesPanelProps {
+  eventId: string;
+}
+
+// Notes only the signed-in user's organization can read; renders nothing outside an organization
+const EventNotesPanel: React.FC<EventNotesPanelProps> = ({ eventId }) => {
+  const [membership, setMembership] = useState<OrganizationMembership | null>(null);
+  const [notes, setNotes] = useState<EventNote[]>([]);
+  const [body, setBody] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    const load = async () => {
+      const membershipResult = await getMyMembership();
+      if (!isCurrent) return;
+
+      if (!membershipResult.ok || !membershipResult.data) {
+        setMembership(null);
+        setIsLoading(false);
+        return;
+      }
+
+      setMembership(membershipResult.data);
+      const notesResult = await getEventNotes(eventId);
+      if (!isCurrent) return;
+
+      if (notesResult.ok) {
+        setNotes(notesResult.data);
+      } else {
+        setError(notesResult.error.message);
+      }
+      setIsLoading(false);
+    };
+
+    load();
+    return () => {
+      isCurrent = false;
+    };
+  }, [eventId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!membership || !body.trim()) return;
+
+    setIsSaving(true);
+    setError('');
+    const result = await addEventNote(eventId, membership.organization_id, body.trim());
+    setIsSaving(false);
+
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    setNotes(current => [...current, result.data]);
+    setBody('');
+  };
+
+  const handleDelete = async (note: EventNote) => {
+    if (!window.confirm('Delete this note?')) return;
+
+    setError('');
+    const result = await deleteEventNote(note.id);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    setNotes(current => current.filter(item => item.id !== note.id));
+  };
+
+  if (!isLoading && !membership) return null;
+
+  const canDelete = (note: EventNote) => note.author_id === membership?.user_id || membership?.member_role === 'admin';
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg mb-8">
+      <h3 className="text-lg font-bold text-gray-900 mb-1 flex items-center space-x-2">
+        <StickyNote className="h-5 w-5 text-blue-600" />
+        <span>Organization Notes</span>
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Only members of {membership?.organizations?.name ?? 'your organization'} can see these notes.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+        </div>
+      ) : (
+        <>
+          {notes.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-4">No notes yet.</p>
+          ) : (
+            <div className="space-y-3 mb-4">
+              {notes.map(note => (
+                <div key={note.id} className="p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-start justify-between gap-3">
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap">{note.body}</p>
+                    {canDelete(note) && (
+                      <button
+                        onClick={() => handleDelete(note)}
+                        className="p-1 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors shrink-0"
+                        title="Delete note"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {note.author_name ?? 'A member'} · {new Date(note.created_at).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <textarea
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              rows={3}
+              maxLength={5000}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="Add a note for your organization"
+            />
+            <button
+              type="submit"
+              disabled={isSaving || !body.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Add Note'}
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EventNotesPanel;
@@ -1,15 +1,19 @@
 import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Menu, X, LogIn, Play, Bell, Shield } from 'lucide-react';
+import { Menu, X, LogIn, LogOut, Play, Bell, Shield } from 'lucide-react';
 import Logo3D from './Logo3D';
+import NotificationCenter from './NotificationCenter';
+import { useUnreadNotificationCount } from '../lib/notifications';
+import { useAuth } from '../lib/auth';
+import { hasRole, roleLabel } from '../lib/roles';
 
-interface HeaderProps {
-  onOpenAuth: (mode: 'login' | 'signup' | 'admin') => void;
-}
-
-const Header: React.FC<HeaderProps> = ({ onOpenAuth }) => {
+const Header: React.FC = () => {
+  const { user, role, openAuth, signOut } = useAuth();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
   const location = useLocation();
+  const unreadCount = useUnreadNotificationCount(user !== null);
+  const unreadLabel = unreadCount > 99 ? '99+' : String(unreadCount);
 
   const navItems = [
     { name: 'Home', path: '/' },
@@ -22,6 +26,8 @@ const Header: React.FC<HeaderProps> = ({ onOpenAuth }) => {
   ];
 
   const isActive = (path: string) => location.pathname === path;
+  const displayName = user?.user_metadata?.full_name || user?.user_metadata?.username || user?.email;
+  const isStaff = hasRole(role, 'analyst');
 
   return (
     <header className="fixed top-0 w-full bg-white/95 backdrop-blur-sm border-b border-gray-100 z-50">
@@ -53,20 +59,61 @@ const Header: React.FC<HeaderProps> = ({ onOpenAuth }) => {
 
           {/* Desktop CTAs */}
           <div className="hidden md:flex items-center space-x-3 lg:space-x-4">
-            <Link 
-              to="/alerts"
-              className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors relative"
-            >
-              <Bell className="h-5 w-5" />
-              <span className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">3</span>
-            </Link>
-            <button 
-              onClick={() => onOpenAuth('login')}
-              className="flex items-center space-x-2 px-3 lg:px-4 py-2 text-sm font-medium text-gray-700 hover:text-blue-600 transition-colors"
-            >
-              <LogIn className="h-4 w-4" />
-              <span className="hidden lg:inline">Log In</span>
-            </button>
+            {user ? (
+              <button
+                onClick={() => setShowNotifications(true)}
+                className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors relative"
+                title="Notifications"
+              >
+                <Bell className="h-5 w-5" />
+                {unreadCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
+                    {unreadLabel}
+                  </span>
+                )}
+              </button>
+            ) : (
+              <Link
+                to="/alerts"
+                className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                title="Alerts"
+              >
+                <Bell className="h-5 w-5" />
+              </Link>
+            )}
+            {isStaff && (
+              <Link
+                to="/admin"
+                className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                title="Admin"
+              >
+                <Shield className="h-5 w-5" />
+              </Link>
+            )}
+            {user ? (
+              <>
+                <div className="hidden lg:block text-right leading-tight max-w-40">
+                  <p className="text-sm font-medium text-gray-900 truncate">{displayName}</p>
+                  <p className="text-xs text-gray-500">{roleLabel(role)}</p>
+                </div>
+                <button
+                  onClick={signOut}
+                  className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-gray-700 hover:text-blue-600 transition-colors"
+                  title="Sign out"
+                >
+                  <LogOut className="h-4 w-4" />
+                  <span className="hidden xl:inline">Sign Out</span>
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => openAuth('login')}
+                className="flex items-center space-x-2 px-3 lg:px-4 py-2 text-sm font-medium text-gray-700 hover:text-blue-600 transition-colors"
+              >
+                <LogIn className="h-4 w-4" />
+                <span className="hidden lg:inline">Log In</span>
+              </button>
+            )}
             <Link
               to="/dashboard"
               className="flex items-center space-x-2 px-4 lg:px-6 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg font-medium text-sm hover:shadow-lg transition-all duration-200"
@@ -104,25 +151,62 @@ const Header: React.FC<HeaderProps> = ({ onOpenAuth }) => {
                 </Link>
               ))}
               <div className="flex flex-col space-y-2 pt-4 border-t border-gray-100">
-                <Link 
-                  to="/alerts"
-                  className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 hover:text-blue-600 transition-colors"
-                  onClick={() => setIsMenuOpen(false)}
-                >
-                  <Bell className="h-4 w-4" />
-                  <span>Alerts</span>
-                  <span className="ml-auto w-5 h-5 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">3</span>
-                </Link>
-                <button 
-                  onClick={() => {
-                    onOpenAuth('login');
-                    setIsMenuOpen(false);
-                  }}
-                  className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 hover:text-blue-600 transition-colors"
-                >
-                  <LogIn className="h-4 w-4" />
-                  <span>Log In</span>
-                </button>
+                {user && (
+                  <button
+                    onClick={() => {
+                      setShowNotifications(true);
+                      setIsMenuOpen(false);
+                    }}
+                    className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 hover:text-blue-600 transition-colors"
+                  >
+                    <Bell className="h-4 w-4" />
+                    <span>Notifications</span>
+                    {unreadCount > 0 && (
+                      <span className="ml-auto min-w-5 h-5 px-1 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
+                        {unreadLabel}
+                      </span>
+                    )}
+                  </button>
+                )}
+                {isStaff && (
+                  <Link
+                    to="/admin"
+                    className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 hover:text-blue-600 transition-colors"
+                    onClick={() => setIsMenuOpen(false)}
+                  >
+                    <Shield className="h-4 w-4" />
+                    <span>Admin</span>
+                  </Link>
+                )}
+                {user ? (
+                  <>
+                    <div className="px-4 py-2">
+                      <p className="text-sm font-medium text-gray-900 truncate">{displayName}</p>
+                      <p className="text-xs text-gray-500">{roleLabel(role)}</p>
+                    </div>
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        signOut();
+                      }}
+                      className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 hover:text-blue-600 transition-colors"
+                    >
+                      <LogOut className="h-4 w-4" />
+                      <span>Sign Out</span>
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => {
+                      openAuth('login');
+                      setIsMenuOpen(false);
+                    }}
+                    className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 hover:text-blue-600 transition-colors"
+                  >
+                    <LogIn className="h-4 w-4" />
+                    <span>Log In</span>
+                  </button>
+                )}
                 <Link
                   to="/dashboard"
                   className="flex items-center space-x-2 px-6 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg font-medium text-sm"
@@ -136,6 +220,11 @@ const Header: React.FC<HeaderProps> = ({ onOpenAuth }) => {
           </div>
         )}
       </div>
+
+      <NotificationCenter
+        isOpen={showNotifications}
+        onClose={() => setShowNotifications(false)}
+      />
     </header>
   );
 };
@@ -1,55 +1,74 @@
 import React, { useState, useEffect } from 'react';
 import { Activity, RefreshCw, Filter, AlertTriangle, TrendingUp } from 'lucide-react';
-import { getEvents, getSignals } from '../lib/supabase';
+import { getEvents, getSignals } from '../lib/repository';
+import { applyChange, ratePerMinute, useLiveChanges, type LiveChange } from '../lib/realtime';
+import type { HealthEvent, Signal } from '../lib/types';
 import EventCard from './EventCard';
+import ConnectionStatus from './ConnectionStatus';
+
+const RECENT_WINDOW_MS = 6 * 60 * 60 * 1000;
 
 const LiveEventFeed = () => {
-  const [events, setEvents] = useState([]);
-  const [recentSignals, setRecentSignals] = useState([]);
+  const [events, setEvents] = useState<HealthEvent[]>([]);
+  const [recentSignals, setRecentSignals] = useState<Signal[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
   const [filter, setFilter] = useState('all');
-  const [autoRefresh, setAutoRefresh] = useState(true);
+  const [isLive, setIsLive] = useState(true);
 
   useEffect(() => {
     loadData();
-    
-    // Set up auto-refresh every 30 seconds
-    let interval: NodeJS.Timeout;
-    if (autoRefresh) {
-      interval = setInterval(loadData, 30000);
-    }
-    
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [autoRefresh]);
+  }, []);
 
   const loadData = async () => {
-    try {
-      const [eventsResult, signalsResult] = await Promise.all([
-        getEvents(),
-        getSignals()
-      ]);
-      
-      if (eventsResult.data) {
-        setEvents(eventsResult.data);
-      }
-      
-      if (signalsResult.data) {
-        // Get only recent signals (last 6 hours)
-        const sixHoursAgo = new Date(Date.now() - 6 * 60 * 60 * 1000);
-        const recent = signalsResult.data.filter(signal => 
-          new Date(signal.created_at) > sixHoursAgo
-        );
-        setRecentSignals(recent);
-      }
-    } catch (error) {
-      console.error('Error loading live data:', error);
-    } finally {
-      setIsLoading(false);
+    const [eventsResult, signalsResult] = await Promise.all([
+      getEvents(),
+      getSignals()
+    ]);
+
+    const errors: string[] = [];
+
+    if (eventsResult.ok) {
+      setEvents(eventsResult.data);
+    } else {
+      console.error('Error loading live events:', eventsResult.error.message);
+      errors.push(`events (${eventsResult.error.message})`);
     }
+
+    if (signalsResult.ok) {
+      // Get only recent signals (last 6 hours)
+      const sixHoursAgo = new Date(Date.now() - RECENT_WINDOW_MS);
+      const recent = signalsResult.data.filter(signal => 
+        new Date(signal.created_at) > sixHoursAgo
+      );
+      setRecentSignals(recent);
+    } else {
+      console.error('Error loading live signals:', signalsResult.error.message);
+      errors.push(`signals (${signalsResult.error.message})`);
+    }
+
+    setLoadError(errors.join(', '));
+    setIsLoading(false);
   };
 
+  const handleChange = (change: LiveChange) => {
+    if (change.table === 'events') {
+      const { payload } = change;
+      setEvents(prev => applyChange(prev, payload));
+    } else if (change.table === 'signals') {
+      const { payload } = change;
+      const since = Date.now() - RECENT_WINDOW_MS;
+      setRecentSignals(prev =>
+        applyChange(prev, payload).filter(signal => new Date(signal.created_at).getTime() > since)
+      );
+    }
+  };
+
+  const connection = useLiveChanges(['events', 'signals'], handleChange, {
+    enabled: isLive,
+    onResync: loadData
+  });
+
   const filteredEvents = events.filter(event => {
     if (filter === 'all') return true;
     if (filter === 'active') return event.status === 'active';
@@ -58,7 +77,7 @@ const LiveEventFeed = () => {
   });
 
   const getSignalsByLocation = () => {
-    const locationCounts = {};
+    const locationCounts: Record<string, number> = {};
     recentSignals.forEach(signal => {
       const location = signal.location.split(',')[0]; // Get city name
       locationCounts[location] = (locationCounts[location] || 0) + 1;
@@ -95,6 +114,8 @@ const LiveEventFeed = () => {
           </div>
           
           <div className="flex items-center space-x-3">
+            {isLive && <ConnectionStatus connection={connection} />}
+            
             <select
               value={filter}
               onChange={(e) => setFilter(e.target.value)}
@@ -115,17 +136,23 @@ const LiveEventFeed = () => {
             </button>
             
             <button
-              onClick={() => setAutoRefresh(!autoRefresh)}
+              onClick={() => setIsLive(!isLive)}
               className={`px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
-                autoRefresh 
+                isLive 
                   ? 'bg-green-100 text-green-700' 
                   : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
               }`}
             >
-              {autoRefresh ? 'Auto-refresh ON' : 'Auto-refresh OFF'}
+              {isLive ? 'Live updates ON' : 'Live updates OFF'}
             </button>
           </div>
         </div>
+
+        {loadError && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700 text-sm">Could not load {loadError}</p>
+          </div>
+        )}
       </div>
 
       {/* Stats Overview */}
@@ -151,7 +178,9 @@ const LiveEventFeed = () => {
             </div>
             <div>
               <div className="text-2xl font-bold text-gray-900">{recentSignals.length}</div>
-              <div className="text-sm text-gray-600">Signals (6h)</div>
+              <div className="text-sm text-gray-600">
+                Signals (6h) · {ratePerMinute(recentSignals.map(signal => new Date(signal.created_at).getTime())).toFixed(1)}/min now
+              </div>
             </div>
           </div>
         </div>
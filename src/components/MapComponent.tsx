@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import type { Severity } from '../lib/types';
 
 // Fix for default markers
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -10,18 +11,19 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
 });
 
-interface Signal {
+// A plotted point; callers map signals, events or alerts onto this shape
+export interface MapMarker {
   id: string;
   lat: number;
   lng: number;
   type: string;
-  severity: 'low' | 'medium' | 'high';
+  severity: Severity;
   location: string;
   timestamp: string;
 }
 
 interface MapComponentProps {
-  signals?: Signal[];
+  signals?: MapMarker[];
   height?: string;
   center?: [number, number];
   zoom?: number;
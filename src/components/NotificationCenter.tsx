@@ -1,114 +1,99 @@
-import React, { useState, useEffect } from 'react';
-import { Bell, X, Check, AlertTriangle, Info, CheckCircle, Clock, Filter, MoreVertical } from 'lucide-react';
-import { getAlerts, getEvents } from '../lib/supabase';
-
-interface Notification {
-  id: string;
-  type: 'alert' | 'event' | 'system';
-  title: string;
-  message: string;
-  severity: 'low' | 'medium' | 'high';
-  timestamp: string;
-  read: boolean;
-  actionUrl?: string;
-}
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, X, Check, AlertTriangle, Info, Clock, Filter, Archive, ArchiveRestore, Circle, Inbox } from 'lucide-react';
+import { getNotifications, updateNotifications, markAllNotificationsRead } from '../lib/repository';
+import { applyChange, useLiveChanges, type LiveChange } from '../lib/realtime';
+import type { NotificationUpdate, NotificationView, UserNotification } from '../lib/types';
 
 interface NotificationCenterProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Whether a row still belongs in the list being shown
+const belongsTo = (notification: UserNotification, view: NotificationView) =>
+  notification.dismissed_at === null && (view === 'archived') === (notification.archived_at !== null);
+
 const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose }) => {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [view, setView] = useState<NotificationView>('inbox');
   const [filter, setFilter] = useState<'all' | 'unread' | 'high'>('all');
   const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const loadNotifications = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getNotifications(view);
+    if (result.ok) {
+      setNotifications(result.data);
+      setError('');
+      setLastUpdated(new Date());
+    } else {
+      setError(result.error.message);
+    }
+    setIsLoading(false);
+  }, [view]);
 
   useEffect(() => {
     if (isOpen) {
       loadNotifications();
     }
-  }, [isOpen]);
-
-  const loadNotifications = async () => {
-    setIsLoading(true);
-    try {
-      const [alertsResult, eventsResult] = await Promise.all([
-        getAlerts(),
-        getEvents()
-      ]);
-
-      const alertNotifications: Notification[] = (alertsResult.data || []).map(alert => ({
-        id: `alert-${alert.id}`,
-        type: 'alert' as const,
-        title: alert.title,
-        message: `Health alert issued for ${alert.location}`,
-        severity: alert.severity as 'low' | 'medium' | 'high',
-        timestamp: alert.issued_at,
-        read: false,
-        actionUrl: `/alerts`
-      }));
+  }, [isOpen, loadNotifications]);
 
-      const eventNotifications: Notification[] = (eventsResult.data || [])
-        .filter(event => event.status === 'active')
-        .map(event => ({
-          id: `event-${event.id}`,
-          type: 'event' as const,
-          title: event.title,
-          message: `${event.signal_count} signals detected in ${event.location}`,
-          severity: event.severity as 'low' | 'medium' | 'high',
-          timestamp: event.created_at,
-          read: false,
-          actionUrl: `/event/${event.id}`
-        }));
+  const handleChange = (change: LiveChange) => {
+    if (change.table !== 'notifications') return;
+    setNotifications(current => applyChange(current, change.payload).filter(row => belongsTo(row, view)));
+    setLastUpdated(new Date());
+  };
 
-      const systemNotifications: Notification[] = [
-        {
-          id: 'system-1',
-          type: 'system',
-          title: 'AI Model Updated',
-          message: 'Detection algorithms have been improved for better accuracy',
-          severity: 'low',
-          timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-          read: false
-        }
-      ];
+  useLiveChanges(['notifications'], handleChange, { enabled: isOpen, onResync: loadNotifications });
 
-      const allNotifications = [...alertNotifications, ...eventNotifications, ...systemNotifications]
-        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-        .slice(0, 20);
+  // Applied locally straight away; the realtime echo of the same change is a no-op
+  const update = async (notification: UserNotification, changes: NotificationUpdate) => {
+    setNotifications(current =>
+      current
+        .map(row => (row.id === notification.id ? { ...row, ...changes } : row))
+        .filter(row => belongsTo(row, view))
+    );
 
-      setNotifications(allNotifications);
-    } catch (error) {
-      console.error('Error loading notifications:', error);
-    } finally {
-      setIsLoading(false);
+    const result = await updateNotifications([notification.id], changes);
+    if (!result.ok) {
+      setError(result.error.message);
+      loadNotifications();
     }
   };
 
-  const markAsRead = (id: string) => {
-    setNotifications(prev => 
-      prev.map(notif => 
-        notif.id === id ? { ...notif, read: true } : notif
-      )
-    );
+  const now = () => new Date().toISOString();
+
+  const markAllAsRead = async () => {
+    const result = await markAllNotificationsRead();
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    const readAt = now();
+    setNotifications(current => current.map(row => (row.read_at ? row : { ...row, read_at: readAt })));
   };
 
-  const markAllAsRead = () => {
-    setNotifications(prev => 
-      prev.map(notif => ({ ...notif, read: true }))
-    );
+  const openNotification = (notification: UserNotification) => {
+    if (!notification.read_at) {
+      update(notification, { read_at: now() });
+    }
+    if (notification.action_url) {
+      onClose();
+      navigate(notification.action_url);
+    }
   };
 
-  const getIcon = (type: string, severity: string) => {
-    if (type === 'alert') {
-      return severity === 'high' ? 
+  const getIcon = (notification: UserNotification) => {
+    if (notification.kind === 'alert') {
+      return notification.severity === 'high' ?
         <AlertTriangle className="h-5 w-5 text-red-600" /> :
         <Bell className="h-5 w-5 text-yellow-600" />;
     }
-    if (type === 'event') {
-      return <Info className="h-5 w-5 text-blue-600" />;
-    }
-    return <CheckCircle className="h-5 w-5 text-green-600" />;
+    return <Info className="h-5 w-5 text-blue-600" />;
   };
 
   const getSeverityColor = (severity: string) => {
@@ -121,12 +106,12 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose
   };
 
   const filteredNotifications = notifications.filter(notif => {
-    if (filter === 'unread') return !notif.read;
+    if (filter === 'unread') return !notif.read_at;
     if (filter === 'high') return notif.severity === 'high';
     return true;
   });
 
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const unreadCount = notifications.filter(n => !n.read_at).length;
 
   if (!isOpen) return null;
 
@@ -139,7 +124,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose
             <div>
               <h2 className="text-2xl font-bold">Notifications</h2>
               <p className="text-blue-100">
-                {unreadCount} unread • {notifications.length} total
+                {unreadCount} unread • {notifications.length} {view === 'archived' ? 'archived' : 'in inbox'}
               </p>
             </div>
             <button
@@ -153,12 +138,29 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose
 
         {/* Filters */}
         <div className="p-4 border-b border-gray-200">
-          <div className="flex items-center justify-between">
+          <div className="flex items-center justify-between gap-2">
             <div className="flex items-center space-x-2">
+              <div className="flex items-center bg-gray-100 rounded-lg p-1">
+                {([
+                  { id: 'inbox', name: 'Inbox', icon: Inbox },
+                  { id: 'archived', name: 'Archived', icon: Archive }
+                ] as const).map(tab => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setView(tab.id)}
+                    className={`flex items-center space-x-1 px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                      view === tab.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-blue-600'
+                    }`}
+                  >
+                    <tab.icon className="h-4 w-4" />
+                    <span>{tab.name}</span>
+                  </button>
+                ))}
+              </div>
               <Filter className="h-4 w-4 text-gray-600" />
               <select
                 value={filter}
-                onChange={(e) => setFilter(e.target.value as any)}
+                onChange={(e) => setFilter(e.target.value as 'all' | 'unread' | 'high')}
                 className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 <option value="all">All Notifications</option>
@@ -166,7 +168,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose
                 <option value="high">High Priority</option>
               </select>
             </div>
-            {unreadCount > 0 && (
+            {view === 'inbox' && unreadCount > 0 && (
               <button
                 onClick={markAllAsRead}
                 className="px-3 py-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
@@ -177,9 +179,15 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose
           </div>
         </div>
 
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg m-4">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
         {/* Notifications List */}
         <div className="overflow-y-auto max-h-96">
-          {isLoading ? (
+          {isLoading && notifications.length === 0 ? (
             <div className="flex items-center justify-center py-12">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
               <span className="ml-3 text-gray-600">Loading notifications...</span>
@@ -190,44 +198,48 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose
                 <div
                   key={notification.id}
                   className={`p-4 hover:bg-gray-50 transition-colors cursor-pointer border-l-4 ${getSeverityColor(notification.severity)} ${
-                    !notification.read ? 'bg-blue-50' : ''
+                    !notification.read_at ? 'bg-blue-50' : ''
                   }`}
-                  onClick={() => {
-                    markAsRead(notification.id);
-                    if (notification.actionUrl) {
-                      window.location.href = notification.actionUrl;
-                    }
-                  }}
+                  onClick={() => openNotification(notification)}
                 >
                   <div className="flex items-start space-x-3">
                     <div className="flex-shrink-0 mt-1">
-                      {getIcon(notification.type, notification.severity)}
+                      {getIcon(notification)}
                     </div>
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between">
-                        <h4 className={`text-sm font-medium ${!notification.read ? 'text-gray-900' : 'text-gray-700'}`}>
+                        <h4 className={`text-sm font-medium ${!notification.read_at ? 'text-gray-900' : 'text-gray-700'}`}>
                           {notification.title}
                         </h4>
-                        <div className="flex items-center space-x-2">
-                          {!notification.read && (
-                            <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
-                          )}
+                        <div className="flex items-center space-x-1" onClick={(e) => e.stopPropagation()}>
+                          <button
+                            onClick={() => update(notification, { read_at: notification.read_at ? null : now() })}
+                            className="p-1 text-gray-400 hover:text-blue-600"
+                            title={notification.read_at ? 'Mark as unread' : 'Mark as read'}
+                          >
+                            {notification.read_at ? <Circle className="h-4 w-4" /> : <Check className="h-4 w-4" />}
+                          </button>
+                          <button
+                            onClick={() => update(notification, { archived_at: notification.archived_at ? null : now() })}
+                            className="p-1 text-gray-400 hover:text-blue-600"
+                            title={notification.archived_at ? 'Move to inbox' : 'Archive'}
+                          >
+                            {notification.archived_at ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                          </button>
                           <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              markAsRead(notification.id);
-                            }}
-                            className="text-gray-400 hover:text-gray-600"
+                            onClick={() => update(notification, { dismissed_at: now() })}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Dismiss"
                           >
-                            <MoreVertical className="h-4 w-4" />
+                            <X className="h-4 w-4" />
                           </button>
                         </div>
                       </div>
                       <p className="text-sm text-gray-600 mt-1">{notification.message}</p>
                       <div className="flex items-center space-x-2 mt-2 text-xs text-gray-500">
                         <Clock className="h-3 w-3" />
-                        <span>{new Date(notification.timestamp).toLocaleString()}</span>
-                        <span className="capitalize">{notification.type}</span>
+                        <span>{new Date(notification.created_at).toLocaleString()}</span>
+                        <span className="capitalize">{notification.kind}</span>
                       </div>
                     </div>
                   </div>
@@ -239,7 +251,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose
               <Bell className="h-12 w-12 text-gray-300 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No notifications</h3>
               <p className="text-gray-600">
-                {filter === 'unread' ? 'All caught up!' : 'No notifications to show'}
+                {filter === 'unread' ? 'All caught up!' : view === 'archived' ? 'Nothing archived yet' : 'No notifications to show'}
               </p>
             </div>
           )}
@@ -249,7 +261,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose
         <div className="p-4 border-t border-gray-200 bg-gray-50">
           <div className="flex items-center justify-between text-sm">
             <span className="text-gray-600">
-              Last updated: {new Date().toLocaleTimeString()}
+              {lastUpdated ? `Last updated: ${lastUpdated.toLocaleTimeString()}` : 'Not loaded yet'}
             </span>
             <button
               onClick={loadNotifications}
@@ -264,4 +276,4 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose
   );
 };
 
-export default NotificationCenter;
\ No newline at end of file
+export default NotificationCenter;
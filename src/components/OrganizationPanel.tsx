@@ -0,0 +1,448 @@
+import React, { useState, useEffect } from 'react';
+import { Building, UserPlus, Trash2, Link2, LogOut, Check, X, Loader, Activity } from 'lucide-react';
+import WebhooksPanel from './WebhooksPanel';
+import { getCurrentUser } from '../lib/supabase';
+import {
+  getMyMembership,
+  getOrganizationMembers,
+  setMemberRole,
+  removeMember,
+  getOrganizationInvitations,
+  inviteToOrganization,
+  revokeInvitation,
+  getMyInvitations,
+  respondToInvitation,
+  getSignals
+} from '../lib/repository';
+import { MEMBER_ROLES, ORGANIZATION_KINDS } from '../lib/constants';
+import { invitationLink } from '../lib/organizations';
+import type {
+  MemberRole,
+  OrganizationInvitation,
+  OrganizationMember,
+  OrganizationMembership,
+  PendingInvitation,
+  Signal
+} from '../lib/types';
+
+const RECENT_SIGNAL_LIMIT = 20;
+
+const invitationStatus = (invitation: OrganizationInvitation) => {
+  if (invitation.accepted_at) return { label: 'Accepted', className: 'bg-green-100 text-green-700' };
+  if (invitation.declined_at) return { label: 'Declined', className: 'bg-gray-100 text-gray-600' };
+  if (invitation.revoked_at) return { label: 'Revoked', className: 'bg-gray-100 text-gray-600' };
+  if (new Date(invitation.expires_at).getTime() <= Date.now()) return { label: 'Expired', className: 'bg-gray-100 text-gray-600' };
+  return { label: 'Pending', className: 'bg-yellow-100 text-yellow-700' };
+};
+
+const isOpen = (invitation: OrganizationInvitation) => invitationStatus(invitation).label === 'Pending';
+
+const memberName = (member: OrganizationMember) => member.full_name || member.username || member.email;
+
+// The signed-in user's workspace: members, invitations and the signals it contributed, plus
+// webhook endpoints for organization admins. Without a membership it lists the invitations
+// waiting for the user's email
+const OrganizationPanel: React.FC = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [membership, setMembership] = useState<OrganizationMembership | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [pendingInvitations, setPendingInvitations] = useState<PendingInvitation[]>([]);
+  const [signals, setSignals] = useState<Signal[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<MemberRole>('member');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadOrganization();
+  }, []);
+
+  const loadOrganization = async () => {
+    setIsLoading(true);
+    const { user } = await getCurrentUser();
+    setUserId(user?.id ?? null);
+
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+
+    const membershipResult = await getMyMembership();
+    if (!membershipResult.ok) {
+      setError(membershipResult.error.message);
+      setIsLoading(false);
+      return;
+    }
+
+    const current = membershipResult.data;
+    setMembership(current);
+
+    if (current) {
+      const [membersResult, signalsResult, invitationsResult] = await Promise.all([
+        getOrganizationMembers(current.organization_id),
+        getSignals({ organizationId: current.organization_id, limit: RECENT_SIGNAL_LIMIT }),
+        current.member_role === 'admin' ? getOrganizationInvitations(current.organization_id) : null
+      ]);
+
+      if (membersResult.ok) setMembers(membersResult.data);
+      if (signalsResult.ok) setSignals(signalsResult.data);
+      if (invitationsResult?.ok) setInvitations(invitationsResult.data);
+
+      const failed = [membersResult, signalsResult, invitationsResult].find(result => result && !result.ok);
+      if (failed && !failed.ok) setError(failed.error.message);
+    } else {
+      const result = await getMyInvitations();
+      if (result.ok) {
+        setPendingInvitations(result.data);
+      } else {
+        setError(result.error.message);
+      }
+    }
+
+    setIsLoading(false);
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const handleRespond = async (invitation: PendingInvitation, accept: boolean) => {
+    setError('');
+    const result = await respondToInvitation(invitation.id, accept);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    flash(accept ? `You joined ${invitation.organization_name}` : 'Invitation declined');
+    loadOrganization();
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!membership) return;
+
+    setIsSaving(true);
+    setError('');
+    const result = await inviteToOrganization(membership.organization_id, inviteEmail, inviteRole);
+    setIsSaving(false);
+
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    setInvitations(current => [result.data, ...current]);
+    setInviteEmail('');
+    setInviteRole('member');
+    flash(`Invited ${result.data.email}; copy the signup link for anyone without an account`);
+  };
+
+  const handleCopyLink = async (invitation: OrganizationInvitation) => {
+    try {
+      await navigator.clipboard.writeText(invitationLink(invitation.id));
+      flash('Invitation link copied');
+    } catch {
+      setError('Could not copy the link; your browser blocked clipboard access');
+    }
+  };
+
+  const handleRevoke = async (invitation: OrganizationInvitation) => {
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+
+    setError('');
+    const result = await revokeInvitation(invitation.id);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    setInvitations(current =>
+      current.map(item => (item.id === invitation.id ? { ...item, revoked_at: new Date().toISOString() } : item))
+    );
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, memberRole: MemberRole) => {
+    if (!membership) return;
+
+    setError('');
+    const result = await setMemberRole(membership.organization_id, member.user_id, memberRole);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    setMembers(current => current.map(item => (item.user_id === member.user_id ? { ...item, member_role: memberRole } : item)));
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    if (!membership) return;
+
+    const isSelf = member.user_id === userId;
+    const prompt = isSelf
+      ? `Leave ${membership.organizations?.name ?? 'this organization'}? You will need a new invitation to rejoin.`
+      : `Remove ${memberName(member)} from the organization?`;
+    if (!window.confirm(prompt)) return;
+
+    setError('');
+    const result = await removeMember(membership.organization_id, member.user_id);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    if (isSelf) {
+      setMembers([]);
+      setInvitations([]);
+      setSignals([]);
+      flash('You left the organization');
+      loadOrganization();
+    } else {
+      setMembers(current => current.filter(item => item.user_id !== member.user_id));
+    }
+  };
+
+  const isOrgAdmin = membership?.member_role === 'admin';
+  const organization = membership?.organizations;
+  const self = members.find(member => member.user_id === userId);
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
+            <Building className="h-5 w-5 text-blue-600" />
+            <span>{organization?.name ?? 'Organization'}</span>
+          </h3>
+          {self && (
+            <button
+              onClick={() => handleRemove(self)}
+              className="px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors flex items-center space-x-2"
+            >
+              <LogOut className="h-4 w-4" />
+              <span>Leave</span>
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          {organization
+            ? `${ORGANIZATION_KINDS.find(kind => kind.value === organization.kind)?.label ?? 'Organization'} workspace. Members share private notes on events and see the signals the organization contributed.`
+            : 'Partner organizations share a workspace with private event notes and a view of the signals they contributed.'}
+        </p>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-4">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {success && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg mb-4">
+            <p className="text-green-700 text-sm">{success}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+          </div>
+        ) : !userId ? (
+          <p className="text-sm text-gray-500">Sign in to see your organization.</p>
+        ) : !membership ? (
+          pendingInvitations.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              You are not part of an organization. Ask an organization admin to invite your email address.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {pendingInvitations.map(invitation => (
+                <div key={invitation.id} className="p-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">{invitation.organization_name}</p>
+                    <p className="text-xs text-gray-500">
+                      Invited as {invitation.member_role === 'admin' ? 'an admin' : 'a member'} · expires{' '}
+                      {new Date(invitation.expires_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 shrink-0">
+                    <button
+                      onClick={() => handleRespond(invitation, true)}
+                      className="px-3 py-1 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors flex items-center space-x-1"
+                    >
+                      <Check className="h-4 w-4" />
+                      <span>Join</span>
+                    </button>
+                    <button
+                      onClick={() => handleRespond(invitation, false)}
+                      className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors flex items-center space-x-1"
+                    >
+                      <X className="h-4 w-4" />
+                      <span>Decline</span>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Members ({members.length})</h4>
+              <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {members.map(member => (
+                  <div key={member.user_id} className="p-3 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {memberName(member)}
+                        {member.user_id === userId && <span className="text-gray-500 font-normal"> (you)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {member.email} · joined {new Date(member.joined_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2 shrink-0">
+                      {isOrgAdmin ? (
+                        <select
+                          value={member.member_role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as MemberRole)}
+                          className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                        >
+                          {MEMBER_ROLES.map(role => (
+                            <option key={role.value} value={role.value}>{role.label}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs">
+                          {MEMBER_ROLES.find(role => role.value === member.member_role)?.label}
+                        </span>
+                      )}
+                      {isOrgAdmin && member.user_id !== userId && (
+                        <button
+                          onClick={() => handleRemove(member)}
+                          className="p-1 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                          title="Remove from organization"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {isOrgAdmin && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Invitations</h4>
+                <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2 mb-3">
+                  <input
+                    type="email"
+                    required
+                    className={inputClass}
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="colleague@example.org"
+                  />
+                  <select
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as MemberRole)}
+                  >
+                    {MEMBER_ROLES.map(role => (
+                      <option key={role.value} value={role.value}>{role.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center space-x-2 shrink-0"
+                  >
+                    <UserPlus className="h-4 w-4" />
+                    <span>{isSaving ? 'Inviting...' : 'Invite'}</span>
+                  </button>
+                </form>
+
+                {invitations.length === 0 ? (
+                  <p className="text-sm text-gray-500">No invitations sent yet.</p>
+                ) : (
+                  <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {invitations.map(invitation => {
+                      const status = invitationStatus(invitation);
+                      return (
+                        <div key={invitation.id} className="p-3 flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <div className="flex items-center space-x-2">
+                              <span className="text-sm font-medium text-gray-900 truncate">{invitation.email}</span>
+                              <span className={`px-2 py-0.5 rounded-full text-xs ${status.className}`}>{status.label}</span>
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              {invitation.member_role === 'admin' ? 'Admin' : 'Member'} · sent{' '}
+                              {new Date(invitation.created_at).toLocaleDateString()}
+                            </p>
+                          </div>
+                          {isOpen(invitation) && (
+                            <div className="flex items-center space-x-1 shrink-0">
+                              <button
+                                onClick={() => handleCopyLink(invitation)}
+                                className="p-1 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                                title="Copy signup link"
+                              >
+                                <Link2 className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => handleRevoke(invitation)}
+                                className="p-1 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                title="Revoke"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2 flex items-center space-x-2">
+                <Activity className="h-4 w-4 text-blue-600" />
+                <span>Contributed Signals</span>
+              </h4>
+              {signals.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Signals submitted by members, or by sources assigned to the organization, appear here.
+                </p>
+              ) : (
+                <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {signals.map(signal => (
+                    <div key={signal.id} className="p-3 flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">
+                          {signal.type} · {signal.location}
+                        </p>
+                        {signal.notes && <p className="text-xs text-gray-500 truncate">{signal.notes}</p>}
+                      </div>
+                      <div className="text-right shrink-0">
+                        <span className="text-xs font-medium text-gray-700 capitalize">{signal.severity}</span>
+                        <p className="text-xs text-gray-500">{new Date(signal.created_at).toLocaleString()}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+      {isOrgAdmin && membership && <WebhooksPanel organizationId={membership.organization_id} />}
+    </div>
+  );
+};
+
+export default OrganizationPanel;
@@ -0,0 +1,252 @@
+import React, { useState, useEffect } from 'react';
+import { Building, Plus, Trash2, Link2, Loader } from 'lucide-react';
+import { getOrganizations, createOrganization, deleteOrganization, inviteToOrganization } from '../lib/repository';
+import { ORGANIZATION_KINDS } from '../lib/constants';
+import { invitationLink } from '../lib/organizations';
+import type { OrganizationKind, OrganizationSummary } from '../lib/types';
+
+interface OrganizationForm {
+  name: string;
+  kind: OrganizationKind;
+  adminEmail: string;
+}
+
+const emptyForm: OrganizationForm = { name: '', kind: 'ngo', adminEmail: '' };
+
+// Platform admins create partner workspaces and invite each one's first admin,
+// who then manages membership from the Organization tab of their dashboard
+const OrganizationsPanel: React.FC = () => {
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [form, setForm] = useState<OrganizationForm | null>(null);
+  const [inviteUrl, setInviteUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadOrganizations();
+  }, []);
+
+  const loadOrganizations = async () => {
+    setIsLoading(true);
+    const result = await getOrganizations();
+    if (result.ok) {
+      setOrganizations(result.data);
+    } else {
+      setError(result.error.message);
+    }
+    setIsLoading(false);
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    if (!form.name.trim()) {
+      setError('Give the organization a name');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    setInviteUrl('');
+    const created = await createOrganization({ name: form.name.trim(), kind: form.kind });
+    if (!created.ok) {
+      setIsSaving(false);
+      setError(created.error.message);
+      return;
+    }
+
+    if (form.adminEmail.trim()) {
+      const invited = await inviteToOrganization(created.data.id, form.adminEmail, 'admin');
+      if (invited.ok) {
+        setInviteUrl(invitationLink(invited.data.id));
+      } else {
+        setError(`Organization created, but the invitation failed: ${invited.error.message}`);
+      }
+    }
+
+    setIsSaving(false);
+    setForm(null);
+    flash(`${created.data.name} created`);
+    loadOrganizations();
+  };
+
+  const handleInviteAdmin = async (organization: OrganizationSummary) => {
+    const email = window.prompt(`Email address of the admin to invite to ${organization.name}`);
+    if (!email?.trim()) return;
+
+    setError('');
+    const result = await inviteToOrganization(organization.id, email, 'admin');
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    setInviteUrl(invitationLink(result.data.id));
+  };
+
+  const handleDelete = async (organization: OrganizationSummary) => {
+    if (!window.confirm(`Delete ${organization.name}? Its members, invitations and private notes are removed; contributed signals are kept.`)) return;
+
+    setError('');
+    const result = await deleteOrganization(organization.id);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    setOrganizations(current => current.filter(item => item.id !== organization.id));
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
+          <Building className="h-5 w-5 text-blue-600" />
+          <span>Organizations</span>
+        </h3>
+        {!form && (
+          <button
+            onClick={() => setForm(emptyForm)}
+            className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Organization</span>
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Partner workspaces. Each organization's admins invite and manage their own members.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg mb-4">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      {inviteUrl && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg mb-4">
+          <p className="text-blue-800 text-sm mb-1">
+            Send this signup link to the invited admin. Existing accounts also see the invitation in their inbox.
+          </p>
+          <code className="block text-xs text-blue-900 break-all">{inviteUrl}</code>
+        </div>
+      )}
+
+      {form && (
+        <form onSubmit={handleCreate} className="space-y-4 mb-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                className={inputClass}
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Pune Health Department"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Kind</label>
+              <select
+                className={inputClass}
+                value={form.kind}
+                onChange={(e) => setForm({ ...form, kind: e.target.value as OrganizationKind })}
+              >
+                {ORGANIZATION_KINDS.map(kind => (
+                  <option key={kind.value} value={kind.value}>{kind.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">First admin's email (optional)</label>
+            <input
+              type="email"
+              className={inputClass}
+              value={form.adminEmail}
+              onChange={(e) => setForm({ ...form, adminEmail: e.target.value })}
+              placeholder="lead@partner.org"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Creating...' : 'Create Organization'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setForm(null);
+                setError('');
+              }}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+        </div>
+      ) : organizations.length === 0 ? (
+        <p className="text-sm text-gray-500">No organizations yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {organizations.map(organization => {
+            const memberCount = organization.organization_members[0]?.count ?? 0;
+            return (
+              <div key={organization.id} className="p-3 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">{organization.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {ORGANIZATION_KINDS.find(kind => kind.value === organization.kind)?.label} · {memberCount} member
+                    {memberCount === 1 ? '' : 's'} · created {new Date(organization.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 shrink-0">
+                  <button
+                    onClick={() => handleInviteAdmin(organization)}
+                    className="p-1 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                    title="Invite an admin"
+                  >
+                    <Link2 className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(organization)}
+                    className="p-1 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrganizationsPanel;
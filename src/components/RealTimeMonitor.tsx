@@ -1,140 +1,169 @@
-import React, { useState, useEffect } from 'react';
-import { Activity, Wifi, WifiOff, Zap, AlertTriangle, TrendingUp, Clock, MapPin, Pause, Play, Settings } from 'lucide-react';
-import { getSignals, getEvents } from '../lib/supabase';
+import React, { useState, useEffect, useRef } from 'react';
+import { Activity, Zap, AlertTriangle, TrendingUp, Clock, MapPin, Pause, Play, Bell } from 'lucide-react';
+import { getSignals, getEvents, getAlerts } from '../lib/repository';
+import { applyChange, ratePerMinute, useLiveChanges, THROUGHPUT_WINDOW_MS, type LiveChange } from '../lib/realtime';
+import ConnectionStatus from './ConnectionStatus';
+import type { Alert, HealthEvent, Signal } from '../lib/types';
 
-interface SignalUpdate {
-  id: string;
-  type: string;
-  location: string;
-  severity: 'low' | 'medium' | 'high';
+type SignalUpdate = Pick<Signal, 'id' | 'type' | 'location' | 'severity'> & {
   timestamp: string;
   isNew?: boolean;
-}
+};
+
+type SystemHealth = 'healthy' | 'warning' | 'critical' | 'paused';
+
+const MAX_RECENT_SIGNALS = 10;
+const MAX_LATENCY_SAMPLES = 50;
+// Delivery slower than this suggests the pipeline is backing up
+const SLOW_DELIVERY_MS = 10000;
 
-interface SystemStatus {
-  isConnected: boolean;
-  lastUpdate: string;
-  signalsPerMinute: number;
-  systemHealth: 'healthy' | 'warning' | 'critical';
-}
+const toUpdate = (signal: Signal, isNew = false): SignalUpdate => ({
+  id: signal.id,
+  type: signal.type,
+  location: signal.location,
+  severity: signal.severity,
+  timestamp: signal.created_at,
+  isNew
+});
+
+const isToday = (timestamp: string) => new Date(timestamp).toDateString() === new Date().toDateString();
 
 const RealTimeMonitor: React.FC = () => {
   const [isMonitoring, setIsMonitoring] = useState(true);
   const [recentSignals, setRecentSignals] = useState<SignalUpdate[]>([]);
-  const [systemStatus, setSystemStatus] = useState<SystemStatus>({
-    isConnected: true,
-    lastUpdate: new Date().toISOString(),
-    signalsPerMinute: 0,
-    systemHealth: 'healthy'
-  });
+  const [arrivals, setArrivals] = useState<number[]>([]);
+  const [latencies, setLatencies] = useState<number[]>([]);
+  const [events, setEvents] = useState<HealthEvent[]>([]);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [changesReceived, setChangesReceived] = useState(0);
+  const [lastUpdate, setLastUpdate] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [now, setNow] = useState(Date.now());
   const [stats, setStats] = useState({
     totalToday: 0,
-    highSeverity: 0,
-    activeEvents: 0,
-    avgResponseTime: '2.3s'
+    highSeverity: 0
   });
+  const uptime = useRef({ startedAt: Date.now(), connectedMs: 0, since: null as number | null });
 
-  useEffect(() => {
-    loadInitialData();
-    
-    if (isMonitoring) {
-      const interval = setInterval(() => {
-        simulateRealTimeUpdate();
-      }, 3000); // Update every 3 seconds
-      
-      return () => clearInterval(interval);
+  const loadInitialData = async () => {
+    const [signalsResult, eventsResult, alertsResult] = await Promise.all([
+      getSignals(),
+      getEvents(),
+      getAlerts()
+    ]);
+
+    if (!signalsResult.ok || !eventsResult.ok || !alertsResult.ok) {
+      const failed = [signalsResult, eventsResult, alertsResult].find(result => !result.ok);
+      const message = failed && !failed.ok ? failed.error.message : 'Unknown error';
+      console.error('Error loading real-time data:', message);
+      setLoadError(message);
+      return;
     }
-  }, [isMonitoring]);
 
-  const loadInitialData = async () => {
-    try {
-      const [signalsResult, eventsResult] = await Promise.all([
-        getSignals(),
-        getEvents()
-      ]);
+    const signals = signalsResult.data;
+    const since = Date.now() - THROUGHPUT_WINDOW_MS;
 
-      const signals = signalsResult.data || [];
-      const events = eventsResult.data || [];
+    setRecentSignals(signals.slice(0, MAX_RECENT_SIGNALS).map(signal => toUpdate(signal)));
+    setArrivals(
+      signals
+        .map(signal => new Date(signal.created_at).getTime())
+        .filter(timestamp => timestamp >= since)
+    );
+    setStats({
+      totalToday: signals.filter(signal => isToday(signal.created_at)).length,
+      highSeverity: signals.filter(signal => signal.severity === 'high').length
+    });
+    setEvents(eventsResult.data);
+    setAlerts(alertsResult.data);
+    setLastUpdate(new Date().toISOString());
+    setLoadError('');
+  };
 
-      // Get recent signals (last 10)
-      const recent = signals
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-        .slice(0, 10)
-        .map(signal => ({
-          id: signal.id,
-          type: signal.type,
-          location: signal.location,
-          severity: signal.severity as 'low' | 'medium' | 'high',
-          timestamp: signal.created_at
-        }));
+  const handleSignal = (signal: Signal, receivedAt: number) => {
+    const createdAt = new Date(signal.created_at).getTime();
 
-      setRecentSignals(recent);
+    setRecentSignals(prev => [toUpdate(signal, true), ...prev.filter(item => item.id !== signal.id)].slice(0, MAX_RECENT_SIGNALS));
+    setArrivals(prev => [...prev.filter(timestamp => receivedAt - timestamp <= THROUGHPUT_WINDOW_MS), createdAt]);
+    setLatencies(prev => [...prev, Math.max(receivedAt - createdAt, 0)].slice(-MAX_LATENCY_SAMPLES));
+    setStats(prev => ({
+      totalToday: isToday(signal.created_at) ? prev.totalToday + 1 : prev.totalToday,
+      highSeverity: signal.severity === 'high' ? prev.highSeverity + 1 : prev.highSeverity
+    }));
+
+    // Remove new flag after animation
+    setTimeout(() => {
+      setRecentSignals(prev =>
+        prev.map(item => (item.id === signal.id ? { ...item, isNew: false } : item))
+      );
+    }, 2000);
+  };
 
-      // Calculate stats
-      const today = new Date().toISOString().split('T')[0];
-      const todaySignals = signals.filter(s => s.created_at.startsWith(today));
-      
-      setStats({
-        totalToday: todaySignals.length,
-        highSeverity: signals.filter(s => s.severity === 'high').length,
-        activeEvents: events.filter(e => e.status === 'active').length,
-        avgResponseTime: '2.3s'
-      });
+  const handleChange = (change: LiveChange) => {
+    setChangesReceived(count => count + 1);
+    setLastUpdate(new Date(change.receivedAt).toISOString());
 
-      setSystemStatus(prev => ({
-        ...prev,
-        lastUpdate: new Date().toISOString(),
-        signalsPerMinute: Math.floor(Math.random() * 5) + 1
-      }));
-    } catch (error) {
-      console.error('Error loading real-time data:', error);
-      setSystemStatus(prev => ({
-        ...prev,
-        isConnected: false,
-        systemHealth: 'critical'
-      }));
+    switch (change.table) {
+      case 'signals':
+        if (change.payload.eventType === 'INSERT') {
+          handleSignal(change.payload.new, change.receivedAt);
+        } else if (change.payload.eventType === 'DELETE') {
+          const { id } = change.payload.old;
+          setRecentSignals(prev => prev.filter(item => item.id !== id));
+        }
+        break;
+      case 'events': {
+        const { payload } = change;
+        setEvents(prev => applyChange(prev, payload));
+        break;
+      }
+      case 'alerts': {
+        const { payload } = change;
+        setAlerts(prev => applyChange(prev, payload));
+        break;
+      }
     }
   };
 
-  const simulateRealTimeUpdate = () => {
-    // Simulate new signal arrival
-    if (Math.random() > 0.7) { // 30% chance of new signal
-      const newSignal: SignalUpdate = {
-        id: `signal-${Date.now()}`,
-        type: ['Cough', 'Fever', 'Respiratory', 'Environmental'][Math.floor(Math.random() * 4)],
-        location: ['Mumbai, Andheri', 'Delhi, Central', 'Bangalore, Tech Park', 'Chennai, T Nagar'][Math.floor(Math.random() * 4)],
-        severity: ['low', 'medium', 'high'][Math.floor(Math.random() * 3)] as 'low' | 'medium' | 'high',
-        timestamp: new Date().toISOString(),
-        isNew: true
-      };
+  const connection = useLiveChanges(['signals', 'events', 'alerts'], handleChange, {
+    enabled: isMonitoring,
+    onResync: loadInitialData
+  });
 
-      setRecentSignals(prev => [newSignal, ...prev.slice(0, 9)]);
-      
-      // Update stats
-      setStats(prev => ({
-        ...prev,
-        totalToday: prev.totalToday + 1,
-        highSeverity: newSignal.severity === 'high' ? prev.highSeverity + 1 : prev.highSeverity
-      }));
+  useEffect(() => {
+    loadInitialData();
+  }, []);
 
-      // Remove new flag after animation
-      setTimeout(() => {
-        setRecentSignals(prev => 
-          prev.map(signal => 
-            signal.id === newSignal.id ? { ...signal, isNew: false } : signal
-          )
-        );
-      }, 2000);
-    }
+  // Re-evaluate throughput and uptime as time passes, even when nothing arrives
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(interval);
+  }, []);
 
-    // Update system status
-    setSystemStatus(prev => ({
-      ...prev,
-      lastUpdate: new Date().toISOString(),
-      signalsPerMinute: Math.floor(Math.random() * 8) + 1,
-      systemHealth: Math.random() > 0.9 ? 'warning' : 'healthy'
-    }));
-  };
+  useEffect(() => {
+    const tracker = uptime.current;
+    if (tracker.since !== null) tracker.connectedMs += Date.now() - tracker.since;
+    tracker.since = connection.connectedSince;
+  }, [connection.connectedSince]);
+
+  const signalsPerMinute = ratePerMinute(arrivals, now);
+  const averageLatency = latencies.length > 0
+    ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
+    : null;
+  const connectedMs = uptime.current.connectedMs + (uptime.current.since !== null ? now - uptime.current.since : 0);
+  const connectedPercent = Math.min(100, (connectedMs / Math.max(now - uptime.current.startedAt, 1)) * 100);
+  const activeEvents = events.filter(event => event.status === 'active').length;
+  const activeAlerts = alerts.filter(alert => alert.status === 'active').length;
+
+  const systemHealth: SystemHealth = !isMonitoring
+    ? 'paused'
+    : connection.state === 'disconnected' || loadError
+      ? 'critical'
+      : connection.state !== 'connected' || (averageLatency !== null && averageLatency > SLOW_DELIVERY_MS)
+        ? 'warning'
+        : 'healthy';
+
+  const formatLatency = (ms: number | null) =>
+    ms === null ? '—' : ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -160,35 +189,30 @@ const RealTimeMonitor: React.FC = () => {
       <div className="bg-white rounded-xl p-6 shadow-lg">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div className="flex items-center space-x-4">
-            <div className="flex items-center space-x-2">
-              {systemStatus.isConnected ? (
-                <Wifi className="h-5 w-5 text-green-600" />
-              ) : (
-                <WifiOff className="h-5 w-5 text-red-600" />
-              )}
-              <span className={`font-medium ${systemStatus.isConnected ? 'text-green-600' : 'text-red-600'}`}>
-                {systemStatus.isConnected ? 'Connected' : 'Disconnected'}
-              </span>
-            </div>
+            {isMonitoring ? (
+              <ConnectionStatus connection={connection} />
+            ) : (
+              <span className="font-medium text-sm text-gray-600">Paused</span>
+            )}
             
             <div className="flex items-center space-x-2">
-              <Activity className={`h-5 w-5 ${getSystemHealthColor(systemStatus.systemHealth)}`} />
-              <span className={`font-medium ${getSystemHealthColor(systemStatus.systemHealth)}`}>
-                System {systemStatus.systemHealth}
+              <Activity className={`h-5 w-5 ${getSystemHealthColor(systemHealth)}`} />
+              <span className={`font-medium ${getSystemHealthColor(systemHealth)}`}>
+                System {systemHealth}
               </span>
             </div>
             
             <div className="flex items-center space-x-2 text-gray-600">
               <Clock className="h-4 w-4" />
               <span className="text-sm">
-                Last update: {new Date(systemStatus.lastUpdate).toLocaleTimeString()}
+                Last update: {lastUpdate ? new Date(lastUpdate).toLocaleTimeString() : '—'}
               </span>
             </div>
           </div>
           
           <div className="flex items-center space-x-3">
-            <div className="text-sm text-gray-600">
-              {systemStatus.signalsPerMinute} signals/min
+            <div className="text-sm text-gray-600" title="Averaged over the last 5 minutes">
+              {signalsPerMinute.toFixed(1)} signals/min
             </div>
             
             <button
@@ -201,12 +225,14 @@ const RealTimeMonitor: React.FC = () => {
             >
               {isMonitoring ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
             </button>
-            
-            <button className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors">
-              <Settings className="h-4 w-4" />
-            </button>
           </div>
         </div>
+
+        {loadError && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700 text-sm">Could not load monitoring data: {loadError}</p>
+          </div>
+        )}
       </div>
 
       {/* Real-time Stats */}
@@ -241,7 +267,7 @@ const RealTimeMonitor: React.FC = () => {
               <TrendingUp className="h-6 w-6 text-yellow-600" />
             </div>
             <div>
-              <div className="text-2xl font-bold text-gray-900">{stats.activeEvents}</div>
+              <div className="text-2xl font-bold text-gray-900">{activeEvents}</div>
               <div className="text-sm text-gray-600">Active Events</div>
             </div>
           </div>
@@ -250,11 +276,11 @@ const RealTimeMonitor: React.FC = () => {
         <div className="bg-white rounded-xl p-6 shadow-lg">
           <div className="flex items-center space-x-3">
             <div className="p-3 bg-green-100 rounded-lg">
-              <Zap className="h-6 w-6 text-green-600" />
+              <Bell className="h-6 w-6 text-green-600" />
             </div>
             <div>
-              <div className="text-2xl font-bold text-gray-900">{stats.avgResponseTime}</div>
-              <div className="text-sm text-gray-600">Avg Response</div>
+              <div className="text-2xl font-bold text-gray-900">{activeAlerts}</div>
+              <div className="text-sm text-gray-600">Active Alerts</div>
             </div>
           </div>
         </div>
@@ -266,7 +292,7 @@ const RealTimeMonitor: React.FC = () => {
           <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
             <Activity className="h-5 w-5 text-blue-600" />
             <span>Live Signal Feed</span>
-            {isMonitoring && (
+            {isMonitoring && connection.state === 'connected' && (
               <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
             )}
           </h3>
@@ -317,39 +343,38 @@ const RealTimeMonitor: React.FC = () => {
             <div className="text-center py-8 text-gray-500">
               <Activity className="h-12 w-12 mx-auto mb-2 opacity-50" />
               <p>No recent signals</p>
-              <p className="text-sm">Monitoring for new activity...</p>
+              <p className="text-sm">{isMonitoring ? 'Monitoring for new activity...' : 'Monitoring is paused'}</p>
             </div>
           )}
         </div>
       </div>
 
-      {/* System Performance */}
+      {/* Connection Health */}
       <div className="bg-white rounded-xl p-6 shadow-lg">
-        <h3 className="text-lg font-bold text-gray-900 mb-4">System Performance</h3>
+        <h3 className="text-lg font-bold text-gray-900 mb-4">Connection Health</h3>
         
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="text-center">
-            <div className="text-3xl font-bold text-green-600 mb-2">99.8%</div>
-            <div className="text-sm text-gray-600">Uptime</div>
+            <div className="text-3xl font-bold text-green-600 mb-2">{connectedPercent.toFixed(1)}%</div>
+            <div className="text-sm text-gray-600">Connected This Session</div>
             <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
-              <div className="bg-green-600 h-2 rounded-full" style={{ width: '99.8%' }}></div>
+              <div className="bg-green-600 h-2 rounded-full" style={{ width: `${connectedPercent}%` }}></div>
             </div>
           </div>
           
           <div className="text-center">
-            <div className="text-3xl font-bold text-blue-600 mb-2">1.2s</div>
-            <div className="text-sm text-gray-600">Avg Latency</div>
-            <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
-              <div className="bg-blue-600 h-2 rounded-full" style={{ width: '85%' }}></div>
-            </div>
+            <div className="text-3xl font-bold text-blue-600 mb-2">{formatLatency(averageLatency)}</div>
+            <div className="text-sm text-gray-600">Avg Delivery Latency</div>
+            <div className="text-xs text-gray-500 mt-2">From signal creation to arrival in this browser</div>
           </div>
           
           <div className="text-center">
-            <div className="text-3xl font-bold text-purple-600 mb-2">94%</div>
-            <div className="text-sm text-gray-600">Accuracy</div>
-            <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
-              <div className="bg-purple-600 h-2 rounded-full" style={{ width: '94%' }}></div>
+            <div className="text-3xl font-bold text-purple-600 mb-2 flex items-center justify-center space-x-2">
+              <Zap className="h-6 w-6" />
+              <span>{changesReceived}</span>
             </div>
+            <div className="text-sm text-gray-600">Live Changes Received</div>
+            <div className="text-xs text-gray-500 mt-2">Signals, events and alerts since opening</div>
           </div>
         </div>
       </div>
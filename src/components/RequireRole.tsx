@@ -0,0 +1,76 @@
+import React from 'react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { ShieldOff, ShieldCheck, Loader } from 'lucide-react';
+import { hasRole, roleLabel } from '../lib/roles';
+import { loginPath, useAuth } from '../lib/auth';
+import type { AccessRole } from '../lib/types';
+
+interface RequireRoleProps {
+  role: AccessRole;
+  // Also require a session verified with the user's authenticator app (AAL2)
+  requireMfa?: boolean;
+  children: React.ReactNode;
+}
+
+// Route guard; the database enforces the same roles, so this only spares users a broken page.
+// Signed-out visitors are sent to sign in and brought back here afterwards
+const RequireRole: React.FC<RequireRoleProps> = ({ role, requireMfa = false, children }) => {
+  const { role: currentRole, needsMfa, isLoading, openAuth } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (currentRole === 'public') {
+    return <Navigate to={loginPath(location.pathname + location.search)} replace />;
+  }
+
+  if (requireMfa && needsMfa) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center px-4">
+        <div className="bg-white rounded-xl p-8 shadow-lg max-w-md w-full text-center">
+          <ShieldCheck className="h-12 w-12 text-blue-600 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Two-factor verification required</h2>
+          <p className="text-gray-600 mb-6">
+            Your role needs a session verified with your authenticator app before this page opens.
+          </p>
+          <button
+            onClick={() => openAuth('mfa')}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            Verify Now
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (hasRole(currentRole, role)) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center px-4">
+      <div className="bg-white rounded-xl p-8 shadow-lg max-w-md w-full text-center">
+        <ShieldOff className="h-12 w-12 text-red-500 mx-auto mb-4" />
+        <h2 className="text-xl font-bold text-gray-900 mb-2">You don't have access to this page</h2>
+        <p className="text-gray-600 mb-6">
+          This page needs the {roleLabel(role)} role. Your account is {roleLabel(currentRole)}.
+        </p>
+        <Link
+          to="/"
+          className="inline-block px-6 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+        >
+          Back to Home
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default RequireRole;
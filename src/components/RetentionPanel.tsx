@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { Archive, Save, Eye, Trash2, Loader } from 'lucide-react';
+import { getRetentionPolicies, saveRetentionPolicy, applyRetention } from '../lib/repository';
+import type { RetentionAction, RetentionOutcome, RetentionPolicy } from '../lib/types';
+
+const tableLabels: Record<RetentionPolicy['table_name'], { label: string; scope: string }> = {
+  signals: { label: 'Signal Data', scope: 'All signals' },
+  alerts: { label: 'Alert Data', scope: 'Resolved alerts' },
+  events: { label: 'Event Data', scope: 'Resolved and merged events' }
+};
+
+const RetentionPanel: React.FC = () => {
+  const [policies, setPolicies] = useState<RetentionPolicy[]>([]);
+  const [outcomes, setOutcomes] = useState<RetentionOutcome[] | null>(null);
+  const [isDryRun, setIsDryRun] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadPolicies();
+  }, []);
+
+  const loadPolicies = async () => {
+    setIsLoading(true);
+    const result = await getRetentionPolicies();
+    if (result.ok) {
+      setPolicies(result.data);
+    } else {
+      setError(result.error.message);
+    }
+    setIsLoading(false);
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const updatePolicy = (tableName: RetentionPolicy['table_name'], changes: Partial<RetentionPolicy>) => {
+    setOutcomes(null);
+    setPolicies(current => current.map(policy => (policy.table_name === tableName ? { ...policy, ...changes } : policy)));
+  };
+
+  const handleSave = async () => {
+    if (policies.some(policy => !Number.isInteger(policy.retain_days) || policy.retain_days <= 0)) {
+      setError('Retention periods must be a whole number of days');
+      return;
+    }
+
+    setIsWorking(true);
+    setError('');
+    const results = await Promise.all(policies.map(policy => saveRetentionPolicy(policy)));
+    setIsWorking(false);
+
+    const failed = results.find(result => !result.ok);
+    if (failed && !failed.ok) {
+      setError(failed.error.message);
+      return;
+    }
+
+    flash('Retention policies saved');
+    loadPolicies();
+  };
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm('Remove every row past its retention period now? Purged rows cannot be recovered.')) {
+      return;
+    }
+
+    setIsWorking(true);
+    setError('');
+    const result = await applyRetention(dryRun);
+    setIsWorking(false);
+
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    setIsDryRun(dryRun);
+    setOutcomes(result.data);
+    if (!dryRun) flash('Retention applied');
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg">
+      <h3 className="text-lg font-bold text-gray-900 mb-1 flex items-center space-x-2">
+        <Archive className="h-5 w-5 text-blue-600" />
+        <span>Data Retention</span>
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Save changes before previewing; the preview and the daily job use the saved policies.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg mb-4">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {policies.map(policy => (
+            <div key={policy.table_name} className="p-3 border border-gray-200 rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <div>
+                  <span className="text-sm font-medium text-gray-700">{tableLabels[policy.table_name].label} Retention (days)</span>
+                  <p className="text-xs text-gray-500">{tableLabels[policy.table_name].scope}</p>
+                </div>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="rounded"
+                    checked={policy.is_enabled}
+                    onChange={(e) => updatePolicy(policy.table_name, { is_enabled: e.target.checked })}
+                  />
+                  <span>Enforce</span>
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <input
+                  type="number"
+                  min={1}
+                  className={inputClass}
+                  value={Number.isNaN(policy.retain_days) ? '' : policy.retain_days}
+                  onChange={(e) => updatePolicy(policy.table_name, { retain_days: parseInt(e.target.value, 10) })}
+                />
+                <select
+                  className={inputClass}
+                  value={policy.action}
+                  onChange={(e) => updatePolicy(policy.table_name, { action: e.target.value as RetentionAction })}
+                >
+                  <option value="archive">Archive, then remove</option>
+                  <option value="purge">Purge permanently</option>
+                </select>
+              </div>
+            </div>
+          ))}
+
+          {outcomes && (
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <h4 className="text-sm font-medium text-gray-700 mb-2">
+                {isDryRun ? 'Preview — nothing has been removed' : 'Last run'}
+              </h4>
+              {outcomes.length === 0 ? (
+                <p className="text-sm text-gray-500">No retention policies are enforced.</p>
+              ) : (
+                <ul className="space-y-1 text-sm text-gray-700">
+                  {outcomes.map(outcome => (
+                    <li key={outcome.target_table} className="flex items-center justify-between">
+                      <span>
+                        {tableLabels[outcome.target_table].label}: {outcome.affected_rows}{' '}
+                        {isDryRun ? 'to be ' : ''}{outcome.policy_action === 'archive' ? 'archived' : 'purged'}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        before {new Date(outcome.cutoff).toLocaleDateString()}
+                        {outcome.oldest_at && `, oldest ${new Date(outcome.oldest_at).toLocaleDateString()}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isWorking}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center space-x-2"
+            >
+              <Save className="h-4 w-4" />
+              <span>Save</span>
+            </button>
+            <button
+              onClick={() => handleRun(true)}
+              disabled={isWorking}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center space-x-2"
+            >
+              <Eye className="h-4 w-4" />
+              <span>Preview</span>
+            </button>
+            <button
+              onClick={() => handleRun(false)}
+              disabled={isWorking}
+              className="px-4 py-2 border border-red-200 text-red-700 rounded-lg font-medium hover:bg-red-50 transition-colors disabled:opacity-50 flex items-center space-x-2"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Apply Now</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RetentionPanel;
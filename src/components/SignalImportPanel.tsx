@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { Upload, FileText, CheckCircle, AlertTriangle, Loader, X } from 'lucide-react';
+import { createSignal, createSignals } from '../lib/repository';
+import {
+  IMPORT_FIELDS,
+  parseImportFile,
+  suggestMapping,
+  validateRows,
+  type ColumnMapping,
+  type ParsedFile,
+  type RowError,
+  type ValidatedRow
+} from '../lib/signalImport';
+
+interface SignalImportPanelProps {
+  onImported?: () => void;
+  onClose?: () => void;
+}
+
+interface ImportSummary {
+  accepted: number;
+  rejected: RowError[];
+}
+
+const BATCH_SIZE = 100;
+const PREVIEW_ROWS = 10;
+
+const SignalImportPanel: React.FC<SignalImportPanelProps> = ({ onImported, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [parsedFile, setParsedFile] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState('');
+
+  const report = parsedFile && mapping ? validateRows(parsedFile, mapping) : null;
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field])
+    : [];
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setSummary(null);
+
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.rows.length === 0) {
+        setError('The file does not contain any rows');
+        return;
+      }
+      setFileName(file.name);
+      setParsedFile(parsed);
+      setMapping(suggestMapping(parsed.columns));
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError(err instanceof Error ? `Could not read ${file.name}: ${err.message}` : `Could not read ${file.name}`);
+    }
+  };
+
+  // A failed batch is retried row by row so one bad row does not sink its neighbours
+  const insertBatch = async (batch: ValidatedRow[]): Promise<ImportSummary> => {
+    const result = await createSignals(batch.map(({ signal }) => signal));
+    if (result.ok) return { accepted: batch.length, rejected: [] };
+
+    const outcome: ImportSummary = { accepted: 0, rejected: [] };
+    for (const { row, signal } of batch) {
+      const single = await createSignal(signal);
+      if (single.ok) {
+        outcome.accepted++;
+      } else {
+        outcome.rejected.push({ row, messages: [single.error.message] });
+      }
+    }
+    return outcome;
+  };
+
+  const handleImport = async () => {
+    if (!report || report.valid.length === 0) return;
+
+    setIsImporting(true);
+    setProgress(0);
+    setError('');
+
+    const totals: ImportSummary = { accepted: 0, rejected: [...report.errors] };
+
+    for (let start = 0; start < report.valid.length; start += BATCH_SIZE) {
+      const outcome = await insertBatch(report.valid.slice(start, start + BATCH_SIZE));
+      totals.accepted += outcome.accepted;
+      totals.rejected.push(...outcome.rejected);
+      setProgress(Math.min(start + BATCH_SIZE, report.valid.length));
+    }
+
+    totals.rejected.sort((a, b) => a.row - b.row);
+    setSummary(totals);
+    setParsedFile(null);
+    setMapping(null);
+    setIsImporting(false);
+
+    if (totals.accepted > 0 && onImported) {
+      onImported();
+    }
+  };
+
+  const reset = () => {
+    setFileName('');
+    setParsedFile(null);
+    setMapping(null);
+    setSummary(null);
+    setError('');
+  };
+
+  const errorsByRow = new Map(report?.errors.map(rowError => [rowError.row, rowError.messages]) ?? []);
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-gradient-to-br from-blue-600 to-purple-600 rounded-lg">
+            <Upload className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Import Signals</h2>
+            <p className="text-sm text-gray-600">Upload a CSV or JSON file of signal readings</p>
+          </div>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="h-5 w-5" />
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {summary && (
+        <div className="mb-6 space-y-3">
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-3">
+            <CheckCircle className="h-5 w-5 text-green-600" />
+            <p className="text-green-800 text-sm">
+              Imported {summary.accepted} signal{summary.accepted === 1 ? '' : 's'} from {fileName}
+              {summary.rejected.length > 0 && `; ${summary.rejected.length} row${summary.rejected.length === 1 ? ' was' : 's were'} rejected`}
+            </p>
+          </div>
+          {summary.rejected.length > 0 && (
+            <div className="max-h-48 overflow-y-auto border border-red-200 rounded-lg divide-y divide-red-100">
+              {summary.rejected.map(rowError => (
+                <div key={rowError.row} className="px-4 py-2 text-sm">
+                  <span className="font-medium text-red-800">Row {rowError.row}:</span>{' '}
+                  <span className="text-red-700">{rowError.messages.join('; ')}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <button onClick={reset} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+            Import another file
+          </button>
+        </div>
+      )}
+
+      {!parsedFile && !summary && (
+        <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg py-10 cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+          <FileText className="h-10 w-10 text-gray-400 mb-3" />
+          <span className="text-sm font-medium text-gray-700">Choose a .csv or .json file</span>
+          <span className="text-xs text-gray-500 mt-1">Columns: type, location, severity, latitude, longitude, timestamp, notes</span>
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="hidden" />
+        </label>
+      )}
+
+      {parsedFile && mapping && report && (
+        <div className="space-y-6">
+          {/* Column Mapping */}
+          <div>
+            <h3 className="text-sm font-bold text-gray-900 mb-3">
+              Map columns from {fileName} ({parsedFile.rows.length} rows)
+            </h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    {label}{required && ' *'}
+                  </label>
+                  <select
+                    value={mapping[field]}
+                    onChange={(e) => setMapping(prev => prev && { ...prev, [field]: e.target.value })}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">— Not mapped —</option>
+                    {parsedFile.columns.map(column => (
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-red-600 mt-2">
+                Map {missingRequired.map(({ label }) => label).join(', ')} before importing
+              </p>
+            )}
+          </div>
+
+          {/* Validation Summary */}
+          <div className="flex flex-wrap gap-3">
+            <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm font-medium">
+              {report.valid.length} valid
+            </span>
+            <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm font-medium">
+              {report.errors.length} with errors
+            </span>
+          </div>
+
+          {/* Preview */}
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                  {IMPORT_FIELDS.map(({ field, label }) => (
+                    <th key={field} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">{label}</th>
+                  ))}
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {parsedFile.rows.slice(0, PREVIEW_ROWS).map((row, index) => {
+                  const rowNumber = parsedFile.rowNumbers[index];
+                  const rowErrors = errorsByRow.get(rowNumber);
+                  return (
+                    <tr key={rowNumber} className={rowErrors ? 'bg-red-50' : ''}>
+                      <td className="px-3 py-2 text-gray-500">{rowNumber}</td>
+                      {IMPORT_FIELDS.map(({ field }) => (
+                        <td key={field} className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                          {mapping[field] ? row[mapping[field]] : ''}
+                        </td>
+                      ))}
+                      <td className="px-3 py-2">
+                        {rowErrors ? (
+                          <span className="text-red-700 text-xs">{rowErrors.join('; ')}</span>
+                        ) : (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {report.errors.length > 0 && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <p className="text-sm font-medium text-yellow-800 flex items-center space-x-2 mb-2">
+                <AlertTriangle className="h-4 w-4" />
+                <span>These rows will be skipped</span>
+              </p>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {report.errors.map(rowError => (
+                  <p key={rowError.row} className="text-xs text-yellow-800">
+                    Row {rowError.row}: {rowError.messages.join('; ')}
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-end space-x-3">
+            <button
+              onClick={reset}
+              disabled={isImporting}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={isImporting || report.valid.length === 0 || missingRequired.length > 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              {isImporting ? (
+                <>
+                  <Loader className="h-4 w-4 animate-spin" />
+                  <span>Importing {progress}/{report.valid.length}...</span>
+                </>
+              ) : (
+                <>
+                  <Upload className="h-4 w-4" />
+                  <span>Import {report.valid.length} Signal{report.valid.length === 1 ? '' : 's'}</span>
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SignalImportPanel;
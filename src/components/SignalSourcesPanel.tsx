@@ -0,0 +1,539 @@
+import React, { useState, useEffect } from 'react';
+import { Radio, Plus, Save, Key, Copy, Ban, Loader, X } from 'lucide-react';
+import {
+  getSignalSources,
+  getSignalSourceStats,
+  getOrganizations,
+  saveSignalSource,
+  getSourceApiKeys,
+  issueSourceApiKey,
+  revokeSourceApiKey
+} from '../lib/repository';
+import { SOURCE_KINDS } from '../lib/constants';
+import type { OrganizationSummary, SignalSource, SignalSourceKind, SignalSourceStats, SourceApiKey } from '../lib/types';
+
+interface SourceDraft {
+  name: string;
+  kind: SignalSourceKind;
+  owner_organization: string;
+  organization_id: string;
+  location: string;
+  latitude: string;
+  longitude: string;
+  reliability_weight: string;
+  rate_limit_per_minute: string;
+  is_active: boolean;
+}
+
+const emptyDraft: SourceDraft = {
+  name: '',
+  kind: 'device',
+  owner_organization: '',
+  organization_id: '',
+  location: '',
+  latitude: '',
+  longitude: '',
+  reliability_weight: '1',
+  rate_limit_per_minute: '60',
+  is_active: true
+};
+
+const toDraft = (source: SignalSource): SourceDraft => ({
+  name: source.name,
+  kind: source.kind,
+  owner_organization: source.owner_organization ?? '',
+  organization_id: source.organization_id ?? '',
+  location: source.location ?? '',
+  latitude: source.latitude === null ? '' : String(source.latitude),
+  longitude: source.longitude === null ? '' : String(source.longitude),
+  reliability_weight: String(source.reliability_weight),
+  rate_limit_per_minute: String(source.rate_limit_per_minute),
+  is_active: source.is_active
+});
+
+const kindLabel = (kind: SignalSourceKind) => SOURCE_KINDS.find(option => option.value === kind)?.label ?? kind;
+
+const formatLastSeen = (timestamp: string | null) => {
+  if (!timestamp) return 'Never';
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const SignalSourcesPanel: React.FC = () => {
+  const [sources, setSources] = useState<SignalSource[]>([]);
+  const [stats, setStats] = useState<Record<string, SignalSourceStats>>({});
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SourceDraft>(emptyDraft);
+  const [keys, setKeys] = useState<SourceApiKey[]>([]);
+  const [keyLabel, setKeyLabel] = useState('');
+  const [issuedKey, setIssuedKey] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadSources();
+  }, []);
+
+  useEffect(() => {
+    setIssuedKey('');
+    setKeyLabel('');
+    if (selectedId && selectedId !== 'new') {
+      loadKeys(selectedId);
+    } else {
+      setKeys([]);
+    }
+  }, [selectedId]);
+
+  const loadSources = async () => {
+    setIsLoading(true);
+    const [sourcesResult, statsResult, organizationsResult] = await Promise.all([
+      getSignalSources(),
+      getSignalSourceStats(),
+      getOrganizations()
+    ]);
+
+    if (sourcesResult.ok) {
+      setSources(sourcesResult.data);
+    } else {
+      setError(sourcesResult.error.message);
+    }
+
+    if (statsResult.ok) {
+      setStats(Object.fromEntries(statsResult.data.map(row => [row.source_id, row])));
+    }
+
+    if (organizationsResult.ok) {
+      setOrganizations(organizationsResult.data);
+    }
+    setIsLoading(false);
+  };
+
+  const loadKeys = async (sourceId: string) => {
+    const result = await getSourceApiKeys(sourceId);
+    if (result.ok) {
+      setKeys(result.data);
+    } else {
+      setError(result.error.message);
+    }
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const selectSource = (source: SignalSource | null) => {
+    setError('');
+    setSelectedId(source ? source.id : 'new');
+    setDraft(source ? toDraft(source) : emptyDraft);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = draft.name.trim();
+    const reliability = parseFloat(draft.reliability_weight);
+    const rateLimit = parseInt(draft.rate_limit_per_minute, 10);
+    const latitude = draft.latitude.trim() === '' ? null : Number(draft.latitude);
+    const longitude = draft.longitude.trim() === '' ? null : Number(draft.longitude);
+
+    if (!name) {
+      setError('Name is required');
+      return;
+    }
+    if (isNaN(reliability) || reliability < 0 || reliability > 1) {
+      setError('Reliability weight must be between 0 and 1');
+      return;
+    }
+    if (isNaN(rateLimit) || rateLimit <= 0) {
+      setError('Rate limit must be a positive number');
+      return;
+    }
+    if ((latitude === null) !== (longitude === null)) {
+      setError('Latitude and longitude must be given together');
+      return;
+    }
+    if (
+      (latitude !== null && (isNaN(latitude) || Math.abs(latitude) > 90)) ||
+      (longitude !== null && (isNaN(longitude) || Math.abs(longitude) > 180))
+    ) {
+      setError('Coordinates are out of range');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    const result = await saveSignalSource({
+      ...(selectedId && selectedId !== 'new' ? { id: selectedId } : {}),
+      name,
+      kind: draft.kind,
+      owner_organization: draft.owner_organization.trim() || null,
+      organization_id: draft.organization_id || null,
+      location: draft.location.trim() || null,
+      latitude,
+      longitude,
+      reliability_weight: reliability,
+      rate_limit_per_minute: rateLimit,
+      is_active: draft.is_active
+    });
+    setIsSaving(false);
+
+    if (!result.ok) {
+      setError(result.error.code === '23505' ? 'A source with that name already exists' : result.error.message);
+      return;
+    }
+
+    setSelectedId(result.data.id);
+    setDraft(toDraft(result.data));
+    flash('Source saved');
+    loadSources();
+  };
+
+  const handleIssueKey = async () => {
+    if (!selectedId || selectedId === 'new') return;
+
+    setError('');
+    const result = await issueSourceApiKey(selectedId, keyLabel.trim() || undefined);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    setIssuedKey(result.data);
+    setKeyLabel('');
+    loadKeys(selectedId);
+    loadSources();
+  };
+
+  const handleRevokeKey = async (key: SourceApiKey) => {
+    if (!confirm(`Revoke key ${key.key_prefix}…? Systems using it will be refused immediately.`)) return;
+
+    const result = await revokeSourceApiKey(key.id);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    flash('Key revoked');
+    loadKeys(key.source_id);
+    loadSources();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
+            <Radio className="h-5 w-5 text-blue-600" />
+            <span>Signal Sources</span>
+          </h3>
+          <button
+            onClick={() => selectSource(null)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Source</span>
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+          </div>
+        ) : sources.length === 0 ? (
+          <div className="text-center py-12">
+            <Radio className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No sources registered</h3>
+            <p className="text-gray-500">Register a device, lab or partner system to issue it an API key.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kind</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reliability</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Signals (24h / 7d / all)</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Events</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Signal</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sources.map(source => {
+                  const sourceStats = stats[source.id];
+                  return (
+                    <tr
+                      key={source.id}
+                      onClick={() => selectSource(source)}
+                      className={`cursor-pointer hover:bg-gray-50 ${selectedId === source.id ? 'bg-blue-50' : ''}`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{source.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {[source.owner_organization, source.location].filter(Boolean).join(' · ') || '—'}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{kindLabel(source.kind)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {Math.round(source.reliability_weight * 100)}%
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {sourceStats ? `${sourceStats.signals_24h} / ${sourceStats.signals_7d} / ${sourceStats.total_signals}` : '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{sourceStats?.event_count ?? 0}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatLastSeen(sourceStats?.last_signal_at ?? null)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          source.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                        }`}>
+                          {source.is_active ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selectedId && (
+        <div className="bg-white rounded-xl p-6 shadow-lg">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-gray-900">
+              {selectedId === 'new' ? 'New Source' : draft.name}
+            </h3>
+            <button
+              onClick={() => setSelectedId(null)}
+              className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. Pune wastewater plant 3"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Kind</label>
+                <select
+                  value={draft.kind}
+                  onChange={(e) => setDraft(prev => ({ ...prev, kind: e.target.value as SignalSourceKind }))}
+                  className={inputClass}
+                >
+                  {SOURCE_KINDS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Owner Organization</label>
+                <input
+                  type="text"
+                  value={draft.owner_organization}
+                  onChange={(e) => setDraft(prev => ({ ...prev, owner_organization: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Workspace</label>
+                <select
+                  value={draft.organization_id}
+                  onChange={(e) => setDraft(prev => ({ ...prev, organization_id: e.target.value }))}
+                  className={inputClass}
+                >
+                  <option value="">None</option>
+                  {organizations.map(organization => (
+                    <option key={organization.id} value={organization.id}>{organization.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Signals from this source show up in that organization's workspace.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Location</label>
+                <input
+                  type="text"
+                  value={draft.location}
+                  onChange={(e) => setDraft(prev => ({ ...prev, location: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Latitude</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={draft.latitude}
+                  onChange={(e) => setDraft(prev => ({ ...prev, latitude: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Longitude</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={draft.longitude}
+                  onChange={(e) => setDraft(prev => ({ ...prev, longitude: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Reliability Weight</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={draft.reliability_weight}
+                  onChange={(e) => setDraft(prev => ({ ...prev, reliability_weight: e.target.value }))}
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 mt-1">0 to 1; scales the confidence of events built from this source</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Rate Limit (requests/minute)</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={draft.rate_limit_per_minute}
+                  onChange={(e) => setDraft(prev => ({ ...prev, rate_limit_per_minute: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.is_active}
+                  onChange={(e) => setDraft(prev => ({ ...prev, is_active: e.target.checked }))}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Active (inactive sources are refused by the ingestion API)</span>
+              </label>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Save className="h-4 w-4" />
+                <span>{selectedId === 'new' ? 'Create Source' : 'Save Source'}</span>
+              </button>
+            </div>
+          </form>
+
+          {selectedId !== 'new' && (
+            <div className="pt-6 mt-6 border-t border-gray-200">
+              <p className="text-sm font-medium text-gray-700 mb-3 flex items-center space-x-2">
+                <Key className="h-4 w-4" />
+                <span>API Keys</span>
+              </p>
+
+              {issuedKey && (
+                <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-sm font-medium text-yellow-800 mb-2">
+                    Copy this key now; it will not be shown again.
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    <code className="flex-1 px-3 py-2 bg-white border border-yellow-200 rounded text-sm break-all">{issuedKey}</code>
+                    <button
+                      onClick={() => navigator.clipboard.writeText(issuedKey)}
+                      className="p-2 text-yellow-800 hover:bg-yellow-100 rounded-lg transition-colors"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {keys.length > 0 ? (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg mb-4">
+                  {keys.map(key => (
+                    <li key={key.id} className="px-4 py-3 flex items-center justify-between text-sm">
+                      <div>
+                        <span className="font-mono text-gray-900">{key.key_prefix}…</span>
+                        {key.label && <span className="text-gray-600"> · {key.label}</span>}
+                        <div className="text-xs text-gray-500">
+                          Issued {new Date(key.created_at).toLocaleDateString()} · Last used {formatLastSeen(key.last_used_at)}
+                        </div>
+                      </div>
+                      {key.revoked_at ? (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Revoked</span>
+                      ) : (
+                        <button
+                          onClick={() => handleRevokeKey(key)}
+                          className="px-3 py-1 border border-red-200 text-red-600 rounded-lg text-xs font-medium hover:bg-red-50 transition-colors flex items-center space-x-1"
+                        >
+                          <Ban className="h-3 w-3" />
+                          <span>Revoke</span>
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-gray-500 mb-4">No keys issued yet</p>
+              )}
+
+              <div className="flex items-center space-x-3">
+                <input
+                  type="text"
+                  value={keyLabel}
+                  onChange={(e) => setKeyLabel(e.target.value)}
+                  placeholder="Key label, e.g. production gateway"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={handleIssueKey}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                >
+                  <Key className="h-4 w-4" />
+                  <span>Issue Key</span>
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SignalSourcesPanel;
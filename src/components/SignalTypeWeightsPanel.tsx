@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { Scale, Save, Loader } from 'lucide-react';
+import { getSignalTypeWeights, saveSignalTypeWeights } from '../lib/repository';
+import { SIGNAL_TYPES } from '../lib/constants';
+
+const SignalTypeWeightsPanel: React.FC = () => {
+  // Keyed by signal type; weights are edited as text so partial input is allowed
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadWeights();
+  }, []);
+
+  const loadWeights = async () => {
+    setIsLoading(true);
+    const result = await getSignalTypeWeights();
+    if (result.ok) {
+      const stored = Object.fromEntries(result.data.map(row => [row.signal_type, String(row.weight)]));
+      setWeights(Object.fromEntries(SIGNAL_TYPES.map(type => [type, stored[type] ?? '1'])));
+    } else {
+      setError(result.error.message);
+    }
+    setIsLoading(false);
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const handleSave = async () => {
+    const rows = Object.entries(weights).map(([signal_type, value]) => ({ signal_type, weight: parseFloat(value) }));
+    if (rows.some(row => isNaN(row.weight) || row.weight <= 0)) {
+      setError('Weights must be positive numbers');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    const result = await saveSignalTypeWeights(rows);
+    setIsSaving(false);
+
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    flash('Signal type weights saved');
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg">
+      <h3 className="text-lg font-bold text-gray-900 mb-1 flex items-center space-x-2">
+        <Scale className="h-5 w-5 text-blue-600" />
+        <span>Signal Type Weights</span>
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        How much one signal of each type counts towards an event's risk score. 1 is neutral.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg mb-4">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            {SIGNAL_TYPES.map(type => (
+              <div key={type} className="flex items-center justify-between space-x-3">
+                <label className="text-sm font-medium text-gray-700">{type}</label>
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  value={weights[type] ?? '1'}
+                  onChange={(e) => setWeights(current => ({ ...current, [type]: e.target.value }))}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center space-x-2"
+          >
+            <Save className="h-4 w-4" />
+            <span>{isSaving ? 'Saving...' : 'Save Weights'}</span>
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SignalTypeWeightsPanel;
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Megaphone, Send, Loader } from 'lucide-react';
+import { getSystemNotices, publishSystemNotice } from '../lib/repository';
+import { SEVERITIES } from '../lib/constants';
+import type { NewSystemNotice, NoticeAudience, Severity, SystemNotice } from '../lib/types';
+
+const emptyNotice: NewSystemNotice = {
+  title: '',
+  message: '',
+  severity: 'low',
+  actionUrl: '',
+  audience: 'all'
+};
+
+const SystemNoticePanel: React.FC = () => {
+  const [notices, setNotices] = useState<SystemNotice[]>([]);
+  const [draft, setDraft] = useState<NewSystemNotice>(emptyNotice);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadNotices();
+  }, []);
+
+  const loadNotices = async () => {
+    setIsLoading(true);
+    const result = await getSystemNotices();
+    if (result.ok) {
+      setNotices(result.data);
+    } else {
+      setError(result.error.message);
+    }
+    setIsLoading(false);
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const handlePublish = async () => {
+    if (!draft.title.trim() || !draft.message.trim()) {
+      setError('A notice needs a title and a message');
+      return;
+    }
+    if (!window.confirm(`Send this notice to ${draft.audience === 'all' ? 'every user' : 'every admin'}?`)) {
+      return;
+    }
+
+    setIsPublishing(true);
+    setError('');
+    const result = await publishSystemNotice({ ...draft, actionUrl: draft.actionUrl?.trim() || undefined });
+    setIsPublishing(false);
+
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    setDraft(emptyNotice);
+    setNotices(current => [result.data, ...current]);
+    flash(`Notice sent to ${result.data.recipient_count} user${result.data.recipient_count === 1 ? '' : 's'}`);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg">
+      <h3 className="text-lg font-bold text-gray-900 mb-1 flex items-center space-x-2">
+        <Megaphone className="h-5 w-5 text-blue-600" />
+        <span>System Notices</span>
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Posted to each recipient's notification inbox. Failed scheduled jobs notify admins automatically.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg mb-4">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      <div className="space-y-3 mb-4">
+        <input
+          type="text"
+          className={inputClass}
+          placeholder="Title"
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+        />
+        <textarea
+          className={inputClass}
+          rows={3}
+          placeholder="Message"
+          value={draft.message}
+          onChange={(e) => setDraft({ ...draft, message: e.target.value })}
+        />
+        <input
+          type="text"
+          className={inputClass}
+          placeholder="Link (optional), e.g. /alerts"
+          value={draft.actionUrl ?? ''}
+          onChange={(e) => setDraft({ ...draft, actionUrl: e.target.value })}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <select
+            className={inputClass}
+            value={draft.severity}
+            onChange={(e) => setDraft({ ...draft, severity: e.target.value as Severity })}
+          >
+            {SEVERITIES.map(severity => (
+              <option key={severity} value={severity}>
+                {severity.charAt(0).toUpperCase() + severity.slice(1)} priority
+              </option>
+            ))}
+          </select>
+          <select
+            className={inputClass}
+            value={draft.audience}
+            onChange={(e) => setDraft({ ...draft, audience: e.target.value as NoticeAudience })}
+          >
+            <option value="all">All users</option>
+            <option value="admins">Admins only</option>
+          </select>
+        </div>
+        <button
+          onClick={handlePublish}
+          disabled={isPublishing}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center space-x-2"
+        >
+          <Send className="h-4 w-4" />
+          <span>{isPublishing ? 'Sending...' : 'Send Notice'}</span>
+        </button>
+      </div>
+
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Recent Notices</h4>
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+        </div>
+      ) : notices.length === 0 ? (
+        <p className="text-sm text-gray-500">No notices sent yet.</p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto space-y-2">
+          {notices.map(notice => (
+            <div key={notice.id} className="text-sm border-b border-gray-100 pb-2">
+              <div className="font-medium text-gray-900">{notice.title}</div>
+              <div className="text-xs text-gray-500">
+                {new Date(notice.published_at).toLocaleString()} · {notice.audience === 'all' ? 'All users' : 'Admins'} ·{' '}
+                {notice.recipient_count} recipient{notice.recipient_count === 1 ? '' : 's'}
+                {notice.published_by_name && ` · by ${notice.published_by_name}`}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SystemNoticePanel;
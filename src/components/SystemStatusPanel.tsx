@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { Play, Pause, RefreshCw, Loader, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { getScheduledJobs, getJobRuns, runScheduledJob, setScheduledJobEnabled, testConnection } from '../lib/repository';
+import type { JobRun, JobRunStatus, ScheduledJob } from '../lib/types';
+
+const statusStyles: Record<JobRunStatus, { icon: React.ElementType; className: string }> = {
+  running: { icon: Clock, className: 'text-blue-600' },
+  succeeded: { icon: CheckCircle, className: 'text-green-600' },
+  failed: { icon: XCircle, className: 'text-red-600' }
+};
+
+const formatRunTime = (timestamp: string) => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const describeRun = (run: JobRun) =>
+  run.status === 'failed' ? run.error ?? 'Failed' : `${run.affected_rows ?? 0} row${run.affected_rows === 1 ? '' : 's'} affected`;
+
+const SystemStatusPanel: React.FC = () => {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [isConnected, setIsConnected] = useState<boolean | null>(null);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    setIsLoading(true);
+    const [connectionResult, jobsResult, runsResult] = await Promise.all([
+      testConnection(),
+      getScheduledJobs(),
+      getJobRuns()
+    ]);
+
+    setIsConnected(connectionResult.ok);
+    if (jobsResult.ok) {
+      setJobs(jobsResult.data);
+    } else {
+      setError(jobsResult.error.message);
+    }
+    if (runsResult.ok) {
+      setRuns(runsResult.data);
+    }
+    setIsLoading(false);
+  };
+
+  const handleRun = async (name: string) => {
+    setRunningJob(name);
+    setError('');
+    const result = await runScheduledJob(name);
+    setRunningJob(null);
+
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    loadStatus();
+  };
+
+  const handleToggle = async (job: ScheduledJob) => {
+    setError('');
+    const result = await setScheduledJobEnabled(job.name, !job.is_enabled);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    setJobs(current => current.map(item => (item.name === job.name ? { ...item, is_enabled: !job.is_enabled } : item)));
+  };
+
+  const lastRunOf = (name: string) => runs.find(run => run.job_name === name);
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-gray-900">System Status</h3>
+        <button
+          onClick={loadStatus}
+          className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+          title="Refresh"
+        >
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">Database Connection</span>
+          {isConnected === null ? (
+            <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded-full text-xs">Checking...</span>
+          ) : isConnected ? (
+            <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs">Connected</span>
+          ) : (
+            <span className="px-2 py-1 bg-red-100 text-red-800 rounded-full text-xs">Unreachable</span>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Scheduled Jobs</h4>
+          {isLoading && jobs.length === 0 ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {jobs.map(job => {
+                const lastRun = lastRunOf(job.name);
+                const lastRunStyle = lastRun ? statusStyles[lastRun.status] : null;
+                return (
+                  <div key={job.name} className="p-3 flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className={`text-sm font-medium ${job.is_enabled ? 'text-gray-900' : 'text-gray-400'}`}>
+                          {job.description}
+                        </span>
+                        {!job.is_enabled && (
+                          <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">Paused</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1 flex items-center space-x-1">
+                        <code>{job.schedule}</code>
+                        {lastRun && lastRunStyle && (
+                          <>
+                            <span>·</span>
+                            <lastRunStyle.icon className={`h-3 w-3 ${lastRunStyle.className}`} />
+                            <span className="truncate">{formatRunTime(lastRun.started_at)} — {describeRun(lastRun)}</span>
+                          </>
+                        )}
+                        {!lastRun && <span>· Not run yet</span>}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-1 shrink-0">
+                      <button
+                        onClick={() => handleToggle(job)}
+                        className="p-1 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                        title={job.is_enabled ? 'Pause schedule' : 'Resume schedule'}
+                      >
+                        {job.is_enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleRun(job.name)}
+                        disabled={runningJob !== null}
+                        className="px-2 py-1 text-xs border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors disabled:opacity-50"
+                      >
+                        {runningJob === job.name ? 'Running...' : 'Run now'}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {runs.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Recent Runs</h4>
+            <div className="max-h-48 overflow-y-auto space-y-1">
+              {runs.map(run => {
+                const { icon: Icon, className } = statusStyles[run.status];
+                return (
+                  <div key={run.id} className="flex items-center justify-between text-xs text-gray-600">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <Icon className={`h-3 w-3 shrink-0 ${className}`} />
+                      <span className="font-mono">{run.job_name}</span>
+                      {run.trigger === 'manual' && <span className="text-gray-400">(manual)</span>}
+                      <span className="truncate">{describeRun(run)}</span>
+                    </div>
+                    <span className="shrink-0 ml-2">{formatRunTime(run.started_at)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SystemStatusPanel;
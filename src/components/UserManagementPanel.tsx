@@ -0,0 +1,402 @@
+import React, { useState, useEffect } from 'react';
+import { Search, Ban, RotateCcw, KeyRound, ChevronLeft, ChevronRight, Loader, History } from 'lucide-react';
+import {
+  searchUsers,
+  setUserRole,
+  suspendUser,
+  reactivateUser,
+  forcePasswordReset,
+  getAdminAuditLog
+} from '../lib/repository';
+import { ROLES } from '../lib/constants';
+import { roleLabel } from '../lib/roles';
+import { useAuth } from '../lib/auth';
+import type { AccountStatus, AdminAuditEntry, AdminUser, Json, UserRole } from '../lib/types';
+
+const PAGE_SIZE = 20;
+const AUDIT_LIMIT = 15;
+
+const ASSIGNABLE_ROLES = ROLES.filter(option => option.value !== 'public');
+
+const STATUS_OPTIONS: { value: AccountStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'suspended', label: 'Suspended' },
+  { value: 'unconfirmed', label: 'Unconfirmed' }
+];
+
+const accountStatus = (user: AdminUser): AccountStatus => {
+  if (user.suspended_at) return 'suspended';
+  if (!user.email_confirmed_at) return 'unconfirmed';
+  return 'active';
+};
+
+const statusStyles: Record<AccountStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  suspended: 'bg-red-100 text-red-800',
+  unconfirmed: 'bg-yellow-100 text-yellow-800'
+};
+
+const displayName = (user: AdminUser) => user.full_name || user.username || user.email;
+
+const describeAudit = (entry: AdminAuditEntry) => {
+  const details = (entry.details ?? {}) as Record<string, Json>;
+  const actor = entry.actor_email ?? 'A former admin';
+  const target = entry.target_email ?? 'a deleted account';
+  switch (entry.action) {
+    case 'role_change':
+      return `${actor} changed ${target} from ${roleLabel(details.from as UserRole)} to ${roleLabel(details.to as UserRole)}`;
+    case 'suspend':
+      return `${actor} suspended ${target}${details.reason ? `: ${details.reason}` : ''}`;
+    case 'reactivate':
+      return `${actor} reactivated ${target}`;
+    default:
+      return `${actor} forced a password reset for ${target}`;
+  }
+};
+
+// Accounts across the platform, with the actions platform admins can take on them
+const UserManagementPanel: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const currentUserId = currentUser?.id ?? null;
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState<UserRole | ''>('');
+  const [statusFilter, setStatusFilter] = useState<AccountStatus | ''>('');
+  const [page, setPage] = useState(0);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [auditLog, setAuditLog] = useState<AdminAuditEntry[]>([]);
+  // Bumped after every action so the audit log shows it
+  const [auditVersion, setAuditVersion] = useState(0);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Wait for typing to pause before querying
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [debouncedSearch, roleFilter, statusFilter]);
+
+  useEffect(() => {
+    // Ignore responses for filters that have since changed
+    let isCurrent = true;
+    setIsLoading(true);
+
+    searchUsers({
+      search: debouncedSearch,
+      role: roleFilter || undefined,
+      status: statusFilter || undefined,
+      page,
+      pageSize: PAGE_SIZE
+    }).then(result => {
+      if (!isCurrent) return;
+      if (result.ok) {
+        setUsers(result.data.users);
+        setTotal(result.data.total);
+        setError('');
+      } else {
+        setError(result.error.message);
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [debouncedSearch, roleFilter, statusFilter, page]);
+
+  useEffect(() => {
+    getAdminAuditLog(AUDIT_LIMIT).then(result => {
+      if (result.ok) setAuditLog(result.data);
+    });
+  }, [auditVersion]);
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const updateUser = (id: string, changes: Partial<AdminUser>) => {
+    setUsers(current => current.map(user => (user.id === id ? { ...user, ...changes } : user)));
+  };
+
+  // Runs one admin action with the row marked busy, then refreshes the audit log
+  const runAction = async (user: AdminUser, action: () => Promise<string | null>) => {
+    setBusyId(user.id);
+    setError('');
+    const message = await action();
+    setBusyId(null);
+    setAuditVersion(version => version + 1);
+    if (message) flash(message);
+  };
+
+  const handleRoleChange = (user: AdminUser, role: UserRole) =>
+    runAction(user, async () => {
+      const result = await setUserRole(user.id, role);
+      if (!result.ok) {
+        setError(result.error.message);
+        return null;
+      }
+      updateUser(user.id, { role: result.data.role });
+      return `${displayName(user)} is now ${roleLabel(result.data.role)}`;
+    });
+
+  const handleSuspend = (user: AdminUser) => {
+    const reason = window.prompt(`Suspend ${displayName(user)}? They will be signed out and unable to sign in.\n\nReason (optional):`);
+    if (reason === null) return;
+
+    return runAction(user, async () => {
+      const result = await suspendUser(user.id, reason);
+      if (!result.ok) {
+        setError(result.error.message);
+        return null;
+      }
+      updateUser(user.id, { suspended_at: result.data.suspended_at, suspended_reason: result.data.suspended_reason });
+      return `${displayName(user)} suspended`;
+    });
+  };
+
+  const handleReactivate = (user: AdminUser) =>
+    runAction(user, async () => {
+      const result = await reactivateUser(user.id);
+      if (!result.ok) {
+        setError(result.error.message);
+        return null;
+      }
+      updateUser(user.id, { suspended_at: null, suspended_reason: null });
+      return `${displayName(user)} reactivated`;
+    });
+
+  const handlePasswordReset = (user: AdminUser) => {
+    if (!window.confirm(`Force a password reset for ${displayName(user)}? Their current password stops working and they are signed out everywhere.`)) return;
+
+    return runAction(user, async () => {
+      const result = await forcePasswordReset(user.id);
+      if (!result.ok) {
+        setError(result.error.message);
+        return null;
+      }
+      return `Password reset link sent to ${result.data}`;
+    });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search by name, username, email or organization"
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={roleFilter}
+            onChange={(e) => setRoleFilter(e.target.value as UserRole | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All roles</option>
+            {ASSIGNABLE_ROLES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as AccountStatus | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All statuses</option>
+            {STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Organization</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Joined</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Sign-in</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8">
+                    <Loader className="h-6 w-6 text-blue-600 animate-spin mx-auto" />
+                  </td>
+                </tr>
+              ) : users.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500">No users match these filters.</td>
+                </tr>
+              ) : (
+                users.map((user) => {
+                  const status = accountStatus(user);
+                  const isSelf = user.id === currentUserId;
+                  const isBusy = busyId === user.id;
+                  return (
+                    <tr key={user.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className="h-10 w-10 bg-blue-100 rounded-full flex items-center justify-center">
+                            <span className="text-blue-600 font-medium">{displayName(user).charAt(0).toUpperCase()}</span>
+                          </div>
+                          <div className="ml-4">
+                            <div className="text-sm font-medium text-gray-900">
+                              {displayName(user)}
+                              {isSelf && <span className="text-gray-500 font-normal"> (you)</span>}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {user.username ? `@${user.username} · ` : ''}{user.email}
+                            </div>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{user.organization_name ?? '—'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <select
+                          value={user.role}
+                          disabled={isSelf || isBusy}
+                          onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                          className="px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                        >
+                          {ASSIGNABLE_ROLES.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[status]}`}
+                          title={user.suspended_reason ?? undefined}
+                        >
+                          {STATUS_OPTIONS.find(option => option.value === status)?.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(user.created_at).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {user.last_sign_in_at ? new Date(user.last_sign_in_at).toLocaleString() : 'Never'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        {isBusy ? (
+                          <Loader className="h-4 w-4 text-blue-600 animate-spin" />
+                        ) : !isSelf && (
+                          <div className="flex items-center space-x-2">
+                            {status === 'suspended' ? (
+                              <button
+                                onClick={() => handleReactivate(user)}
+                                className="text-green-600 hover:text-green-900"
+                                title="Reactivate"
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => handleSuspend(user)}
+                                className="text-red-600 hover:text-red-900"
+                                title="Suspend"
+                              >
+                                <Ban className="h-4 w-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handlePasswordReset(user)}
+                              className="text-blue-600 hover:text-blue-900"
+                              title="Force password reset"
+                            >
+                              <KeyRound className="h-4 w-4" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+            <button
+              onClick={() => setPage(current => current - 1)}
+              disabled={page === 0 || isLoading}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center space-x-2"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              <span>Previous</span>
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page + 1} of {pageCount} · {total} user{total === 1 ? '' : 's'}
+            </span>
+            <button
+              onClick={() => setPage(current => current + 1)}
+              disabled={page + 1 >= pageCount || isLoading}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center space-x-2"
+            >
+              <span>Next</span>
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center space-x-2">
+          <History className="h-5 w-5 text-blue-600" />
+          <span>Recent Admin Actions</span>
+        </h3>
+        {auditLog.length === 0 ? (
+          <p className="text-sm text-gray-500">No admin actions recorded yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {auditLog.map(entry => (
+              <div key={entry.id} className="py-2 flex items-start justify-between gap-3 text-sm">
+                <p className="text-gray-800">{describeAudit(entry)}</p>
+                <span className="text-xs text-gray-500 shrink-0">{new Date(entry.created_at).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserManagementPanel;
@@ -0,0 +1,530 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Webhook, Plus, Save, Send, RefreshCw, Copy, Trash2, Loader, X, CheckCircle, XCircle, Clock } from 'lucide-react';
+import {
+  getWebhookEndpoints,
+  saveWebhookEndpoint,
+  deleteWebhookEndpoint,
+  rotateWebhookSecret,
+  getWebhookDeliveries,
+  sendTestWebhook,
+  getOrganizations
+} from '../lib/repository';
+import { WEBHOOK_EVENT_TYPES } from '../lib/constants';
+import type { OrganizationSummary, WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint, WebhookEventType } from '../lib/types';
+
+interface WebhooksPanelProps {
+  // Limits the panel to one organization's endpoints, for that organization's admins
+  organizationId?: string;
+}
+
+interface EndpointDraft {
+  organization_id: string;
+  url: string;
+  description: string;
+  event_types: WebhookEventType[];
+  is_active: boolean;
+}
+
+const emptyDraft: EndpointDraft = {
+  organization_id: '',
+  url: 'https://',
+  description: '',
+  event_types: ['event.created', 'event.escalated'],
+  is_active: true
+};
+
+const toDraft = (endpoint: WebhookEndpoint): EndpointDraft => ({
+  organization_id: endpoint.organization_id,
+  url: endpoint.url,
+  description: endpoint.description ?? '',
+  event_types: endpoint.event_types,
+  is_active: endpoint.is_active
+});
+
+const statusStyles: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const statusIcon = (status: WebhookDeliveryStatus) => {
+  switch (status) {
+    case 'succeeded': return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case 'failed': return <XCircle className="h-4 w-4 text-red-600" />;
+    default: return <Clock className="h-4 w-4 text-yellow-600" />;
+  }
+};
+
+const WebhooksPanel: React.FC<WebhooksPanelProps> = ({ organizationId }) => {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EndpointDraft>(emptyDraft);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadEndpoints = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getWebhookEndpoints(organizationId);
+    if (result.ok) {
+      setEndpoints(result.data);
+    } else {
+      setError(result.error.message);
+    }
+    setIsLoading(false);
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadEndpoints();
+    if (!organizationId) {
+      loadOrganizations();
+    }
+  }, [loadEndpoints, organizationId]);
+
+  useEffect(() => {
+    setExpandedDeliveryId(null);
+    if (selectedId && selectedId !== 'new') {
+      loadDeliveries(selectedId);
+    } else {
+      setDeliveries([]);
+    }
+  }, [selectedId]);
+
+  const loadOrganizations = async () => {
+    const result = await getOrganizations();
+    if (result.ok) {
+      setOrganizations(result.data);
+    } else {
+      setError(result.error.message);
+    }
+  };
+
+  const loadDeliveries = async (endpointId: string) => {
+    const result = await getWebhookDeliveries(endpointId);
+    if (result.ok) {
+      setDeliveries(result.data);
+    } else {
+      setError(result.error.message);
+    }
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const selectEndpoint = (endpoint: WebhookEndpoint | null) => {
+    setError('');
+    setRevealedSecret('');
+    setSelectedId(endpoint ? endpoint.id : 'new');
+    setDraft(endpoint ? toDraft(endpoint) : { ...emptyDraft, organization_id: organizationId ?? '' });
+  };
+
+  const toggleEventType = (eventType: WebhookEventType) => {
+    setDraft(prev => ({
+      ...prev,
+      event_types: prev.event_types.includes(eventType)
+        ? prev.event_types.filter(type => type !== eventType)
+        : [...prev.event_types, eventType]
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const url = draft.url.trim();
+
+    if (!draft.organization_id) {
+      setError('Choose an organization');
+      return;
+    }
+    try {
+      if (new URL(url).protocol !== 'https:') throw new Error();
+    } catch {
+      setError('Endpoint URL must be a valid https:// address');
+      return;
+    }
+    if (draft.event_types.length === 0) {
+      setError('Choose at least one event type');
+      return;
+    }
+
+    const isNew = selectedId === 'new';
+    setIsSaving(true);
+    setError('');
+    const result = await saveWebhookEndpoint({
+      ...(selectedId && !isNew ? { id: selectedId } : {}),
+      organization_id: draft.organization_id,
+      url,
+      description: draft.description.trim() || null,
+      event_types: draft.event_types,
+      is_active: draft.is_active
+    });
+
+    if (!result.ok) {
+      setIsSaving(false);
+      setError(result.error.message);
+      return;
+    }
+
+    // The generated secret is never readable, so issue a fresh one to show the admin
+    if (isNew) {
+      const secretResult = await rotateWebhookSecret(result.data.id);
+      if (secretResult.ok) {
+        setRevealedSecret(secretResult.data);
+      } else {
+        setError(secretResult.error.message);
+      }
+    }
+    setIsSaving(false);
+
+    setSelectedId(result.data.id);
+    setDraft(toDraft(result.data));
+    flash('Endpoint saved');
+    loadEndpoints();
+  };
+
+  const handleRotateSecret = async () => {
+    if (!selectedId || selectedId === 'new') return;
+    if (!confirm('Generate a new signing secret? The current secret stops working immediately.')) return;
+
+    setError('');
+    const result = await rotateWebhookSecret(selectedId);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+    setRevealedSecret(result.data);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId || selectedId === 'new') return;
+    if (!confirm(`Delete the endpoint ${draft.url}? Its delivery log is deleted too.`)) return;
+
+    const result = await deleteWebhookEndpoint(selectedId);
+    if (!result.ok) {
+      setError(result.error.message);
+      return;
+    }
+
+    setSelectedId(null);
+    flash('Endpoint deleted');
+    loadEndpoints();
+  };
+
+  const handleSendTest = async () => {
+    if (!selectedId || selectedId === 'new') return;
+
+    setIsTesting(true);
+    setError('');
+    const result = await sendTestWebhook(selectedId);
+    setIsTesting(false);
+
+    if (!result.ok) {
+      setError(result.error.message);
+    } else if (result.data.status === 'succeeded') {
+      flash(`Test delivered (HTTP ${result.data.last_status_code})`);
+    } else {
+      setError(`Test delivery failed: ${result.data.last_error ?? 'no response'}`);
+    }
+    loadDeliveries(selectedId);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
+            <Webhook className="h-5 w-5 text-blue-600" />
+            <span>Webhook Endpoints</span>
+          </h3>
+          <button
+            onClick={() => selectEndpoint(null)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Endpoint</span>
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+          </div>
+        ) : endpoints.length === 0 ? (
+          <div className="text-center py-12">
+            <Webhook className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No endpoints registered</h3>
+            <p className="text-gray-500">
+              {organizationId
+                ? 'Register an HTTPS endpoint to have events and alerts pushed to your systems.'
+                : "Register a partner's HTTPS endpoint to push events and alerts to it."}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {organizationId ? 'Endpoint' : 'Organization'}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Events</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {endpoints.map(endpoint => (
+                  <tr
+                    key={endpoint.id}
+                    onClick={() => selectEndpoint(endpoint)}
+                    className={`cursor-pointer hover:bg-gray-50 ${selectedId === endpoint.id ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-6 py-4">
+                      {!organizationId && (
+                        <div className="text-sm font-medium text-gray-900">{endpoint.organizations?.name}</div>
+                      )}
+                      <div className={organizationId ? 'text-sm text-gray-900 break-all' : 'text-xs text-gray-500 break-all'}>
+                        {endpoint.url}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <div className="flex flex-wrap gap-1">
+                        {endpoint.event_types.map(type => (
+                          <span key={type} className="px-2 py-0.5 rounded bg-gray-100 text-xs font-mono text-gray-700">{type}</span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        endpoint.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                      }`}>
+                        {endpoint.is_active ? 'Active' : 'Paused'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selectedId && (
+        <div className="bg-white rounded-xl p-6 shadow-lg">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-gray-900">
+              {selectedId === 'new' ? 'New Endpoint' : 'Edit Endpoint'}
+            </h3>
+            <button
+              onClick={() => setSelectedId(null)}
+              className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {revealedSecret && (
+            <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <p className="text-sm font-medium text-yellow-800 mb-2">
+                Signing secret: copy it now; it will not be shown again.
+              </p>
+              <div className="flex items-center space-x-2">
+                <code className="flex-1 px-3 py-2 bg-white border border-yellow-200 rounded text-sm break-all">{revealedSecret}</code>
+                <button
+                  onClick={() => navigator.clipboard.writeText(revealedSecret)}
+                  className="p-2 text-yellow-800 hover:bg-yellow-100 rounded-lg transition-colors"
+                >
+                  <Copy className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className={`grid grid-cols-1 gap-4 ${organizationId ? '' : 'sm:grid-cols-2'}`}>
+              {!organizationId && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Organization *</label>
+                  <select
+                    value={draft.organization_id}
+                    onChange={(e) => setDraft(prev => ({ ...prev, organization_id: e.target.value }))}
+                    className={inputClass}
+                  >
+                    <option value="">Choose an organization</option>
+                    {organizations.map(organization => (
+                      <option key={organization.id} value={organization.id}>{organization.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Endpoint URL *</label>
+                <input
+                  type="url"
+                  value={draft.url}
+                  onChange={(e) => setDraft(prev => ({ ...prev, url: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Event Types</label>
+              <div className="grid grid-cols-2 gap-2">
+                {WEBHOOK_EVENT_TYPES.map(option => (
+                  <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.event_types.includes(option.value)}
+                      onChange={() => toggleEventType(option.value)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>{option.label}</span>
+                    <span className="text-xs font-mono text-gray-400">{option.value}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.is_active}
+                  onChange={(e) => setDraft(prev => ({ ...prev, is_active: e.target.checked }))}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Active (paused endpoints receive nothing)</span>
+              </label>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Save className="h-4 w-4" />
+                <span>{selectedId === 'new' ? 'Create Endpoint' : 'Save Endpoint'}</span>
+              </button>
+            </div>
+          </form>
+
+          {selectedId !== 'new' && (
+            <div className="pt-6 mt-6 border-t border-gray-200">
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                <button
+                  onClick={handleSendTest}
+                  disabled={isTesting}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors flex items-center space-x-2 disabled:opacity-50"
+                >
+                  <Send className="h-4 w-4" />
+                  <span>{isTesting ? 'Sending...' : 'Send Test'}</span>
+                </button>
+                <button
+                  onClick={handleRotateSecret}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                  <span>Rotate Secret</span>
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="px-4 py-2 border border-red-200 text-red-600 rounded-lg font-medium hover:bg-red-50 transition-colors flex items-center space-x-2"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span>Delete</span>
+                </button>
+              </div>
+
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-sm font-medium text-gray-700">Recent Deliveries</p>
+                <button
+                  onClick={() => loadDeliveries(selectedId)}
+                  className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  Refresh
+                </button>
+              </div>
+
+              {deliveries.length > 0 ? (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {deliveries.map(delivery => (
+                    <li key={delivery.id} className="text-sm">
+                      <button
+                        onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                        className="w-full px-4 py-3 flex items-center justify-between text-left hover:bg-gray-50"
+                      >
+                        <div className="flex items-center space-x-3">
+                          {statusIcon(delivery.status)}
+                          <div>
+                            <span className="font-mono text-gray-900">{delivery.event_type}</span>
+                            <div className="text-xs text-gray-500">
+                              {new Date(delivery.created_at).toLocaleString()} · Attempt {delivery.attempts} of {delivery.max_attempts}
+                              {delivery.last_status_code !== null && ` · HTTP ${delivery.last_status_code}`}
+                              {delivery.duration_ms !== null && ` · ${delivery.duration_ms} ms`}
+                            </div>
+                          </div>
+                        </div>
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${statusStyles[delivery.status]}`}>
+                          {delivery.status}
+                        </span>
+                      </button>
+                      {expandedDeliveryId === delivery.id && (
+                        <div className="px-4 pb-4 space-y-2">
+                          {delivery.last_error && <p className="text-xs text-red-600">{delivery.last_error}</p>}
+                          {delivery.status === 'pending' && delivery.attempts > 0 && (
+                            <p className="text-xs text-gray-500">
+                              Next attempt {new Date(delivery.next_attempt_at).toLocaleString()}
+                            </p>
+                          )}
+                          <pre className="p-3 bg-gray-50 rounded text-xs overflow-x-auto">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                          {delivery.response_body && (
+                            <p className="text-xs text-gray-500">Response: {delivery.response_body}</p>
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-gray-500">Nothing delivered to this endpoint yet</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebhooksPanel;
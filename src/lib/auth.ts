@@ -0,0 +1,42 @@
+import { createContext, useContext } from 'react';
+import type { User } from '@supabase/supabase-js';
+import type { AccessRole } from './types';
+
+export type AuthMode = 'login' | 'signup' | 'admin' | 'mfa';
+
+export interface AuthContextValue {
+  user: User | null;
+  // The role the database currently grants, reduced while MFA is pending
+  role: AccessRole;
+  needsMfa: boolean;
+  isLoading: boolean;
+  // Opens the sign-in modal; `returnTo` is where a successful sign-in lands
+  openAuth: (mode: AuthMode, returnTo?: string) => void;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Signed-in user and role, shared from AuthProvider
+export const useAuth = () => {
+  const value = useContext(AuthContext);
+  if (!value) {
+    throw new Error('useAuth must be used inside AuthProvider');
+  }
+  return value;
+};
+
+const hasControlCharacter = (value: string) =>
+  Array.from(value).some(char => char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f);
+
+// In-app paths only, so a crafted ?returnTo= cannot send users to another site. Browsers read
+// `/\evil.example` as `//evil.example`, so backslashes and control characters are refused and
+// the path must still resolve to this origin
+export const safeReturnPath = (path: string | null | undefined) => {
+  if (!path || !path.startsWith('/') || path.includes('\\') || hasControlCharacter(path)) return null;
+
+  const url = new URL(path, window.location.origin);
+  return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : null;
+};
+
+export const loginPath = (returnTo: string) => `/login?returnTo=${encodeURIComponent(returnTo)}`;
@@ -0,0 +1,58 @@
+import type { AccessRole, MemberRole, OrganizationKind, Severity, SignalSourceKind, WebhookEventType } from './types';
+
+// Signal types the detector and the admin tools know about
+export const SIGNAL_TYPES = [
+  'Cough',
+  'Fever',
+  'Respiratory',
+  'Wastewater',
+  'Pharmacy',
+  'Environmental',
+  'Acoustic',
+  'Other'
+];
+
+export const SEVERITIES: Severity[] = ['low', 'medium', 'high'];
+
+export const SOURCE_KINDS: { value: SignalSourceKind; label: string }[] = [
+  { value: 'device', label: 'Device' },
+  { value: 'wearable', label: 'Wearable' },
+  { value: 'acoustic_monitor', label: 'Acoustic Monitor' },
+  { value: 'pharmacy', label: 'Pharmacy' },
+  { value: 'lab', label: 'Laboratory' },
+  { value: 'sampling_site', label: 'Sampling Site' },
+  { value: 'partner_system', label: 'Partner System' },
+  { value: 'other', label: 'Other' }
+];
+
+// Matches the check on user_profiles.username; names are stored lowercase
+export const USERNAME_PATTERN = /^[a-z0-9_]{3,30}$/;
+
+// Least to most privileged; each role may do everything the roles before it may
+export const ROLES: { value: AccessRole; label: string }[] = [
+  { value: 'public', label: 'Public' },
+  { value: 'registered', label: 'Registered' },
+  { value: 'data_contributor', label: 'Data Contributor' },
+  { value: 'org_admin', label: 'Organization Admin' },
+  { value: 'analyst', label: 'Analyst' },
+  { value: 'platform_admin', label: 'Platform Admin' }
+];
+
+export const WEBHOOK_EVENT_TYPES: { value: WebhookEventType; label: string }[] = [
+  { value: 'event.created', label: 'Event created' },
+  { value: 'event.escalated', label: 'Event escalated' },
+  { value: 'alert.issued', label: 'Alert issued' },
+  { value: 'alert.resolved', label: 'Alert resolved' }
+];
+
+export const ORGANIZATION_KINDS: { value: OrganizationKind; label: string }[] = [
+  { value: 'ngo', label: 'NGO' },
+  { value: 'health_dept', label: 'Health Department' },
+  { value: 'research', label: 'Research Institution' },
+  { value: 'other', label: 'Other' }
+];
+
+export const MEMBER_ROLES: { value: MemberRole; label: string }[] = [
+  { value: 'member', label: 'Member' },
+  { value: 'admin', label: 'Admin' }
+];
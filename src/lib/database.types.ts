@@ -0,0 +1,1784 @@
+// Shape of the `public` schema as produced by `supabase gen types typescript`.
+// Text columns guarded by a CHECK constraint are narrowed to their allowed
+// values by hand; keep them in sync with supabase/migrations when regenerating.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Severity = 'low' | 'medium' | 'high';
+export type EventStatus = 'active' | 'monitoring' | 'resolved' | 'merged';
+export type EventAction =
+  | 'created'
+  | 'escalate'
+  | 'downgrade'
+  | 'merge'
+  | 'absorb'
+  | 'resolve'
+  | 'reopen'
+  | 'auto_resolve'
+  | 'system';
+export type AlertStatus = 'active' | 'monitoring' | 'resolved' | 'retracted' | 'superseded';
+export type AlertOrigin = 'event' | 'manual';
+export type AlertAction =
+  | 'issue'
+  | 'update'
+  | 'extend'
+  | 'retract'
+  | 'supersede'
+  | 'event_sync'
+  | 'expire'
+  | 'system';
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+export type JobRunTrigger = 'schedule' | 'manual';
+export type AlertEmailStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+export type SubscriptionAreaType = 'place' | 'radius' | 'polygon';
+export type NotificationKind = 'alert' | 'system';
+export type NoticeAudience = 'all' | 'admins';
+export type RetentionTable = 'signals' | 'alerts' | 'events';
+export type RetentionAction = 'archive' | 'purge';
+export type SignalSourceKind =
+  | 'device'
+  | 'wearable'
+  | 'acoustic_monitor'
+  | 'pharmacy'
+  | 'lab'
+  | 'sampling_site'
+  | 'partner_system'
+  | 'other';
+export type UserRole = 'registered' | 'data_contributor' | 'org_admin' | 'analyst' | 'platform_admin';
+export type WebhookEventType = 'event.created' | 'event.escalated' | 'alert.issued' | 'alert.resolved';
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'succeeded' | 'failed';
+export type OrganizationKind = 'ngo' | 'health_dept' | 'research' | 'other';
+export type MemberRole = 'member' | 'admin';
+export type AdminAuditAction = 'role_change' | 'suspend' | 'reactivate' | 'password_reset';
+export type AccountStatus = 'active' | 'suspended' | 'unconfirmed';
+
+export type Database = {
+  public: {
+    Tables: {
+      signals: {
+        Row: {
+          id: string;
+          type: string;
+          location: string;
+          latitude: number | null;
+          longitude: number | null;
+          timestamp: string;
+          severity: Severity;
+          notes: string | null;
+          created_by: string | null;
+          source_id: string | null;
+          organization_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          type: string;
+          location: string;
+          latitude?: number | null;
+          longitude?: number | null;
+          timestamp?: string;
+          severity: Severity;
+          notes?: string | null;
+          created_by?: string | null;
+          source_id?: string | null;
+          organization_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          type?: string;
+          location?: string;
+          latitude?: number | null;
+          longitude?: number | null;
+          timestamp?: string;
+          severity?: Severity;
+          notes?: string | null;
+          created_by?: string | null;
+          source_id?: string | null;
+          organization_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      events: {
+        Row: {
+          id: string;
+          title: string;
+          location: string;
+          latitude: number | null;
+          longitude: number | null;
+          type: string;
+          severity: Severity;
+          status: EventStatus;
+          signal_ids: string[] | null;
+          signal_count: number;
+          anomaly_score: number | null;
+          confidence: number | null;
+          source_quality: number | null;
+          merged_into_id: string | null;
+          resolved_at: string | null;
+          risk_score: number | null;
+          score_breakdown: Json | null;
+          affected_population: number | null;
+          summary: string | null;
+          description: string | null;
+          recommendations: string[] | null;
+          precautions: string[] | null;
+          created_at: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          location: string;
+          latitude?: number | null;
+          longitude?: number | null;
+          type: string;
+          severity: Severity;
+          status?: EventStatus;
+          signal_ids?: string[] | null;
+          signal_count?: number;
+          anomaly_score?: number | null;
+          confidence?: number | null;
+          source_quality?: number | null;
+          merged_into_id?: string | null;
+          resolved_at?: string | null;
+          risk_score?: number | null;
+          score_breakdown?: Json | null;
+          affected_population?: number | null;
+          summary?: string | null;
+          description?: string | null;
+          recommendations?: string[] | null;
+          precautions?: string[] | null;
+          created_at?: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          location?: string;
+          latitude?: number | null;
+          longitude?: number | null;
+          type?: string;
+          severity?: Severity;
+          status?: EventStatus;
+          signal_ids?: string[] | null;
+          signal_count?: number;
+          anomaly_score?: number | null;
+          confidence?: number | null;
+          source_quality?: number | null;
+          merged_into_id?: string | null;
+          resolved_at?: string | null;
+          risk_score?: number | null;
+          score_breakdown?: Json | null;
+          affected_population?: number | null;
+          summary?: string | null;
+          description?: string | null;
+          recommendations?: string[] | null;
+          precautions?: string[] | null;
+          created_at?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      alerts: {
+        Row: {
+          id: string;
+          event_id: string | null;
+          title: string;
+          location: string;
+          type: string;
+          severity: Severity;
+          status: AlertStatus;
+          description: string | null;
+          recommendations: string[] | null;
+          issued_at: string;
+          expires_at: string | null;
+          origin: AlertOrigin;
+          version: number;
+          superseded_by: string | null;
+          updated_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id?: string | null;
+          title: string;
+          location: string;
+          type?: string;
+          severity: Severity;
+          status?: AlertStatus;
+          description?: string | null;
+          recommendations?: string[] | null;
+          issued_at?: string;
+          expires_at?: string | null;
+          origin?: AlertOrigin;
+          version?: number;
+          superseded_by?: string | null;
+          updated_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string | null;
+          title?: string;
+          location?: string;
+          type?: string;
+          severity?: Severity;
+          status?: AlertStatus;
+          description?: string | null;
+          recommendations?: string[] | null;
+          issued_at?: string;
+          expires_at?: string | null;
+          origin?: AlertOrigin;
+          version?: number;
+          superseded_by?: string | null;
+          updated_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'alerts_event_id_fkey';
+            columns: ['event_id'];
+            isOneToOne: false;
+            referencedRelation: 'events';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      blogs: {
+        Row: {
+          id: string;
+          event_id: string | null;
+          title: string;
+          content: string;
+          summary: string | null;
+          location: string;
+          type: string;
+          severity: Severity;
+          author: string;
+          published: boolean | null;
+          published_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id?: string | null;
+          title: string;
+          content: string;
+          summary?: string | null;
+          location?: string;
+          type?: string;
+          severity?: Severity;
+          author?: string;
+          published?: boolean | null;
+          published_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string | null;
+          title?: string;
+          content?: string;
+          summary?: string | null;
+          location?: string;
+          type?: string;
+          severity?: Severity;
+          author?: string;
+          published?: boolean | null;
+          published_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'blogs_event_id_fkey';
+            columns: ['event_id'];
+            isOneToOne: false;
+            referencedRelation: 'events';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      admin_otps: {
+        Row: {
+          id: string;
+          user_id: string;
+          email: string;
+          code_hash: string;
+          attempts: number;
+          expires_at: string;
+          used: boolean | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          email: string;
+          code_hash: string;
+          attempts?: number;
+          expires_at: string;
+          used?: boolean | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          email?: string;
+          code_hash?: string;
+          attempts?: number;
+          expires_at?: string;
+          used?: boolean | null;
+          created_at?: string | null;
+        };
+        Relationships: [];
+      };
+      user_profiles: {
+        Row: {
+          id: string;
+          full_name: string | null;
+          username: string | null;
+          user_type: string | null;
+          org_name: string | null;
+          subscribed: boolean | null;
+          is_admin: boolean | null;
+          role: UserRole;
+          suspended_at: string | null;
+          suspended_reason: string | null;
+          role_before_membership: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id: string;
+          full_name?: string | null;
+          username?: string | null;
+          user_type?: string | null;
+          org_name?: string | null;
+          subscribed?: boolean | null;
+          is_admin?: boolean | null;
+          role?: UserRole;
+          suspended_at?: string | null;
+          suspended_reason?: string | null;
+          role_before_membership?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          full_name?: string | null;
+          username?: string | null;
+          user_type?: string | null;
+          org_name?: string | null;
+          subscribed?: boolean | null;
+          is_admin?: boolean | null;
+          role?: UserRole;
+          suspended_at?: string | null;
+          suspended_reason?: string | null;
+          role_before_membership?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      clustering_settings: {
+        Row: {
+          id: boolean;
+          radius_km: number;
+          baseline_days: number;
+          min_history_days: number;
+          ewma_alpha: number;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: boolean;
+          radius_km?: number;
+          baseline_days?: number;
+          min_history_days?: number;
+          ewma_alpha?: number;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: boolean;
+          radius_km?: number;
+          baseline_days?: number;
+          min_history_days?: number;
+          ewma_alpha?: number;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      detection_settings: {
+        Row: {
+          id: string;
+          signal_type: string | null;
+          region: string | null;
+          min_signals: number;
+          medium_threshold: number;
+          high_threshold: number;
+          z_threshold: number;
+          updated_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          signal_type?: string | null;
+          region?: string | null;
+          min_signals?: number;
+          medium_threshold?: number;
+          high_threshold?: number;
+          z_threshold?: number;
+          updated_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          signal_type?: string | null;
+          region?: string | null;
+          min_signals?: number;
+          medium_threshold?: number;
+          high_threshold?: number;
+          z_threshold?: number;
+          updated_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      detection_settings_audit: {
+        Row: {
+          id: string;
+          settings_id: string;
+          action: 'created' | 'updated' | 'deleted';
+          old_values: Json | null;
+          new_values: Json | null;
+          changed_by: string | null;
+          changed_by_name: string | null;
+          changed_at: string;
+        };
+        Insert: {
+          id?: string;
+          settings_id: string;
+          action: 'created' | 'updated' | 'deleted';
+          old_values?: Json | null;
+          new_values?: Json | null;
+          changed_by?: string | null;
+          changed_by_name?: string | null;
+          changed_at?: string;
+        };
+        Update: {
+          id?: string;
+          settings_id?: string;
+          action?: 'created' | 'updated' | 'deleted';
+          old_values?: Json | null;
+          new_values?: Json | null;
+          changed_by?: string | null;
+          changed_by_name?: string | null;
+          changed_at?: string;
+        };
+        Relationships: [];
+      };
+      signal_sources: {
+        Row: {
+          id: string;
+          name: string;
+          rate_limit_per_minute: number;
+          kind: SignalSourceKind;
+          owner_organization: string | null;
+          organization_id: string | null;
+          location: string | null;
+          latitude: number | null;
+          longitude: number | null;
+          reliability_weight: number;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          rate_limit_per_minute?: number;
+          kind?: SignalSourceKind;
+          owner_organization?: string | null;
+          organization_id?: string | null;
+          location?: string | null;
+          latitude?: number | null;
+          longitude?: number | null;
+          reliability_weight?: number;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          rate_limit_per_minute?: number;
+          kind?: SignalSourceKind;
+          owner_organization?: string | null;
+          organization_id?: string | null;
+          location?: string | null;
+          latitude?: number | null;
+          longitude?: number | null;
+          reliability_weight?: number;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      source_api_keys: {
+        Row: {
+          id: string;
+          source_id: string;
+          label: string | null;
+          key_prefix: string;
+          key_hash: string;
+          created_by: string | null;
+          created_at: string;
+          last_used_at: string | null;
+          revoked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          source_id: string;
+          label?: string | null;
+          key_prefix: string;
+          key_hash: string;
+          created_by?: string | null;
+          created_at?: string;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          source_id?: string;
+          label?: string | null;
+          key_prefix?: string;
+          key_hash?: string;
+          created_by?: string | null;
+          created_at?: string;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+        };
+        Relationships: [];
+      };
+      ingestion_requests: {
+        Row: {
+          id: string;
+          source_id: string;
+          idempotency_key: string;
+          request_hash: string;
+          status_code: number | null;
+          response: Json | null;
+          created_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          source_id: string;
+          idempotency_key: string;
+          request_hash: string;
+          status_code?: number | null;
+          response?: Json | null;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          source_id?: string;
+          idempotency_key?: string;
+          request_hash?: string;
+          status_code?: number | null;
+          response?: Json | null;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+        Relationships: [];
+      };
+      ingestion_rate_windows: {
+        Row: {
+          source_id: string;
+          window_start: string;
+          request_count: number;
+        };
+        Insert: {
+          source_id: string;
+          window_start: string;
+          request_count?: number;
+        };
+        Update: {
+          source_id?: string;
+          window_start?: string;
+          request_count?: number;
+        };
+        Relationships: [];
+      };
+      event_status_history: {
+        Row: {
+          id: string;
+          event_id: string;
+          action: EventAction;
+          from_status: EventStatus | null;
+          to_status: EventStatus;
+          from_severity: Severity | null;
+          to_severity: Severity;
+          related_event_id: string | null;
+          reason: string | null;
+          changed_by: string | null;
+          changed_by_name: string | null;
+          changed_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id: string;
+          action: EventAction;
+          from_status?: EventStatus | null;
+          to_status: EventStatus;
+          from_severity?: Severity | null;
+          to_severity: Severity;
+          related_event_id?: string | null;
+          reason?: string | null;
+          changed_by?: string | null;
+          changed_by_name?: string | null;
+          changed_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string;
+          action?: EventAction;
+          from_status?: EventStatus | null;
+          to_status?: EventStatus;
+          from_severity?: Severity | null;
+          to_severity?: Severity;
+          related_event_id?: string | null;
+          reason?: string | null;
+          changed_by?: string | null;
+          changed_by_name?: string | null;
+          changed_at?: string;
+        };
+        Relationships: [];
+      };
+      scheduled_jobs: {
+        Row: {
+          name: string;
+          description: string;
+          schedule: string;
+          is_enabled: boolean;
+          edge_function: string | null;
+        };
+        Insert: {
+          name: string;
+          description: string;
+          schedule: string;
+          is_enabled?: boolean;
+          edge_function?: string | null;
+        };
+        Update: {
+          name?: string;
+          description?: string;
+          schedule?: string;
+          is_enabled?: boolean;
+          edge_function?: string | null;
+        };
+        Relationships: [];
+      };
+      job_runs: {
+        Row: {
+          id: string;
+          job_name: string;
+          trigger: JobRunTrigger;
+          status: JobRunStatus;
+          affected_rows: number | null;
+          details: Json | null;
+          error: string | null;
+          triggered_by: string | null;
+          started_at: string;
+          finished_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          job_name: string;
+          trigger?: JobRunTrigger;
+          status?: JobRunStatus;
+          affected_rows?: number | null;
+          details?: Json | null;
+          error?: string | null;
+          triggered_by?: string | null;
+          started_at?: string;
+          finished_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          job_name?: string;
+          trigger?: JobRunTrigger;
+          status?: JobRunStatus;
+          affected_rows?: number | null;
+          details?: Json | null;
+          error?: string | null;
+          triggered_by?: string | null;
+          started_at?: string;
+          finished_at?: string | null;
+        };
+        Relationships: [];
+      };
+      retention_policies: {
+        Row: {
+          table_name: RetentionTable;
+          retain_days: number;
+          action: RetentionAction;
+          is_enabled: boolean;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          table_name: RetentionTable;
+          retain_days: number;
+          action?: RetentionAction;
+          is_enabled?: boolean;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          table_name?: RetentionTable;
+          retain_days?: number;
+          action?: RetentionAction;
+          is_enabled?: boolean;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [];
+      };
+      archived_records: {
+        Row: {
+          id: string;
+          source_table: string;
+          record_id: string;
+          record: Json;
+          archived_at: string;
+        };
+        Insert: {
+          id?: string;
+          source_table: string;
+          record_id: string;
+          record: Json;
+          archived_at?: string;
+        };
+        Update: {
+          id?: string;
+          source_table?: string;
+          record_id?: string;
+          record?: Json;
+          archived_at?: string;
+        };
+        Relationships: [];
+      };
+      signal_type_weights: {
+        Row: {
+          signal_type: string;
+          weight: number;
+          updated_at: string;
+        };
+        Insert: {
+          signal_type: string;
+          weight?: number;
+          updated_at?: string;
+        };
+        Update: {
+          signal_type?: string;
+          weight?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      alert_versions: {
+        Row: {
+          id: string;
+          alert_id: string;
+          version: number;
+          action: AlertAction;
+          snapshot: Json;
+          reason: string | null;
+          changed_by: string | null;
+          changed_by_name: string | null;
+          changed_at: string;
+        };
+        Insert: {
+          id?: string;
+          alert_id: string;
+          version: number;
+          action: AlertAction;
+          snapshot: Json;
+          reason?: string | null;
+          changed_by?: string | null;
+          changed_by_name?: string | null;
+          changed_at?: string;
+        };
+        Update: {
+          id?: string;
+          alert_id?: string;
+          version?: number;
+          action?: AlertAction;
+          snapshot?: Json;
+          reason?: string | null;
+          changed_by?: string | null;
+          changed_by_name?: string | null;
+          changed_at?: string;
+        };
+        Relationships: [];
+      };
+      alert_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          area_type: SubscriptionAreaType;
+          place_name: string | null;
+          center_latitude: number | null;
+          center_longitude: number | null;
+          radius_km: number | null;
+          polygon: Json | null;
+          min_severity: Severity;
+          signal_types: string[];
+          is_active: boolean;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          area_type: SubscriptionAreaType;
+          place_name?: string | null;
+          center_latitude?: number | null;
+          center_longitude?: number | null;
+          radius_km?: number | null;
+          polygon?: Json | null;
+          min_severity?: Severity;
+          signal_types?: string[];
+          is_active?: boolean;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          area_type?: SubscriptionAreaType;
+          place_name?: string | null;
+          center_latitude?: number | null;
+          center_longitude?: number | null;
+          radius_km?: number | null;
+          polygon?: Json | null;
+          min_severity?: Severity;
+          signal_types?: string[];
+          is_active?: boolean;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      alert_emails: {
+        Row: {
+          id: string;
+          alert_id: string;
+          user_id: string;
+          subscription_id: string | null;
+          status: AlertEmailStatus;
+          attempts: number;
+          last_error: string | null;
+          next_attempt_at: string;
+          sent_at: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          alert_id: string;
+          user_id: string;
+          subscription_id?: string | null;
+          status?: AlertEmailStatus;
+          attempts?: number;
+          last_error?: string | null;
+          next_attempt_at?: string;
+          sent_at?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          alert_id?: string;
+          user_id?: string;
+          subscription_id?: string | null;
+          status?: AlertEmailStatus;
+          attempts?: number;
+          last_error?: string | null;
+          next_attempt_at?: string;
+          sent_at?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [];
+      };
+      system_notices: {
+        Row: {
+          id: string;
+          title: string;
+          message: string;
+          severity: Severity;
+          action_url: string | null;
+          audience: NoticeAudience;
+          recipient_count: number;
+          published_by: string | null;
+          published_by_name: string | null;
+          published_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          message: string;
+          severity?: Severity;
+          action_url?: string | null;
+          audience?: NoticeAudience;
+          recipient_count?: number;
+          published_by?: string | null;
+          published_by_name?: string | null;
+          published_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          message?: string;
+          severity?: Severity;
+          action_url?: string | null;
+          audience?: NoticeAudience;
+          recipient_count?: number;
+          published_by?: string | null;
+          published_by_name?: string | null;
+          published_at?: string;
+        };
+        Relationships: [];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          kind: NotificationKind;
+          title: string;
+          message: string;
+          severity: Severity;
+          action_url: string | null;
+          alert_id: string | null;
+          notice_id: string | null;
+          read_at: string | null;
+          dismissed_at: string | null;
+          archived_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          kind: NotificationKind;
+          title: string;
+          message: string;
+          severity?: Severity;
+          action_url?: string | null;
+          alert_id?: string | null;
+          notice_id?: string | null;
+          read_at?: string | null;
+          dismissed_at?: string | null;
+          archived_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          kind?: NotificationKind;
+          title?: string;
+          message?: string;
+          severity?: Severity;
+          action_url?: string | null;
+          alert_id?: string | null;
+          notice_id?: string | null;
+          read_at?: string | null;
+          dismissed_at?: string | null;
+          archived_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      webhook_endpoints: {
+        Row: {
+          id: string;
+          organization_id: string;
+          url: string;
+          description: string | null;
+          event_types: WebhookEventType[];
+          secret: string;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          url: string;
+          description?: string | null;
+          event_types: WebhookEventType[];
+          secret?: string;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          url?: string;
+          description?: string | null;
+          event_types?: WebhookEventType[];
+          secret?: string;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'webhook_endpoints_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      webhook_deliveries: {
+        Row: {
+          id: string;
+          endpoint_id: string;
+          event_type: WebhookEventType | 'test';
+          payload: Json;
+          is_test: boolean;
+          status: WebhookDeliveryStatus;
+          attempts: number;
+          max_attempts: number;
+          next_attempt_at: string;
+          last_status_code: number | null;
+          last_error: string | null;
+          response_body: string | null;
+          duration_ms: number | null;
+          delivered_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          endpoint_id: string;
+          event_type: WebhookEventType | 'test';
+          payload: Json;
+          is_test?: boolean;
+          status?: WebhookDeliveryStatus;
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          last_status_code?: number | null;
+          last_error?: string | null;
+          response_body?: string | null;
+          duration_ms?: number | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          endpoint_id?: string;
+          event_type?: WebhookEventType | 'test';
+          payload?: Json;
+          is_test?: boolean;
+          status?: WebhookDeliveryStatus;
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          last_status_code?: number | null;
+          last_error?: string | null;
+          response_body?: string | null;
+          duration_ms?: number | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      organizations: {
+        Row: {
+          id: string;
+          name: string;
+          kind: OrganizationKind;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          kind?: OrganizationKind;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          kind?: OrganizationKind;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      organization_members: {
+        Row: {
+          organization_id: string;
+          user_id: string;
+          member_role: MemberRole;
+          joined_at: string;
+        };
+        Insert: {
+          organization_id: string;
+          user_id: string;
+          member_role?: MemberRole;
+          joined_at?: string;
+        };
+        Update: {
+          organization_id?: string;
+          user_id?: string;
+          member_role?: MemberRole;
+          joined_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'organization_members_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      organization_invitations: {
+        Row: {
+          id: string;
+          organization_id: string;
+          email: string;
+          member_role: MemberRole;
+          invited_by: string | null;
+          created_at: string;
+          expires_at: string;
+          accepted_at: string | null;
+          accepted_by: string | null;
+          declined_at: string | null;
+          revoked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          email: string;
+          member_role?: MemberRole;
+          invited_by?: string | null;
+          created_at?: string;
+          expires_at?: string;
+          accepted_at?: string | null;
+          accepted_by?: string | null;
+          declined_at?: string | null;
+          revoked_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          email?: string;
+          member_role?: MemberRole;
+          invited_by?: string | null;
+          created_at?: string;
+          expires_at?: string;
+          accepted_at?: string | null;
+          accepted_by?: string | null;
+          declined_at?: string | null;
+          revoked_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'organization_invitations_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      event_notes: {
+        Row: {
+          id: string;
+          event_id: string;
+          organization_id: string;
+          author_id: string | null;
+          author_name: string | null;
+          body: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id: string;
+          organization_id: string;
+          author_id?: string | null;
+          author_name?: string | null;
+          body: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string;
+          organization_id?: string;
+          author_id?: string | null;
+          author_name?: string | null;
+          body?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'event_notes_event_id_fkey';
+            columns: ['event_id'];
+            isOneToOne: false;
+            referencedRelation: 'events';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'event_notes_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      admin_audit_log: {
+        Row: {
+          id: string;
+          actor_id: string | null;
+          actor_email: string | null;
+          target_user_id: string | null;
+          target_email: string | null;
+          action: AdminAuditAction;
+          details: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          actor_id?: string | null;
+          actor_email?: string | null;
+          target_user_id?: string | null;
+          target_email?: string | null;
+          action: AdminAuditAction;
+          details?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          actor_id?: string | null;
+          actor_email?: string | null;
+          target_user_id?: string | null;
+          target_email?: string | null;
+          action?: AdminAuditAction;
+          details?: Json;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      admin_otp_lockouts: {
+        Row: {
+          user_id: string;
+          failed_attempts: number;
+          locked_until: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          failed_attempts?: number;
+          locked_until?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          failed_attempts?: number;
+          locked_until?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      admin_sessions: {
+        Row: {
+          session_id: string;
+          user_id: string;
+          verified_at: string;
+          expires_at: string;
+        };
+        Insert: {
+          session_id: string;
+          user_id: string;
+          verified_at?: string;
+          expires_at: string;
+        };
+        Update: {
+          session_id?: string;
+          user_id?: string;
+          verified_at?: string;
+          expires_at?: string;
+        };
+        Relationships: [];
+      };
+      mfa_recovery_codes: {
+        Row: {
+          id: string;
+          user_id: string;
+          code_hash: string;
+          used_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          code_hash: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          code_hash?: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      mfa_recovery_lockouts: {
+        Row: {
+          user_id: string;
+          failed_attempts: number;
+          locked_until: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          failed_attempts?: number;
+          locked_until?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          failed_attempts?: number;
+          locked_until?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      admin_list_users: {
+        Args: {
+          p_search?: string | null;
+          p_role?: UserRole | null;
+          p_status?: AccountStatus | null;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: {
+          id: string;
+          email: string;
+          full_name: string | null;
+          username: string | null;
+          user_type: string | null;
+          role: UserRole;
+          organization_name: string | null;
+          created_at: string;
+          last_sign_in_at: string | null;
+          email_confirmed_at: string | null;
+          suspended_at: string | null;
+          suspended_reason: string | null;
+          total_count: number;
+        }[];
+      };
+      admin_session_verified: {
+        Args: Record<PropertyKey, never>;
+        Returns: boolean;
+      };
+      apply_retention: {
+        Args: {
+          p_dry_run?: boolean;
+        };
+        Returns: {
+          target_table: RetentionTable;
+          policy_action: RetentionAction;
+          retain_days: number;
+          cutoff: string;
+          affected_rows: number;
+          oldest_at: string | null;
+        }[];
+      };
+      auto_resolve_old_events: {
+        Args: Record<PropertyKey, never>;
+        Returns: undefined;
+      };
+      claim_alert_emails: {
+        Args: {
+          p_limit?: number;
+        };
+        Returns: {
+          id: string;
+          attempts: number;
+          email: string;
+          recipient_name: string | null;
+          subscription_name: string | null;
+          alert_id: string;
+          event_id: string | null;
+          title: string;
+          location: string;
+          type: string;
+          severity: Severity;
+          status: AlertStatus;
+          description: string | null;
+          recommendations: string[] | null;
+          issued_at: string;
+          expires_at: string | null;
+        }[];
+      };
+      claim_webhook_deliveries: {
+        Args: {
+          p_limit?: number;
+          p_delivery_id?: string | null;
+        };
+        Returns: {
+          id: string;
+          endpoint_id: string;
+          url: string;
+          secret: string;
+          event_type: WebhookEventType | 'test';
+          payload: Json;
+          attempts: number;
+          max_attempts: number;
+        }[];
+      };
+      cluster_radius_km: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      cluster_signals: {
+        Args: {
+          p_latitude: number | null;
+          p_longitude: number | null;
+          p_location: string;
+          p_since: string;
+          p_type?: string | null;
+        };
+        Returns: Database['public']['Tables']['signals']['Row'][];
+      };
+      consume_ingestion_quota: {
+        Args: {
+          p_source_id: string;
+        };
+        Returns: {
+          allowed: boolean;
+          remaining: number;
+          reset_at: string;
+        }[];
+      };
+      current_user_role: {
+        Args: Record<PropertyKey, never>;
+        Returns: UserRole | 'public';
+      };
+      detect_signal_anomaly: {
+        Args: {
+          p_latitude: number | null;
+          p_longitude: number | null;
+          p_location: string;
+          p_type: string;
+        };
+        Returns: {
+          observed_count: number;
+          baseline_mean: number;
+          baseline_stddev: number;
+          ewma: number;
+          z_score: number;
+          anomaly_score: number;
+          confidence: number;
+          history_days: number;
+          is_anomaly: boolean;
+        }[];
+      };
+      force_password_reset: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: string;
+      };
+      generate_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>;
+        Returns: string[];
+      };
+      get_my_organization_invitations: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          id: string;
+          organization_id: string;
+          organization_name: string;
+          member_role: MemberRole;
+          created_at: string;
+          expires_at: string;
+        }[];
+      };
+      get_organization_invitation: {
+        Args: {
+          p_invitation_id: string;
+        };
+        Returns: {
+          organization_name: string;
+          email: string;
+          member_role: MemberRole;
+          expires_at: string;
+        }[];
+      };
+      get_organization_members: {
+        Args: {
+          p_organization_id: string;
+        };
+        Returns: {
+          user_id: string;
+          member_role: MemberRole;
+          joined_at: string;
+          full_name: string | null;
+          username: string | null;
+          email: string;
+        }[];
+      };
+      haversine_km: {
+        Args: {
+          p_lat1: number;
+          p_lng1: number;
+          p_lat2: number;
+          p_lng2: number;
+        };
+        Returns: number;
+      };
+      has_role: {
+        Args: {
+          p_role: UserRole | 'public';
+        };
+        Returns: boolean;
+      };
+      invoke_edge_function: {
+        Args: {
+          p_function: string;
+          p_body?: Json;
+        };
+        Returns: number;
+      };
+      is_org_admin: {
+        Args: {
+          p_organization_id: string;
+        };
+        Returns: boolean;
+      };
+      issue_admin_otp: {
+        Args: {
+          p_user_id: string;
+          p_code_hash: string;
+        };
+        Returns: Database['public']['Tables']['admin_otps']['Row'];
+      };
+      issue_source_api_key: {
+        Args: {
+          p_source_id: string;
+          p_label?: string | null;
+        };
+        Returns: string;
+      };
+      manage_alert: {
+        Args: {
+          p_action: 'issue' | 'update' | 'extend' | 'retract' | 'supersede';
+          p_alert_id: string | null;
+          p_fields: Json;
+          p_reason: string;
+        };
+        Returns: Database['public']['Tables']['alerts']['Row'];
+      };
+      mfa_required: {
+        Args: Record<PropertyKey, never>;
+        Returns: boolean;
+      };
+      publish_system_notice: {
+        Args: {
+          p_title: string;
+          p_message: string;
+          p_severity?: Severity;
+          p_action_url?: string | null;
+          p_audience?: NoticeAudience;
+        };
+        Returns: Database['public']['Tables']['system_notices']['Row'];
+      };
+      reactivate_user: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: Database['public']['Tables']['user_profiles']['Row'];
+      };
+      redeem_mfa_recovery_code: {
+        Args: {
+          p_code: string;
+        };
+        Returns: string;
+      };
+      repair_user_profiles: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      resolve_login_email: {
+        Args: {
+          p_username: string;
+        };
+        Returns: string | null;
+      };
+      respond_to_organization_invitation: {
+        Args: {
+          p_invitation_id: string;
+          p_accept: boolean;
+        };
+        Returns: Database['public']['Tables']['organization_invitations']['Row'];
+      };
+      rotate_webhook_secret: {
+        Args: {
+          p_endpoint_id: string;
+        };
+        Returns: string;
+      };
+      run_scheduled_job: {
+        Args: {
+          p_job_name: string;
+          p_trigger?: JobRunTrigger;
+        };
+        Returns: Database['public']['Tables']['job_runs']['Row'] | null;
+      };
+      score_signal_cluster: {
+        Args: {
+          p_latitude: number | null;
+          p_longitude: number | null;
+          p_location: string;
+          p_type: string;
+          p_since: string;
+        };
+        Returns: {
+          risk_score: number;
+          severity: Severity;
+          breakdown: Json;
+        }[];
+      };
+      send_test_webhook: {
+        Args: {
+          p_endpoint_id: string;
+        };
+        Returns: Database['public']['Tables']['webhook_deliveries']['Row'];
+      };
+      set_user_role: {
+        Args: {
+          p_user_id: string;
+          p_role: UserRole;
+        };
+        Returns: Database['public']['Tables']['user_profiles']['Row'];
+      };
+      signal_source_stats: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          source_id: string;
+          total_signals: number;
+          signals_24h: number;
+          signals_7d: number;
+          last_signal_at: string | null;
+          event_count: number;
+          active_key_count: number;
+        }[];
+      };
+      signal_baseline: {
+        Args: {
+          p_days: number;
+          p_latitude?: number | null;
+          p_longitude?: number | null;
+          p_location?: string | null;
+          p_type?: string | null;
+        };
+        Returns: {
+          day: string;
+          signal_count: number;
+          baseline_mean: number;
+          baseline_stddev: number;
+          ewma: number;
+          z_score: number;
+          anomaly_score: number;
+        }[];
+      };
+      suspend_user: {
+        Args: {
+          p_user_id: string;
+          p_reason?: string | null;
+        };
+        Returns: Database['public']['Tables']['user_profiles']['Row'];
+      };
+      transition_event: {
+        Args: {
+          p_event_id: string;
+          p_action: 'escalate' | 'downgrade' | 'merge' | 'resolve' | 'reopen';
+          p_reason: string;
+          p_target_event_id?: string | null;
+        };
+        Returns: Database['public']['Tables']['events']['Row'];
+      };
+      user_organization_id: {
+        Args: Record<PropertyKey, never>;
+        Returns: string | null;
+      };
+      username_available: {
+        Args: {
+          p_username: string;
+        };
+        Returns: boolean;
+      };
+      verify_admin_otp: {
+        Args: {
+          p_user_id: string;
+          p_session_id: string;
+          p_code_hash: string;
+        };
+        Returns: 'verified' | 'invalid' | 'expired' | 'locked';
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row'];
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert'];
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update'];
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getUnreadNotificationCount } from './repository';
+import { useLiveChanges } from './realtime';
+
+// Unread inbox size for the signed-in user, kept current over realtime
+export const useUnreadNotificationCount = (enabled: boolean) => {
+  const [count, setCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) {
+      setCount(0);
+      return;
+    }
+
+    const result = await getUnreadNotificationCount();
+    if (result.ok) setCount(result.data);
+  }, [enabled]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Any insert or state change can move the count, so recount rather than track deltas
+  useLiveChanges(['notifications'], refresh, { enabled, onResync: refresh });
+
+  return count;
+};
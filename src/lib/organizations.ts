@@ -0,0 +1,2 @@
+// Signup link for an invitation; AuthModal reads `invite` and pre-fills the invited email
+export const invitationLink = (id: string) => `${window.location.origin}/?invite=${id}`;
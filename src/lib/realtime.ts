@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Alert, HealthEvent, Signal, UserNotification } from './types';
+
+interface LiveRows {
+  signals: Signal;
+  events: HealthEvent;
+  alerts: Alert;
+  notifications: UserNotification;
+}
+
+export type LiveTable = keyof LiveRows;
+
+export type LiveChange = {
+  [T in LiveTable]: {
+    table: T;
+    payload: RealtimePostgresChangesPayload<LiveRows[T]>;
+    receivedAt: number;
+  };
+}[LiveTable];
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface LiveConnection {
+  state: ConnectionState;
+  // Times the subscription came back after dropping
+  reconnects: number;
+  connectedSince: number | null;
+  lastChangeAt: number | null;
+  reconnect: () => void;
+}
+
+interface LiveChangeOptions {
+  enabled?: boolean;
+  // Called when the subscription is re-established, to refetch anything missed while down
+  onResync?: () => void;
+}
+
+// Window over which throughput is averaged
+export const THROUGHPUT_WINDOW_MS = 5 * 60 * 1000;
+
+export const ratePerMinute = (timestamps: number[], now = Date.now()) =>
+  timestamps.filter(timestamp => now - timestamp <= THROUGHPUT_WINDOW_MS).length / (THROUGHPUT_WINDOW_MS / 60000);
+
+// Folds one change into a list of rows, newest first
+export const applyChange = <T extends { id: string }>(
+  rows: T[],
+  payload: RealtimePostgresChangesPayload<T>
+): T[] => {
+  if (payload.eventType === 'DELETE') {
+    return rows.filter(row => row.id !== payload.old.id);
+  }
+
+  const row = payload.new;
+  return rows.some(existing => existing.id === row.id)
+    ? rows.map(existing => (existing.id === row.id ? row : existing))
+    : [row, ...rows];
+};
+
+/**
+ * Subscribes to Postgres changes on the given tables for the lifetime of the component.
+ * supabase-js rejoins dropped channels on its own; this tracks the resulting state.
+ */
+export const useLiveChanges = (
+  tables: LiveTable[],
+  onChange: (change: LiveChange) => void,
+  { enabled = true, onResync }: LiveChangeOptions = {}
+): LiveConnection => {
+  const [state, setState] = useState<ConnectionState>(enabled ? 'connecting' : 'disconnected');
+  const [reconnects, setReconnects] = useState(0);
+  const [connectedSince, setConnectedSince] = useState<number | null>(null);
+  const [lastChangeAt, setLastChangeAt] = useState<number | null>(null);
+  const [generation, setGeneration] = useState(0);
+
+  const onChangeRef = useRef(onChange);
+  const onResyncRef = useRef(onResync);
+  onChangeRef.current = onChange;
+  onResyncRef.current = onResync;
+
+  const tableKey = tables.join(',');
+
+  useEffect(() => {
+    if (!enabled) {
+      setState('disconnected');
+      setConnectedSince(null);
+      return;
+    }
+
+    let isCurrent = true;
+    let hasConnected = false;
+    setState('connecting');
+
+    const channel = supabase.channel(`live:${tableKey}:${generation}:${Math.random().toString(36).slice(2)}`);
+
+    for (const table of tableKey.split(',') as LiveTable[]) {
+      channel.on('postgres_changes', { event: '*', schema: 'public', table }, payload => {
+        const receivedAt = Date.now();
+        setLastChangeAt(receivedAt);
+        onChangeRef.current({ table, payload, receivedAt } as LiveChange);
+      });
+    }
+
+    channel.subscribe((status, err) => {
+      if (!isCurrent) return;
+
+      switch (status) {
+        case 'SUBSCRIBED':
+          setState('connected');
+          setConnectedSince(Date.now());
+          if (hasConnected) {
+            setReconnects(count => count + 1);
+            onResyncRef.current?.();
+          }
+          hasConnected = true;
+          break;
+        case 'CHANNEL_ERROR':
+        case 'TIMED_OUT':
+          if (err) console.error('Realtime subscription error:', err.message);
+          setState('reconnecting');
+          setConnectedSince(null);
+          break;
+        case 'CLOSED':
+          setState('disconnected');
+          setConnectedSince(null);
+          break;
+      }
+    });
+
+    return () => {
+      isCurrent = false;
+      supabase.removeChannel(channel);
+    };
+  }, [tableKey, enabled, generation]);
+
+  const reconnect = useCallback(() => {
+    setReconnects(count => count + 1);
+    setGeneration(value => value + 1);
+    onResyncRef.current?.();
+  }, []);
+
+  return { state, reconnects, connectedSince, lastChangeAt, reconnect };
+};
@@ -0,0 +1,935 @@
+import { supabase } from './supabase';
+import { ok, fail, settle, type Result } from './result';
+import type {
+  AccessRole,
+  AccountStatus,
+  AdminAuditEntry,
+  AdminUser,
+  Alert,
+  AlertChange,
+  AlertStatus,
+  AlertSubscription,
+  AlertVersion,
+  AlertWithEvent,
+  BaselinePoint,
+  Blog,
+  DetectionSetting,
+  DetectionSettingAudit,
+  EventNote,
+  EventStatusChange,
+  EventTransition,
+  HealthEvent,
+  InvitationPreview,
+  JobRun,
+  MemberRole,
+  NewAlertSubscription,
+  NewDetectionSetting,
+  NewOrganization,
+  NewSignal,
+  NewSignalSource,
+  NewSystemNotice,
+  NewWebhookEndpoint,
+  NotificationUpdate,
+  NotificationView,
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+  OrganizationMembership,
+  OrganizationSummary,
+  PendingInvitation,
+  RetentionOutcome,
+  RetentionPolicy,
+  ScheduledJob,
+  Severity,
+  Signal,
+  SignalSource,
+  SignalSourceStats,
+  SignalTypeWeight,
+  SourceApiKey,
+  SystemNotice,
+  UserNotification,
+  UserProfile,
+  UserRole,
+  WebhookDelivery,
+  WebhookEndpoint
+} from './types';
+
+export interface SignalFilters {
+  location?: string;
+  type?: string;
+  severity?: Severity;
+  organizationId?: string;
+  limit?: number;
+}
+
+// Status defaults to every status; `search` matches title, description and location
+export interface AlertFilters {
+  severity?: Severity;
+  status?: AlertStatus[];
+  type?: string;
+  location?: string;
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface AlertPage {
+  alerts: AlertWithEvent[];
+  total: number;
+}
+
+export interface AlertSummary {
+  active: number;
+  monitoring: number;
+  highSeverity: number;
+  issuedLastDay: number;
+}
+
+// Search matches email, name, username and organization
+export interface UserFilters {
+  search?: string;
+  role?: UserRole;
+  status?: AccountStatus;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface UserPage {
+  users: AdminUser[];
+  total: number;
+}
+
+// Leave location unset for the baseline across every area, and type for every signal type
+export interface BaselineFilters {
+  days: number;
+  latitude?: number | null;
+  longitude?: number | null;
+  location?: string;
+  type?: string;
+}
+
+// Matches user text literally inside an ILIKE pattern
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Signals
+export const createSignal = async (signal: NewSignal): Promise<Result<Signal>> => {
+  const response = await supabase
+    .from('signals')
+    .insert([signal])
+    .select()
+    .single();
+
+  return response.error ? fail(response.error) : ok(response.data);
+};
+
+// Inserts in one statement; the database rejects the whole batch if any row fails
+export const createSignals = async (signals: NewSignal[]): Promise<Result<Signal[]>> =>
+  settle(
+    await supabase
+      .from('signals')
+      .insert(signals)
+      .select(),
+    []
+  );
+
+export const getSignals = async (filters: SignalFilters = {}): Promise<Result<Signal[]>> => {
+  let query = supabase
+    .from('signals')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (filters.location) {
+    query = query.ilike('location', `%${escapeLike(filters.location)}%`);
+  }
+
+  if (filters.type) {
+    query = query.eq('type', filters.type);
+  }
+
+  if (filters.severity) {
+    query = query.eq('severity', filters.severity);
+  }
+
+  if (filters.organizationId) {
+    query = query.eq('organization_id', filters.organizationId);
+  }
+
+  if (filters.limit) {
+    query = query.limit(filters.limit);
+  }
+
+  return settle(await query, []);
+};
+
+export const getSignalCount = async (): Promise<Result<number>> => {
+  const { count, error } = await supabase
+    .from('signals')
+    .select('*', { count: 'exact', head: true });
+
+  return error ? fail(error) : ok(count ?? 0);
+};
+
+export const deleteSignal = async (id: string): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('signals')
+    .delete()
+    .eq('id', id);
+
+  return error ? fail(error) : ok(null);
+};
+
+export const getSignalBaseline = async (filters: BaselineFilters): Promise<Result<BaselinePoint[]>> =>
+  settle(
+    await supabase.rpc('signal_baseline', {
+      p_days: filters.days,
+      p_latitude: filters.latitude ?? null,
+      p_longitude: filters.longitude ?? null,
+      p_location: filters.location ?? null,
+      p_type: filters.type ?? null
+    }),
+    []
+  );
+
+// Events
+export const getEvents = async (): Promise<Result<HealthEvent[]>> =>
+  settle(
+    await supabase
+      .from('events')
+      .select('*')
+      .order('created_at', { ascending: false }),
+    []
+  );
+
+export const getEventById = async (id: string): Promise<Result<HealthEvent | null>> =>
+  settle(
+    await supabase
+      .from('events')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle(),
+    null
+  );
+
+// Oldest first, so it reads as a timeline
+export const getEventStatusHistory = async (eventId: string): Promise<Result<EventStatusChange[]>> =>
+  settle(
+    await supabase
+      .from('event_status_history')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('changed_at', { ascending: true }),
+    []
+  );
+
+// Admin-only; the database rejects transitions the lifecycle does not allow
+export const transitionEvent = async (transition: EventTransition): Promise<Result<HealthEvent>> => {
+  const { data, error } = await supabase.rpc('transition_event', {
+    p_event_id: transition.eventId,
+    p_action: transition.action,
+    p_reason: transition.reason,
+    p_target_event_id: transition.targetEventId ?? null
+  });
+
+  return error ? fail(error) : ok(data);
+};
+
+// Alerts
+export const getAlerts = async (): Promise<Result<Alert[]>> =>
+  settle(
+    await supabase
+      .from('alerts')
+      .select('*')
+      .order('issued_at', { ascending: false }),
+    []
+  );
+
+// Filters and pages on the server; `page` starts at 0
+export const searchAlerts = async (filters: AlertFilters = {}): Promise<Result<AlertPage>> => {
+  const pageSize = filters.pageSize ?? 10;
+  const from = (filters.page ?? 0) * pageSize;
+
+  let query = supabase
+    .from('alerts')
+    .select('*, events(id, latitude, longitude, signal_count)', { count: 'exact' })
+    .order('issued_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (filters.severity) {
+    query = query.eq('severity', filters.severity);
+  }
+
+  if (filters.status?.length) {
+    query = query.in('status', filters.status);
+  }
+
+  if (filters.type) {
+    query = query.eq('type', filters.type);
+  }
+
+  if (filters.location) {
+    query = query.ilike('location', `%${escapeLike(filters.location)}%`);
+  }
+
+  // Commas and parentheses would break out of the or() filter
+  const search = filters.search && escapeLike(filters.search.replace(/[,()]/g, ' ').trim());
+  if (search) {
+    query = query.or(`title.ilike.%${search}%,description.ilike.%${search}%,location.ilike.%${search}%`);
+  }
+
+  const { data, count, error } = await query;
+  return error ? fail(error) : ok({ alerts: data ?? [], total: count ?? 0 });
+};
+
+// Counts over alerts that are still open
+export const getAlertSummary = async (): Promise<Result<AlertSummary>> => {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select('status, severity, issued_at')
+    .in('status', ['active', 'monitoring']);
+
+  if (error) return fail(error);
+
+  const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
+  return ok({
+    active: data.filter(alert => alert.status === 'active').length,
+    monitoring: data.filter(alert => alert.status === 'monitoring').length,
+    highSeverity: data.filter(alert => alert.severity === 'high').length,
+    issuedLastDay: data.filter(alert => new Date(alert.issued_at).getTime() >= dayAgo).length
+  });
+};
+
+// Newest first
+export const getAlertVersions = async (alertId: string): Promise<Result<AlertVersion[]>> =>
+  settle(
+    await supabase
+      .from('alert_versions')
+      .select('*')
+      .eq('alert_id', alertId)
+      .order('version', { ascending: false }),
+    []
+  );
+
+// Admin-only; resolves to the issued or changed alert, or the new alert when superseding
+export const manageAlert = async (change: AlertChange): Promise<Result<Alert>> => {
+  const { data, error } = await supabase.rpc('manage_alert', {
+    p_action: change.action,
+    p_alert_id: change.alertId ?? null,
+    p_fields: { ...change.fields },
+    p_reason: change.reason
+  });
+
+  return error ? fail(error) : ok(data);
+};
+
+// Alert subscriptions
+// RLS limits these to the signed-in user's own subscriptions
+export const getAlertSubscriptions = async (): Promise<Result<AlertSubscription[]>> =>
+  settle(
+    await supabase
+      .from('alert_subscriptions')
+      .select('*')
+      .order('created_at', { ascending: true }),
+    []
+  );
+
+// Inserts when `id` is absent, otherwise updates that subscription
+export const saveAlertSubscription = async (
+  subscription: NewAlertSubscription
+): Promise<Result<AlertSubscription>> => {
+  const response = await supabase
+    .from('alert_subscriptions')
+    .upsert(subscription)
+    .select()
+    .single();
+
+  return response.error ? fail(response.error) : ok(response.data);
+};
+
+export const deleteAlertSubscription = async (id: string): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('alert_subscriptions')
+    .delete()
+    .eq('id', id);
+
+  return error ? fail(error) : ok(null);
+};
+
+// Notifications
+// RLS limits these to the signed-in user's own notifications
+export const getNotifications = async (view: NotificationView = 'inbox', limit = 50): Promise<Result<UserNotification[]>> => {
+  let query = supabase
+    .from('notifications')
+    .select('*')
+    .is('dismissed_at', null);
+
+  query = view === 'archived' ? query.not('archived_at', 'is', null) : query.is('archived_at', null);
+
+  return settle(await query.order('created_at', { ascending: false }).limit(limit), []);
+};
+
+export const getUnreadNotificationCount = async (): Promise<Result<number>> => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('*', { count: 'exact', head: true })
+    .is('read_at', null)
+    .is('dismissed_at', null)
+    .is('archived_at', null);
+
+  return error ? fail(error) : ok(count ?? 0);
+};
+
+export const updateNotifications = async (ids: string[], changes: NotificationUpdate): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('notifications')
+    .update(changes)
+    .in('id', ids);
+
+  return error ? fail(error) : ok(null);
+};
+
+export const markAllNotificationsRead = async (): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .is('read_at', null)
+    .is('archived_at', null);
+
+  return error ? fail(error) : ok(null);
+};
+
+export const getSystemNotices = async (limit = 10): Promise<Result<SystemNotice[]>> =>
+  settle(
+    await supabase
+      .from('system_notices')
+      .select('*')
+      .order('published_at', { ascending: false })
+      .limit(limit),
+    []
+  );
+
+// Admin-only; delivers the notice to every user in its audience
+export const publishSystemNotice = async (notice: NewSystemNotice): Promise<Result<SystemNotice>> => {
+  const { data, error } = await supabase.rpc('publish_system_notice', {
+    p_title: notice.title,
+    p_message: notice.message,
+    p_severity: notice.severity,
+    p_action_url: notice.actionUrl ?? null,
+    p_audience: notice.audience
+  });
+
+  return error ? fail(error) : ok(data);
+};
+
+// Accounts
+// Usable before signing in; names are compared lowercase
+export const isUsernameAvailable = async (username: string): Promise<Result<boolean>> => {
+  const { data, error } = await supabase.rpc('username_available', { p_username: username });
+  return error ? fail(error) : ok(data);
+};
+
+// Roles
+// Resolves to `public` when nobody is signed in
+export const getCurrentUserRole = async (): Promise<Result<AccessRole>> => {
+  const { data, error } = await supabase.rpc('current_user_role');
+  return error ? fail(error) : ok(data);
+};
+
+// Platform-admin only
+export const setUserRole = async (userId: string, role: UserRole): Promise<Result<UserProfile>> => {
+  const { data, error } = await supabase.rpc('set_user_role', { p_user_id: userId, p_role: role });
+  return error ? fail(error) : ok(data);
+};
+
+// User management
+// Platform-admin only, as is every action below; each one is recorded in the audit log.
+// Filters and pages on the server; `page` starts at 0
+export const searchUsers = async (filters: UserFilters = {}): Promise<Result<UserPage>> => {
+  const pageSize = filters.pageSize ?? 20;
+  const { data, error } = await supabase.rpc('admin_list_users', {
+    p_search: filters.search?.trim() || null,
+    p_role: filters.role ?? null,
+    p_status: filters.status ?? null,
+    p_limit: pageSize,
+    p_offset: (filters.page ?? 0) * pageSize
+  });
+
+  return error ? fail(error) : ok({ users: data ?? [], total: data?.[0]?.total_count ?? 0 });
+};
+
+// Bans the account and ends its sessions until reactivated
+export const suspendUser = async (userId: string, reason?: string): Promise<Result<UserProfile>> => {
+  const { data, error } = await supabase.rpc('suspend_user', { p_user_id: userId, p_reason: reason ?? null });
+  return error ? fail(error) : ok(data);
+};
+
+export const reactivateUser = async (userId: string): Promise<Result<UserProfile>> => {
+  const { data, error } = await supabase.rpc('reactivate_user', { p_user_id: userId });
+  return error ? fail(error) : ok(data);
+};
+
+// Invalidates the current password and sessions, then emails a reset link; resolves to that email
+export const forcePasswordReset = async (userId: string): Promise<Result<string>> => {
+  const { data: email, error } = await supabase.rpc('force_password_reset', { p_user_id: userId });
+  if (error) return fail(error);
+
+  const { error: mailError } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: `${window.location.origin}/reset-password`
+  });
+  return mailError ? fail(mailError) : ok(email);
+};
+
+// Newest first; pass `userId` for the entries about one account
+export const getAdminAuditLog = async (limit = 20, userId?: string): Promise<Result<AdminAuditEntry[]>> => {
+  let query = supabase
+    .from('admin_audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (userId) {
+    query = query.eq('target_user_id', userId);
+  }
+
+  return settle(await query, []);
+};
+
+// Organizations
+// Resolves to null when the signed-in user belongs to no organization
+export const getMyMembership = async (): Promise<Result<OrganizationMembership | null>> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return ok(null);
+
+  return settle(
+    await supabase
+      .from('organization_members')
+      .select('*, organizations(*)')
+      .eq('user_id', user.id)
+      .maybeSingle(),
+    null
+  );
+};
+
+// Platform admins see every organization, everyone else only their own
+export const getOrganizations = async (): Promise<Result<OrganizationSummary[]>> =>
+  settle(
+    await supabase
+      .from('organizations')
+      .select('*, organization_members(count)')
+      .order('name', { ascending: true }),
+    []
+  );
+
+// Platform-admin only
+export const createOrganization = async (organization: NewOrganization): Promise<Result<Organization>> => {
+  const response = await supabase
+    .from('organizations')
+    .insert(organization)
+    .select()
+    .single();
+
+  return response.error ? fail(response.error) : ok(response.data);
+};
+
+export const deleteOrganization = async (id: string): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('organizations')
+    .delete()
+    .eq('id', id);
+
+  return error ? fail(error) : ok(null);
+};
+
+export const getOrganizationMembers = async (organizationId: string): Promise<Result<OrganizationMember[]>> => {
+  const { data, error } = await supabase.rpc('get_organization_members', { p_organization_id: organizationId });
+  return error ? fail(error) : ok(data ?? []);
+};
+
+// Organization-admin only; the database keeps at least one admin per organization
+export const setMemberRole = async (
+  organizationId: string,
+  userId: string,
+  memberRole: MemberRole
+): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('organization_members')
+    .update({ member_role: memberRole })
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId);
+
+  return error ? fail(error) : ok(null);
+};
+
+// Organization admins can remove anyone; members can remove themselves to leave
+export const removeMember = async (organizationId: string, userId: string): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('organization_members')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId);
+
+  return error ? fail(error) : ok(null);
+};
+
+// Newest first, including accepted, declined, revoked and expired ones
+export const getOrganizationInvitations = async (organizationId: string): Promise<Result<OrganizationInvitation[]>> =>
+  settle(
+    await supabase
+      .from('organization_invitations')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false }),
+    []
+  );
+
+// Organization-admin only; the invitee accepts from their dashboard once signed in
+export const inviteToOrganization = async (
+  organizationId: string,
+  email: string,
+  memberRole: MemberRole
+): Promise<Result<OrganizationInvitation>> => {
+  const response = await supabase
+    .from('organization_invitations')
+    .insert({ organization_id: organizationId, email: email.trim().toLowerCase(), member_role: memberRole })
+    .select()
+    .single();
+
+  return response.error ? fail(response.error) : ok(response.data);
+};
+
+export const revokeInvitation = async (id: string): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('organization_invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id);
+
+  return error ? fail(error) : ok(null);
+};
+
+export const getMyInvitations = async (): Promise<Result<PendingInvitation[]>> => {
+  const { data, error } = await supabase.rpc('get_my_organization_invitations');
+  return error ? fail(error) : ok(data ?? []);
+};
+
+// Accepting needs a confirmed email and no current membership
+export const respondToInvitation = async (id: string, accept: boolean): Promise<Result<OrganizationInvitation>> => {
+  const { data, error } = await supabase.rpc('respond_to_organization_invitation', {
+    p_invitation_id: id,
+    p_accept: accept
+  });
+  return error ? fail(error) : ok(data);
+};
+
+// Resolves to null when the invitation is unknown or no longer open; callable signed out
+export const getInvitationPreview = async (id: string): Promise<Result<InvitationPreview | null>> => {
+  const { data, error } = await supabase.rpc('get_organization_invitation', { p_invitation_id: id });
+  return error ? fail(error) : ok(data?.[0] ?? null);
+};
+
+// Event notes
+// RLS limits these to notes written within the signed-in user's organization
+export const getEventNotes = async (eventId: string): Promise<Result<EventNote[]>> =>
+  settle(
+    await supabase
+      .from('event_notes')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: true }),
+    []
+  );
+
+export const addEventNote = async (eventId: string, organizationId: string, body: string): Promise<Result<EventNote>> => {
+  const response = await supabase
+    .from('event_notes')
+    .insert({ event_id: eventId, organization_id: organizationId, body })
+    .select()
+    .single();
+
+  return response.error ? fail(response.error) : ok(response.data);
+};
+
+export const deleteEventNote = async (id: string): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('event_notes')
+    .delete()
+    .eq('id', id);
+
+  return error ? fail(error) : ok(null);
+};
+
+// Blogs
+export const getBlogs = async (): Promise<Result<Blog[]>> =>
+  settle(
+    await supabase
+      .from('blogs')
+      .select('*')
+      .eq('published', true)
+      .order('published_at', { ascending: false }),
+    []
+  );
+
+// Detection settings
+export const getDetectionSettings = async (): Promise<Result<DetectionSetting[]>> =>
+  settle(
+    await supabase
+      .from('detection_settings')
+      .select('*')
+      .order('signal_type', { ascending: true, nullsFirst: true })
+      .order('region', { ascending: true, nullsFirst: true }),
+    []
+  );
+
+// Inserts when `id` is absent, otherwise updates that rule
+export const saveDetectionSetting = async (setting: NewDetectionSetting): Promise<Result<DetectionSetting>> => {
+  const response = await supabase
+    .from('detection_settings')
+    .upsert(setting)
+    .select()
+    .single();
+
+  return response.error ? fail(response.error) : ok(response.data);
+};
+
+export const deleteDetectionSetting = async (id: string): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('detection_settings')
+    .delete()
+    .eq('id', id);
+
+  return error ? fail(error) : ok(null);
+};
+
+export const getDetectionSettingsAudit = async (limit = 20): Promise<Result<DetectionSettingAudit[]>> =>
+  settle(
+    await supabase
+      .from('detection_settings_audit')
+      .select('*')
+      .order('changed_at', { ascending: false })
+      .limit(limit),
+    []
+  );
+
+// Signal type weights
+export const getSignalTypeWeights = async (): Promise<Result<SignalTypeWeight[]>> =>
+  settle(
+    await supabase
+      .from('signal_type_weights')
+      .select('*')
+      .order('signal_type'),
+    []
+  );
+
+// Inserts or replaces the weights of the given types in one statement
+export const saveSignalTypeWeights = async (
+  weights: Pick<SignalTypeWeight, 'signal_type' | 'weight'>[]
+): Promise<Result<SignalTypeWeight[]>> =>
+  settle(
+    await supabase
+      .from('signal_type_weights')
+      .upsert(weights)
+      .select(),
+    []
+  );
+
+// Signal sources
+export const getSignalSources = async (): Promise<Result<SignalSource[]>> =>
+  settle(
+    await supabase
+      .from('signal_sources')
+      .select('*')
+      .order('name', { ascending: true }),
+    []
+  );
+
+// Inserts when `id` is absent, otherwise updates that source
+export const saveSignalSource = async (source: NewSignalSource): Promise<Result<SignalSource>> => {
+  const response = await supabase
+    .from('signal_sources')
+    .upsert(source)
+    .select()
+    .single();
+
+  return response.error ? fail(response.error) : ok(response.data);
+};
+
+export const getSignalSourceStats = async (): Promise<Result<SignalSourceStats[]>> =>
+  settle(await supabase.rpc('signal_source_stats'), []);
+
+export const getSourceApiKeys = async (sourceId: string): Promise<Result<SourceApiKey[]>> =>
+  settle(
+    await supabase
+      .from('source_api_keys')
+      .select('id, source_id, label, key_prefix, created_by, created_at, last_used_at, revoked_at')
+      .eq('source_id', sourceId)
+      .order('created_at', { ascending: false }),
+    []
+  );
+
+// Resolves to the plaintext key, which cannot be retrieved again
+export const issueSourceApiKey = async (sourceId: string, label?: string): Promise<Result<string>> => {
+  const { data, error } = await supabase.rpc('issue_source_api_key', {
+    p_source_id: sourceId,
+    p_label: label ?? null
+  });
+
+  return error ? fail(error) : ok(data);
+};
+
+export const revokeSourceApiKey = async (id: string): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('source_api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id);
+
+  return error ? fail(error) : ok(null);
+};
+
+// Webhooks
+const WEBHOOK_ENDPOINT_COLUMNS =
+  'id, organization_id, url, description, event_types, is_active, created_by, created_at, updated_at, organizations(name)';
+
+// Organization admins only see their own organization's endpoints; pass an id to narrow
+// a platform admin's list the same way
+export const getWebhookEndpoints = async (organizationId?: string): Promise<Result<WebhookEndpoint[]>> => {
+  let query = supabase
+    .from('webhook_endpoints')
+    .select(WEBHOOK_ENDPOINT_COLUMNS)
+    .order('created_at', { ascending: true });
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  return settle(await query, []);
+};
+
+// Inserts when `id` is absent, otherwise updates that endpoint. New endpoints get a
+// signing secret that is only revealed by `rotateWebhookSecret`
+export const saveWebhookEndpoint = async (endpoint: NewWebhookEndpoint): Promise<Result<WebhookEndpoint>> => {
+  const { id, organization_id, url, description, event_types, is_active } = endpoint;
+  const fields = { organization_id, url, description, event_types, is_active };
+  const response = id
+    ? await supabase.from('webhook_endpoints').update(fields).eq('id', id).select(WEBHOOK_ENDPOINT_COLUMNS).single()
+    : await supabase.from('webhook_endpoints').insert(fields).select(WEBHOOK_ENDPOINT_COLUMNS).single();
+
+  return response.error ? fail(response.error) : ok(response.data);
+};
+
+export const deleteWebhookEndpoint = async (id: string): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', id);
+
+  return error ? fail(error) : ok(null);
+};
+
+// Resolves to the new secret, which cannot be retrieved again; the old one stops working
+export const rotateWebhookSecret = async (endpointId: string): Promise<Result<string>> => {
+  const { data, error } = await supabase.rpc('rotate_webhook_secret', { p_endpoint_id: endpointId });
+  return error ? fail(error) : ok(data);
+};
+
+export const getWebhookDeliveries = async (endpointId: string, limit = 25): Promise<Result<WebhookDelivery[]>> =>
+  settle(
+    await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('endpoint_id', endpointId)
+      .order('created_at', { ascending: false })
+      .limit(limit),
+    []
+  );
+
+// Queues a test payload and asks the delivery function to send it straight away;
+// resolves to the delivery as recorded after that attempt
+export const sendTestWebhook = async (endpointId: string): Promise<Result<WebhookDelivery>> => {
+  const queued = await supabase.rpc('send_test_webhook', { p_endpoint_id: endpointId });
+  if (queued.error) return fail(queued.error);
+
+  const { error } = await supabase.functions.invoke('deliver-webhooks', { body: { deliveryId: queued.data.id } });
+  if (error) return fail(error);
+
+  const response = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', queued.data.id)
+    .single();
+
+  return response.error ? fail(response.error) : ok(response.data);
+};
+
+// Scheduled jobs
+export const getScheduledJobs = async (): Promise<Result<ScheduledJob[]>> =>
+  settle(
+    await supabase
+      .from('scheduled_jobs')
+      .select('*')
+      .order('name'),
+    []
+  );
+
+export const setScheduledJobEnabled = async (name: string, isEnabled: boolean): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('scheduled_jobs')
+    .update({ is_enabled: isEnabled })
+    .eq('name', name);
+
+  return error ? fail(error) : ok(null);
+};
+
+export const getJobRuns = async (limit = 20): Promise<Result<JobRun[]>> =>
+  settle(
+    await supabase
+      .from('job_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit),
+    []
+  );
+
+// Runs the job now regardless of its schedule and resolves to the recorded run
+export const runScheduledJob = async (name: string): Promise<Result<JobRun | null>> => {
+  const { data, error } = await supabase.rpc('run_scheduled_job', {
+    p_job_name: name,
+    p_trigger: 'manual'
+  });
+
+  return error ? fail(error) : ok(data);
+};
+
+// Retention
+export const getRetentionPolicies = async (): Promise<Result<RetentionPolicy[]>> =>
+  settle(
+    await supabase
+      .from('retention_policies')
+      .select('*')
+      .order('table_name'),
+    []
+  );
+
+export const saveRetentionPolicy = async (
+  policy: Pick<RetentionPolicy, 'table_name' | 'retain_days' | 'action' | 'is_enabled'>
+): Promise<Result<RetentionPolicy>> => {
+  const { table_name, ...changes } = policy;
+  const response = await supabase
+    .from('retention_policies')
+    .update(changes)
+    .eq('table_name', table_name)
+    .select()
+    .single();
+
+  return response.error ? fail(response.error) : ok(response.data);
+};
+
+// With `dryRun` nothing is removed; the counts show what would be
+export const applyRetention = async (dryRun: boolean): Promise<Result<RetentionOutcome[]>> =>
+  settle(await supabase.rpc('apply_retention', { p_dry_run: dryRun }), []);
+
+// Lightweight round-trip used to check the database is reachable
+export const testConnection = async (): Promise<Result<null>> => {
+  const { error } = await supabase
+    .from('signals')
+    .select('id', { count: 'exact', head: true });
+
+  return error ? fail(error) : ok(null);
+};
@@ -0,0 +1,29 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+export interface DataError {
+  message: string;
+  code?: string;
+  details?: string | null;
+  hint?: string | null;
+}
+
+// Every data-access call resolves to one of these instead of throwing
+export type Result<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: DataError };
+
+export const ok = <T>(data: T): Result<T> => ({ ok: true, data });
+
+export const fail = (error: unknown): { ok: false; error: DataError } => {
+  if (error && typeof error === 'object' && 'message' in error) {
+    const { message, code, details, hint } = error as Partial<PostgrestError>;
+    return { ok: false, error: { message: String(message), code, details, hint } };
+  }
+  return { ok: false, error: { message: typeof error === 'string' ? error : 'Unexpected error' } };
+};
+
+// Folds a supabase `{ data, error }` response into a Result
+export const settle = <T>(
+  response: { data: T | null; error: PostgrestError | null },
+  fallback: T
+): Result<T> => (response.error ? fail(response.error) : ok(response.data ?? fallback));
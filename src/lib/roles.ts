@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { supabase, getAssuranceLevel, isMfaRequired } from './supabase';
+import { getCurrentUserRole } from './repository';
+import { ROLES } from './constants';
+import type { AccessRole } from './types';
+
+const rank = (role: AccessRole) => ROLES.findIndex(option => option.value === role);
+
+// Whether `role` includes the permissions of `required`
+export const hasRole = (role: AccessRole, required: AccessRole) => rank(role) >= rank(required);
+
+export const roleLabel = (role: AccessRole) => ROLES.find(option => option.value === role)?.label ?? role;
+
+// Role of whoever is signed in, re-read on sign-in, sign-out and MFA verification.
+// `needsMfa` is set while the user's role requires a second factor the session has not passed;
+// until then the role is the reduced one the database grants. AuthProvider holds the shared
+// copy; components read it with useAuth()
+export const useCurrentRole = () => {
+  const [role, setRole] = useState<AccessRole>('public');
+  const [needsMfa, setNeedsMfa] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Auth events can arrive back to back and their loads finish out of order, so only the
+    // latest one may set state. Cleanup bumps the counter too, dropping loads still in flight
+    let latestLoad = 0;
+
+    const load = async () => {
+      const loadId = ++latestLoad;
+      try {
+        const [result, required, level] = await Promise.all([getCurrentUserRole(), isMfaRequired(), getAssuranceLevel()]);
+        if (loadId !== latestLoad) return;
+        setRole(result.ok ? result.data : 'public');
+        setNeedsMfa(required.data && level.data?.currentLevel !== 'aal2');
+      } catch {
+        if (loadId !== latestLoad) return;
+        setRole('public');
+        setNeedsMfa(false);
+      }
+      setIsLoading(false);
+    };
+
+    // Fires once straight away with the stored session
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event !== 'TOKEN_REFRESHED') load();
+    });
+
+    return () => {
+      latestLoad++;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return { role, needsMfa, isLoading };
+};
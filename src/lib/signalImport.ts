@@ -0,0 +1,253 @@
+import { SEVERITIES, SIGNAL_TYPES } from './constants';
+import type { NewSignal } from './types';
+
+export type ImportField = 'type' | 'location' | 'latitude' | 'longitude' | 'severity' | 'notes' | 'timestamp';
+
+// Source column feeding each signal field; an empty string leaves the field unmapped
+export type ColumnMapping = Record<ImportField, string>;
+
+export interface ParsedFile {
+  columns: string[];
+  rows: Record<string, string>[];
+  // Record or array position of each row, so errors point back at the source file
+  rowNumbers: number[];
+}
+
+export interface RowError {
+  row: number;
+  messages: string[];
+}
+
+export interface ValidatedRow {
+  row: number;
+  signal: NewSignal;
+}
+
+export interface ValidationReport {
+  valid: ValidatedRow[];
+  errors: RowError[];
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'type', label: 'Signal Type', required: true },
+  { field: 'location', label: 'Location', required: true },
+  { field: 'severity', label: 'Severity', required: true },
+  { field: 'latitude', label: 'Latitude', required: false },
+  { field: 'longitude', label: 'Longitude', required: false },
+  { field: 'timestamp', label: 'Timestamp', required: false },
+  { field: 'notes', label: 'Notes', required: false }
+];
+
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  type: ['type', 'signal_type', 'signaltype', 'category'],
+  location: ['location', 'place', 'area', 'address', 'site'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lng', 'lon', 'long'],
+  severity: ['severity', 'level', 'priority'],
+  notes: ['notes', 'note', 'comment', 'comments', 'description'],
+  timestamp: ['timestamp', 'time', 'date', 'datetime', 'recorded_at', 'observed_at']
+};
+
+// Allow a little clock skew between the partner's system and ours
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// Splits CSV text into records, honouring quoted fields, doubled quotes and CRLF line endings
+const parseCsvRecords = (text: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+};
+
+const detectDelimiter = (headerLine: string) => {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+};
+
+export const parseCsv = (text: string): ParsedFile => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? '');
+  const records = parseCsvRecords(content, delimiter);
+  const [header = [], ...body] = records;
+  const columns = header.map(column => column.trim());
+
+  const rows: Record<string, string>[] = [];
+  const rowNumbers: number[] = [];
+
+  body.forEach((record, index) => {
+    if (record.every(value => value.trim() === '')) return;
+    rows.push(Object.fromEntries(columns.map((column, position) => [column, (record[position] ?? '').trim()])));
+    // The header is record 1
+    rowNumbers.push(index + 2);
+  });
+
+  return { columns, rows, rowNumbers };
+};
+
+// Accepts either an array of objects or an object with a `signals` array
+export const parseJson = (text: string): ParsedFile => {
+  const parsed: unknown = JSON.parse(text);
+  const items = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' && Array.isArray((parsed as { signals?: unknown }).signals)
+      ? (parsed as { signals: unknown[] }).signals
+      : null;
+
+  if (!items) {
+    throw new Error('Expected a JSON array of signals or an object with a "signals" array');
+  }
+
+  const columns: string[] = [];
+  const rows = items.map(item => {
+    const row: Record<string, string> = {};
+    if (item && typeof item === 'object') {
+      for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+        if (!columns.includes(key)) columns.push(key);
+        row[key] = value === null || value === undefined ? '' : String(value).trim();
+      }
+    }
+    return row;
+  });
+
+  return { columns, rows, rowNumbers: rows.map((_, index) => index + 1) };
+};
+
+export const parseImportFile = (fileName: string, text: string): ParsedFile =>
+  fileName.toLowerCase().endsWith('.json') ? parseJson(text) : parseCsv(text);
+
+// Matches source columns to signal fields by common header names
+export const suggestMapping = (columns: string[]): ColumnMapping => {
+  const normalized = columns.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+
+  for (const { field } of IMPORT_FIELDS) {
+    const index = normalized.findIndex(column => FIELD_ALIASES[field].includes(column));
+    mapping[field] = index >= 0 ? columns[index] : '';
+  }
+
+  return mapping;
+};
+
+const parseCoordinate = (value: string, label: string, limit: number, messages: string[]) => {
+  if (value === '') return null;
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    messages.push(`${label} "${value}" is not a number`);
+    return null;
+  }
+  if (Math.abs(number) > limit) {
+    messages.push(`${label} ${number} is outside ±${limit}`);
+    return null;
+  }
+  return number;
+};
+
+export const validateRows = (file: ParsedFile, mapping: ColumnMapping): ValidationReport => {
+  const report: ValidationReport = { valid: [], errors: [] };
+  const read = (row: Record<string, string>, field: ImportField) =>
+    mapping[field] ? (row[mapping[field]] ?? '').trim() : '';
+
+  file.rows.forEach((row, index) => {
+    const rowNumber = file.rowNumbers[index];
+    const messages: string[] = [];
+
+    const rawType = read(row, 'type');
+    const type = SIGNAL_TYPES.find(known => known.toLowerCase() === rawType.toLowerCase());
+    if (!rawType) {
+      messages.push('Signal type is missing');
+    } else if (!type) {
+      messages.push(`Unknown signal type "${rawType}"`);
+    }
+
+    const location = read(row, 'location');
+    if (!location) messages.push('Location is missing');
+
+    const rawSeverity = read(row, 'severity').toLowerCase();
+    const severity = SEVERITIES.find(level => level === rawSeverity);
+    if (!rawSeverity) {
+      messages.push('Severity is missing');
+    } else if (!severity) {
+      messages.push(`Severity "${rawSeverity}" must be low, medium or high`);
+    }
+
+    const rawLatitude = read(row, 'latitude');
+    const rawLongitude = read(row, 'longitude');
+    const latitude = parseCoordinate(rawLatitude, 'Latitude', 90, messages);
+    const longitude = parseCoordinate(rawLongitude, 'Longitude', 180, messages);
+    if ((rawLatitude === '') !== (rawLongitude === '')) {
+      messages.push('Latitude and longitude must be given together');
+    }
+
+    const rawTimestamp = read(row, 'timestamp');
+    let timestamp: string | undefined;
+    if (rawTimestamp) {
+      const parsed = new Date(rawTimestamp);
+      if (isNaN(parsed.getTime())) {
+        messages.push(`Timestamp "${rawTimestamp}" is not a valid date`);
+      } else if (parsed.getTime() > Date.now() + FUTURE_TOLERANCE_MS) {
+        messages.push(`Timestamp ${rawTimestamp} is in the future`);
+      } else {
+        timestamp = parsed.toISOString();
+      }
+    }
+
+    if (messages.length > 0 || !type || !severity) {
+      report.errors.push({ row: rowNumber, messages });
+      return;
+    }
+
+    report.valid.push({
+      row: rowNumber,
+      signal: {
+        type,
+        location,
+        severity,
+        latitude,
+        longitude,
+        notes: read(row, 'notes') || null,
+        ...(timestamp ? { timestamp } : {})
+      }
+    });
+  });
+
+  return report;
+};
@@ -1,4 +1,5 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError } from '@supabase/supabase-js';
+import type { Database } from './database.types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -7,89 +8,74 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
+
+export interface SignUpMetadata {
+  username: string;
+  full_name: string;
+  user_type: string;
+  org_name: string;
+}
+
+// Calls an edge function; non-2xx responses carry the reason in their JSON body
+const invokeFunction = async <T>(name: string, body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke<T>(name, { body });
+  if (!error) return { data, error: null };
+
+  if (error instanceof FunctionsHttpError) {
+    const payload = await error.context.json().catch(() => null);
+    if (payload?.error) return { data: null, error: { message: String(payload.error) } };
+  }
+  return { data: null, error: { message: error.message } };
+};
 
 // Enhanced auth helper functions with OTP support
-export const signUp = async (email: string, password: string, userData: any) => {
+export const signUp = async (
+  email: string,
+  password: string,
+  userData: SignUpMetadata,
+  redirectPath = '/dashboard'
+) => {
   // First, create the auth user with email confirmation required
   const { data, error } = await supabase.auth.signUp({
     email,
     password,
     options: {
       data: userData,
-      emailRedirectTo: `${window.location.origin}/dashboard`
+      emailRedirectTo: `${window.location.origin}${redirectPath}`
     }
   });
 
-  // Create user profile immediately (will be linked when email is confirmed)
-  if (data.user && !error) {
-    const { error: profileError } = await supabase
-      .from('user_profiles')
-      .insert({
-        id: data.user.id,
-        full_name: userData.full_name || '',
-        username: userData.username || '',
-        user_type: userData.user_type || 'user',
-        org_name: userData.org_name || '',
-        subscribed: userData.subscribed || false,
-        is_admin: false
-      });
-    
-    if (profileError) {
-      console.error('Error creating user profile:', profileError);
-    }
+  // The profile is created by a trigger on auth.users in the same transaction; it rejects
+  // usernames that were taken after the form checked them
+  if (error?.message === 'Database error saving new user') {
+    return { data, error: { message: 'That username is no longer available; choose another' } };
   }
 
   return { data, error };
 };
 
+// Usernames are resolved and signed in by the username-login edge function,
+// so the account's email never reaches the browser
 export const signIn = async (identifier: string, password: string) => {
-  // Check if identifier is email or username
-  const isEmail = identifier.includes('@');
-  
-  if (isEmail) {
-    // Direct email login
+  if (identifier.includes('@')) {
     const { data, error } = await supabase.auth.signInWithPassword({
       email: identifier,
       password
     });
     return { data, error };
-  } else {
-    // Username login - first get email from username
-    const { data: profileData, error: profileError } = await supabase
-      .from('user_profiles')
-      .select('id')
-      .eq('username', identifier)
-      .single();
-    
-    if (profileError || !profileData) {
-      return { 
-        data: null, 
-        error: { message: 'Username not found' } 
-      };
-    }
-    
-    // Get email from auth.users
-    const { data: userData, error: userError } = await supabase
-      .from('auth.users')
-      .select('email')
-      .eq('id', profileData.id)
-      .single();
-    
-    if (userError || !userData) {
-      return { 
-        data: null, 
-        error: { message: 'User account not found' } 
-      };
-    }
-    
-    // Now login with email
-    const { data, error } = await supabase.auth.signInWithPassword({
-      email: userData.email,
-      password
-    });
-    return { data, error };
   }
+
+  const { data: tokens, error: loginError } = await invokeFunction<{ access_token: string; refresh_token: string }>(
+    'username-login',
+    { username: identifier, password }
+  );
+  if (loginError || !tokens) {
+    return { data: null, error: loginError ?? { message: 'Sign in failed' } };
+  }
+
+  const { data, error } = await supabase.auth.setSession(tokens);
+  return { data, error };
 };
 
 export const signOut = async () => {
@@ -102,6 +88,7 @@ export const getCurrentUser = async () => {
   return { user, error };
 };
 
+// Every account has a profile, created with it by a trigger on auth.users
 export const getUserProfile = async (userId: string) => {
   const { data, error } = await supabase
     .from('user_profiles')
@@ -119,95 +106,75 @@ export const resetPassword = async (email: string) => {
   return { data, error };
 };
 
-// Enhanced admin functions with email verification
-export const sendAdminOTP = async (email: string) => {
-  // Generate 6-digit OTP
-  const otp = Math.floor(100000 + Math.random() * 900000).toString();
-  const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-
-  // Store OTP in database
-  const { error } = await supabase
-    .from('admin_otps')
-    .insert({
-      email,
-      otp_code: otp,
-      expires_at: expiresAt.toISOString()
-    });
+// Admin verification codes are issued, mailed and checked by the admin-otp edge function.
+// Both calls need a signed-in platform admin; a verified code unlocks admin permissions
+// for the current session only.
+export const sendAdminOTP = () =>
+  invokeFunction<{ email: string; expiresAt: string }>('admin-otp', { action: 'send' });
 
-  if (error) {
-    return { error };
-  }
+export const verifyAdminOTP = (code: string) =>
+  invokeFunction<{ verified: boolean }>('admin-otp', { action: 'verify', code });
 
-  // Send OTP via Supabase email (using your SMTP configuration)
-  try {
-    // Use Supabase's built-in email functionality
-    const { error: emailError } = await supabase.auth.signInWithOtp({
-      email: email,
-      options: {
-        data: {
-          otp_code: otp,
-          is_admin_login: true
-        }
-      }
-    });
+// Multi-factor authentication
+// Analysts and the roles above them must pass a TOTP challenge (an AAL2 session)
+// before the database grants them their role's permissions
+export const isMfaRequired = async () => {
+  const { data, error } = await supabase.rpc('mfa_required');
+  return { data: data ?? false, error };
+};
 
-    if (emailError) {
-      console.error('Email sending error:', emailError);
-      // Fallback: log OTP for demo purposes
-      console.log(`Admin OTP for ${email}: ${otp}`);
-    }
-  } catch (emailError) {
-    console.error('Email service error:', emailError);
-    // Fallback: log OTP for demo purposes
-    console.log(`Admin OTP for ${email}: ${otp}`);
-  }
-  
-  return { data: { message: 'OTP sent successfully' }, error: null };
+// currentLevel is aal2 once the session passed a challenge; nextLevel is aal2 when a factor is enrolled
+export const getAssuranceLevel = async () => {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  return { data, error };
 };
 
-export const verifyAdminOTP = async (email: string, otp: string) => {
-  // Check if OTP is valid
-  const { data: otpRecord, error } = await supabase
-    .from('admin_otps')
-    .select('*')
-    .eq('email', email)
-    .eq('otp_code', otp)
-    .eq('used', false)
-    .gt('expires_at', new Date().toISOString())
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .single();
+export const getTotpFactorId = async () => {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  return { data: data?.totp[0]?.id ?? null, error };
+};
 
-  if (error || !otpRecord) {
-    return { error: { message: 'Invalid or expired OTP' } };
+// Starts enrollment, clearing any earlier attempt that was never confirmed
+export const enrollTotp = async () => {
+  const { data: factors } = await supabase.auth.mfa.listFactors();
+  for (const factor of factors?.all ?? []) {
+    if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+      await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    }
   }
 
-  // Mark OTP as used
-  await supabase
-    .from('admin_otps')
-    .update({ used: true })
-    .eq('id', otpRecord.id);
+  const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName: 'Authenticator app' });
+  return { data, error };
+};
+
+// Confirms an enrollment or answers a sign-in challenge; either way the session becomes AAL2
+export const verifyTotp = async (factorId: string, code: string) => {
+  const { data, error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+  return { data, error };
+};
 
-  // Create admin session by signing in with email
-  // First check if admin user exists
-  const { data: adminProfile } = await supabase
-    .from('user_profiles')
-    .select('*')
-    .eq('id', (await supabase.auth.getUser()).data.user?.id)
-    .eq('is_admin', true)
-    .single();
+// Replaces any earlier recovery codes; needs an AAL2 session
+export const generateRecoveryCodes = async () => {
+  const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+  return { data, error };
+};
 
-  if (!adminProfile) {
-    return { error: { message: 'Admin access denied' } };
+const recoveryCodeMessages: Record<string, string> = {
+  invalid: 'That recovery code is not valid or was already used',
+  locked: 'Too many wrong recovery codes; try again in 30 minutes'
+};
+
+// Removes the user's authenticator so they can enroll a new one
+export const redeemRecoveryCode = async (code: string) => {
+  const { data: outcome, error } = await supabase.rpc('redeem_mfa_recovery_code', { p_code: code });
+  if (error) return { error };
+  if (outcome !== 'redeemed') {
+    return { error: { message: recoveryCodeMessages[outcome] ?? recoveryCodeMessages.invalid } };
   }
 
-  return { 
-    data: { 
-      user: { email, is_admin: true },
-      message: 'Admin login successful' 
-    }, 
-    error: null 
-  };
+  // The session still lists the removed factor until it is refreshed
+  const { error: refreshError } = await supabase.auth.refreshSession();
+  return { error: refreshError };
 };
 
 // Email verification for regular users
@@ -242,199 +209,3 @@ export const checkEmailVerification = async () => {
     user 
   };
 };
-
-// Signal management functions (unchanged)
-export const createSignal = async (signalData: any) => {
-  try {
-    console.log('Creating signal with data:', signalData);
-    
-    const { data, error } = await supabase
-      .from('signals')
-      .insert([signalData])
-      .select()
-      .single();
-    
-    if (error) {
-      console.error('Supabase error creating signal:', error);
-      throw error;
-    }
-    
-    console.log('Signal created successfully:', data);
-    
-    return { data, error: null };
-  } catch (error) {
-    console.error('Error in createSignal:', error);
-    return { data: null, error };
-  }
-};
-
-export const getSignals = async (filters: any = {}) => {
-  try {
-    let query = supabase
-      .from('signals')
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (filters.location) {
-      query = query.ilike('location', `%${filters.location}%`);
-    }
-
-    if (filters.type) {
-      query = query.eq('type', filters.type);
-    }
-
-    if (filters.severity) {
-      query = query.eq('severity', filters.severity);
-    }
-
-    const { data, error } = await query;
-    
-    if (error) {
-      console.error('Error fetching signals:', error);
-      return { data: [], error };
-    }
-    
-    return { data: data || [], error: null };
-  } catch (error) {
-    console.error('Error in getSignals:', error);
-    return { data: [], error };
-  }
-};
-
-export const getSignalCount = async () => {
-  try {
-    const { count, error } = await supabase
-      .from('signals')
-      .select('*', { count: 'exact', head: true });
-    
-    if (error) {
-      console.error('Error getting signal count:', error);
-      return { count: 0, error };
-    }
-    
-    return { count: count || 0, error: null };
-  } catch (error) {
-    console.error('Error in getSignalCount:', error);
-    return { count: 0, error };
-  }
-};
-
-export const deleteSignal = async (id: string) => {
-  try {
-    const { error } = await supabase
-      .from('signals')
-      .delete()
-      .eq('id', id);
-    
-    if (error) {
-      console.error('Error deleting signal:', error);
-      return { error };
-    }
-    
-    return { error: null };
-  } catch (error) {
-    console.error('Error in deleteSignal:', error);
-    return { error };
-  }
-};
-
-// Event management functions (unchanged)
-export const getEvents = async () => {
-  try {
-    const { data, error } = await supabase
-      .from('events')
-      .select('*')
-      .order('created_at', { ascending: false });
-    
-    if (error) {
-      console.error('Error fetching events:', error);
-      return { data: [], error };
-    }
-    
-    return { data: data || [], error: null };
-  } catch (error) {
-    console.error('Error in getEvents:', error);
-    return { data: [], error };
-  }
-};
-
-export const getEventById = async (id: string) => {
-  try {
-    const { data, error } = await supabase
-      .from('events')
-      .select('*')
-      .eq('id', id)
-      .single();
-    
-    if (error) {
-      console.error('Error fetching event:', error);
-      return { data: null, error };
-    }
-    
-    return { data, error: null };
-  } catch (error) {
-    console.error('Error in getEventById:', error);
-    return { data: null, error };
-  }
-};
-
-// Alert management functions (unchanged)
-export const getAlerts = async () => {
-  try {
-    const { data, error } = await supabase
-      .from('alerts')
-      .select('*')
-      .order('issued_at', { ascending: false });
-    
-    if (error) {
-      console.error('Error fetching alerts:', error);
-      return { data: [], error };
-    }
-    
-    return { data: data || [], error: null };
-  } catch (error) {
-    console.error('Error in getAlerts:', error);
-    return { data: [], error };
-  }
-};
-
-// Blog management functions (unchanged)
-export const getBlogs = async () => {
-  try {
-    const { data, error } = await supabase
-      .from('blogs')
-      .select('*')
-      .eq('published', true)
-      .order('published_at', { ascending: false });
-    
-    if (error) {
-      console.error('Error fetching blogs:', error);
-      return { data: [], error };
-    }
-    
-    return { data: data || [], error: null };
-  } catch (error) {
-    console.error('Error in getBlogs:', error);
-    return { data: [], error };
-  }
-};
-
-// Test database connection
-export const testConnection = async () => {
-  try {
-    const { data, error } = await supabase
-      .from('signals')
-      .select('count', { count: 'exact', head: true });
-    
-    if (error) {
-      console.error('Database connection test failed:', error);
-      return false;
-    }
-    
-    console.log('Database connection successful');
-    return true;
-  } catch (error) {
-    console.error('Database connection test error:', error);
-    return false;
-  }
-};
\ No newline at end of file
@@ -0,0 +1,131 @@
+import type { Database, NoticeAudience, Severity, Tables, TablesInsert, UserRole } from './database.types';
+
+export type { Json, Severity, EventStatus, EventAction, AlertStatus, AlertOrigin, AlertAction, SignalSourceKind, JobRunStatus, RetentionAction, SubscriptionAreaType, NotificationKind, NoticeAudience, UserRole, WebhookEventType, WebhookDeliveryStatus, OrganizationKind, MemberRole, AdminAuditAction, AccountStatus } from './database.types';
+
+export type Signal = Tables<'signals'>;
+export type NewSignal = TablesInsert<'signals'>;
+// Named HealthEvent so it does not shadow the DOM `Event` global
+export type HealthEvent = Tables<'events'>;
+export type EventStatusChange = Tables<'event_status_history'>;
+export type Alert = Tables<'alerts'>;
+export type AlertVersion = Tables<'alert_versions'>;
+// Alert with the position and size of the event it was raised for
+export type AlertWithEvent = Alert & {
+  events: Pick<HealthEvent, 'id' | 'latitude' | 'longitude' | 'signal_count'> | null;
+};
+export type AlertSubscription = Tables<'alert_subscriptions'>;
+export type NewAlertSubscription = TablesInsert<'alert_subscriptions'>;
+// Named UserNotification so it does not shadow the DOM `Notification` global
+export type UserNotification = Tables<'notifications'>;
+export type SystemNotice = Tables<'system_notices'>;
+export type Blog = Tables<'blogs'>;
+export type UserProfile = Tables<'user_profiles'>;
+// Profile joined with the auth account, as listed in the admin console
+export type AdminUser = Database['public']['Functions']['admin_list_users']['Returns'][number];
+export type AdminAuditEntry = Tables<'admin_audit_log'>;
+export type AdminOtp = Tables<'admin_otps'>;
+export type ClusteringSettings = Tables<'clustering_settings'>;
+export type DetectionSetting = Tables<'detection_settings'>;
+export type NewDetectionSetting = TablesInsert<'detection_settings'>;
+export type DetectionSettingAudit = Tables<'detection_settings_audit'>;
+export type SignalSource = Tables<'signal_sources'>;
+export type NewSignalSource = TablesInsert<'signal_sources'>;
+// Key hashes are not readable from the browser
+export type SourceApiKey = Omit<Tables<'source_api_keys'>, 'key_hash'>;
+export type ScheduledJob = Tables<'scheduled_jobs'>;
+export type JobRun = Tables<'job_runs'>;
+export type RetentionPolicy = Tables<'retention_policies'>;
+// What a retention run removed, or would remove on a dry run, from one table
+export type RetentionOutcome = Database['public']['Functions']['apply_retention']['Returns'][number];
+export type SignalTypeWeight = Tables<'signal_type_weights'>;
+// Signing secrets are not readable from the browser
+// Endpoint with its organization's name, as listed in the webhooks panel
+export type WebhookEndpoint = Omit<Tables<'webhook_endpoints'>, 'secret'> & {
+  organizations: Pick<Organization, 'name'> | null;
+};
+export type NewWebhookEndpoint = Omit<TablesInsert<'webhook_endpoints'>, 'secret'>;
+export type WebhookDelivery = Tables<'webhook_deliveries'>;
+export type Organization = Tables<'organizations'>;
+export type NewOrganization = TablesInsert<'organizations'>;
+// Organization with its member count, as listed for platform admins
+export type OrganizationSummary = Organization & {
+  organization_members: { count: number }[];
+};
+// The signed-in user's own membership, with the organization it belongs to
+export type OrganizationMembership = Tables<'organization_members'> & {
+  organizations: Organization | null;
+};
+// Member with the name and email an organization's members can see
+export type OrganizationMember = Database['public']['Functions']['get_organization_members']['Returns'][number];
+export type OrganizationInvitation = Tables<'organization_invitations'>;
+// Open invitation addressed to the signed-in user's email
+export type PendingInvitation = Database['public']['Functions']['get_my_organization_invitations']['Returns'][number];
+// What an invite link offers, shown on the signup form
+export type InvitationPreview = Database['public']['Functions']['get_organization_invitation']['Returns'][number];
+export type EventNote = Tables<'event_notes'>;
+export type SignalSourceStats = Database['public']['Functions']['signal_source_stats']['Returns'][number];
+
+// One day of signal volume against the baseline it was scored on
+export type BaselinePoint = Database['public']['Functions']['signal_baseline']['Returns'][number];
+
+// Roles a visitor can hold; signed-out visitors are `public`
+export type AccessRole = UserRole | 'public';
+
+// Vertex of a subscription polygon, stored in `alert_subscriptions.polygon` as [lat, lng]
+export type PolygonPoint = [number, number];
+
+// Which part of the inbox to list; dismissed entries are never listed
+export type NotificationView = 'inbox' | 'archived';
+
+// State changes a user can make to their own notifications
+export type NotificationUpdate = Partial<Pick<UserNotification, 'read_at' | 'dismissed_at' | 'archived_at'>>;
+
+// Content of a notice an admin publishes
+export interface NewSystemNotice {
+  title: string;
+  message: string;
+  severity: Severity;
+  actionUrl?: string;
+  audience: NoticeAudience;
+}
+
+// Manual lifecycle action taken by an admin; `targetEventId` is the event a merge folds into
+export interface EventTransition {
+  eventId: string;
+  action: Database['public']['Functions']['transition_event']['Args']['p_action'];
+  reason: string;
+  targetEventId?: string;
+}
+
+// Shape of `events.score_breakdown`, written by score_signal_cluster()
+export interface ScoreBreakdown {
+  signal_count: number;
+  weighted_total: number;
+  type_weight: number;
+  avg_source_reliability: number;
+  avg_recency: number;
+  by_severity: Partial<Record<Severity, { signals: number; points: number; contribution: number }>>;
+  medium_threshold: number;
+  high_threshold: number;
+  scored_at: string;
+}
+
+// Content an admin can set when issuing, updating or superseding an alert
+export interface AlertFields {
+  event_id?: string | null;
+  title?: string;
+  location?: string;
+  type?: string;
+  severity?: Severity;
+  description?: string | null;
+  recommendations?: string[];
+  expires_at?: string | null;
+}
+
+// `alertId` is left out when issuing a new alert
+export interface AlertChange {
+  action: Database['public']['Functions']['manage_alert']['Args']['p_action'];
+  alertId?: string;
+  fields?: AlertFields;
+  reason: string;
+}
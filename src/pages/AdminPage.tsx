@@ -1,25 +1,46 @@
 import React, { useState, useEffect } from 'react';
-import { Shield, Users, AlertTriangle, BarChart3, Settings, Plus, Edit, Trash2, Eye, Download, Upload, Search, Filter, Calendar, MapPin, TrendingUp, Activity, RefreshCw } from 'lucide-react';
+import { Shield, Users, AlertTriangle, BarChart3, Settings, Trash2, Eye, Download, Upload, Search, Filter, Calendar, MapPin, TrendingUp, Activity, RefreshCw, Radio, Webhook } from 'lucide-react';
 import MapComponent from '../components/MapComponent';
 import AddSignalForm from '../components/AddSignalForm';
-import { getSignals, getSignalCount, getEvents, getAlerts } from '../lib/supabase';
+import AlertManagementPanel from '../components/AlertManagementPanel';
+import DetectionSettingsPanel from '../components/DetectionSettingsPanel';
+import SignalImportPanel from '../components/SignalImportPanel';
+import RetentionPanel from '../components/RetentionPanel';
+import SignalSourcesPanel from '../components/SignalSourcesPanel';
+import SignalTypeWeightsPanel from '../components/SignalTypeWeightsPanel';
+import OrganizationsPanel from '../components/OrganizationsPanel';
+import SystemNoticePanel from '../components/SystemNoticePanel';
+import SystemStatusPanel from '../components/SystemStatusPanel';
+import UserManagementPanel from '../components/UserManagementPanel';
+import WebhooksPanel from '../components/WebhooksPanel';
+import { getSignals, getSignalCount, getEvents, getAlerts } from '../lib/repository';
+import { hasRole } from '../lib/roles';
+import { useAuth } from '../lib/auth';
+import type { Alert, HealthEvent, Signal } from '../lib/types';
 
 const AdminPage = () => {
   const [activeTab, setActiveTab] = useState('dashboard');
   const [searchTerm, setSearchTerm] = useState('');
-  const [signals, setSignals] = useState([]);
+  const [signals, setSignals] = useState<Signal[]>([]);
   const [signalCount, setSignalCount] = useState(0);
-  const [events, setEvents] = useState([]);
-  const [alerts, setAlerts] = useState([]);
+  const [events, setEvents] = useState<HealthEvent[]>([]);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-
-  const tabs = [
-    { id: 'dashboard', name: 'Dashboard', icon: BarChart3 },
-    { id: 'signals', name: 'Signals', icon: Activity },
-    { id: 'alerts', name: 'Alerts', icon: AlertTriangle },
-    { id: 'users', name: 'Users', icon: Users },
-    { id: 'settings', name: 'Settings', icon: Settings },
-  ];
+  const [loadError, setLoadError] = useState('');
+  const [showImport, setShowImport] = useState(false);
+
+  const { role } = useAuth();
+
+  // Each tab is shown to its role and every role above it
+  const tabs = ([
+    { id: 'dashboard', name: 'Dashboard', icon: BarChart3, role: 'analyst' },
+    { id: 'signals', name: 'Signals', icon: Activity, role: 'analyst' },
+    { id: 'sources', name: 'Sources', icon: Radio, role: 'platform_admin' },
+    { id: 'alerts', name: 'Alerts', icon: AlertTriangle, role: 'analyst' },
+    { id: 'webhooks', name: 'Webhooks', icon: Webhook, role: 'platform_admin' },
+    { id: 'users', name: 'Users', icon: Users, role: 'platform_admin' },
+    { id: 'settings', name: 'Settings', icon: Settings, role: 'platform_admin' },
+  ] as const).filter(tab => hasRole(role, tab.role));
 
   // Load data on component mount
   useEffect(() => {
@@ -28,28 +49,25 @@ const AdminPage = () => {
 
   const loadDashboardData = async () => {
     setIsLoading(true);
-    try {
-      // Load signals
-      const { data: signalsData } = await getSignals();
-      if (signalsData) setSignals(signalsData);
-
-      // Load signal count
-      const { count } = await getSignalCount();
-      if (count !== null) setSignalCount(count);
-
-      // Load events
-      const { data: eventsData } = await getEvents();
-      if (eventsData) setEvents(eventsData);
-
-      // Load alerts
-      const { data: alertsData } = await getAlerts();
-      if (alertsData) setAlerts(alertsData);
-
-    } catch (error) {
-      console.error('Error loading dashboard data:', error);
-    } finally {
-      setIsLoading(false);
+    const [signalsResult, countResult, eventsResult, alertsResult] = await Promise.all([
+      getSignals(),
+      getSignalCount(),
+      getEvents(),
+      getAlerts()
+    ]);
+
+    const failed = [signalsResult, countResult, eventsResult, alertsResult].find(result => !result.ok);
+    if (failed && !failed.ok) {
+      console.error('Error loading dashboard data:', failed.error.message);
     }
+    setLoadError(failed && !failed.ok ? failed.error.message : '');
+
+    if (signalsResult.ok) setSignals(signalsResult.data);
+    if (countResult.ok) setSignalCount(countResult.data);
+    if (eventsResult.ok) setEvents(eventsResult.data);
+    if (alertsResult.ok) setAlerts(alertsResult.data);
+
+    setIsLoading(false);
   };
 
   const handleSignalAdded = () => {
@@ -98,12 +116,6 @@ const AdminPage = () => {
     signals: 0 // This would need to be calculated based on related signals
   }));
 
-  const users = [
-    { id: 1, name: 'Dr. Sarah Chen', email: 'sarah.chen@hospital.com', role: 'Admin', status: 'Active', joined: '2024-01-15' },
-    { id: 2, name: 'Dr. Raj Patel', email: 'raj.patel@health.gov', role: 'User', status: 'Active', joined: '2024-02-20' },
-    { id: 3, name: 'Dr. Maria Garcia', email: 'maria.garcia@clinic.org', role: 'User', status: 'Inactive', joined: '2024-03-10' },
-  ];
-
   const getSeverityColor = (severity: string) => {
     switch (severity.toLowerCase()) {
       case 'high': return 'bg-red-100 text-red-800';
@@ -113,16 +125,6 @@ const AdminPage = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'active': return 'bg-green-100 text-green-800';
-      case 'inactive': return 'bg-red-100 text-red-800';
-      case 'monitoring': return 'bg-yellow-100 text-yellow-800';
-      case 'resolved': return 'bg-gray-100 text-gray-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
-
   const renderDashboard = () => (
     <div className="space-y-8">
       {/* Stats Grid */}
@@ -214,6 +216,13 @@ const AdminPage = () => {
             <RefreshCw className="h-4 w-4" />
             <span>Refresh</span>
           </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors flex items-center space-x-2"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import</span>
+          </button>
           <button className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors flex items-center space-x-2">
             <Download className="h-4 w-4" />
             <span>Export</span>
@@ -221,6 +230,11 @@ const AdminPage = () => {
         </div>
       </div>
 
+      {/* Bulk Import */}
+      {showImport && (
+        <SignalImportPanel onImported={loadDashboardData} onClose={() => setShowImport(false)} />
+      )}
+
       {/* Add Signal Form */}
       <AddSignalForm onSignalAdded={handleSignalAdded} />
 
@@ -306,134 +320,32 @@ const AdminPage = () => {
     </div>
   );
 
-  const renderAlerts = () => (
+  const renderSources = () => (
     <div className="space-y-6">
-      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-        <h2 className="text-2xl font-bold text-gray-900">Alert Management</h2>
-        <button className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2">
-          <Plus className="h-4 w-4" />
-          <span>Create Alert</span>
-        </button>
-      </div>
+      <h2 className="text-2xl font-bold text-gray-900">Signal Sources</h2>
+      <SignalSourcesPanel />
+    </div>
+  );
 
-      <div className="bg-white rounded-xl shadow-lg overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Alert</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Severity</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {alerts.map((alert) => (
-                <tr key={alert.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{alert.title}</div>
-                      <div className="text-sm text-gray-500">{alert.id.slice(0, 8)}...</div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{alert.location}</td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getSeverityColor(alert.severity)}`}>
-                      {alert.severity}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(alert.status)}`}>
-                      {alert.status}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {new Date(alert.issued_at).toLocaleString()}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <div className="flex items-center space-x-2">
-                      <button className="text-blue-600 hover:text-blue-900">
-                        <Eye className="h-4 w-4" />
-                      </button>
-                      <button className="text-green-600 hover:text-green-900">
-                        <Edit className="h-4 w-4" />
-                      </button>
-                      <button className="text-red-600 hover:text-red-900">
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-      </div>
+  const renderWebhooks = () => (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">Webhooks</h2>
+      <WebhooksPanel />
     </div>
   );
 
-  const renderUsers = () => (
+  const renderAlerts = () => (
     <div className="space-y-6">
-      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-        <h2 className="text-2xl font-bold text-gray-900">User Management</h2>
-        <button className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2">
-          <Plus className="h-4 w-4" />
-          <span>Add User</span>
-        </button>
-      </div>
+      <h2 className="text-2xl font-bold text-gray-900">Alert Management</h2>
+      <AlertManagementPanel />
+    </div>
+  );
 
-      <div className="bg-white rounded-xl shadow-lg overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Joined</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {users.map((user) => (
-                <tr key={user.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex items-center">
-                      <div className="h-10 w-10 bg-blue-100 rounded-full flex items-center justify-center">
-                        <span className="text-blue-600 font-medium">{user.name.charAt(0)}</span>
-                      </div>
-                      <div className="ml-4">
-                        <div className="text-sm font-medium text-gray-900">{user.name}</div>
-                      </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{user.email}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{user.role}</td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(user.status)}`}>
-                      {user.status}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{user.joined}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <div className="flex items-center space-x-2">
-                      <button className="text-blue-600 hover:text-blue-900">
-                        <Edit className="h-4 w-4" />
-                      </button>
-                      <button className="text-red-600 hover:text-red-900">
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-      </div>
+  const renderUsers = () => (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">User Management</h2>
+      <UserManagementPanel />
+      <OrganizationsPanel />
     </div>
   );
 
@@ -442,73 +354,15 @@ const AdminPage = () => {
       <h2 className="text-2xl font-bold text-gray-900">System Settings</h2>
       
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        <div className="bg-white rounded-xl p-6 shadow-lg">
-          <h3 className="text-lg font-bold text-gray-900 mb-4">Alert Thresholds</h3>
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">High Severity Threshold</label>
-              <input type="number" className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent" defaultValue="20" />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Medium Severity Threshold</label>
-              <input type="number" className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent" defaultValue="10" />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Low Severity Threshold</label>
-              <input type="number" className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent" defaultValue="5" />
-            </div>
-          </div>
-        </div>
+        <DetectionSettingsPanel />
 
-        <div className="bg-white rounded-xl p-6 shadow-lg">
-          <h3 className="text-lg font-bold text-gray-900 mb-4">Notification Settings</h3>
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <span className="text-sm font-medium text-gray-700">Email Notifications</span>
-              <input type="checkbox" className="rounded" defaultChecked />
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm font-medium text-gray-700">SMS Alerts</span>
-              <input type="checkbox" className="rounded" defaultChecked />
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm font-medium text-gray-700">Push Notifications</span>
-              <input type="checkbox" className="rounded" />
-            </div>
-          </div>
-        </div>
+        <SignalTypeWeightsPanel />
 
-        <div className="bg-white rounded-xl p-6 shadow-lg">
-          <h3 className="text-lg font-bold text-gray-900 mb-4">Data Retention</h3>
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Signal Data Retention (days)</label>
-              <input type="number" className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent" defaultValue="90" />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Alert Data Retention (days)</label>
-              <input type="number" className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent" defaultValue="365" />
-            </div>
-          </div>
-        </div>
+        <SystemNoticePanel />
 
-        <div className="bg-white rounded-xl p-6 shadow-lg">
-          <h3 className="text-lg font-bold text-gray-900 mb-4">System Status</h3>
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <span className="text-sm font-medium text-gray-700">Database Connection</span>
-              <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs">Connected</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm font-medium text-gray-700">AI Processing</span>
-              <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs">Active</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm font-medium text-gray-700">Alert System</span>
-              <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs">Operational</span>
-            </div>
-          </div>
-        </div>
+        <RetentionPanel />
+
+        <SystemStatusPanel />
       </div>
 
       <div className="flex justify-end">
@@ -531,10 +385,13 @@ const AdminPage = () => {
       );
     }
 
-    switch (activeTab) {
+    // A tab the role cannot see falls back to the dashboard
+    switch (tabs.some(tab => tab.id === activeTab) ? activeTab : 'dashboard') {
       case 'dashboard': return renderDashboard();
       case 'signals': return renderSignals();
+      case 'sources': return renderSources();
       case 'alerts': return renderAlerts();
+      case 'webhooks': return renderWebhooks();
       case 'users': return renderUsers();
       case 'settings': return renderSettings();
       default: return renderDashboard();
@@ -582,6 +439,11 @@ const AdminPage = () => {
 
           {/* Main Content */}
           <div className="flex-1">
+            {loadError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-6">
+                <p className="text-red-700 text-sm">Some dashboard data could not be loaded: {loadError}</p>
+              </div>
+            )}
             {renderContent()}
           </div>
         </div>
@@ -1,70 +1,96 @@
-import React, { useState } from 'react';
-import { AlertTriangle, MapPin, Clock, Filter, Search, Bell, TrendingUp, Users, Shield, Download, Eye, ChevronRight } from 'lucide-react';
-import MapComponent from '../components/MapComponent';
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, MapPin, Clock, Filter, Search, Bell, TrendingUp, Eye, Download, ChevronRight, ChevronLeft, Loader } from 'lucide-react';
+import MapComponent, { type MapMarker } from '../components/MapComponent';
+import { searchAlerts, getAlertSummary, type AlertSummary } from '../lib/repository';
+import { SIGNAL_TYPES } from '../lib/constants';
+import type { AlertStatus, AlertWithEvent, Severity } from '../lib/types';
+
+const PAGE_SIZE = 10;
+
+// Retracted and superseded alerts are only shown when asked for
+const STATUS_FILTERS: Record<string, AlertStatus[]> = {
+  current: ['active', 'monitoring'],
+  active: ['active'],
+  monitoring: ['monitoring'],
+  resolved: ['resolved'],
+  withdrawn: ['retracted', 'superseded'],
+  all: []
+};
+
+const formatTimeAgo = (timestamp: string) => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+};
 
 const AlertsPage = () => {
-  const [selectedFilter, setSelectedFilter] = useState('all');
+  const [selectedFilter, setSelectedFilter] = useState<Severity | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState('current');
+  const [typeFilter, setTypeFilter] = useState('');
+  const [locationFilter, setLocationFilter] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [debouncedLocation, setDebouncedLocation] = useState('');
+  const [page, setPage] = useState(0);
+  const [alerts, setAlerts] = useState<AlertWithEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [summary, setSummary] = useState<AlertSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
 
-  const alerts = [
-    {
-      id: 'ALT-001',
-      title: 'High Cough Cluster - Mumbai Andheri',
-      location: 'Andheri West, Mumbai',
-      type: 'Respiratory',
-      severity: 'high',
-      status: 'active',
-      signals: 21,
-      timeAgo: '2 hours ago',
-      timestamp: '2025-06-28 10:32 AM',
-      description: 'Unusual spike in cough-related vibration signals detected via wearables and acoustic monitors.',
-      recommendations: [
-        'Wear masks in crowded areas',
-        'Avoid unnecessary travel to affected areas',
-        'Monitor symptoms closely',
-        'Seek medical attention if symptoms develop'
-      ],
-      coordinates: [19.1136, 72.8697]
-    },
-    {
-      id: 'ALT-002',
-      title: 'Wastewater Viral Traces - Delhi Central',
-      location: 'Central District, Delhi',
-      type: 'Wastewater',
-      severity: 'medium',
-      status: 'active',
-      signals: 15,
-      timeAgo: '6 hours ago',
-      timestamp: '2025-06-28 06:15 AM',
-      description: 'Moderate increase in viral load detected in community wastewater sampling.',
-      recommendations: [
-        'Practice good hand hygiene',
-        'Ensure proper sanitation',
-        'Stay hydrated',
-        'Monitor local health advisories'
-      ],
-      coordinates: [28.6139, 77.2090]
-    },
-    {
-      id: 'ALT-003',
-      title: 'Pharmacy Trend Anomaly - Bangalore',
-      location: 'Tech Corridor, Bangalore',
-      type: 'Pharmacy',
-      severity: 'low',
-      status: 'monitoring',
-      signals: 8,
-      timeAgo: '12 hours ago',
-      timestamp: '2025-06-27 22:30 PM',
-      description: 'Rise in fever medication purchases across major pharmacy chains.',
-      recommendations: [
-        'Stay informed about local health updates',
-        'Maintain general health precautions',
-        'Report symptoms to healthcare providers',
-        'Follow standard prevention protocols'
-      ],
-      coordinates: [12.9716, 77.5946]
-    }
-  ];
+  // Wait for typing to pause before querying
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(searchTerm);
+      setDebouncedLocation(locationFilter);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, locationFilter]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [selectedFilter, statusFilter, typeFilter, debouncedSearch, debouncedLocation]);
+
+  useEffect(() => {
+    // Ignore responses for filters that have since changed
+    let isCurrent = true;
+    setIsLoading(true);
+
+    searchAlerts({
+      severity: selectedFilter === 'all' ? undefined : selectedFilter,
+      status: STATUS_FILTERS[statusFilter],
+      type: typeFilter || undefined,
+      location: debouncedLocation.trim() || undefined,
+      search: debouncedSearch,
+      page,
+      pageSize: PAGE_SIZE
+    }).then(result => {
+      if (!isCurrent) return;
+      if (result.ok) {
+        setAlerts(result.data.alerts);
+        setTotal(result.data.total);
+        setError('');
+      } else {
+        setError(result.error.message);
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedFilter, statusFilter, typeFilter, debouncedSearch, debouncedLocation, page]);
+
+  useEffect(() => {
+    getAlertSummary().then(result => {
+      if (result.ok) setSummary(result.data);
+    });
+  }, []);
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -93,22 +119,22 @@ const AlertsPage = () => {
     }
   };
 
-  const filteredAlerts = alerts.filter(alert => {
-    const matchesSearch = alert.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         alert.location.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesFilter = selectedFilter === 'all' || alert.severity === selectedFilter;
-    return matchesSearch && matchesFilter;
-  });
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
-  const mapSignals = alerts.map(alert => ({
-    id: alert.id,
-    lat: alert.coordinates[0],
-    lng: alert.coordinates[1],
-    type: alert.type,
-    severity: alert.severity as 'low' | 'medium' | 'high',
-    location: alert.location,
-    timestamp: alert.timestamp
-  }));
+  // Alerts are plotted at their event; manual alerts without one are listed but not mapped
+  const mapSignals: MapMarker[] = alerts.flatMap(alert =>
+    alert.events?.latitude != null && alert.events.longitude != null
+      ? [{
+          id: alert.id,
+          lat: alert.events.latitude,
+          lng: alert.events.longitude,
+          type: alert.type,
+          severity: alert.severity,
+          location: alert.location,
+          timestamp: new Date(alert.issued_at).toLocaleString()
+        }]
+      : []
+  );
 
   return (
     <div className="min-h-screen bg-gray-50 pt-20">
@@ -124,10 +150,13 @@ const AlertsPage = () => {
               <p className="text-gray-600 mt-2">Real-time health alerts and early warning notifications</p>
             </div>
             <div className="flex items-center space-x-3">
-              <button className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2">
+              <Link
+                to="/dashboard?tab=subscriptions"
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center space-x-2"
+              >
                 <Bell className="h-4 w-4" />
                 <span>Subscribe</span>
-              </button>
+              </Link>
               <button className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors flex items-center space-x-2">
                 <Download className="h-4 w-4" />
                 <span>Export</span>
@@ -146,7 +175,7 @@ const AlertsPage = () => {
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
                 <input
                   type="text"
-                  placeholder="Search alerts by location or type..."
+                  placeholder="Search alerts..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -154,7 +183,7 @@ const AlertsPage = () => {
               </div>
               <select
                 value={selectedFilter}
-                onChange={(e) => setSelectedFilter(e.target.value)}
+                onChange={(e) => setSelectedFilter(e.target.value as Severity | 'all')}
                 className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 <option value="all">All Severities</option>
@@ -162,10 +191,39 @@ const AlertsPage = () => {
                 <option value="medium">Medium</option>
                 <option value="low">Low</option>
               </select>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="current">Current</option>
+                <option value="active">Active</option>
+                <option value="monitoring">Monitoring</option>
+                <option value="resolved">Resolved</option>
+                <option value="withdrawn">Retracted or superseded</option>
+                <option value="all">All Statuses</option>
+              </select>
+              <select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value)}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All Types</option>
+                {SIGNAL_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="Location"
+                value={locationFilter}
+                onChange={(e) => setLocationFilter(e.target.value)}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
             </div>
             <div className="flex items-center space-x-2 text-sm text-gray-600">
               <Filter className="h-4 w-4" />
-              <span>{filteredAlerts.length} alerts found</span>
+              <span>{total} alert{total === 1 ? '' : 's'} found</span>
             </div>
           </div>
         </div>
@@ -206,7 +264,19 @@ const AlertsPage = () => {
 
           {/* Alerts List */}
           <div className="xl:col-span-2 space-y-6">
-            {filteredAlerts.map((alert) => (
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            )}
+
+            {isLoading && alerts.length === 0 && (
+              <div className="flex items-center justify-center py-16">
+                <Loader className="h-6 w-6 text-blue-600 animate-spin" />
+              </div>
+            )}
+
+            {alerts.map((alert) => (
               <div key={alert.id} className={`${getSeverityBg(alert.severity)} rounded-xl p-6 border-2 hover:shadow-xl transition-all duration-300 group`}>
                 <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-4">
                   <div className="flex-1">
@@ -217,6 +287,7 @@ const AlertsPage = () => {
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(alert.status)}`}>
                         {alert.status}
                       </span>
+                      <span className="text-xs text-gray-500">{alert.type}</span>
                     </div>
                     <h3 className="text-xl font-bold text-gray-900 mb-2 group-hover:text-blue-600 transition-colors">
                       {alert.title}
@@ -228,57 +299,81 @@ const AlertsPage = () => {
                       </div>
                       <div className="flex items-center space-x-1">
                         <Clock className="h-4 w-4" />
-                        <span>{alert.timeAgo}</span>
-                      </div>
-                      <div className="flex items-center space-x-1">
-                        <TrendingUp className="h-4 w-4" />
-                        <span>{alert.signals} signals</span>
+                        <span>{formatTimeAgo(alert.issued_at)}</span>
                       </div>
+                      {alert.events && (
+                        <div className="flex items-center space-x-1">
+                          <TrendingUp className="h-4 w-4" />
+                          <span>{alert.events.signal_count} signals</span>
+                        </div>
+                      )}
                     </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <button className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors">
-                      <Eye className="h-4 w-4" />
-                    </button>
-                    <button className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors">
-                      <Download className="h-4 w-4" />
-                    </button>
-                  </div>
                 </div>
 
                 <p className="text-gray-700 mb-4">{alert.description}</p>
 
-                <div className="mb-4">
-                  <h4 className="font-semibold text-gray-900 mb-2">Recommended Actions:</h4>
-                  <ul className="space-y-1">
-                    {alert.recommendations.map((rec, index) => (
-                      <li key={index} className="flex items-center space-x-2 text-sm text-gray-600">
-                        <div className="w-1.5 h-1.5 bg-blue-600 rounded-full"></div>
-                        <span>{rec}</span>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
+                {alert.recommendations && alert.recommendations.length > 0 && (
+                  <div className="mb-4">
+                    <h4 className="font-semibold text-gray-900 mb-2">Recommended Actions:</h4>
+                    <ul className="space-y-1">
+                      {alert.recommendations.map((rec, index) => (
+                        <li key={index} className="flex items-center space-x-2 text-sm text-gray-600">
+                          <div className="w-1.5 h-1.5 bg-blue-600 rounded-full"></div>
+                          <span>{rec}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
 
                 <div className="flex items-center justify-between">
                   <div className="text-xs text-gray-500">
-                    Alert ID: {alert.id} • {alert.timestamp}
+                    Version {alert.version} • Issued {new Date(alert.issued_at).toLocaleString()}
+                    {alert.expires_at && ` • Expires ${new Date(alert.expires_at).toLocaleString()}`}
                   </div>
-                  <button className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors">
-                    <span>View Details</span>
-                    <ChevronRight className="h-4 w-4" />
-                  </button>
+                  {alert.event_id && (
+                    <Link
+                      to={`/event/${alert.event_id}`}
+                      className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+                    >
+                      <span>View Details</span>
+                      <ChevronRight className="h-4 w-4" />
+                    </Link>
+                  )}
                 </div>
               </div>
             ))}
 
-            {filteredAlerts.length === 0 && (
+            {!isLoading && !error && alerts.length === 0 && (
               <div className="text-center py-16">
                 <AlertTriangle className="h-16 w-16 text-gray-300 mx-auto mb-4" />
                 <h3 className="text-xl font-semibold text-gray-900 mb-2">No alerts found</h3>
                 <p className="text-gray-600">Try adjusting your search terms or filters.</p>
               </div>
             )}
+
+            {total > PAGE_SIZE && (
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setPage(current => current - 1)}
+                  disabled={page === 0 || isLoading}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center space-x-2"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  <span>Previous</span>
+                </button>
+                <span className="text-sm text-gray-600">Page {page + 1} of {pageCount}</span>
+                <button
+                  onClick={() => setPage(current => current + 1)}
+                  disabled={page + 1 >= pageCount || isLoading}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center space-x-2"
+                >
+                  <span>Next</span>
+                  <ChevronRight className="h-4 w-4" />
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -290,7 +385,7 @@ const AlertsPage = () => {
                 <AlertTriangle className="h-6 w-6 text-red-600" />
               </div>
               <div>
-                <div className="text-2xl font-bold text-gray-900">3</div>
+                <div className="text-2xl font-bold text-gray-900">{summary?.active ?? '—'}</div>
                 <div className="text-sm text-gray-600">Active Alerts</div>
               </div>
             </div>
@@ -298,33 +393,33 @@ const AlertsPage = () => {
           <div className="bg-white rounded-xl p-6 shadow-lg">
             <div className="flex items-center space-x-3">
               <div className="p-3 bg-blue-100 rounded-lg">
-                <TrendingUp className="h-6 w-6 text-blue-600" />
+                <Eye className="h-6 w-6 text-blue-600" />
               </div>
               <div>
-                <div className="text-2xl font-bold text-gray-900">44</div>
-                <div className="text-sm text-gray-600">Total Signals</div>
+                <div className="text-2xl font-bold text-gray-900">{summary?.monitoring ?? '—'}</div>
+                <div className="text-sm text-gray-600">Under Monitoring</div>
               </div>
             </div>
           </div>
           <div className="bg-white rounded-xl p-6 shadow-lg">
             <div className="flex items-center space-x-3">
-              <div className="p-3 bg-green-100 rounded-lg">
-                <Users className="h-6 w-6 text-green-600" />
+              <div className="p-3 bg-orange-100 rounded-lg">
+                <TrendingUp className="h-6 w-6 text-orange-600" />
               </div>
               <div>
-                <div className="text-2xl font-bold text-gray-900">1.2M</div>
-                <div className="text-sm text-gray-600">People Notified</div>
+                <div className="text-2xl font-bold text-gray-900">{summary?.highSeverity ?? '—'}</div>
+                <div className="text-sm text-gray-600">High Severity</div>
               </div>
             </div>
           </div>
           <div className="bg-white rounded-xl p-6 shadow-lg">
             <div className="flex items-center space-x-3">
               <div className="p-3 bg-purple-100 rounded-lg">
-                <Shield className="h-6 w-6 text-purple-600" />
+                <Bell className="h-6 w-6 text-purple-600" />
               </div>
               <div>
-                <div className="text-2xl font-bold text-gray-900">98%</div>
-                <div className="text-sm text-gray-600">Accuracy Rate</div>
+                <div className="text-2xl font-bold text-gray-900">{summary?.issuedLastDay ?? '—'}</div>
+                <div className="text-sm text-gray-600">Issued in 24h</div>
               </div>
             </div>
           </div>
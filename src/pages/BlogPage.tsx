@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Search, MapPin, TrendingUp, Clock, AlertTriangle, Filter, Calendar, Tag, RefreshCw } from 'lucide-react';
-import { getBlogs } from '../lib/supabase';
+import { getBlogs } from '../lib/repository';
+import type { Blog } from '../lib/types';
 
 const BlogPage = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedFilter, setSelectedFilter] = useState('all');
-  const [blogPosts, setBlogPosts] = useState([]);
+  const [blogPosts, setBlogPosts] = useState<Blog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -15,10 +16,9 @@ const BlogPage = () => {
   const loadBlogs = async () => {
     setIsLoading(true);
     try {
-      const { data } = await getBlogs();
-      if (data) {
-        setBlogPosts(data);
-      }
+      const result = await getBlogs();
+      if (!result.ok) throw result.error;
+      setBlogPosts(result.data);
     } catch (error) {
       console.error('Error loading blogs:', error);
     } finally {
@@ -26,17 +26,6 @@ const BlogPage = () => {
     }
   };
 
-  const getSeverityFromTitle = (title: string) => {
-    if (title.includes('URGENT')) return 'high';
-    if (title.includes('Alert')) return 'medium';
-    return 'low';
-  };
-
-  const getLocationFromTitle = (title: string) => {
-    const match = title.match(/in\s+([^,\n]+)/i);
-    return match ? match[1] : 'Unknown Location';
-  };
-
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'high': return 'from-red-500 to-orange-500';
@@ -66,8 +55,7 @@ const BlogPage = () => {
   const filteredPosts = blogPosts.filter(post => {
     const matchesSearch = post.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          post.content.toLowerCase().includes(searchTerm.toLowerCase());
-    const severity = getSeverityFromTitle(post.title);
-    const matchesFilter = selectedFilter === 'all' || severity === selectedFilter;
+    const matchesFilter = selectedFilter === 'all' || post.severity === selectedFilter;
     return matchesSearch && matchesFilter;
   });
 
@@ -157,15 +145,15 @@ const BlogPage = () => {
                   </h2>
                   {blogPosts.length > 0 && (
                     <p className="text-sm text-gray-600">
-                      Last updated: {new Date(blogPosts[0]?.published_at).toLocaleString()}
+                      Last updated: {new Date(blogPosts[0].published_at ?? blogPosts[0].created_at).toLocaleString()}
                     </p>
                   )}
                 </div>
 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                   {filteredPosts.map((post) => {
-                    const severity = getSeverityFromTitle(post.title);
-                    const location = getLocationFromTitle(post.title);
+                    const severity = post.severity;
+                    const location = post.location || 'Unknown Location';
                     
                     return (
                       <article key={post.id} className={`${getSeverityBg(severity)} rounded-2xl p-8 border-2 hover:shadow-xl transition-all duration-300 group cursor-pointer`}>
@@ -199,7 +187,7 @@ const BlogPage = () => {
                             <div className="flex items-center space-x-2">
                               <Calendar className="h-4 w-4 text-gray-500" />
                               <span className="text-sm text-gray-500">
-                                {new Date(post.published_at).toLocaleDateString()}
+                                {new Date(post.published_at ?? post.created_at).toLocaleDateString()}
                               </span>
                             </div>
                             <div className="text-gray-500 text-sm">
@@ -211,7 +199,7 @@ const BlogPage = () => {
                         <div className="flex items-center justify-between">
                           <div className="flex items-center space-x-2 text-gray-500 text-sm">
                             <Clock className="h-4 w-4" />
-                            <span>{new Date(post.published_at).toLocaleTimeString()}</span>
+                            <span>{new Date(post.published_at ?? post.created_at).toLocaleTimeString()}</span>
                           </div>
                           <button className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors">
                             Read Full Alert
@@ -1,14 +1,64 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Bell, Settings, User, MapPin, TrendingUp, AlertTriangle, Calendar, Filter, Bot, Activity, Zap, Shield, Clock, ChevronRight, Eye, Download, BarChart3, Plus, RefreshCw, Sparkles, CheckCircle, Mail, X } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { Search, Bell, Settings, User, MapPin, TrendingUp, AlertTriangle, Calendar, Filter, Bot, Activity, Zap, Shield, Clock, ChevronRight, Eye, Download, BarChart3, Plus, RefreshCw, Sparkles, CheckCircle, Mail, X, Building, type LucideIcon } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
 import MapComponent from '../components/MapComponent';
 import EventCard from '../components/EventCard';
 import AIChat from '../components/AIChat';
 import NotificationCenter from '../components/NotificationCenter';
 import AdvancedAnalytics from '../components/AdvancedAnalytics';
 import RealTimeMonitor from '../components/RealTimeMonitor';
-import { getSignals, getCurrentUser, getUserProfile, getEvents, checkEmailVerification, resendEmailVerification } from '../lib/supabase';
+import ConnectionStatus from '../components/ConnectionStatus';
+import AlertSubscriptionsPanel from '../components/AlertSubscriptionsPanel';
+import OrganizationPanel from '../components/OrganizationPanel';
+import { getUserProfile, resendEmailVerification } from '../lib/supabase';
+import { getSignals, getEvents } from '../lib/repository';
+import { applyChange, ratePerMinute, useLiveChanges, type LiveChange } from '../lib/realtime';
+import type { HealthEvent, Signal, UserProfile } from '../lib/types';
 import { generateHealthReport } from '../lib/openai';
+import { useUnreadNotificationCount } from '../lib/notifications';
+import { useAuth } from '../lib/auth';
+
+interface ActivityItem {
+  id: string;
+  action: string;
+  timestamp: string;
+  user: string;
+  icon: LucideIcon;
+}
+
+const MAX_ACTIVITY_ITEMS = 8;
+
+const signalActivity = (signal: Signal): ActivityItem => ({
+  id: `signal-${signal.id}`,
+  action: `${signal.severity.charAt(0).toUpperCase() + signal.severity.slice(1)} severity ${signal.type} signal in ${signal.location}`,
+  timestamp: signal.created_at,
+  user: signal.source_id ? 'Partner Source' : 'Monitoring System',
+  icon: Activity
+});
+
+const eventActivity = (event: HealthEvent, previous?: Partial<HealthEvent>): ActivityItem => {
+  const statusChanged = previous?.status !== undefined && previous.status !== event.status;
+  return {
+    id: `event-${event.id}-${event.updated_at ?? event.created_at}`,
+    action: !previous
+      ? `New event created: ${event.title}`
+      : statusChanged
+        ? `${event.title} moved to ${event.status}`
+        : `${event.title} updated (${event.signal_count} signals)`,
+    timestamp: previous ? event.updated_at ?? event.created_at : event.created_at,
+    user: 'Detection Engine',
+    icon: Zap
+  };
+};
+
+const formatTimeAgo = (timestamp: string) => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
 
 const DashboardPage = () => {
   const [selectedDate, setSelectedDate] = useState('2025-06-28');
@@ -16,30 +66,35 @@ const DashboardPage = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [showAIChat, setShowAIChat] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
-  const [activeTab, setActiveTab] = useState('overview');
-  const [signals, setSignals] = useState([]);
-  const [events, setEvents] = useState([]);
-  const [filteredSignals, setFilteredSignals] = useState([]);
-  const [user, setUser] = useState(null);
-  const [userProfile, setUserProfile] = useState(null);
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') ?? 'overview');
+  const [signals, setSignals] = useState<Signal[]>([]);
+  const [events, setEvents] = useState<HealthEvent[]>([]);
+  const [filteredSignals, setFilteredSignals] = useState<Signal[]>([]);
+  const { user } = useAuth();
+  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [aiReport, setAiReport] = useState('');
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
-  const [emailVerified, setEmailVerified] = useState(true);
-  const [showEmailVerification, setShowEmailVerification] = useState(false);
+  const [showEmailVerification, setShowEmailVerification] = useState(true);
+  const [recentActivity, setRecentActivity] = useState<ActivityItem[]>([]);
+  const [loadError, setLoadError] = useState('');
+  const [profileError, setProfileError] = useState('');
 
   const tabs = [
     { id: 'overview', name: 'Overview', icon: BarChart3 },
     { id: 'analytics', name: 'Analytics', icon: TrendingUp },
     { id: 'monitor', name: 'Live Monitor', icon: Activity },
-    { id: 'map', name: 'Map View', icon: MapPin }
+    { id: 'map', name: 'Map View', icon: MapPin },
+    { id: 'subscriptions', name: 'Subscriptions', icon: Bell },
+    { id: 'organization', name: 'Organization', icon: Building }
   ];
 
   const metricCards = [
     {
       title: 'Total Active Signals',
       value: signals.length.toString(),
-      change: '+5%',
+      change: `${ratePerMinute(signals.map(signal => new Date(signal.created_at).getTime())).toFixed(1)}/min`,
       trend: 'up',
       description: 'Signals detected in the last 24h',
       icon: Activity
@@ -70,51 +125,40 @@ const DashboardPage = () => {
     }
   ];
 
-  const recentActivity = [
-    {
-      id: 1,
-      action: 'New event created from signal cluster',
-      time: '5 minutes ago',
-      type: 'event',
-      user: 'AI System',
-      icon: Zap
-    },
-    {
-      id: 2,
-      action: 'High severity signal detected',
-      time: '15 minutes ago',
-      type: 'signal',
-      user: 'Monitoring System',
-      icon: Activity
-    },
-    {
-      id: 3,
-      action: 'Event #34 updated with new signals',
-      time: '1 hour ago',
-      type: 'event',
-      user: 'AI Engine',
-      icon: Zap
-    },
-    {
-      id: 4,
-      action: 'Weekly trend analysis completed',
-      time: '2 hours ago',
-      type: 'report',
-      user: 'System',
-      icon: BarChart3
-    }
-  ];
+  const emailVerified = !user || !!user.email_confirmed_at;
 
-  // Load user data and signals on component mount
+  // Load signals on component mount
   useEffect(() => {
-    loadUserData();
     loadData();
-    
-    // Set up auto-refresh every 30 seconds
-    const interval = setInterval(loadData, 30000);
-    return () => clearInterval(interval);
   }, []);
 
+  // The signed-in user comes from AuthProvider; only the profile is loaded here
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setUserProfile(null);
+      setProfileError('');
+      return;
+    }
+
+    let isCurrent = true;
+    getUserProfile(userId)
+      .then(({ data: profile, error }) => {
+        if (!isCurrent) return;
+        if (error) throw error;
+        setUserProfile(profile);
+        setProfileError('');
+      })
+      .catch(error => {
+        console.error('Error loading user profile:', error);
+        if (isCurrent) setProfileError(error?.message ?? 'Unknown error');
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [userId]);
+
   // Filter signals when search term changes
   useEffect(() => {
     if (searchTerm.trim()) {
@@ -128,46 +172,93 @@ const DashboardPage = () => {
     }
   }, [searchTerm, signals]);
 
-  const loadUserData = async () => {
-    try {
-      const { user: currentUser } = await getCurrentUser();
-      if (currentUser) {
-        setUser(currentUser);
-        
-        // Check email verification
-        const { verified } = await checkEmailVerification();
-        setEmailVerified(verified);
-        setShowEmailVerification(!verified);
-        
-        const { data: profile } = await getUserProfile(currentUser.id);
-        setUserProfile(profile);
-      }
-    } catch (error) {
-      console.error('Error loading user data:', error);
-    }
-  };
-
   const loadData = async () => {
     try {
       const [signalsResult, eventsResult] = await Promise.all([
         getSignals(),
         getEvents()
       ]);
+      const errors: string[] = [];
       
-      if (signalsResult.data) {
+      if (signalsResult.ok) {
         setSignals(signalsResult.data);
+      } else {
+        console.error('Error loading signals:', signalsResult.error);
+        errors.push(`signals (${signalsResult.error.message})`);
       }
       
-      if (eventsResult.data) {
+      if (eventsResult.ok) {
         setEvents(eventsResult.data);
+      } else {
+        console.error('Error loading events:', eventsResult.error);
+        errors.push(`events (${eventsResult.error.message})`);
       }
+
+      setLoadError(errors.join(', '));
+
+      // Seed the activity list with the latest records until live changes arrive
+      setRecentActivity(
+        [
+          ...(signalsResult.ok ? signalsResult.data.slice(0, MAX_ACTIVITY_ITEMS).map(signal => signalActivity(signal)) : []),
+          ...(eventsResult.ok ? eventsResult.data.slice(0, MAX_ACTIVITY_ITEMS).map(event => eventActivity(event)) : [])
+        ]
+          .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+          .slice(0, MAX_ACTIVITY_ITEMS)
+      );
     } catch (error) {
       console.error('Error loading data:', error);
+      setLoadError(error instanceof Error ? error.message : 'Unknown error');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const pushActivity = (item: ActivityItem) =>
+    setRecentActivity(prev => [item, ...prev.filter(existing => existing.id !== item.id)].slice(0, MAX_ACTIVITY_ITEMS));
+
+  const handleChange = (change: LiveChange) => {
+    switch (change.table) {
+      case 'signals': {
+        const { payload } = change;
+        setSignals(prev => applyChange(prev, payload));
+        if (payload.eventType === 'INSERT') pushActivity(signalActivity(payload.new));
+        break;
+      }
+      case 'events': {
+        const { payload } = change;
+        setEvents(prev => applyChange(prev, payload));
+        if (payload.eventType !== 'DELETE') {
+          pushActivity(eventActivity(payload.new, payload.eventType === 'UPDATE' ? payload.old : undefined));
+        }
+        break;
+      }
+      case 'alerts': {
+        const { payload } = change;
+        if (payload.eventType === 'INSERT') {
+          pushActivity({
+            id: `alert-${payload.new.id}`,
+            action: `Alert issued: ${payload.new.title}`,
+            timestamp: payload.new.created_at,
+            user: 'Alerting',
+            icon: AlertTriangle
+          });
+        } else if (payload.eventType === 'UPDATE' && payload.old.status !== payload.new.status) {
+          pushActivity({
+            id: `alert-${payload.new.id}-${payload.new.status}`,
+            action: `Alert ${payload.new.status}: ${payload.new.title}`,
+            timestamp: new Date(change.receivedAt).toISOString(),
+            user: 'Alerting',
+            icon: AlertTriangle
+          });
+        }
+        break;
+      }
+    }
+  };
+
+  const connection = useLiveChanges(['signals', 'events', 'alerts'], handleChange, { onResync: loadData });
+  const unreadCount = useUnreadNotificationCount(user !== null);
+
   const generateAIHealthReport = async () => {
     setIsGeneratingReport(true);
     try {
@@ -219,7 +310,7 @@ const DashboardPage = () => {
       lat: signal.latitude || 20.5937,
       lng: signal.longitude || 78.9629,
       type: signal.type,
-      severity: signal.severity as 'low' | 'medium' | 'high',
+      severity: signal.severity,
       location: signal.location,
       timestamp: signal.created_at
     }))
@@ -246,6 +337,10 @@ const DashboardPage = () => {
         return <AdvancedAnalytics />;
       case 'monitor':
         return <RealTimeMonitor />;
+      case 'subscriptions':
+        return <AlertSubscriptionsPanel />;
+      case 'organization':
+        return <OrganizationPanel />;
       case 'map':
         return (
           <div className="bg-white rounded-xl p-6 shadow-lg">
@@ -362,6 +457,9 @@ const DashboardPage = () => {
               </button>
             </div>
             <div className="space-y-3">
+              {recentActivity.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">No activity yet</p>
+              )}
               {recentActivity.map((activity) => (
                 <div key={activity.id} className="flex items-center space-x-3 p-3 hover:bg-gray-50 rounded-lg transition-colors">
                   <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
@@ -371,7 +469,7 @@ const DashboardPage = () => {
                     <p className="text-sm font-medium text-gray-900 truncate">{activity.action}</p>
                     <div className="flex items-center space-x-2 text-xs text-gray-500">
                       <Clock className="h-3 w-3" />
-                      <span>{activity.time}</span>
+                      <span>{formatTimeAgo(activity.timestamp)}</span>
                       <span>•</span>
                       <span>{activity.user}</span>
                     </div>
@@ -478,6 +576,30 @@ const DashboardPage = () => {
         </div>
       )}
 
+      {(loadError || profileError) && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4">
+          <div className="container mx-auto px-4 sm:px-6">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <AlertTriangle className="h-5 w-5 text-red-600" />
+                <div>
+                  {loadError && <p className="text-red-800 text-sm">Could not load {loadError}</p>}
+                  {profileError && <p className="text-red-800 text-sm">Could not load your profile: {profileError}</p>}
+                </div>
+              </div>
+              {loadError && (
+                <button
+                  onClick={loadData}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 transition-colors"
+                >
+                  Retry
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <div className="bg-white shadow-sm border-b border-gray-200 relative z-10">
         <div className="container mx-auto px-4 sm:px-6 py-4">
@@ -514,9 +636,11 @@ const DashboardPage = () => {
                   className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors relative"
                 >
                   <Bell className="h-6 w-6" />
-                  <span className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
-                    {events.filter(e => e.status === 'active' && e.severity === 'high').length}
-                  </span>
+                  {unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
                 </button>
                 
                 <button className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors">
@@ -584,6 +708,7 @@ const DashboardPage = () => {
           </div>
 
           <div className="flex items-center space-x-3">
+            <ConnectionStatus connection={connection} />
             <button 
               onClick={loadData}
               className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
@@ -3,34 +3,100 @@ import { useParams, Link } from 'react-router-dom';
 import { ArrowLeft, MapPin, Clock, TrendingUp, AlertTriangle, Users, Shield, Download, Share2, Eye, Calendar, Activity, BarChart3, Bot, Thermometer, Wind, Droplets, Pill, Target, Zap, Heart, CheckCircle } from 'lucide-react';
 import MapComponent from '../components/MapComponent';
 import AIChat from '../components/AIChat';
+import EventLifecyclePanel from '../components/EventLifecyclePanel';
+import EventNotesPanel from '../components/EventNotesPanel';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
-import { getEventById, getSignals } from '../lib/supabase';
+import { getEventById, getEventStatusHistory, getSignals } from '../lib/repository';
+import { hasRole } from '../lib/roles';
+import { useAuth } from '../lib/auth';
+import type { EventStatusChange, HealthEvent, ScoreBreakdown, Severity, Signal } from '../lib/types';
+
+type SignalSample = Pick<Signal, 'severity' | 'type' | 'location'>;
+
+interface TimelineEntry {
+  time: string;
+  event: string;
+  severity: Severity;
+  details?: string;
+}
+
+interface EventAnalytics {
+  signalTrend: { time: string; signals: number; anomaly: number; cumulative: number }[];
+  severityDistribution: { severity: string; count: number; color: string }[];
+  signalTypes: { type: string; count: number; percentage: number }[];
+  geographicSpread: { area: string; signals: number; severity: string }[];
+  riskFactors: { factor: string; value: number }[];
+  avgSeverity: number;
+}
+
+const describeChange = (change: EventStatusChange) => {
+  switch (change.action) {
+    case 'created': return 'Event detected';
+    case 'escalate':
+      return change.from_status !== change.to_status ? 'Escalated to active' : `Escalated to ${change.to_severity} severity`;
+    case 'downgrade':
+      return change.from_status !== change.to_status ? 'Downgraded to monitoring' : `Downgraded to ${change.to_severity} severity`;
+    case 'merge': return 'Merged into another event';
+    case 'absorb': return 'Absorbed a duplicate event';
+    case 'resolve': return 'Resolved';
+    case 'reopen': return 'Reopened';
+    case 'auto_resolve': return 'Auto-resolved';
+    default:
+      return change.from_status !== change.to_status
+        ? `Status changed to ${change.to_status}`
+        : `Severity changed to ${change.to_severity}`;
+  }
+};
+
+const toTimelineEntry = (change: EventStatusChange): TimelineEntry => ({
+  time: new Date(change.changed_at).toLocaleString(),
+  event: describeChange(change),
+  severity: change.to_severity,
+  details: [change.reason, change.changed_by_name && `by ${change.changed_by_name}`].filter(Boolean).join(' — ') || undefined
+});
+
+// Demo events carry a pre-built timeline and analytics until real history exists
+type EventDetail = HealthEvent & {
+  timeline?: TimelineEntry[];
+  analytics?: EventAnalytics;
+};
 
 const EventDetailPage = () => {
   const { id } = useParams();
   const [showAIChat, setShowAIChat] = useState(false);
-  const [eventData, setEventData] = useState(null);
-  const [relatedSignals, setRelatedSignals] = useState([]);
+  const [eventData, setEventData] = useState<EventDetail | null>(null);
+  const [relatedSignals, setRelatedSignals] = useState<Signal[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isStoredEvent, setIsStoredEvent] = useState(false);
+  const { role } = useAuth();
 
   useEffect(() => {
     loadEventData();
   }, [id]);
 
+
   const loadEventData = async () => {
     if (!id) return;
     
     setIsLoading(true);
     try {
       // Try to get event from database first
-      const { data: dbEvent } = await getEventById(id);
+      const eventResult = await getEventById(id);
+      if (!eventResult.ok) throw eventResult.error;
+      const dbEvent = eventResult.data;
       
+      setIsStoredEvent(Boolean(dbEvent));
       if (dbEvent) {
-        setEventData(dbEvent);
-        
-        // Load related signals
-        const { data: signals } = await getSignals({ location: dbEvent.location });
-        setRelatedSignals(signals || []);
+        const [historyResult, signalsResult] = await Promise.all([
+          getEventStatusHistory(dbEvent.id),
+          getSignals({ location: dbEvent.location })
+        ]);
+
+        setEventData({
+          ...dbEvent,
+          timeline: historyResult.ok ? historyResult.data.map(toTimelineEntry) : undefined
+        });
+        setRelatedSignals(signalsResult.ok ? signalsResult.data : []);
       } else {
         // Fallback to mock data for demo
         const mockData = getMockEventData(id);
@@ -40,6 +106,7 @@ const EventDetailPage = () => {
     } catch (error) {
       console.error('Error loading event data:', error);
       // Use mock data as fallback
+      setIsStoredEvent(false);
       const mockData = getMockEventData(id);
       setEventData(mockData);
     } finally {
@@ -48,13 +115,13 @@ const EventDetailPage = () => {
   };
 
   // Generate comprehensive analytics based on signal data
-  const generateAnalytics = (signals, eventSeverity, signalCount) => {
-    const severityWeights = { high: 3, medium: 2, low: 1 };
+  const generateAnalytics = (signals: SignalSample[], eventSeverity: Severity, signalCount: number): EventAnalytics => {
+    const severityWeights: Record<Severity, number> = { high: 3, medium: 2, low: 1 };
     const totalWeight = signals.reduce((sum, s) => sum + (severityWeights[s.severity] || 1), 0);
     const avgSeverity = totalWeight / Math.max(signals.length, 1);
     
     // Generate signal trend based on actual data or realistic simulation
-    const signalTrend = [];
+    const signalTrend: EventAnalytics['signalTrend'] = [];
     const baseTime = new Date();
     baseTime.setHours(baseTime.getHours() - 12);
     
@@ -96,7 +163,7 @@ const EventDetailPage = () => {
     ];
 
     // Generate signal types based on actual data or realistic distribution
-    const typeMap = {};
+    const typeMap: Record<string, number> = {};
     signals.forEach(s => {
       typeMap[s.type] = (typeMap[s.type] || 0) + 1;
     });
@@ -116,7 +183,7 @@ const EventDetailPage = () => {
 
     // Generate geographic spread
     const locationParts = signals.map(s => s.location.split(',')[0]).filter(Boolean);
-    const locationCounts = {};
+    const locationCounts: Record<string, number> = {};
     locationParts.forEach(loc => {
       locationCounts[loc] = (locationCounts[loc] || 0) + 1;
     });
@@ -154,10 +221,10 @@ const EventDetailPage = () => {
   };
 
   // Enhanced mock data generator with comprehensive analytics
-  const getMockEventData = (eventId: string) => {
+  const getMockEventData = (eventId: string): EventDetail => {
     const signalCount = 21;
-    const eventSeverity = 'high';
-    const mockSignals = [
+    const eventSeverity: Severity = 'high';
+    const mockSignals: SignalSample[] = [
       { severity: 'high', type: 'Cough', location: 'Mumbai, Andheri West' },
       { severity: 'medium', type: 'Fever', location: 'Mumbai, Andheri West' },
       { severity: 'high', type: 'Cough', location: 'Mumbai, Andheri East' },
@@ -172,15 +239,24 @@ const EventDetailPage = () => {
       id: eventId,
       title: 'Cough cluster detected – Mumbai, Andheri',
       location: 'Andheri West, Mumbai',
-      event_type: 'Respiratory',
+      type: 'Respiratory',
       severity: eventSeverity,
       status: 'active',
       signal_count: signalCount,
       description: 'Unusual spike in cough-related vibration signals detected via wearables and acoustic monitors in Mumbai\'s Andheri West area.',
       created_at: '2025-06-28T10:32:00Z',
-      coordinates: [19.1136, 72.8697],
+      updated_at: null,
+      signal_ids: null,
+      summary: null,
+      latitude: 19.1136,
+      longitude: 72.8697,
       anomaly_score: 0.87,
       confidence: 0.92,
+      source_quality: null,
+      merged_into_id: null,
+      resolved_at: null,
+      risk_score: null,
+      score_breakdown: null,
       affected_population: 45000,
       recommendations: [
         'Wear masks in crowded indoor areas',
@@ -240,7 +316,7 @@ const EventDetailPage = () => {
           details: 'Local health teams deployed, testing facilities prepared' 
         }
       ],
-      ...analytics
+      analytics
     };
   };
 
@@ -258,6 +334,7 @@ const EventDetailPage = () => {
       case 'active': return 'bg-red-100 text-red-800';
       case 'monitoring': return 'bg-yellow-100 text-yellow-800';
       case 'resolved': return 'bg-green-100 text-green-800';
+      case 'merged': return 'bg-purple-100 text-purple-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -300,26 +377,29 @@ const EventDetailPage = () => {
   }
 
   // Generate analytics for real data
-  const analytics = relatedSignals.length > 0 
+  const analytics = relatedSignals.length > 0 || !eventData.analytics
     ? generateAnalytics(relatedSignals, eventData.severity, eventData.signal_count)
-    : eventData;
+    : eventData.analytics;
+
+  // Stored as JSON by the scoring function
+  const breakdown = eventData.score_breakdown as unknown as ScoreBreakdown | null;
 
   const mapSignals = relatedSignals.length > 0 
     ? relatedSignals.map(signal => ({
         id: signal.id,
-        lat: signal.latitude || eventData.coordinates?.[0] || 20.5937,
-        lng: signal.longitude || eventData.coordinates?.[1] || 78.9629,
+        lat: signal.latitude || eventData.latitude || 20.5937,
+        lng: signal.longitude || eventData.longitude || 78.9629,
         type: signal.type,
-        severity: signal.severity as 'low' | 'medium' | 'high',
+        severity: signal.severity,
         location: signal.location,
         timestamp: signal.created_at
       }))
     : [{
         id: eventData.id,
-        lat: eventData.coordinates?.[0] || 20.5937,
-        lng: eventData.coordinates?.[1] || 78.9629,
-        type: eventData.event_type,
-        severity: eventData.severity as 'low' | 'medium' | 'high',
+        lat: eventData.latitude || 20.5937,
+        lng: eventData.longitude || 78.9629,
+        type: eventData.type,
+        severity: eventData.severity,
         location: eventData.location,
         timestamp: eventData.created_at
       }];
@@ -372,6 +452,11 @@ const EventDetailPage = () => {
                 <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(eventData.status)}`}>
                   {eventData.status.toUpperCase()}
                 </span>
+                {eventData.merged_into_id && (
+                  <Link to={`/event/${eventData.merged_into_id}`} className="text-sm text-purple-700 hover:underline">
+                    View merged event
+                  </Link>
+                )}
               </div>
               
               <h2 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-4">{eventData.title}</h2>
@@ -430,11 +515,69 @@ const EventDetailPage = () => {
                     style={{ width: `${eventData.confidence ? eventData.confidence * 100 : 92}%` }}
                   ></div>
                 </div>
+                {eventData.source_quality !== null && (
+                  <p className="text-xs text-blue-700 mt-2">
+                    Weighted by source reliability ({(eventData.source_quality * 100).toFixed(0)}%)
+                  </p>
+                )}
               </div>
             </div>
           </div>
         </div>
 
+        {/* Severity Scoring */}
+        {eventData.risk_score !== null && breakdown && (
+          <div className="bg-white rounded-xl p-6 shadow-lg mb-8">
+            <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center space-x-2">
+              <Target className="h-5 w-5 text-red-600" />
+              <span>Why This Event Is {eventData.severity.charAt(0).toUpperCase() + eventData.severity.slice(1)}</span>
+            </h3>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-sm font-medium text-gray-600 mb-1">Risk Score</div>
+                <div className="text-3xl font-bold text-gray-900">{eventData.risk_score}<span className="text-lg text-gray-500"> / 100</span></div>
+                <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                  <div className="bg-red-600 h-2 rounded-full" style={{ width: `${eventData.risk_score}%` }}></div>
+                </div>
+                <p className="text-xs text-gray-600 mt-2">
+                  Weighted total {breakdown.weighted_total} against thresholds of {breakdown.medium_threshold} (medium)
+                  and {breakdown.high_threshold} (high).
+                </p>
+              </div>
+              <div className="lg:col-span-2">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="pb-2 font-medium">Signal severity</th>
+                      <th className="pb-2 font-medium">Signals</th>
+                      <th className="pb-2 font-medium">Points each</th>
+                      <th className="pb-2 font-medium">Contribution</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {(['high', 'medium', 'low'] as Severity[]).map(level => {
+                      const row = breakdown.by_severity[level];
+                      return (
+                        <tr key={level}>
+                          <td className="py-2 capitalize text-gray-900">{level}</td>
+                          <td className="py-2 text-gray-700">{row?.signals ?? 0}</td>
+                          <td className="py-2 text-gray-700">{row?.points ?? '—'}</td>
+                          <td className="py-2 text-gray-700">{row?.contribution ?? 0}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-600 mt-3">
+                  Each signal's points are multiplied by the {eventData.type} type weight ({breakdown.type_weight}),
+                  its source reliability (average {(breakdown.avg_source_reliability * 100).toFixed(0)}%)
+                  and its recency (average {(breakdown.avg_recency * 100).toFixed(0)}%).
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Signal Trend Analysis */}
         <div className="bg-white rounded-xl p-6 shadow-lg mb-8">
           <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center space-x-2">
@@ -535,14 +678,14 @@ const EventDetailPage = () => {
               <MapComponent 
                 signals={mapSignals}
                 height="300px"
-                center={eventData.coordinates as [number, number] || [20.5937, 78.9629]}
+                center={eventData.latitude != null && eventData.longitude != null ? [eventData.latitude, eventData.longitude] : [20.5937, 78.9629]}
                 zoom={12}
               />
             </div>
             <div className="mt-4 text-sm text-gray-600">
               <p><strong>Location:</strong> {eventData.location}</p>
-              {eventData.coordinates && (
-                <p><strong>Coordinates:</strong> {eventData.coordinates[0]}, {eventData.coordinates[1]}</p>
+              {eventData.latitude != null && eventData.longitude != null && (
+                <p><strong>Coordinates:</strong> {eventData.latitude}, {eventData.longitude}</p>
               )}
               <p><strong>Related Signals:</strong> {relatedSignals.length || eventData.signal_count}</p>
             </div>
@@ -638,6 +781,12 @@ const EventDetailPage = () => {
           </div>
         )}
 
+        {hasRole(role, 'analyst') && isStoredEvent && (
+          <EventLifecyclePanel event={eventData} onTransition={() => loadEventData()} />
+        )}
+
+        {hasRole(role, 'data_contributor') && isStoredEvent && <EventNotesPanel eventId={eventData.id} />}
+
         {/* Timeline */}
         <div className="bg-white rounded-xl p-6 shadow-lg mb-8">
           <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center space-x-2">
@@ -645,7 +794,7 @@ const EventDetailPage = () => {
             <span>Event Timeline</span>
           </h3>
           <div className="space-y-4">
-            {eventData.timeline ? eventData.timeline.map((item, index) => (
+            {eventData.timeline?.length ? eventData.timeline.map((item, index) => (
               <div key={index} className="flex items-start space-x-4 p-4 bg-gray-50 rounded-lg">
                 <div className={`w-3 h-3 rounded-full mt-2 ${
                   item.severity === 'high' ? 'bg-red-500' :
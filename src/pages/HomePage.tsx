@@ -7,21 +7,20 @@ import LiveFeedSection from '../components/home/LiveFeedSection';
 import AIAssistantSection from '../components/home/AIAssistantSection';
 import DashboardPreviewSection from '../components/home/DashboardPreviewSection';
 import GetInvolvedSection from '../components/home/GetInvolvedSection';
+import { useAuth } from '../lib/auth';
 
-interface HomePageProps {
-  onOpenAuth: (mode: 'login' | 'signup' | 'admin') => void;
-}
+const HomePage: React.FC = () => {
+  const { openAuth } = useAuth();
 
-const HomePage: React.FC<HomePageProps> = ({ onOpenAuth }) => {
   return (
     <div className="pt-20">
-      <HeroSection onOpenAuth={onOpenAuth} />
+      <HeroSection onOpenAuth={openAuth} />
       <WhatWeDoSection />
       <WhyWeDoItSection />
       <HowItWorksSection />
       <LiveFeedSection />
       <AIAssistantSection />
-      <DashboardPreviewSection onOpenAuth={onOpenAuth} />
+      <DashboardPreviewSection onOpenAuth={openAuth} />
       <GetInvolvedSection />
     </div>
   );
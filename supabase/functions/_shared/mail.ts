@@ -0,0 +1,81 @@
+import nodemailer from 'npm:nodemailer@6';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+}
+
+const mailFrom = () => Deno.env.get('MAIL_FROM') ?? 'Prevora Alerts <alerts@prevora.local>';
+
+// Defaults reach the Inbucket/Mailpit stand-in started by `supabase start`
+// (messages are viewable at http://localhost:54324)
+const createSmtpTransport = (): MailTransport => {
+  const port = Number(Deno.env.get('SMTP_PORT') ?? 54325);
+  const user = Deno.env.get('SMTP_USER');
+  const transporter = nodemailer.createTransport({
+    host: Deno.env.get('SMTP_HOST') ?? 'host.docker.internal',
+    port,
+    secure: port === 465,
+    auth: user ? { user, pass: Deno.env.get('SMTP_PASS') ?? '' } : undefined
+  });
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail({ from: mailFrom(), ...message });
+    }
+  };
+};
+
+const createResendTransport = (): MailTransport => {
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  if (!apiKey) {
+    throw new Error('RESEND_API_KEY must be set when MAIL_TRANSPORT is resend');
+  }
+
+  return {
+    name: 'resend',
+    send: async (message) => {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from: mailFrom(), ...message })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend responded ${response.status}: ${await response.text()}`);
+      }
+    }
+  };
+};
+
+// Writes messages to the function log instead of sending them; not for messages carrying secrets
+const createLogTransport = (): MailTransport => ({
+  name: 'log',
+  send: async (message) => {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+});
+
+// MAIL_TRANSPORT selects the implementation: smtp (default), resend or log
+export const createMailTransport = (): MailTransport => {
+  const transport = Deno.env.get('MAIL_TRANSPORT') ?? 'smtp';
+
+  switch (transport) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'resend':
+      return createResendTransport();
+    case 'log':
+      return createLogTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+};
@@ -0,0 +1,159 @@
+/*
+  Admin sign-in verification codes
+
+  POST /functions/v1/admin-otp
+    Authorization: Bearer <user access token>
+    { "action": "send" }                     mails a new code to the account's email
+    { "action": "verify", "code": "123456" } checks it and verifies the current session
+
+  Only platform admins can request codes. Codes are six digits, expire after ten minutes
+  and are stored as an HMAC keyed with ADMIN_OTP_SECRET (the service role key when unset);
+  issue_admin_otp() and verify_admin_otp() enforce single use, attempt limits and lockout.
+  A verified session unlocks platform admin permissions in the database for eight hours.
+
+  Mail goes through the transport chosen by MAIL_TRANSPORT (see _shared/mail.ts); the log
+  transport is refused, since it would write the code to the function logs.
+*/
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseAdmin.ts';
+import { createMailTransport } from '../_shared/mail.ts';
+
+const CODE_LENGTH = 6;
+
+// Uniform over 000000-999999; rejects the top of the 32-bit range that would bias the modulo
+const generateCode = () => {
+  const limit = 10 ** CODE_LENGTH;
+  const ceiling = Math.floor(0x100000000 / limit) * limit;
+  const buffer = new Uint32Array(1);
+
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= ceiling);
+
+  return String(buffer[0] % limit).padStart(CODE_LENGTH, '0');
+};
+
+const hashCode = async (userId: string, code: string) => {
+  const secret = Deno.env.get('ADMIN_OTP_SECRET') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${userId}:${code}`));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// The token has already been checked by auth.getUser(); this only reads its session claim
+const readSessionId = (token: string): string | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload)).session_id ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const composeCodeEmail = (to: string, code: string) => ({
+  to,
+  subject: `Your Prevora admin verification code: ${code}`,
+  text: `Your admin verification code is ${code}.\n\nIt expires in 10 minutes and can be used once. If you did not try to sign in to the Prevora admin console, change your password.`,
+  html: `<p>Your admin verification code is</p><p style="font-size:24px;font-weight:bold;letter-spacing:4px">${code}</p><p>It expires in 10 minutes and can be used once. If you did not try to sign in to the Prevora admin console, change your password.</p>`
+});
+
+const verifyMessages: Record<string, { status: number; error: string }> = {
+  invalid: { status: 400, error: 'That code is not correct' },
+  expired: { status: 400, error: 'The code has expired or was already used; request a new one' },
+  locked: { status: 429, error: 'Too many failed attempts; try again in 30 minutes' }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, { Allow: 'POST, OPTIONS' });
+  }
+
+  try {
+    const supabase = createAdminClient();
+
+    const token = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    const sessionId = readSessionId(token);
+
+    if (!user || !sessionId) {
+      return jsonResponse({ error: 'Sign in before verifying admin access' }, 401);
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('user_profiles')
+      .select('role, suspended_at')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (profile?.role !== 'platform_admin' || profile.suspended_at) {
+      return jsonResponse({ error: 'This account does not have admin access' }, 403);
+    }
+
+    let body: { action?: unknown; code?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: 'Request body must be valid JSON' }, 400);
+    }
+
+    if (body.action === 'send') {
+      // The log transport prints the message, which would put a working code in the function logs
+      const transport = createMailTransport();
+      if (transport.name === 'log') {
+        return jsonResponse({ error: 'Admin codes cannot be sent while MAIL_TRANSPORT is log' }, 503);
+      }
+
+      const code = generateCode();
+      const { data: otp, error: issueError } = await supabase
+        .rpc('issue_admin_otp', { p_user_id: user.id, p_code_hash: await hashCode(user.id, code) })
+        .single();
+
+      if (issueError?.code === '54000') {
+        return jsonResponse({ error: issueError.message }, 429);
+      }
+      if (issueError) throw issueError;
+
+      const { email, expires_at } = otp as { email: string; expires_at: string };
+      await transport.send(composeCodeEmail(email, code));
+
+      return jsonResponse({ email, expiresAt: expires_at });
+    }
+
+    if (body.action === 'verify') {
+      const code = typeof body.code === 'string' ? body.code.trim() : '';
+      if (!new RegExp(`^\\d{${CODE_LENGTH}}$`).test(code)) {
+        return jsonResponse({ error: `Enter the ${CODE_LENGTH}-digit code from the email` }, 400);
+      }
+
+      const { data: outcome, error: verifyError } = await supabase.rpc('verify_admin_otp', {
+        p_user_id: user.id,
+        p_session_id: sessionId,
+        p_code_hash: await hashCode(user.id, code)
+      });
+
+      if (verifyError) throw verifyError;
+      if (outcome !== 'verified') {
+        const { status, error } = verifyMessages[outcome as string] ?? verifyMessages.invalid;
+        return jsonResponse({ error }, status);
+      }
+
+      return jsonResponse({ verified: true });
+    }
+
+    return jsonResponse({ error: 'action must be send or verify' }, 400);
+  } catch (error) {
+    console.error('Admin OTP request failed:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,71 @@
+/*
+  Endpoint URLs are registered by organization admins, so a delivery must never reach a host on
+  the server's own network. Every address the host resolves to has to be public; the database
+  refuses obviously internal hosts when an endpoint is saved, and this repeats the check with
+  real DNS answers before each request.
+*/
+const isPrivateIPv4 = (address: string) => {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19))
+    || a >= 224;
+};
+
+const isPrivateIPv6 = (address: string) => {
+  const value = address.toLowerCase();
+  if (value === '::' || value === '::1') return true;
+
+  // IPv4-mapped addresses, written either way by URL parsers and resolvers
+  const dotted = value.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return isPrivateIPv4(dotted[1]);
+  const hex = value.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const high = parseInt(hex[1], 16);
+    const low = parseInt(hex[2], 16);
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  // Unique local, link-local, site-local and multicast
+  return /^(f[cd]|fe[89a-f]|ff)/.test(value);
+};
+
+const isPrivateAddress = (address: string) =>
+  address.includes(':') ? isPrivateIPv6(address) : isPrivateIPv4(address);
+
+const resolveAddresses = async (hostname: string) => {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host) || host.includes(':')) return [host];
+
+  const answers = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+  return answers.flatMap(answer => (answer.status === 'fulfilled' ? answer.value : []));
+};
+
+// Resolves to null when the URL may be called, otherwise to the reason it may not
+export const checkDestination = async (url: string): Promise<string | null> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Endpoint URL is not valid';
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'Endpoint URL must use https';
+  }
+
+  const addresses = await resolveAddresses(parsed.hostname);
+  if (addresses.length === 0) {
+    return `Could not resolve ${parsed.hostname}`;
+  }
+  if (addresses.some(isPrivateAddress)) {
+    return `${parsed.hostname} resolves to a private or reserved address`;
+  }
+
+  return null;
+};
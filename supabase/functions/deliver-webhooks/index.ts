@@ -0,0 +1,173 @@
+/*
+  Outbound webhook delivery
+
+  POST /functions/v1/deliver-webhooks
+    Authorization: Bearer <service role key>
+    { "limit": 50 }  (optional batch size)
+
+  Claims due rows from webhook_deliveries and POSTs each payload to its endpoint with
+  these headers:
+    X-Prevora-Event      event type, e.g. event.created
+    X-Prevora-Delivery   delivery id; the same on every retry, so receivers can deduplicate
+    X-Prevora-Signature  t=<unix seconds>,v1=<HMAC-SHA256 of "<t>.<body>" with the endpoint secret>
+
+  Any 2xx response counts as delivered. Anything else is retried with exponential backoff
+  until the delivery's max_attempts is used up. Hosts that resolve to private, loopback or
+  link-local addresses are refused without a request (see destination.ts), and only the
+  response's status line is recorded. The deliver_webhooks scheduled job invokes it
+  every minute.
+
+  A user's session token may also be used with { "deliveryId": "..." } to send one queued
+  test delivery straight away; this is what the "Send test" button does. The user must be
+  able to read the delivery under RLS, which limits it to admins of the endpoint's
+  organization and platform admins with a verified session.
+*/
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, createUserClient } from '../_shared/supabaseAdmin.ts';
+import { signPayload } from './signature.ts';
+import { checkDestination } from './destination.ts';
+
+const DEFAULT_BATCH_SIZE = 50;
+const MAX_BATCH_SIZE = 200;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_STATUS_LINE_LENGTH = 200;
+
+// 1, 2, 4, 8 then 16 minutes between attempts
+const retryDelayMs = (attempts: number) => 2 ** (attempts - 1) * 60 * 1000;
+
+interface ClaimedDelivery {
+  id: string;
+  endpoint_id: string;
+  url: string;
+  secret: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+}
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// Reads the delivery as the caller, so the same policies that show it in the delivery log apply
+const canSendTest = async (token: string, deliveryId: string) => {
+  const { data, error } = await createUserClient(token)
+    .from('webhook_deliveries')
+    .select('id')
+    .eq('id', deliveryId)
+    .eq('is_test', true)
+    .maybeSingle();
+  return !error && data !== null;
+};
+
+const deliver = async (supabase: AdminClient, delivery: ClaimedDelivery) => {
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+  const started = Date.now();
+  let statusCode: number | null = null;
+  let statusLine: string | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    const refusal = await checkDestination(delivery.url);
+    if (refusal) throw new Error(refusal);
+
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Prevora-Webhooks/1.0',
+        'X-Prevora-Event': delivery.event_type,
+        'X-Prevora-Delivery': delivery.id,
+        'X-Prevora-Signature': await signPayload(delivery.secret, body, Math.floor(started / 1000))
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    // Only the status line is kept; response bodies are never shown in the delivery log
+    statusCode = response.status;
+    statusLine = `${response.status} ${response.statusText}`.trim().slice(0, MAX_STATUS_LINE_LENGTH);
+    await response.body?.cancel();
+    if (!response.ok) {
+      errorMessage = `Endpoint responded with HTTP ${response.status}`;
+    }
+  } catch (requestError) {
+    errorMessage = requestError instanceof Error ? requestError.message : String(requestError);
+  }
+
+  const succeeded = errorMessage === null;
+  const exhausted = delivery.attempts >= delivery.max_attempts;
+
+  await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+      last_status_code: statusCode,
+      last_error: errorMessage,
+      response_body: statusLine,
+      duration_ms: Date.now() - started,
+      delivered_at: succeeded ? new Date().toISOString() : null,
+      next_attempt_at: new Date(Date.now() + (succeeded || exhausted ? 0 : retryDelayMs(delivery.attempts))).toISOString()
+    })
+    .eq('id', delivery.id);
+
+  if (!succeeded) {
+    console.error(`Webhook delivery ${delivery.id} to ${delivery.url} failed:`, errorMessage);
+  }
+
+  return { id: delivery.id, succeeded, statusCode, error: errorMessage };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, { Allow: 'POST, OPTIONS' });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+
+    let body: { limit?: unknown; deliveryId?: unknown } = {};
+    try {
+      body = await req.json();
+    } catch {
+      // An empty body runs a default-sized batch
+    }
+
+    const deliveryId = typeof body.deliveryId === 'string' ? body.deliveryId : null;
+    const isServiceRole = token !== '' && token === serviceRoleKey;
+
+    if (!isServiceRole && !(deliveryId && await canSendTest(token, deliveryId))) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const limit = Number.isInteger(body.limit) && (body.limit as number) > 0
+      ? Math.min(body.limit as number, MAX_BATCH_SIZE)
+      : DEFAULT_BATCH_SIZE;
+
+    const { data, error } = await supabase.rpc('claim_webhook_deliveries', {
+      p_limit: deliveryId ? 1 : limit,
+      p_delivery_id: deliveryId
+    });
+    if (error) throw error;
+
+    const results = [];
+    for (const delivery of (data ?? []) as ClaimedDelivery[]) {
+      results.push(await deliver(supabase, delivery));
+    }
+
+    return jsonResponse({
+      claimed: results.length,
+      succeeded: results.filter(result => result.succeeded).length,
+      failed: results.filter(result => !result.succeeded).length,
+      results
+    });
+  } catch (error) {
+    console.error('Webhook delivery failed:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
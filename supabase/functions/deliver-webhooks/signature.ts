@@ -0,0 +1,21 @@
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/*
+  Value for the X-Prevora-Signature header: `t=<unix seconds>,v1=<hex HMAC-SHA256>`, where the
+  HMAC is keyed with the endpoint secret over `<t>.<raw body>`. Receivers recompute it with
+  their copy of the secret and should reject timestamps more than a few minutes old.
+*/
+export const signPayload = async (secret: string, body: string, timestamp: number) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${toHex(signature)}`;
+};
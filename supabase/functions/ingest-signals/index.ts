@@ -0,0 +1,221 @@
+/*
+  Signal ingestion API for sensors and partner systems
+
+  POST /functions/v1/ingest-signals
+    X-API-Key: prv_...            (or Authorization: Bearer prv_...)
+    Idempotency-Key: <any string>  (optional; retries with the same key and body replay the first response)
+
+  A retry that arrives while the first request with its key is still running gets 409. If that
+  request never finishes, its claim lapses after a minute and the next retry processes the batch.
+
+  The body is a single signal, an array of signals or { "signals": [...] }:
+    { "type": "Fever", "location": "Pune", "severity": "medium",
+      "latitude": 18.52, "longitude": 73.85, "timestamp": "2025-07-01T10:00:00Z", "notes": "..." }
+
+  Keys are issued per source with issue_source_api_key() and are not Supabase JWTs,
+  so deploy with `supabase functions deploy ingest-signals --no-verify-jwt`.
+*/
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, sha256Hex } from '../_shared/supabaseAdmin.ts';
+import { parsePayload } from './validation.ts';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+// A claim still unfinished after this long belongs to a request that died; a retry takes it over
+const CLAIM_TTL_MS = 60_000;
+
+const readApiKey = (req: Request) => {
+  const headerKey = req.headers.get('x-api-key');
+  if (headerKey) return headerKey.trim();
+
+  const authorization = req.headers.get('authorization') ?? '';
+  const match = authorization.match(/^Bearer\s+(prv_\S+)$/i);
+  return match ? match[1] : null;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, { Allow: 'POST, OPTIONS' });
+  }
+
+  try {
+    const supabase = createAdminClient();
+
+    // Authenticate the source
+    const apiKey = readApiKey(req);
+    if (!apiKey) {
+      return jsonResponse({ error: 'Missing API key' }, 401);
+    }
+
+    const { data: key, error: keyError } = await supabase
+      .from('source_api_keys')
+      .select('id, source_id')
+      .eq('key_hash', await sha256Hex(apiKey))
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (keyError) throw keyError;
+    if (!key) {
+      return jsonResponse({ error: 'Invalid or revoked API key' }, 401);
+    }
+
+    const { data: source, error: sourceError } = await supabase
+      .from('signal_sources')
+      .select('is_active')
+      .eq('id', key.source_id)
+      .single();
+
+    if (sourceError) throw sourceError;
+    if (!source.is_active) {
+      return jsonResponse({ error: 'This signal source has been deactivated' }, 403);
+    }
+
+    // Rate limit per source
+    const { data: quota, error: quotaError } = await supabase
+      .rpc('consume_ingestion_quota', { p_source_id: key.source_id })
+      .single();
+
+    if (quotaError) throw quotaError;
+
+    const { allowed, remaining, reset_at } = quota as { allowed: boolean; remaining: number; reset_at: string };
+    const retryAfter = Math.max(1, Math.ceil((new Date(reset_at).getTime() - Date.now()) / 1000));
+    const rateHeaders = {
+      'X-RateLimit-Remaining': String(remaining),
+      'X-RateLimit-Reset': reset_at
+    };
+
+    if (!allowed) {
+      return jsonResponse(
+        { error: 'Rate limit exceeded' },
+        429,
+        { ...rateHeaders, 'Retry-After': String(retryAfter) }
+      );
+    }
+
+    await supabase
+      .from('source_api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', key.id);
+
+    // Parse and validate before claiming the idempotency key so a fixed body can reuse it
+    const rawBody = await req.text();
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return jsonResponse({ error: 'Request body must be valid JSON' }, 400, rateHeaders);
+    }
+
+    const payload = parsePayload(body);
+    if (!payload.ok) {
+      return jsonResponse({ error: payload.error, details: payload.details }, 422, rateHeaders);
+    }
+
+    // Claim the idempotency key, or replay the response stored for it
+    const idempotencyKey = req.headers.get('idempotency-key')?.trim() || null;
+    let requestId: string | null = null;
+
+    if (idempotencyKey) {
+      if (idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+        return jsonResponse(
+          { error: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` },
+          400,
+          rateHeaders
+        );
+      }
+
+      const requestHash = await sha256Hex(rawBody);
+      const { data: claimed, error: claimError } = await supabase
+        .from('ingestion_requests')
+        .insert({ source_id: key.source_id, idempotency_key: idempotencyKey, request_hash: requestHash })
+        .select('id')
+        .single();
+
+      if (claimError && claimError.code !== '23505') throw claimError;
+
+      if (claimed) {
+        requestId = claimed.id;
+      } else {
+        const { data: previous, error: previousError } = await supabase
+          .from('ingestion_requests')
+          .select('id, request_hash, status_code, response, created_at')
+          .eq('source_id', key.source_id)
+          .eq('idempotency_key', idempotencyKey)
+          .single();
+
+        if (previousError) throw previousError;
+
+        if (previous.request_hash !== requestHash) {
+          return jsonResponse(
+            { error: 'Idempotency-Key was already used with a different request body' },
+            422,
+            rateHeaders
+          );
+        }
+        if (previous.status_code === null) {
+          const isStale = Date.now() - new Date(previous.created_at).getTime() > CLAIM_TTL_MS;
+
+          // Only one retry wins the takeover: the update matches the claim it saw and nothing newer
+          const { data: takenOver, error: takeoverError } = isStale
+            ? await supabase
+              .from('ingestion_requests')
+              .update({ created_at: new Date().toISOString() })
+              .eq('id', previous.id)
+              .eq('created_at', previous.created_at)
+              .is('status_code', null)
+              .select('id')
+              .maybeSingle()
+            : { data: null, error: null };
+
+          if (takeoverError) throw takeoverError;
+
+          if (!takenOver) {
+            return jsonResponse(
+              { error: 'A request with this Idempotency-Key is still being processed' },
+              409,
+              { ...rateHeaders, 'Retry-After': '1' }
+            );
+          }
+
+          requestId = takenOver.id;
+        } else {
+          return jsonResponse(previous.response, previous.status_code, {
+            ...rateHeaders,
+            'Idempotent-Replayed': 'true'
+          });
+        }
+      }
+    }
+
+    // Store the batch, recording which source produced it
+    const { data: inserted, error: insertError } = await supabase
+      .from('signals')
+      .insert(payload.signals.map(signal => ({ ...signal, source_id: key.source_id })))
+      .select('id, type, location, severity, timestamp');
+
+    if (insertError) {
+      // Release the key so the partner can retry the same request
+      if (requestId) {
+        await supabase.from('ingestion_requests').delete().eq('id', requestId);
+      }
+      throw insertError;
+    }
+
+    const response = { accepted: inserted.length, signals: inserted };
+
+    if (requestId) {
+      await supabase
+        .from('ingestion_requests')
+        .update({ status_code: 201, response, completed_at: new Date().toISOString() })
+        .eq('id', requestId);
+    }
+
+    return jsonResponse(response, 201, rateHeaders);
+  } catch (error) {
+    console.error('Signal ingestion failed:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,166 @@
+// Mirrors SIGNAL_TYPES and SEVERITIES in src/lib/constants.ts
+const SIGNAL_TYPES = [
+  'Cough',
+  'Fever',
+  'Respiratory',
+  'Wastewater',
+  'Pharmacy',
+  'Environmental',
+  'Acoustic',
+  'Other'
+];
+
+const SEVERITIES = ['low', 'medium', 'high'];
+
+// Allow a little clock skew between the partner's system and ours
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+const MAX_LOCATION_LENGTH = 200;
+const MAX_NOTES_LENGTH = 2000;
+
+export const MAX_BATCH_SIZE = 500;
+
+export interface IngestSignal {
+  type: string;
+  location: string;
+  severity: string;
+  latitude: number | null;
+  longitude: number | null;
+  timestamp?: string;
+  notes: string | null;
+}
+
+export interface ItemError {
+  index: number;
+  messages: string[];
+}
+
+export type ParsedPayload =
+  | { ok: true; signals: IngestSignal[] }
+  | { ok: false; error: string; details?: ItemError[] };
+
+const readCoordinate = (value: unknown, label: string, limit: number, messages: string[]) => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+  if (!Number.isFinite(number)) {
+    messages.push(`${label} must be a number`);
+    return null;
+  }
+  if (Math.abs(number) > limit) {
+    messages.push(`${label} ${number} is outside ±${limit}`);
+    return null;
+  }
+  return number;
+};
+
+const readString = (item: Record<string, unknown>, field: string) =>
+  typeof item[field] === 'string' ? (item[field] as string).trim() : '';
+
+const validateSignal = (item: unknown): { signal?: IngestSignal; messages: string[] } => {
+  const messages: string[] = [];
+
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { messages: ['Each signal must be a JSON object'] };
+  }
+
+  const record = item as Record<string, unknown>;
+
+  const rawType = readString(record, 'type');
+  const type = SIGNAL_TYPES.find(known => known.toLowerCase() === rawType.toLowerCase());
+  if (!rawType) {
+    messages.push('type is required');
+  } else if (!type) {
+    messages.push(`Unknown signal type "${rawType}"; expected one of ${SIGNAL_TYPES.join(', ')}`);
+  }
+
+  const location = readString(record, 'location');
+  if (!location) {
+    messages.push('location is required');
+  } else if (location.length > MAX_LOCATION_LENGTH) {
+    messages.push(`location must be at most ${MAX_LOCATION_LENGTH} characters`);
+  }
+
+  const severity = readString(record, 'severity').toLowerCase();
+  if (!severity) {
+    messages.push('severity is required');
+  } else if (!SEVERITIES.includes(severity)) {
+    messages.push(`severity "${severity}" must be low, medium or high`);
+  }
+
+  const latitude = readCoordinate(record.latitude, 'latitude', 90, messages);
+  const longitude = readCoordinate(record.longitude, 'longitude', 180, messages);
+  const hasLatitude = record.latitude !== undefined && record.latitude !== null && record.latitude !== '';
+  const hasLongitude = record.longitude !== undefined && record.longitude !== null && record.longitude !== '';
+  if (hasLatitude !== hasLongitude) {
+    messages.push('latitude and longitude must be given together');
+  }
+
+  let timestamp: string | undefined;
+  if (record.timestamp !== undefined && record.timestamp !== null) {
+    const parsed = typeof record.timestamp === 'string' ? new Date(record.timestamp) : null;
+    if (!parsed || isNaN(parsed.getTime())) {
+      messages.push('timestamp must be an ISO 8601 date string');
+    } else if (parsed.getTime() > Date.now() + FUTURE_TOLERANCE_MS) {
+      messages.push('timestamp is in the future');
+    } else {
+      timestamp = parsed.toISOString();
+    }
+  }
+
+  if (record.notes !== undefined && record.notes !== null && typeof record.notes !== 'string') {
+    messages.push('notes must be a string');
+  }
+  const notes = readString(record, 'notes');
+  if (notes.length > MAX_NOTES_LENGTH) {
+    messages.push(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+  }
+
+  if (messages.length > 0 || !type) return { messages };
+
+  return {
+    messages,
+    signal: {
+      type,
+      location,
+      severity,
+      latitude,
+      longitude,
+      notes: notes || null,
+      ...(timestamp ? { timestamp } : {})
+    }
+  };
+};
+
+// Accepts a single signal, an array of signals or an object with a `signals` array.
+// A batch is all or nothing: any invalid item rejects the whole request.
+export const parsePayload = (body: unknown): ParsedPayload => {
+  const items = Array.isArray(body)
+    ? body
+    : body && typeof body === 'object' && Array.isArray((body as { signals?: unknown }).signals)
+      ? (body as { signals: unknown[] }).signals
+      : [body];
+
+  if (items.length === 0) {
+    return { ok: false, error: 'The request does not contain any signals' };
+  }
+  if (items.length > MAX_BATCH_SIZE) {
+    return { ok: false, error: `A request may contain at most ${MAX_BATCH_SIZE} signals` };
+  }
+
+  const signals: IngestSignal[] = [];
+  const details: ItemError[] = [];
+
+  items.forEach((item, index) => {
+    const { signal, messages } = validateSignal(item);
+    if (signal) {
+      signals.push(signal);
+    } else {
+      details.push({ index, messages });
+    }
+  });
+
+  if (details.length > 0) {
+    return { ok: false, error: 'One or more signals failed validation', details };
+  }
+
+  return { ok: true, signals };
+};
@@ -0,0 +1,89 @@
+/*
+  Alert subscription email delivery
+
+  POST /functions/v1/send-alert-emails
+    Authorization: Bearer <service role key>
+    { "limit": 50 }  (optional batch size)
+
+  Claims due emails from the alert_emails outbox, sends them through the transport chosen
+  by MAIL_TRANSPORT (see _shared/mail.ts) and records the outcome. Failed sends are retried
+  with exponential backoff. The send_alert_emails scheduled job invokes it every minute;
+  call it by hand when testing against the local SMTP stand-in.
+
+  Links in the email point at SITE_URL.
+*/
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseAdmin.ts';
+import { createMailTransport } from '../_shared/mail.ts';
+import { composeAlertEmail, type ClaimedEmail } from './message.ts';
+
+const DEFAULT_BATCH_SIZE = 50;
+const MAX_BATCH_SIZE = 200;
+
+// 2, 4, 8 then 16 minutes between attempts
+const retryDelayMs = (attempts: number) => 2 ** attempts * 60 * 1000;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, { Allow: 'POST, OPTIONS' });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceRoleKey || req.headers.get('authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const transport = createMailTransport();
+    const siteUrl = (Deno.env.get('SITE_URL') ?? 'http://localhost:5173').replace(/\/$/, '');
+
+    let limit = DEFAULT_BATCH_SIZE;
+    try {
+      const body = await req.json();
+      if (Number.isInteger(body?.limit) && body.limit > 0) {
+        limit = Math.min(body.limit, MAX_BATCH_SIZE);
+      }
+    } catch {
+      // An empty body keeps the default batch size
+    }
+
+    const { data, error } = await supabase.rpc('claim_alert_emails', { p_limit: limit });
+    if (error) throw error;
+
+    const claimed = (data ?? []) as ClaimedEmail[];
+    let sent = 0;
+    let failed = 0;
+
+    for (const email of claimed) {
+      try {
+        await transport.send(composeAlertEmail(email, siteUrl));
+        await supabase
+          .from('alert_emails')
+          .update({ status: 'sent', sent_at: new Date().toISOString(), last_error: null })
+          .eq('id', email.id);
+        sent++;
+      } catch (sendError) {
+        console.error(`Alert email ${email.id} failed:`, sendError);
+        await supabase
+          .from('alert_emails')
+          .update({
+            status: 'failed',
+            last_error: sendError instanceof Error ? sendError.message : String(sendError),
+            next_attempt_at: new Date(Date.now() + retryDelayMs(email.attempts)).toISOString()
+          })
+          .eq('id', email.id);
+        failed++;
+      }
+    }
+
+    return jsonResponse({ transport: transport.name, claimed: claimed.length, sent, failed });
+  } catch (error) {
+    console.error('Alert email delivery failed:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
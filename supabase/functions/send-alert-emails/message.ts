@@ -0,0 +1,77 @@
+import type { MailMessage } from '../_shared/mail.ts';
+
+// A row returned by claim_alert_emails()
+export interface ClaimedEmail {
+  id: string;
+  attempts: number;
+  email: string;
+  recipient_name: string | null;
+  subscription_name: string | null;
+  alert_id: string;
+  event_id: string | null;
+  title: string;
+  location: string;
+  type: string;
+  severity: string;
+  status: string;
+  description: string | null;
+  recommendations: string[] | null;
+  issued_at: string;
+  expires_at: string | null;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const composeAlertEmail = (claimed: ClaimedEmail, siteUrl: string): MailMessage => {
+  const detailsUrl = claimed.event_id ? `${siteUrl}/event/${claimed.event_id}` : `${siteUrl}/alerts`;
+  const manageUrl = `${siteUrl}/dashboard`;
+  const recommendations = claimed.recommendations ?? [];
+  const reason = claimed.subscription_name
+    ? `You are receiving this because of your alert subscription "${claimed.subscription_name}".`
+    : 'You are receiving this because of one of your alert subscriptions.';
+
+  const text = [
+    `Hello${claimed.recipient_name ? ` ${claimed.recipient_name}` : ''},`,
+    '',
+    `A ${claimed.severity} severity ${claimed.type} alert has been issued for ${claimed.location}.`,
+    '',
+    claimed.title,
+    claimed.description ?? '',
+    ...(recommendations.length > 0 ? ['', 'Recommended actions:', ...recommendations.map(rec => `- ${rec}`)] : []),
+    '',
+    `Issued: ${new Date(claimed.issued_at).toUTCString()}`,
+    ...(claimed.expires_at ? [`Expires: ${new Date(claimed.expires_at).toUTCString()}`] : []),
+    `Details: ${detailsUrl}`,
+    '',
+    reason,
+    `Manage your subscriptions: ${manageUrl}`
+  ].join('\n');
+
+  const html = `
+    <p>Hello${claimed.recipient_name ? ` ${escapeHtml(claimed.recipient_name)}` : ''},</p>
+    <p>A <strong>${escapeHtml(claimed.severity)}</strong> severity ${escapeHtml(claimed.type)} alert has been issued for
+      <strong>${escapeHtml(claimed.location)}</strong>.</p>
+    <h2>${escapeHtml(claimed.title)}</h2>
+    ${claimed.description ? `<p>${escapeHtml(claimed.description)}</p>` : ''}
+    ${recommendations.length > 0
+      ? `<p><strong>Recommended actions:</strong></p><ul>${recommendations.map(rec => `<li>${escapeHtml(rec)}</li>`).join('')}</ul>`
+      : ''}
+    <p>Issued ${escapeHtml(new Date(claimed.issued_at).toUTCString())}
+      ${claimed.expires_at ? `· Expires ${escapeHtml(new Date(claimed.expires_at).toUTCString())}` : ''}</p>
+    <p><a href="${escapeHtml(detailsUrl)}">View alert details</a></p>
+    <p style="color:#6b7280;font-size:12px">${escapeHtml(reason)}
+      <a href="${escapeHtml(manageUrl)}">Manage your subscriptions</a>.</p>
+  `;
+
+  return {
+    to: claimed.email,
+    subject: `[${claimed.severity.toUpperCase()}] ${claimed.title} — ${claimed.location}`,
+    text,
+    html
+  };
+};
@@ -0,0 +1,71 @@
+/*
+  Sign in with a username
+
+  POST /functions/v1/username-login
+    { "username": "asha_k", "password": "..." }
+
+  Looks up the account's email with resolve_login_email() and signs in with it here, so the
+  email never reaches the browser. Responds with the new session's tokens for
+  supabase.auth.setSession(). Unknown usernames and wrong passwords get the same response.
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseAdmin.ts';
+
+const INVALID_CREDENTIALS = 'Invalid login credentials';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, { Allow: 'POST, OPTIONS' });
+  }
+
+  let body: { username?: unknown; password?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Request body must be valid JSON' }, 400);
+  }
+
+  const username = typeof body.username === 'string' ? body.username.trim().toLowerCase() : '';
+  const password = typeof body.password === 'string' ? body.password : '';
+  if (!username || !password) {
+    return jsonResponse({ error: 'username and password are required' }, 400);
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { data: email, error: resolveError } = await supabase.rpc('resolve_login_email', { p_username: username });
+    if (resolveError) throw resolveError;
+    if (!email) {
+      return jsonResponse({ error: INVALID_CREDENTIALS }, 400);
+    }
+
+    // A separate anon client, so the sign-in goes through the same checks as a browser's
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+    if (!anonKey) {
+      throw new Error('SUPABASE_ANON_KEY must be set');
+    }
+    const auth = createClient(Deno.env.get('SUPABASE_URL')!, anonKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    }).auth;
+
+    const { data, error } = await auth.signInWithPassword({ email, password });
+    if (error || !data.session) {
+      // Only an unconfirmed email is worth telling apart; everything else reads as bad credentials
+      const message = error?.code === 'email_not_confirmed' ? error.message : INVALID_CREDENTIALS;
+      return jsonResponse({ error: message }, 400);
+    }
+
+    return jsonResponse({
+      access_token: data.session.access_token,
+      refresh_token: data.session.refresh_token
+    });
+  } catch (error) {
+    console.error('Username login failed:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,416 @@
+/*
+  # Align live schema with the typed data model
+
+  1. Problem
+    - The tables were created by two competing sets of migrations, so depending on
+      which ran first a project has `events.type` or `events.event_type`, and
+      `alerts`/`blogs` may be missing the columns the application reads
+    - `create_event_from_signals()` wrote `event_type` and omitted required
+      `alerts.type`, `blogs.location`, `blogs.type` and `blogs.severity`
+
+  2. Schema Changes
+    - Add every column the application depends on with `ADD COLUMN IF NOT EXISTS`
+    - Fold `events.event_type` into `events.type` and drop the old column
+    - Add `blogs.author` so generated posts keep their byline
+    - Backfill and enforce NOT NULL on `created_at`, `signals.timestamp` and
+      `events.signal_count`
+
+  3. Functions
+    - `compose_event_blog_content()` - Markdown body for auto-generated blog posts
+    - `create_event_from_signals()` - Rewritten against the aligned columns
+
+  4. Types
+    - `src/lib/database.types.ts` mirrors the columns defined here
+*/
+
+-- signals
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES auth.users(id);
+
+-- events
+ALTER TABLE events ADD COLUMN IF NOT EXISTS type text;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS latitude double precision;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS longitude double precision;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS signal_ids uuid[];
+ALTER TABLE events ADD COLUMN IF NOT EXISTS anomaly_score double precision DEFAULT 0;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS confidence double precision DEFAULT 0;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS affected_population integer DEFAULT 0;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS summary text;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS recommendations text[];
+ALTER TABLE events ADD COLUMN IF NOT EXISTS precautions text[];
+ALTER TABLE events ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'events' AND column_name = 'event_type'
+    ) THEN
+        UPDATE events SET type = event_type WHERE type IS NULL;
+        ALTER TABLE events DROP COLUMN event_type;
+    END IF;
+END $$;
+
+UPDATE events SET type = 'outbreak' WHERE type IS NULL;
+ALTER TABLE events ALTER COLUMN type SET NOT NULL;
+
+-- alerts
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS event_id uuid REFERENCES events(id);
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS type text NOT NULL DEFAULT 'general';
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS description text;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS recommendations text[];
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+-- blogs
+ALTER TABLE blogs ADD COLUMN IF NOT EXISTS event_id uuid REFERENCES events(id);
+ALTER TABLE blogs ADD COLUMN IF NOT EXISTS summary text;
+ALTER TABLE blogs ADD COLUMN IF NOT EXISTS location text NOT NULL DEFAULT '';
+ALTER TABLE blogs ADD COLUMN IF NOT EXISTS type text NOT NULL DEFAULT 'general';
+ALTER TABLE blogs ADD COLUMN IF NOT EXISTS severity text NOT NULL DEFAULT 'low';
+ALTER TABLE blogs ADD COLUMN IF NOT EXISTS author text NOT NULL DEFAULT 'Prevora AI System';
+
+-- user_profiles
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+-- Columns every row already carries are declared NOT NULL so the types can rely on them
+UPDATE signals SET created_at = now() WHERE created_at IS NULL;
+UPDATE signals SET timestamp = created_at WHERE timestamp IS NULL;
+UPDATE events SET created_at = now() WHERE created_at IS NULL;
+UPDATE events SET signal_count = 0 WHERE signal_count IS NULL;
+UPDATE alerts SET created_at = issued_at WHERE created_at IS NULL;
+UPDATE blogs SET created_at = now() WHERE created_at IS NULL;
+
+ALTER TABLE signals ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE signals ALTER COLUMN timestamp SET NOT NULL;
+ALTER TABLE events ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE events ALTER COLUMN signal_count SET NOT NULL;
+ALTER TABLE alerts ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE blogs ALTER COLUMN created_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_type ON events(type);
+CREATE INDEX IF NOT EXISTS idx_alerts_event_id ON alerts(event_id);
+CREATE INDEX IF NOT EXISTS idx_blogs_event_id ON blogs(event_id);
+
+-- Markdown body for the blog post published alongside an auto-generated event
+CREATE OR REPLACE FUNCTION compose_event_blog_content(
+    p_event_id UUID,
+    p_alert_id UUID,
+    p_type TEXT,
+    p_location TEXT,
+    p_severity TEXT,
+    p_signal_count INTEGER,
+    p_high_count INTEGER,
+    p_medium_count INTEGER,
+    p_low_count INTEGER
+)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN '# ' || CASE 
+        WHEN p_severity = 'high' THEN 'URGENT Health Alert'
+        WHEN p_severity = 'medium' THEN 'Health Alert'
+        ELSE 'Health Notice'
+    END || ': ' || p_type || ' Activity Spike
+
+Our AI-powered early warning system has detected a significant increase in ' || p_type || ' signals in the **' || p_location || '** area. This automated alert indicates potential health concerns that warrant immediate attention and preventive action.
+
+## 🚨 Alert Summary
+
+- **Signal Type:** ' || p_type || '
+- **Location:** ' || p_location || '
+- **Severity Level:** ' || UPPER(p_severity) || '
+- **Total Signals:** ' || p_signal_count || ' in 24 hours
+- **Detection Time:** ' || TO_CHAR(NOW(), 'YYYY-MM-DD HH24:MI UTC') || '
+- **Event ID:** `' || p_event_id || '`
+
+## 📊 Signal Breakdown
+
+| Severity | Count | Percentage |
+|----------|-------|------------|
+| High | ' || p_high_count || ' | ' || ROUND((p_high_count::NUMERIC / p_signal_count) * 100, 1) || '% |
+| Medium | ' || p_medium_count || ' | ' || ROUND((p_medium_count::NUMERIC / p_signal_count) * 100, 1) || '% |
+| Low | ' || p_low_count || ' | ' || ROUND((p_low_count::NUMERIC / p_signal_count) * 100, 1) || '% |
+
+## 🛡️ Immediate Actions Required
+
+### For Residents in ' || SPLIT_PART(p_location, ',', 1) || ':
+
+' || CASE 
+    WHEN p_severity = 'high' THEN 
+        '- **🚨 URGENT:** Avoid non-essential travel to affected areas
+- **😷 MANDATORY:** Wear masks in all public spaces
+- **🏠 RECOMMENDED:** Stay home if possible
+- **🩺 CRITICAL:** Seek immediate medical attention for any symptoms'
+    WHEN p_severity = 'medium' THEN
+        '- **😷 IMPORTANT:** Wear masks in crowded indoor areas
+- **🧼 ESSENTIAL:** Practice enhanced hand hygiene
+- **👥 ADVISED:** Limit large gatherings
+- **📞 RECOMMENDED:** Monitor symptoms and consult healthcare if concerned'
+    ELSE
+        '- **🧼 MAINTAIN:** Good hygiene practices
+- **👀 MONITOR:** Personal health closely
+- **📱 STAY:** Informed through official channels
+- **🏥 CONTACT:** Healthcare providers if symptoms develop'
+END || '
+
+### For Healthcare Providers:
+
+- **📈 INCREASE:** Vigilance for ' || p_type || '-related symptoms
+- **📋 PREPARE:** Additional resources and staffing
+- **🔄 IMPLEMENT:** Enhanced infection control protocols
+- **📞 REPORT:** Unusual patterns to health authorities
+
+### For Local Authorities:
+
+- **🚨 ACTIVATE:** Emergency response protocols
+- **📢 COMMUNICATE:** With community stakeholders
+- **🔍 INVESTIGATE:** Potential sources and causes
+- **📊 MONITOR:** Situation development closely
+
+## 🔬 How This Alert Was Generated
+
+Our AI system continuously analyzes multiple data streams:
+
+- **Wearable Sensors:** Privacy-protected vibration patterns
+- **Environmental Monitoring:** Air quality and acoustic data
+- **Community Indicators:** Anonymized health patterns
+- **Pharmacy Trends:** Medication purchase analytics
+
+**Detection Threshold:** 5+ signals in 24 hours triggers automatic event creation
+**Confidence Level:** ' || ROUND(LEAST(p_signal_count * 15.0, 95.0), 1) || '%
+**False Positive Rate:** <8% based on historical validation
+
+## 📍 Geographic Impact
+
+**Primary Area:** ' || p_location || '
+**Estimated Radius:** ~10km from signal center
+**Population at Risk:** Monitoring ongoing
+**Neighboring Areas:** Under surveillance
+
+## ⏰ Timeline & Next Steps
+
+**Immediate (0-6 hours):**
+- Health authorities notified
+- Community alerts distributed
+- Enhanced monitoring activated
+
+**Short-term (6-24 hours):**
+- Situation assessment by experts
+- Additional data collection
+- Public health response coordination
+
+**Medium-term (1-7 days):**
+- Trend analysis and modeling
+- Resource allocation decisions
+- Community support measures
+
+## 📊 Real-Time Monitoring
+
+Track this event in real-time:
+- [View Dashboard](/dashboard) - Live signal data
+- [Event Details](/event/' || p_event_id || ') - Comprehensive analysis
+- [All Alerts](/alerts) - Current health notifications
+
+## 🤝 Community Response
+
+**Report Symptoms:** Contact local healthcare providers
+**Stay Informed:** Follow official health department updates
+**Support Others:** Check on vulnerable community members
+**Maintain Calm:** This is a preventive measure, not a crisis
+
+## 📞 Emergency Contacts
+
+- **Local Health Department:** Contact your regional office
+- **Emergency Services:** Call emergency number if urgent
+- **Prevora Support:** Available through our platform
+- **Community Hotline:** Check local announcements
+
+---
+
+## ⚠️ Important Disclaimers
+
+- This is an **early warning system** for prevention
+- **Not a medical diagnosis** - consult healthcare professionals
+- Data is **anonymized** and used for population-level insights only
+- Follow **official health authority** guidance for medical decisions
+
+## 🔄 Updates
+
+This alert will be updated as the situation evolves. Next update expected within 12 hours.
+
+**Last Updated:** ' || TO_CHAR(NOW(), 'YYYY-MM-DD HH24:MI:SS UTC') || '  
+**Status:** Active Monitoring  
+**Event ID:** ' || p_event_id || '  
+**Alert ID:** ' || p_alert_id || '
+
+---
+
+*Generated by Prevora AI Prevention Network - Detecting health threats before they spread.*';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Event creation trigger rewritten against the aligned columns
+CREATE OR REPLACE FUNCTION create_event_from_signals()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_signal_count INTEGER;
+    v_high_count INTEGER;
+    v_medium_count INTEGER;
+    v_low_count INTEGER;
+    v_event_severity TEXT;
+    v_event_title TEXT;
+    v_event_description TEXT;
+    v_existing_event_count INTEGER;
+    v_new_event_id UUID;
+    v_alert_id UUID;
+    v_blog_id UUID;
+    v_twenty_four_hours_ago TIMESTAMPTZ;
+BEGIN
+    -- Calculate 24 hours ago
+    v_twenty_four_hours_ago := NOW() - INTERVAL '24 hours';
+    
+    -- Count signals in similar location (fuzzy matching for clustering)
+    SELECT COUNT(*) INTO v_signal_count
+    FROM signals 
+    WHERE (
+        LOWER(signals.location) LIKE '%' || LOWER(SPLIT_PART(NEW.location, ',', 1)) || '%'
+        OR LOWER(SPLIT_PART(NEW.location, ',', 1)) LIKE '%' || LOWER(SPLIT_PART(signals.location, ',', 1)) || '%'
+    )
+    AND signals.created_at >= v_twenty_four_hours_ago;
+    
+    -- Only proceed if we have 5 or more signals
+    IF v_signal_count >= 5 THEN
+        -- Check if an active event already exists for this location area
+        SELECT COUNT(*) INTO v_existing_event_count
+        FROM events 
+        WHERE (
+            LOWER(events.location) LIKE '%' || LOWER(SPLIT_PART(NEW.location, ',', 1)) || '%'
+            OR LOWER(SPLIT_PART(NEW.location, ',', 1)) LIKE '%' || LOWER(SPLIT_PART(events.location, ',', 1)) || '%'
+        )
+        AND events.status = 'active'
+        AND events.created_at >= v_twenty_four_hours_ago;
+        
+        -- Only create event if none exists
+        IF v_existing_event_count = 0 THEN
+            -- Count signals by severity to determine event severity
+            SELECT 
+                COUNT(CASE WHEN signals.severity = 'high' THEN 1 END),
+                COUNT(CASE WHEN signals.severity = 'medium' THEN 1 END),
+                COUNT(CASE WHEN signals.severity = 'low' THEN 1 END)
+            INTO v_high_count, v_medium_count, v_low_count
+            FROM signals 
+            WHERE (
+                LOWER(signals.location) LIKE '%' || LOWER(SPLIT_PART(NEW.location, ',', 1)) || '%'
+                OR LOWER(SPLIT_PART(NEW.location, ',', 1)) LIKE '%' || LOWER(SPLIT_PART(signals.location, ',', 1)) || '%'
+            )
+            AND signals.created_at >= v_twenty_four_hours_ago;
+            
+            -- Determine event severity based on weighted scoring
+            IF v_high_count >= 3 OR (v_high_count >= 2 AND v_signal_count >= 8) THEN
+                v_event_severity := 'high';
+            ELSIF v_medium_count >= 3 OR (v_medium_count >= 2 AND v_high_count >= 1) THEN
+                v_event_severity := 'medium';
+            ELSE
+                v_event_severity := 'low';
+            END IF;
+            
+            -- Create event title and description
+            v_event_title := NEW.type || ' cluster detected – ' || SPLIT_PART(NEW.location, ',', 1);
+            v_event_description := 'Unusual spike in ' || NEW.type || ' signals detected in ' || NEW.location || ' area. ' ||
+                                v_signal_count || ' signals reported within 24 hours. ' ||
+                                'Severity distribution: High (' || v_high_count || '), Medium (' || v_medium_count || '), Low (' || v_low_count || '). ' ||
+                                'Automated cluster detection triggered by AI monitoring system.';
+            
+            -- Create the event
+            INSERT INTO events (
+                title,
+                location,
+                latitude,
+                longitude,
+                type,
+                severity,
+                status,
+                signal_count,
+                description
+            ) VALUES (
+                v_event_title,
+                NEW.location,
+                NEW.latitude,
+                NEW.longitude,
+                NEW.type,
+                v_event_severity,
+                'active',
+                v_signal_count,
+                v_event_description
+            ) RETURNING id INTO v_new_event_id;
+            
+            -- Create corresponding alert
+            INSERT INTO alerts (
+                title,
+                location,
+                type,
+                severity,
+                status
+            ) VALUES (
+                CASE 
+                    WHEN v_event_severity = 'high' THEN 'URGENT: '
+                    WHEN v_event_severity = 'medium' THEN 'ALERT: '
+                    ELSE 'NOTICE: '
+                END || NEW.type || ' signals spike in ' || SPLIT_PART(NEW.location, ',', 1),
+                NEW.location,
+                NEW.type,
+                v_event_severity,
+                'active'
+            ) RETURNING id INTO v_alert_id;
+            
+            -- Create comprehensive blog post
+            INSERT INTO blogs (
+                event_id,
+                title,
+                content,
+                summary,
+                location,
+                type,
+                severity,
+                author,
+                published,
+                published_at
+            ) VALUES (
+                v_new_event_id,
+                CASE 
+                    WHEN v_event_severity = 'high' THEN 'URGENT Health Alert: '
+                    WHEN v_event_severity = 'medium' THEN 'Health Alert: '
+                    ELSE 'Health Notice: '
+                END || NEW.type || ' signal spike detected in ' || SPLIT_PART(NEW.location, ',', 1),
+                compose_event_blog_content(
+                    v_new_event_id, v_alert_id, NEW.type, NEW.location, v_event_severity,
+                    v_signal_count, v_high_count, v_medium_count, v_low_count
+                ),
+                'Increased ' || NEW.type || ' activity detected in ' || NEW.location || ' - early warning issued.',
+                NEW.location,
+                NEW.type,
+                v_event_severity,
+                'Prevora AI System',
+                true,
+                NOW()
+            ) RETURNING id INTO v_blog_id;
+            
+            -- Log the event creation for monitoring
+            RAISE NOTICE 'Event created: ID=%, Signals=%, Severity=%, Blog=%, Alert=%', 
+                v_new_event_id, v_signal_count, v_event_severity, v_blog_id, v_alert_id;
+        ELSE
+            -- Update existing event signal count
+            UPDATE events 
+            SET signal_count = events.signal_count + 1,
+                updated_at = NOW(),
+                description = events.description || ' Updated: ' || TO_CHAR(NOW(), 'HH24:MI') || ' - Additional signal detected.'
+            WHERE (
+                LOWER(events.location) LIKE '%' || LOWER(SPLIT_PART(NEW.location, ',', 1)) || '%'
+                OR LOWER(SPLIT_PART(NEW.location, ',', 1)) LIKE '%' || LOWER(SPLIT_PART(events.location, ',', 1)) || '%'
+            )
+            AND events.status = 'active'
+            AND events.created_at >= v_twenty_four_hours_ago;
+        END IF;
+    END IF;
+    
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,459 @@
+/*
+  # Cluster signals by distance instead of location text
+
+  1. Problem
+    - Signals were grouped with `LIKE '%' || SPLIT_PART(location, ',', 1) || '%'`, so
+      "Mumbai, Andheri West" and "Mumbai, Colaba" collapsed into one event while a
+      typo in the city name split a real cluster
+    - `v_location_radius` was declared in the trigger but never used
+
+  2. New Tables
+    - `clustering_settings` - Single-row configuration holding the clustering radius
+
+  3. Functions
+    - `haversine_km()` - Great-circle distance between two coordinates
+    - `normalize_location()` - Lower-cased, whitespace-collapsed location text
+    - `signal_in_cluster()` - Distance test when both sides have coordinates,
+      otherwise an exact match on the normalised location text
+    - `cluster_bounds()` - Latitude and longitude range enclosing the clustering radius, so
+      the coordinate indexes narrow the rows before the per-row distance test
+    - `cluster_signals()` - Signals belonging to the cluster around a point since a given time
+    - `create_event_from_signals()`, `update_event_signal_count()` and
+      `auto_resolve_old_events()` rewritten on top of `signal_in_cluster()`
+
+  4. Events
+    - New events are placed at the centroid of their cluster and record `signal_ids`
+*/
+
+CREATE TABLE IF NOT EXISTS clustering_settings (
+    id boolean PRIMARY KEY DEFAULT true CHECK (id),
+    radius_km numeric NOT NULL DEFAULT 10 CHECK (radius_km > 0),
+    updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO clustering_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE clustering_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read clustering settings"
+    ON clustering_settings
+    FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+CREATE POLICY "Admins can update clustering settings"
+    ON clustering_settings
+    FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE user_profiles.id = auth.uid()
+            AND user_profiles.is_admin = true
+        )
+    );
+
+CREATE INDEX IF NOT EXISTS idx_signals_coordinates ON signals(latitude, longitude);
+CREATE INDEX IF NOT EXISTS idx_events_coordinates ON events(latitude, longitude);
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION haversine_km(
+    p_lat1 DOUBLE PRECISION,
+    p_lng1 DOUBLE PRECISION,
+    p_lat2 DOUBLE PRECISION,
+    p_lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+BEGIN
+    RETURN 2 * 6371 * ASIN(SQRT(
+        POWER(SIN(RADIANS(p_lat2 - p_lat1) / 2), 2) +
+        COS(RADIANS(p_lat1)) * COS(RADIANS(p_lat2)) *
+        POWER(SIN(RADIANS(p_lng2 - p_lng1) / 2), 2)
+    ));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION normalize_location(p_location TEXT)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN LOWER(TRIM(REGEXP_REPLACE(COALESCE(p_location, ''), '\s+', ' ', 'g')));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION cluster_radius_km()
+RETURNS NUMERIC AS $$
+DECLARE
+    v_radius NUMERIC;
+BEGIN
+    SELECT radius_km INTO v_radius FROM clustering_settings WHERE id;
+    RETURN COALESCE(v_radius, 10);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Signals without coordinates fall back to an exact match on the normalised location
+CREATE OR REPLACE FUNCTION signal_in_cluster(
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_location TEXT,
+    p_center_latitude DOUBLE PRECISION,
+    p_center_longitude DOUBLE PRECISION,
+    p_center_location TEXT,
+    p_radius_km NUMERIC
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL
+       AND p_center_latitude IS NOT NULL AND p_center_longitude IS NOT NULL THEN
+        RETURN haversine_km(p_latitude, p_longitude, p_center_latitude, p_center_longitude) <= p_radius_km;
+    END IF;
+
+    RETURN normalize_location(p_location) = normalize_location(p_center_location);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Bounds of every point within p_radius_km of the centre. They cover the whole range when
+-- there is no centre, and in longitude when the circle reaches a pole or the antimeridian
+CREATE OR REPLACE FUNCTION cluster_bounds(
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_radius_km NUMERIC
+)
+RETURNS TABLE (
+    min_latitude DOUBLE PRECISION,
+    max_latitude DOUBLE PRECISION,
+    min_longitude DOUBLE PRECISION,
+    max_longitude DOUBLE PRECISION
+) AS $$
+DECLARE
+    -- Angular radius on the sphere haversine_km() uses
+    v_distance DOUBLE PRECISION := p_radius_km / 6371.0;
+    v_latitude_span DOUBLE PRECISION;
+    v_longitude_span DOUBLE PRECISION;
+BEGIN
+    IF p_latitude IS NULL OR p_longitude IS NULL THEN
+        RETURN QUERY SELECT -90::DOUBLE PRECISION, 90::DOUBLE PRECISION, -180::DOUBLE PRECISION, 180::DOUBLE PRECISION;
+        RETURN;
+    END IF;
+
+    -- Slightly wider than exact so rounding never drops a signal on the edge
+    v_latitude_span := DEGREES(v_distance) * 1.001;
+
+    IF ABS(p_latitude) + v_latitude_span >= 90 THEN
+        v_longitude_span := 180;
+    ELSE
+        v_longitude_span := DEGREES(ASIN(SIN(v_distance) / COS(RADIANS(p_latitude)))) * 1.001;
+    END IF;
+
+    IF p_longitude - v_longitude_span < -180 OR p_longitude + v_longitude_span > 180 THEN
+        RETURN QUERY SELECT p_latitude - v_latitude_span, p_latitude + v_latitude_span, -180::DOUBLE PRECISION, 180::DOUBLE PRECISION;
+    ELSE
+        RETURN QUERY SELECT p_latitude - v_latitude_span, p_latitude + v_latitude_span, p_longitude - v_longitude_span, p_longitude + v_longitude_span;
+    END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION cluster_signals(
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_location TEXT,
+    p_since TIMESTAMPTZ
+)
+RETURNS SETOF signals AS $$
+DECLARE
+    v_radius_km NUMERIC := cluster_radius_km();
+    v_bounds RECORD;
+BEGIN
+    SELECT * INTO v_bounds FROM cluster_bounds(p_latitude, p_longitude, v_radius_km);
+
+    -- The bounding box uses idx_signals_coordinates; signals without coordinates can
+    -- still match on their location text
+    RETURN QUERY
+    SELECT *
+    FROM signals
+    WHERE signals.created_at >= p_since
+    AND (
+        signals.latitude IS NULL
+        OR signals.longitude IS NULL
+        OR (
+            signals.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+            AND signals.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+        )
+    )
+    AND signal_in_cluster(
+        signals.latitude, signals.longitude, signals.location,
+        p_latitude, p_longitude, p_location, v_radius_km
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Event creation trigger clustering by distance
+CREATE OR REPLACE FUNCTION create_event_from_signals()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_signal_count INTEGER;
+    v_high_count INTEGER;
+    v_medium_count INTEGER;
+    v_low_count INTEGER;
+    v_center_latitude DOUBLE PRECISION;
+    v_center_longitude DOUBLE PRECISION;
+    v_signal_ids UUID[];
+    v_event_severity TEXT;
+    v_event_title TEXT;
+    v_event_description TEXT;
+    v_existing_event_count INTEGER;
+    v_new_event_id UUID;
+    v_alert_id UUID;
+    v_blog_id UUID;
+    v_twenty_four_hours_ago TIMESTAMPTZ;
+    v_radius_km NUMERIC;
+    v_bounds RECORD;
+BEGIN
+    v_twenty_four_hours_ago := NOW() - INTERVAL '24 hours';
+    v_radius_km := cluster_radius_km();
+
+    SELECT * INTO v_bounds FROM cluster_bounds(NEW.latitude, NEW.longitude, v_radius_km);
+
+    -- Summarise the cluster around the new signal
+    SELECT
+        COUNT(*),
+        COUNT(CASE WHEN cluster.severity = 'high' THEN 1 END),
+        COUNT(CASE WHEN cluster.severity = 'medium' THEN 1 END),
+        COUNT(CASE WHEN cluster.severity = 'low' THEN 1 END),
+        AVG(cluster.latitude),
+        AVG(cluster.longitude),
+        ARRAY_AGG(cluster.id)
+    INTO v_signal_count, v_high_count, v_medium_count, v_low_count,
+         v_center_latitude, v_center_longitude, v_signal_ids
+    FROM cluster_signals(NEW.latitude, NEW.longitude, NEW.location, v_twenty_four_hours_ago) AS cluster;
+
+    -- Only proceed if we have 5 or more signals
+    IF v_signal_count >= 5 THEN
+        -- Check if an active event already covers this cluster
+        SELECT COUNT(*) INTO v_existing_event_count
+        FROM events
+        WHERE events.status = 'active'
+        AND events.created_at >= v_twenty_four_hours_ago
+        AND (
+            events.latitude IS NULL
+            OR events.longitude IS NULL
+            OR (
+                events.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+                AND events.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+            )
+        )
+        AND signal_in_cluster(
+            NEW.latitude, NEW.longitude, NEW.location,
+            events.latitude, events.longitude, events.location, v_radius_km
+        );
+
+        -- Only create event if none exists
+        IF v_existing_event_count = 0 THEN
+            -- Determine event severity based on weighted scoring
+            IF v_high_count >= 3 OR (v_high_count >= 2 AND v_signal_count >= 8) THEN
+                v_event_severity := 'high';
+            ELSIF v_medium_count >= 3 OR (v_medium_count >= 2 AND v_high_count >= 1) THEN
+                v_event_severity := 'medium';
+            ELSE
+                v_event_severity := 'low';
+            END IF;
+
+            -- Create event title and description
+            v_event_title := NEW.type || ' cluster detected – ' || SPLIT_PART(NEW.location, ',', 1);
+            v_event_description := 'Unusual spike in ' || NEW.type || ' signals detected in ' || NEW.location || ' area. ' ||
+                                v_signal_count || ' signals reported within 24 hours. ' ||
+                                'Severity distribution: High (' || v_high_count || '), Medium (' || v_medium_count || '), Low (' || v_low_count || '). ' ||
+                                'Automated cluster detection triggered by AI monitoring system.';
+
+            -- Create the event at the cluster centroid
+            INSERT INTO events (
+                title,
+                location,
+                latitude,
+                longitude,
+                type,
+                severity,
+                status,
+                signal_ids,
+                signal_count,
+                description
+            ) VALUES (
+                v_event_title,
+                NEW.location,
+                COALESCE(v_center_latitude, NEW.latitude),
+                COALESCE(v_center_longitude, NEW.longitude),
+                NEW.type,
+                v_event_severity,
+                'active',
+                v_signal_ids,
+                v_signal_count,
+                v_event_description
+            ) RETURNING id INTO v_new_event_id;
+
+            -- Create corresponding alert
+            INSERT INTO alerts (
+                title,
+                location,
+                type,
+                severity,
+                status
+            ) VALUES (
+                CASE
+                    WHEN v_event_severity = 'high' THEN 'URGENT: '
+                    WHEN v_event_severity = 'medium' THEN 'ALERT: '
+                    ELSE 'NOTICE: '
+                END || NEW.type || ' signals spike in ' || SPLIT_PART(NEW.location, ',', 1),
+                NEW.location,
+                NEW.type,
+                v_event_severity,
+                'active'
+            ) RETURNING id INTO v_alert_id;
+
+            -- Create comprehensive blog post
+            INSERT INTO blogs (
+                event_id,
+                title,
+                content,
+                summary,
+                location,
+                type,
+                severity,
+                author,
+                published,
+                published_at
+            ) VALUES (
+                v_new_event_id,
+                CASE
+                    WHEN v_event_severity = 'high' THEN 'URGENT Health Alert: '
+                    WHEN v_event_severity = 'medium' THEN 'Health Alert: '
+                    ELSE 'Health Notice: '
+                END || NEW.type || ' signal spike detected in ' || SPLIT_PART(NEW.location, ',', 1),
+                compose_event_blog_content(
+                    v_new_event_id, v_alert_id, NEW.type, NEW.location, v_event_severity,
+                    v_signal_count, v_high_count, v_medium_count, v_low_count
+                ),
+                'Increased ' || NEW.type || ' activity detected in ' || NEW.location || ' - early warning issued.',
+                NEW.location,
+                NEW.type,
+                v_event_severity,
+                'Prevora AI System',
+                true,
+                NOW()
+            ) RETURNING id INTO v_blog_id;
+
+            -- Log the event creation for monitoring
+            RAISE NOTICE 'Event created: ID=%, Signals=%, Severity=%, Blog=%, Alert=%',
+                v_new_event_id, v_signal_count, v_event_severity, v_blog_id, v_alert_id;
+        ELSE
+            -- Note the additional signal; update_event_signal_count() recounts
+            UPDATE events
+            SET updated_at = NOW(),
+                description = events.description || ' Updated: ' || TO_CHAR(NOW(), 'HH24:MI') || ' - Additional signal detected.'
+            WHERE events.status = 'active'
+            AND events.created_at >= v_twenty_four_hours_ago
+            AND (
+                events.latitude IS NULL
+                OR events.longitude IS NULL
+                OR (
+                    events.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+                    AND events.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+                )
+            )
+            AND signal_in_cluster(
+                NEW.latitude, NEW.longitude, NEW.location,
+                events.latitude, events.longitude, events.location, v_radius_km
+            );
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recount every active event the new signal falls into, measured from the event centre
+CREATE OR REPLACE FUNCTION update_event_signal_count()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_twenty_four_hours_ago TIMESTAMPTZ;
+    v_radius_km NUMERIC;
+    v_event RECORD;
+    v_new_signal_count INTEGER;
+BEGIN
+    v_twenty_four_hours_ago := NOW() - INTERVAL '24 hours';
+    v_radius_km := cluster_radius_km();
+
+    FOR v_event IN
+        SELECT events.id, events.latitude, events.longitude, events.location
+        FROM events
+        WHERE events.status = 'active'
+        AND events.created_at >= v_twenty_four_hours_ago
+        AND signal_in_cluster(
+            NEW.latitude, NEW.longitude, NEW.location,
+            events.latitude, events.longitude, events.location, v_radius_km
+        )
+    LOOP
+        SELECT COUNT(*) INTO v_new_signal_count
+        FROM cluster_signals(v_event.latitude, v_event.longitude, v_event.location, v_twenty_four_hours_ago);
+
+        UPDATE events
+        SET signal_count = v_new_signal_count,
+            signal_ids = CASE
+                WHEN NEW.id = ANY(COALESCE(events.signal_ids, '{}')) THEN events.signal_ids
+                ELSE ARRAY_APPEND(COALESCE(events.signal_ids, '{}'), NEW.id)
+            END,
+            description = CASE
+                WHEN events.signal_count != v_new_signal_count
+                THEN events.description || ' [Updated: ' || TO_CHAR(NOW(), 'HH24:MI') || ']'
+                ELSE events.description
+            END
+        WHERE events.id = v_event.id;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Resolve events whose cluster has gone quiet, and the alerts raised for them
+CREATE OR REPLACE FUNCTION auto_resolve_old_events()
+RETURNS void AS $$
+DECLARE
+    v_seventy_two_hours_ago TIMESTAMPTZ;
+    v_radius_km NUMERIC;
+BEGIN
+    v_seventy_two_hours_ago := NOW() - INTERVAL '72 hours';
+    v_radius_km := cluster_radius_km();
+
+    -- Auto-resolve events older than 72 hours with no recent signals
+    UPDATE events
+    SET status = 'resolved',
+        updated_at = NOW(),
+        description = events.description || ' [Auto-resolved: No recent signals for 72+ hours]'
+    WHERE events.status = 'active'
+    AND events.created_at < v_seventy_two_hours_ago
+    AND NOT EXISTS (
+        SELECT 1 FROM signals
+        WHERE signals.created_at >= NOW() - INTERVAL '48 hours'
+        AND signal_in_cluster(
+            signals.latitude, signals.longitude, signals.location,
+            events.latitude, events.longitude, events.location, v_radius_km
+        )
+    );
+
+    -- Also resolve corresponding alerts
+    UPDATE alerts
+    SET status = 'resolved'
+    WHERE alerts.status = 'active'
+    AND alerts.issued_at < v_seventy_two_hours_ago
+    AND EXISTS (
+        SELECT 1 FROM events
+        WHERE events.status = 'resolved'
+        AND (
+            events.id = alerts.event_id
+            OR (alerts.event_id IS NULL AND normalize_location(events.location) = normalize_location(alerts.location))
+        )
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- The text-search indexes only served the LIKE matching
+DROP INDEX IF EXISTS idx_signals_location_fuzzy;
+DROP INDEX IF EXISTS idx_events_location_fuzzy;
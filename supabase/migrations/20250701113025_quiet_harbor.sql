@@ -0,0 +1,564 @@
+/*
+  # Baseline-aware anomaly detection
+
+  1. Problem
+    - Events were created whenever an area saw 5 signals in 24 hours, regardless of
+      how busy that area normally is
+    - `events.anomaly_score` and `events.confidence` were never populated
+
+  2. Settings
+    - `clustering_settings` gains the detector parameters: `baseline_days`,
+      `min_history_days`, `min_signals`, `ewma_alpha` and `z_threshold`
+
+  3. Functions
+    - `cluster_signals()` - Now optionally restricted to one signal type
+    - `area_signal_counts()` - Daily signal counts for an area and signal type
+    - `score_against_baseline()` - Mean, standard deviation and EWMA of a history, and
+      the z-score and anomaly score of an observation against it
+    - `detect_signal_anomaly()` - Scores the last 24 hours of an area against its baseline
+    - `signal_baseline()` - Per-day counts with their rolling baseline, for charts; open to
+      anyone, so `p_days` is clamped to 1-90
+    - `create_event_from_signals()` - Creates an event only when the detector fires and
+      records its anomaly score and confidence
+    - `update_event_signal_count()` and `auto_resolve_old_events()` - Count signals of
+      the event's own type
+
+  4. Detection
+    - The expected count is the EWMA of the previous `baseline_days` daily counts; the
+      spread is their standard deviation, floored at the Poisson noise of the mean
+    - `anomaly_score` is a logistic of the z-score centred on `z_threshold`
+    - `confidence` grows with the amount of history and the number of observed signals
+    - Areas with less than `min_history_days` of history fall back to the fixed
+      `min_signals` threshold
+*/
+
+ALTER TABLE clustering_settings ADD COLUMN IF NOT EXISTS baseline_days integer NOT NULL DEFAULT 28 CHECK (baseline_days > 0);
+ALTER TABLE clustering_settings ADD COLUMN IF NOT EXISTS min_history_days integer NOT NULL DEFAULT 7 CHECK (min_history_days >= 0);
+ALTER TABLE clustering_settings ADD COLUMN IF NOT EXISTS min_signals integer NOT NULL DEFAULT 5 CHECK (min_signals > 0);
+ALTER TABLE clustering_settings ADD COLUMN IF NOT EXISTS ewma_alpha numeric NOT NULL DEFAULT 0.3 CHECK (ewma_alpha > 0 AND ewma_alpha <= 1);
+ALTER TABLE clustering_settings ADD COLUMN IF NOT EXISTS z_threshold numeric NOT NULL DEFAULT 3 CHECK (z_threshold > 0);
+
+CREATE INDEX IF NOT EXISTS idx_signals_type_created_at ON signals(type, created_at);
+
+DROP FUNCTION IF EXISTS cluster_signals(DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION cluster_signals(
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_location TEXT,
+    p_since TIMESTAMPTZ,
+    p_type TEXT DEFAULT NULL
+)
+RETURNS SETOF signals AS $$
+DECLARE
+    v_radius_km NUMERIC := cluster_radius_km();
+    v_bounds RECORD;
+BEGIN
+    SELECT * INTO v_bounds FROM cluster_bounds(p_latitude, p_longitude, v_radius_km);
+
+    RETURN QUERY
+    SELECT *
+    FROM signals
+    WHERE signals.created_at >= p_since
+    AND (p_type IS NULL OR LOWER(signals.type) = LOWER(p_type))
+    AND (
+        signals.latitude IS NULL
+        OR signals.longitude IS NULL
+        OR (
+            signals.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+            AND signals.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+        )
+    )
+    AND signal_in_cluster(
+        signals.latitude, signals.longitude, signals.location,
+        p_latitude, p_longitude, p_location, v_radius_km
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- One row per 24-hour bucket ending at p_end, oldest first. A NULL location or
+-- type widens the count to every area or every signal type.
+CREATE OR REPLACE FUNCTION area_signal_counts(
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_location TEXT,
+    p_type TEXT,
+    p_end TIMESTAMPTZ,
+    p_buckets INTEGER
+)
+RETURNS TABLE (bucket_start TIMESTAMPTZ, signal_count INTEGER) AS $$
+DECLARE
+    v_radius_km NUMERIC := cluster_radius_km();
+BEGIN
+    RETURN QUERY
+    SELECT buckets.starts_at, COUNT(matched.id)::INTEGER
+    FROM generate_series(
+        p_end - p_buckets * INTERVAL '1 day',
+        p_end - INTERVAL '1 day',
+        INTERVAL '1 day'
+    ) AS buckets(starts_at)
+    LEFT JOIN signals AS matched
+        ON matched.created_at >= buckets.starts_at
+        AND matched.created_at < buckets.starts_at + INTERVAL '1 day'
+        AND (p_type IS NULL OR LOWER(matched.type) = LOWER(p_type))
+        AND (p_location IS NULL OR signal_in_cluster(
+            matched.latitude, matched.longitude, matched.location,
+            p_latitude, p_longitude, p_location, v_radius_km
+        ))
+    GROUP BY buckets.starts_at
+    ORDER BY buckets.starts_at;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION score_against_baseline(
+    p_history INTEGER[],
+    p_observed INTEGER,
+    p_alpha NUMERIC,
+    p_z_threshold NUMERIC
+)
+RETURNS TABLE (
+    baseline_mean DOUBLE PRECISION,
+    baseline_stddev DOUBLE PRECISION,
+    ewma DOUBLE PRECISION,
+    z_score DOUBLE PRECISION,
+    anomaly_score DOUBLE PRECISION
+) AS $$
+DECLARE
+    v_count INTEGER;
+    v_ewma DOUBLE PRECISION;
+    v_scale DOUBLE PRECISION;
+BEGIN
+    SELECT COALESCE(AVG(history.value), 0), COALESCE(STDDEV_POP(history.value), 0)
+    INTO baseline_mean, baseline_stddev
+    FROM UNNEST(p_history) AS history(value);
+
+    FOREACH v_count IN ARRAY COALESCE(p_history, '{}') LOOP
+        v_ewma := CASE
+            WHEN v_ewma IS NULL THEN v_count
+            ELSE p_alpha * v_count + (1 - p_alpha) * v_ewma
+        END;
+    END LOOP;
+    ewma := COALESCE(v_ewma, 0);
+
+    -- Sparse areas have a near-zero spread; never trust less than Poisson noise
+    v_scale := GREATEST(baseline_stddev, SQRT(GREATEST(baseline_mean, 1)));
+    z_score := (p_observed - ewma) / v_scale;
+    anomaly_score := 1 / (1 + EXP(-(z_score - p_z_threshold)));
+
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Scores the last 24 hours of signals of one type around a point
+CREATE OR REPLACE FUNCTION detect_signal_anomaly(
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_location TEXT,
+    p_type TEXT
+)
+RETURNS TABLE (
+    observed_count INTEGER,
+    baseline_mean DOUBLE PRECISION,
+    baseline_stddev DOUBLE PRECISION,
+    ewma DOUBLE PRECISION,
+    z_score DOUBLE PRECISION,
+    anomaly_score DOUBLE PRECISION,
+    confidence DOUBLE PRECISION,
+    history_days INTEGER,
+    is_anomaly BOOLEAN
+) AS $$
+DECLARE
+    v_settings clustering_settings%ROWTYPE;
+    v_window_start TIMESTAMPTZ;
+    v_history INTEGER[];
+    v_first_seen TIMESTAMPTZ;
+    v_stats RECORD;
+BEGIN
+    SELECT * INTO v_settings FROM clustering_settings WHERE id;
+    v_window_start := NOW() - INTERVAL '24 hours';
+
+    SELECT COUNT(*) INTO observed_count
+    FROM cluster_signals(p_latitude, p_longitude, p_location, v_window_start, p_type);
+
+    SELECT ARRAY_AGG(counts.signal_count ORDER BY counts.bucket_start)
+    INTO v_history
+    FROM area_signal_counts(
+        p_latitude, p_longitude, p_location, p_type,
+        v_window_start, v_settings.baseline_days
+    ) AS counts;
+
+    -- How much of the baseline window the area has actually been reporting for
+    SELECT MIN(history.created_at) INTO v_first_seen
+    FROM cluster_signals(
+        p_latitude, p_longitude, p_location,
+        v_window_start - v_settings.baseline_days * INTERVAL '1 day', p_type
+    ) AS history
+    WHERE history.created_at < v_window_start;
+
+    history_days := CASE
+        WHEN v_first_seen IS NULL THEN 0
+        ELSE LEAST(
+            v_settings.baseline_days,
+            CEIL(EXTRACT(EPOCH FROM (v_window_start - v_first_seen)) / 86400)::INTEGER
+        )
+    END;
+
+    SELECT * INTO v_stats
+    FROM score_against_baseline(v_history, observed_count, v_settings.ewma_alpha, v_settings.z_threshold);
+
+    baseline_mean := v_stats.baseline_mean;
+    baseline_stddev := v_stats.baseline_stddev;
+    ewma := v_stats.ewma;
+    z_score := v_stats.z_score;
+    anomaly_score := v_stats.anomaly_score;
+    confidence := (history_days::DOUBLE PRECISION / v_settings.baseline_days)
+        * (1 - EXP(-observed_count / v_settings.min_signals::DOUBLE PRECISION));
+
+    is_anomaly := observed_count >= v_settings.min_signals
+        AND (history_days < v_settings.min_history_days OR z_score >= v_settings.z_threshold);
+
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Calendar-day counts with the baseline each day was measured against. A NULL
+-- location or type gives the baseline across all areas or all signal types.
+-- At most 90 days are returned, since anonymous visitors can call this too.
+CREATE OR REPLACE FUNCTION signal_baseline(
+    p_days INTEGER,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_location TEXT DEFAULT NULL,
+    p_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    day DATE,
+    signal_count INTEGER,
+    baseline_mean DOUBLE PRECISION,
+    baseline_stddev DOUBLE PRECISION,
+    ewma DOUBLE PRECISION,
+    z_score DOUBLE PRECISION,
+    anomaly_score DOUBLE PRECISION
+) AS $$
+DECLARE
+    v_settings clustering_settings%ROWTYPE;
+    v_counts INTEGER[];
+    v_starts TIMESTAMPTZ[];
+    v_stats RECORD;
+    i INTEGER;
+BEGIN
+    SELECT * INTO v_settings FROM clustering_settings WHERE id;
+
+    SELECT
+        ARRAY_AGG(counts.signal_count ORDER BY counts.bucket_start),
+        ARRAY_AGG(counts.bucket_start ORDER BY counts.bucket_start)
+    INTO v_counts, v_starts
+    FROM area_signal_counts(
+        p_latitude, p_longitude, p_location, p_type,
+        DATE_TRUNC('day', NOW()) + INTERVAL '1 day',
+        LEAST(GREATEST(COALESCE(p_days, 1), 1), 90) + v_settings.baseline_days
+    ) AS counts;
+
+    FOR i IN (v_settings.baseline_days + 1)..COALESCE(ARRAY_LENGTH(v_counts, 1), 0) LOOP
+        SELECT * INTO v_stats
+        FROM score_against_baseline(
+            v_counts[i - v_settings.baseline_days : i - 1],
+            v_counts[i],
+            v_settings.ewma_alpha,
+            v_settings.z_threshold
+        );
+
+        day := v_starts[i]::DATE;
+        signal_count := v_counts[i];
+        baseline_mean := v_stats.baseline_mean;
+        baseline_stddev := v_stats.baseline_stddev;
+        ewma := v_stats.ewma;
+        z_score := v_stats.z_score;
+        anomaly_score := v_stats.anomaly_score;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Event creation trigger driven by the anomaly detector
+CREATE OR REPLACE FUNCTION create_event_from_signals()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_detection RECORD;
+    v_signal_count INTEGER;
+    v_high_count INTEGER;
+    v_medium_count INTEGER;
+    v_low_count INTEGER;
+    v_center_latitude DOUBLE PRECISION;
+    v_center_longitude DOUBLE PRECISION;
+    v_signal_ids UUID[];
+    v_event_severity TEXT;
+    v_event_title TEXT;
+    v_event_description TEXT;
+    v_existing_event_count INTEGER;
+    v_new_event_id UUID;
+    v_alert_id UUID;
+    v_blog_id UUID;
+    v_twenty_four_hours_ago TIMESTAMPTZ;
+    v_radius_km NUMERIC;
+    v_bounds RECORD;
+BEGIN
+    v_twenty_four_hours_ago := NOW() - INTERVAL '24 hours';
+    v_radius_km := cluster_radius_km();
+
+    SELECT * INTO v_bounds FROM cluster_bounds(NEW.latitude, NEW.longitude, v_radius_km);
+
+    SELECT * INTO v_detection
+    FROM detect_signal_anomaly(NEW.latitude, NEW.longitude, NEW.location, NEW.type);
+
+    -- Check if an active event of this type already covers the cluster
+    SELECT COUNT(*) INTO v_existing_event_count
+    FROM events
+    WHERE events.status = 'active'
+    AND events.created_at >= v_twenty_four_hours_ago
+    AND LOWER(events.type) = LOWER(NEW.type)
+    AND (
+        events.latitude IS NULL
+        OR events.longitude IS NULL
+        OR (
+            events.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+            AND events.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+        )
+    )
+    AND signal_in_cluster(
+        NEW.latitude, NEW.longitude, NEW.location,
+        events.latitude, events.longitude, events.location, v_radius_km
+    );
+
+    IF v_existing_event_count > 0 THEN
+        -- Note the additional signal; update_event_signal_count() recounts
+        UPDATE events
+        SET updated_at = NOW(),
+            anomaly_score = GREATEST(COALESCE(events.anomaly_score, 0), v_detection.anomaly_score),
+            confidence = GREATEST(COALESCE(events.confidence, 0), v_detection.confidence),
+            description = events.description || ' Updated: ' || TO_CHAR(NOW(), 'HH24:MI') || ' - Additional signal detected.'
+        WHERE events.status = 'active'
+        AND events.created_at >= v_twenty_four_hours_ago
+        AND LOWER(events.type) = LOWER(NEW.type)
+        AND (
+            events.latitude IS NULL
+            OR events.longitude IS NULL
+            OR (
+                events.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+                AND events.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+            )
+        )
+        AND signal_in_cluster(
+            NEW.latitude, NEW.longitude, NEW.location,
+            events.latitude, events.longitude, events.location, v_radius_km
+        );
+    ELSIF v_detection.is_anomaly THEN
+        -- Summarise the cluster around the new signal
+        SELECT
+            COUNT(*),
+            COUNT(CASE WHEN cluster.severity = 'high' THEN 1 END),
+            COUNT(CASE WHEN cluster.severity = 'medium' THEN 1 END),
+            COUNT(CASE WHEN cluster.severity = 'low' THEN 1 END),
+            AVG(cluster.latitude),
+            AVG(cluster.longitude),
+            ARRAY_AGG(cluster.id)
+        INTO v_signal_count, v_high_count, v_medium_count, v_low_count,
+             v_center_latitude, v_center_longitude, v_signal_ids
+        FROM cluster_signals(NEW.latitude, NEW.longitude, NEW.location, v_twenty_four_hours_ago, NEW.type) AS cluster;
+
+        -- Determine event severity based on weighted scoring
+        IF v_high_count >= 3 OR (v_high_count >= 2 AND v_signal_count >= 8) THEN
+            v_event_severity := 'high';
+        ELSIF v_medium_count >= 3 OR (v_medium_count >= 2 AND v_high_count >= 1) THEN
+            v_event_severity := 'medium';
+        ELSE
+            v_event_severity := 'low';
+        END IF;
+
+        -- Create event title and description
+        v_event_title := NEW.type || ' cluster detected – ' || SPLIT_PART(NEW.location, ',', 1);
+        v_event_description := 'Unusual spike in ' || NEW.type || ' signals detected in ' || NEW.location || ' area. ' ||
+                            v_signal_count || ' signals reported within 24 hours against an expected ' ||
+                            ROUND(v_detection.ewma::NUMERIC, 1) || ' per day (z-score ' || ROUND(v_detection.z_score::NUMERIC, 1) || '). ' ||
+                            'Severity distribution: High (' || v_high_count || '), Medium (' || v_medium_count || '), Low (' || v_low_count || '). ' ||
+                            'Automated cluster detection triggered by AI monitoring system.';
+
+        -- Create the event at the cluster centroid
+        INSERT INTO events (
+            title,
+            location,
+            latitude,
+            longitude,
+            type,
+            severity,
+            status,
+            signal_ids,
+            signal_count,
+            anomaly_score,
+            confidence,
+            description
+        ) VALUES (
+            v_event_title,
+            NEW.location,
+            COALESCE(v_center_latitude, NEW.latitude),
+            COALESCE(v_center_longitude, NEW.longitude),
+            NEW.type,
+            v_event_severity,
+            'active',
+            v_signal_ids,
+            v_signal_count,
+            v_detection.anomaly_score,
+            v_detection.confidence,
+            v_event_description
+        ) RETURNING id INTO v_new_event_id;
+
+        -- Create corresponding alert
+        INSERT INTO alerts (
+            title,
+            location,
+            type,
+            severity,
+            status
+        ) VALUES (
+            CASE
+                WHEN v_event_severity = 'high' THEN 'URGENT: '
+                WHEN v_event_severity = 'medium' THEN 'ALERT: '
+                ELSE 'NOTICE: '
+            END || NEW.type || ' signals spike in ' || SPLIT_PART(NEW.location, ',', 1),
+            NEW.location,
+            NEW.type,
+            v_event_severity,
+            'active'
+        ) RETURNING id INTO v_alert_id;
+
+        -- Create comprehensive blog post
+        INSERT INTO blogs (
+            event_id,
+            title,
+            content,
+            summary,
+            location,
+            type,
+            severity,
+            author,
+            published,
+            published_at
+        ) VALUES (
+            v_new_event_id,
+            CASE
+                WHEN v_event_severity = 'high' THEN 'URGENT Health Alert: '
+                WHEN v_event_severity = 'medium' THEN 'Health Alert: '
+                ELSE 'Health Notice: '
+            END || NEW.type || ' signal spike detected in ' || SPLIT_PART(NEW.location, ',', 1),
+            compose_event_blog_content(
+                v_new_event_id, v_alert_id, NEW.type, NEW.location, v_event_severity,
+                v_signal_count, v_high_count, v_medium_count, v_low_count
+            ),
+            'Increased ' || NEW.type || ' activity detected in ' || NEW.location || ' - early warning issued.',
+            NEW.location,
+            NEW.type,
+            v_event_severity,
+            'Prevora AI System',
+            true,
+            NOW()
+        ) RETURNING id INTO v_blog_id;
+
+        -- Log the event creation for monitoring
+        RAISE NOTICE 'Event created: ID=%, Signals=%, Severity=%, Anomaly=%, Blog=%, Alert=%',
+            v_new_event_id, v_signal_count, v_event_severity, v_detection.anomaly_score, v_blog_id, v_alert_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recount every active event of the signal's type that the signal falls into
+CREATE OR REPLACE FUNCTION update_event_signal_count()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_twenty_four_hours_ago TIMESTAMPTZ;
+    v_radius_km NUMERIC;
+    v_event RECORD;
+    v_new_signal_count INTEGER;
+BEGIN
+    v_twenty_four_hours_ago := NOW() - INTERVAL '24 hours';
+    v_radius_km := cluster_radius_km();
+
+    FOR v_event IN
+        SELECT events.id, events.latitude, events.longitude, events.location, events.type
+        FROM events
+        WHERE events.status = 'active'
+        AND events.created_at >= v_twenty_four_hours_ago
+        AND LOWER(events.type) = LOWER(NEW.type)
+        AND signal_in_cluster(
+            NEW.latitude, NEW.longitude, NEW.location,
+            events.latitude, events.longitude, events.location, v_radius_km
+        )
+    LOOP
+        SELECT COUNT(*) INTO v_new_signal_count
+        FROM cluster_signals(v_event.latitude, v_event.longitude, v_event.location, v_twenty_four_hours_ago, v_event.type);
+
+        UPDATE events
+        SET signal_count = v_new_signal_count,
+            signal_ids = CASE
+                WHEN NEW.id = ANY(COALESCE(events.signal_ids, '{}')) THEN events.signal_ids
+                ELSE ARRAY_APPEND(COALESCE(events.signal_ids, '{}'), NEW.id)
+            END,
+            description = CASE
+                WHEN events.signal_count != v_new_signal_count
+                THEN events.description || ' [Updated: ' || TO_CHAR(NOW(), 'HH24:MI') || ']'
+                ELSE events.description
+            END
+        WHERE events.id = v_event.id;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Resolve events whose cluster has gone quiet, and the alerts raised for them
+CREATE OR REPLACE FUNCTION auto_resolve_old_events()
+RETURNS void AS $$
+DECLARE
+    v_seventy_two_hours_ago TIMESTAMPTZ;
+    v_radius_km NUMERIC;
+BEGIN
+    v_seventy_two_hours_ago := NOW() - INTERVAL '72 hours';
+    v_radius_km := cluster_radius_km();
+
+    -- Auto-resolve events older than 72 hours with no recent signals of their type
+    UPDATE events
+    SET status = 'resolved',
+        updated_at = NOW(),
+        description = events.description || ' [Auto-resolved: No recent signals for 72+ hours]'
+    WHERE events.status = 'active'
+    AND events.created_at < v_seventy_two_hours_ago
+    AND NOT EXISTS (
+        SELECT 1 FROM signals
+        WHERE signals.created_at >= NOW() - INTERVAL '48 hours'
+        AND LOWER(signals.type) = LOWER(events.type)
+        AND signal_in_cluster(
+            signals.latitude, signals.longitude, signals.location,
+            events.latitude, events.longitude, events.location, v_radius_km
+        )
+    );
+
+    -- Also resolve corresponding alerts
+    UPDATE alerts
+    SET status = 'resolved'
+    WHERE alerts.status = 'active'
+    AND alerts.issued_at < v_seventy_two_hours_ago
+    AND EXISTS (
+        SELECT 1 FROM events
+        WHERE events.status = 'resolved'
+        AND (
+            events.id = alerts.event_id
+            OR (
+                alerts.event_id IS NULL
+                AND LOWER(events.type) = LOWER(alerts.type)
+                AND normalize_location(events.location) = normalize_location(alerts.location)
+            )
+        )
+    );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,204 @@
+/*
+  # Authenticated signal ingestion for sensors and partner systems
+
+  1. New Tables
+    - `signal_sources` - Systems allowed to push signals through the ingestion API
+      - `name` (text, unique)
+      - `rate_limit_per_minute` - Ingestion requests accepted per source per minute
+    - `source_api_keys` - API keys issued to a source
+      - `key_prefix` - First characters of the key, shown so admins can tell keys apart
+      - `key_hash` - SHA-256 of the full key; the key itself is never stored
+      - `revoked_at` - Set when the key stops being accepted
+    - `ingestion_requests` - Idempotency keys seen per source and the response sent for each
+    - `ingestion_rate_windows` - Requests counted per source per minute
+
+  2. Changes
+    - `signals.source_id` records which source produced a signal (NULL for the admin form)
+
+  3. Functions
+    - `issue_source_api_key()` generates a key for a source and returns it once
+    - `consume_ingestion_quota()` counts a request against the source's per-minute limit
+
+  4. Security
+    - Only admins can manage sources and keys; key hashes are never readable
+    - Idempotency and rate limit tables have no policies and are only reached
+      by the `ingest-signals` edge function through the service role
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS signal_sources (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE,
+    rate_limit_per_minute integer NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute > 0),
+    created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS source_api_keys (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_id uuid NOT NULL REFERENCES signal_sources(id) ON DELETE CASCADE,
+    label text,
+    key_prefix text NOT NULL,
+    key_hash text NOT NULL UNIQUE,
+    created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    last_used_at timestamptz,
+    revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_api_keys_source_id ON source_api_keys(source_id);
+
+CREATE TABLE IF NOT EXISTS ingestion_requests (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_id uuid NOT NULL REFERENCES signal_sources(id) ON DELETE CASCADE,
+    idempotency_key text NOT NULL,
+    request_hash text NOT NULL,
+    status_code integer,
+    response jsonb,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    completed_at timestamptz,
+    UNIQUE (source_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_requests_created_at ON ingestion_requests(created_at);
+
+CREATE TABLE IF NOT EXISTS ingestion_rate_windows (
+    source_id uuid NOT NULL REFERENCES signal_sources(id) ON DELETE CASCADE,
+    window_start timestamptz NOT NULL,
+    request_count integer NOT NULL DEFAULT 0,
+    PRIMARY KEY (source_id, window_start)
+);
+
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS source_id uuid REFERENCES signal_sources(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_signals_source_id ON signals(source_id);
+
+ALTER TABLE signal_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE source_api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingestion_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingestion_rate_windows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read signal sources"
+  ON signal_sources
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE POLICY "Admins can add signal sources"
+  ON signal_sources
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE POLICY "Admins can update signal sources"
+  ON signal_sources
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE POLICY "Admins can read source API keys"
+  ON source_api_keys
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE POLICY "Admins can revoke source API keys"
+  ON source_api_keys
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+-- The hash is only compared by the edge function, never shown in the admin panel
+REVOKE SELECT ON source_api_keys FROM anon, authenticated;
+GRANT SELECT (id, source_id, label, key_prefix, created_by, created_at, last_used_at, revoked_at)
+    ON source_api_keys TO authenticated;
+
+-- Generate a key for a source; the plaintext is returned once and only its hash is kept
+CREATE OR REPLACE FUNCTION issue_source_api_key(p_source_id UUID, p_label TEXT DEFAULT NULL)
+RETURNS TEXT AS $$
+DECLARE
+    v_key TEXT;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can issue API keys' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM signal_sources WHERE signal_sources.id = p_source_id) THEN
+        RAISE EXCEPTION 'Signal source % does not exist', p_source_id USING ERRCODE = 'P0002';
+    END IF;
+
+    v_key := 'prv_' || encode(gen_random_bytes(24), 'hex');
+
+    INSERT INTO source_api_keys (source_id, label, key_prefix, key_hash, created_by)
+    VALUES (p_source_id, NULLIF(TRIM(p_label), ''), LEFT(v_key, 12), encode(digest(v_key, 'sha256'), 'hex'), auth.uid());
+
+    RETURN v_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Fixed one-minute windows; stale windows are dropped as new ones open
+CREATE OR REPLACE FUNCTION consume_ingestion_quota(p_source_id UUID)
+RETURNS TABLE (
+    allowed BOOLEAN,
+    remaining INTEGER,
+    reset_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_limit INTEGER;
+    v_window TIMESTAMPTZ := date_trunc('minute', NOW());
+    v_count INTEGER;
+BEGIN
+    SELECT signal_sources.rate_limit_per_minute INTO v_limit
+    FROM signal_sources
+    WHERE signal_sources.id = p_source_id;
+
+    INSERT INTO ingestion_rate_windows AS windows (source_id, window_start, request_count)
+    VALUES (p_source_id, v_window, 1)
+    ON CONFLICT (source_id, window_start)
+    DO UPDATE SET request_count = windows.request_count + 1
+    RETURNING windows.request_count INTO v_count;
+
+    DELETE FROM ingestion_rate_windows
+    WHERE ingestion_rate_windows.source_id = p_source_id
+    AND ingestion_rate_windows.window_start < v_window;
+
+    RETURN QUERY SELECT v_count <= v_limit, GREATEST(v_limit - v_count, 0), v_window + INTERVAL '1 minute';
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION consume_ingestion_quota(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_ingestion_quota(UUID) TO service_role;
@@ -0,0 +1,313 @@
+/*
+  # Signal source registry and provenance
+
+  1. Changes to `signal_sources`
+    - `kind` - device, wearable, acoustic monitor, pharmacy, lab, sampling site, partner system or other
+    - `owner_organization` - Who operates the source
+    - `location`, `latitude`, `longitude` - Where the source sits, when it is fixed
+    - `reliability_weight` - 0 to 1; how far its readings are trusted when scoring events
+    - `is_active` - Inactive sources are refused by the ingestion API
+    - `updated_at`
+
+  2. Changes to `events`
+    - `source_quality` - Mean reliability of the sources behind the event's cluster
+
+  3. Functions
+    - `source_reliability()` - Weight of a signal's source; signals entered through the
+      admin console have no source and count as fully reliable
+    - `signal_source_stats()` - Signal volume, last reading and event count per source
+    - `create_event_from_signals()` scales event confidence by the cluster's source quality
+
+  4. Security
+    - `source_reliability()` runs as definer because the event trigger runs as the
+      inserting user, who cannot read the source registry
+*/
+
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'other'
+    CHECK (kind IN ('device', 'wearable', 'acoustic_monitor', 'pharmacy', 'lab', 'sampling_site', 'partner_system', 'other'));
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS owner_organization text;
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS location text;
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS latitude double precision CHECK (latitude BETWEEN -90 AND 90);
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS longitude double precision CHECK (longitude BETWEEN -180 AND 180);
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS reliability_weight numeric NOT NULL DEFAULT 1
+    CHECK (reliability_weight >= 0 AND reliability_weight <= 1);
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS source_quality numeric;
+
+CREATE INDEX IF NOT EXISTS idx_signals_source_id_timestamp ON signals(source_id, timestamp DESC);
+
+CREATE OR REPLACE FUNCTION touch_signal_source()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_touch_signal_source ON signal_sources;
+CREATE TRIGGER trigger_touch_signal_source
+    BEFORE UPDATE ON signal_sources
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_signal_source();
+
+-- Weight of the source behind a signal; admin console entries have none and count in full
+CREATE OR REPLACE FUNCTION source_reliability(p_source_id UUID)
+RETURNS NUMERIC AS $$
+BEGIN
+    RETURN COALESCE(
+        (SELECT signal_sources.reliability_weight FROM signal_sources WHERE signal_sources.id = p_source_id),
+        1
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Per-source activity for the admin registry; RLS on signal_sources limits it to admins
+CREATE OR REPLACE FUNCTION signal_source_stats()
+RETURNS TABLE (
+    source_id UUID,
+    total_signals INTEGER,
+    signals_24h INTEGER,
+    signals_7d INTEGER,
+    last_signal_at TIMESTAMPTZ,
+    event_count INTEGER,
+    active_key_count INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        signal_sources.id,
+        COUNT(signals.id)::INTEGER,
+        COUNT(signals.id) FILTER (WHERE signals.timestamp >= NOW() - INTERVAL '24 hours')::INTEGER,
+        COUNT(signals.id) FILTER (WHERE signals.timestamp >= NOW() - INTERVAL '7 days')::INTEGER,
+        MAX(signals.timestamp),
+        (
+            SELECT COUNT(*)::INTEGER
+            FROM events
+            WHERE EXISTS (
+                SELECT 1 FROM signals AS contributed
+                WHERE contributed.source_id = signal_sources.id
+                AND contributed.id = ANY(events.signal_ids)
+            )
+        ),
+        (
+            SELECT COUNT(*)::INTEGER
+            FROM source_api_keys
+            WHERE source_api_keys.source_id = signal_sources.id
+            AND source_api_keys.revoked_at IS NULL
+        )
+    FROM signal_sources
+    LEFT JOIN signals ON signals.source_id = signal_sources.id
+    GROUP BY signal_sources.id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Event creation trigger weighing detection confidence by source quality
+CREATE OR REPLACE FUNCTION create_event_from_signals()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_rule detection_settings%ROWTYPE;
+    v_detection RECORD;
+    v_signal_count INTEGER;
+    v_high_count INTEGER;
+    v_medium_count INTEGER;
+    v_low_count INTEGER;
+    v_center_latitude DOUBLE PRECISION;
+    v_center_longitude DOUBLE PRECISION;
+    v_signal_ids UUID[];
+    v_event_severity TEXT;
+    v_event_title TEXT;
+    v_event_description TEXT;
+    v_existing_event_count INTEGER;
+    v_new_event_id UUID;
+    v_alert_id UUID;
+    v_blog_id UUID;
+    v_twenty_four_hours_ago TIMESTAMPTZ;
+    v_radius_km NUMERIC;
+    v_bounds RECORD;
+    v_source_quality NUMERIC;
+    v_confidence DOUBLE PRECISION;
+BEGIN
+    v_twenty_four_hours_ago := NOW() - INTERVAL '24 hours';
+    v_radius_km := cluster_radius_km();
+
+    SELECT * INTO v_bounds FROM cluster_bounds(NEW.latitude, NEW.longitude, v_radius_km);
+    v_rule := resolve_detection_settings(NEW.type, NEW.location);
+
+    SELECT * INTO v_detection
+    FROM detect_signal_anomaly(NEW.latitude, NEW.longitude, NEW.location, NEW.type);
+
+    -- Readings from less reliable sources lower how sure we are of the cluster
+    SELECT AVG(source_reliability(cluster.source_id))
+    INTO v_source_quality
+    FROM cluster_signals(NEW.latitude, NEW.longitude, NEW.location, v_twenty_four_hours_ago, NEW.type) AS cluster;
+
+    v_source_quality := COALESCE(v_source_quality, source_reliability(NEW.source_id));
+    v_confidence := v_detection.confidence * v_source_quality;
+
+    -- Check if an active event of this type already covers the cluster
+    SELECT COUNT(*) INTO v_existing_event_count
+    FROM events
+    WHERE events.status = 'active'
+    AND events.created_at >= v_twenty_four_hours_ago
+    AND LOWER(events.type) = LOWER(NEW.type)
+    AND (
+        events.latitude IS NULL
+        OR events.longitude IS NULL
+        OR (
+            events.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+            AND events.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+        )
+    )
+    AND signal_in_cluster(
+        NEW.latitude, NEW.longitude, NEW.location,
+        events.latitude, events.longitude, events.location, v_radius_km
+    );
+
+    IF v_existing_event_count > 0 THEN
+        -- Note the additional signal; update_event_signal_count() recounts
+        UPDATE events
+        SET updated_at = NOW(),
+            anomaly_score = GREATEST(COALESCE(events.anomaly_score, 0), v_detection.anomaly_score),
+            confidence = GREATEST(COALESCE(events.confidence, 0), v_confidence),
+            source_quality = v_source_quality,
+            description = events.description || ' Updated: ' || TO_CHAR(NOW(), 'HH24:MI') || ' - Additional signal detected.'
+        WHERE events.status = 'active'
+        AND events.created_at >= v_twenty_four_hours_ago
+        AND LOWER(events.type) = LOWER(NEW.type)
+        AND (
+            events.latitude IS NULL
+            OR events.longitude IS NULL
+            OR (
+                events.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+                AND events.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+            )
+        )
+        AND signal_in_cluster(
+            NEW.latitude, NEW.longitude, NEW.location,
+            events.latitude, events.longitude, events.location, v_radius_km
+        );
+    ELSIF v_detection.is_anomaly THEN
+        -- Summarise the cluster around the new signal
+        SELECT
+            COUNT(*),
+            COUNT(CASE WHEN cluster.severity = 'high' THEN 1 END),
+            COUNT(CASE WHEN cluster.severity = 'medium' THEN 1 END),
+            COUNT(CASE WHEN cluster.severity = 'low' THEN 1 END),
+            AVG(cluster.latitude),
+            AVG(cluster.longitude),
+            ARRAY_AGG(cluster.id)
+        INTO v_signal_count, v_high_count, v_medium_count, v_low_count,
+             v_center_latitude, v_center_longitude, v_signal_ids
+        FROM cluster_signals(NEW.latitude, NEW.longitude, NEW.location, v_twenty_four_hours_ago, NEW.type) AS cluster;
+
+        -- Cluster size against the rule, then the mix of signal severities
+        IF v_signal_count >= v_rule.high_threshold
+           OR v_high_count >= 3 OR (v_high_count >= 2 AND v_signal_count >= 8) THEN
+            v_event_severity := 'high';
+        ELSIF v_signal_count >= v_rule.medium_threshold
+           OR v_medium_count >= 3 OR (v_medium_count >= 2 AND v_high_count >= 1) THEN
+            v_event_severity := 'medium';
+        ELSE
+            v_event_severity := 'low';
+        END IF;
+
+        -- Create event title and description
+        v_event_title := NEW.type || ' cluster detected – ' || SPLIT_PART(NEW.location, ',', 1);
+        v_event_description := 'Unusual spike in ' || NEW.type || ' signals detected in ' || NEW.location || ' area. ' ||
+                            v_signal_count || ' signals reported within 24 hours against an expected ' ||
+                            ROUND(v_detection.ewma::NUMERIC, 1) || ' per day (z-score ' || ROUND(v_detection.z_score::NUMERIC, 1) || '). ' ||
+                            'Severity distribution: High (' || v_high_count || '), Medium (' || v_medium_count || '), Low (' || v_low_count || '). ' ||
+                            'Automated cluster detection triggered by AI monitoring system.';
+
+        -- Create the event at the cluster centroid
+        INSERT INTO events (
+            title,
+            location,
+            latitude,
+            longitude,
+            type,
+            severity,
+            status,
+            signal_ids,
+            signal_count,
+            anomaly_score,
+            confidence,
+            source_quality,
+            description
+        ) VALUES (
+            v_event_title,
+            NEW.location,
+            COALESCE(v_center_latitude, NEW.latitude),
+            COALESCE(v_center_longitude, NEW.longitude),
+            NEW.type,
+            v_event_severity,
+            'active',
+            v_signal_ids,
+            v_signal_count,
+            v_detection.anomaly_score,
+            v_confidence,
+            v_source_quality,
+            v_event_description
+        ) RETURNING id INTO v_new_event_id;
+
+        -- Create corresponding alert
+        INSERT INTO alerts (
+            title,
+            location,
+            type,
+            severity,
+            status
+        ) VALUES (
+            CASE
+                WHEN v_event_severity = 'high' THEN 'URGENT: '
+                WHEN v_event_severity = 'medium' THEN 'ALERT: '
+                ELSE 'NOTICE: '
+            END || NEW.type || ' signals spike in ' || SPLIT_PART(NEW.location, ',', 1),
+            NEW.location,
+            NEW.type,
+            v_event_severity,
+            'active'
+        ) RETURNING id INTO v_alert_id;
+
+        -- Create comprehensive blog post
+        INSERT INTO blogs (
+            event_id,
+            title,
+            content,
+            summary,
+            location,
+            type,
+            severity,
+            author,
+            published,
+            published_at
+        ) VALUES (
+            v_new_event_id,
+            CASE
+                WHEN v_event_severity = 'high' THEN 'URGENT Health Alert: '
+                WHEN v_event_severity = 'medium' THEN 'Health Alert: '
+                ELSE 'Health Notice: '
+            END || NEW.type || ' signal spike detected in ' || SPLIT_PART(NEW.location, ',', 1),
+            compose_event_blog_content(
+                v_new_event_id, v_alert_id, NEW.type, NEW.location, v_event_severity,
+                v_signal_count, v_high_count, v_medium_count, v_low_count
+            ),
+            'Increased ' || NEW.type || ' activity detected in ' || NEW.location || ' - early warning issued.',
+            NEW.location,
+            NEW.type,
+            v_event_severity,
+            'Prevora AI System',
+            true,
+            NOW()
+        ) RETURNING id INTO v_blog_id;
+
+        -- Log the event creation for monitoring
+        RAISE NOTICE 'Event created: ID=%, Signals=%, Severity=%, Anomaly=%, Blog=%, Alert=%',
+            v_new_event_id, v_signal_count, v_event_severity, v_detection.anomaly_score, v_blog_id, v_alert_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
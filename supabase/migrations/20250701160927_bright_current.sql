@@ -0,0 +1,36 @@
+/*
+  # Publish signals, events and alerts over Realtime
+
+  1. Changes
+    - Adds `signals`, `events` and `alerts` to the `supabase_realtime` publication so the
+      live monitor, event feed and dashboard receive inserts, updates and deletes as they happen
+    - Row level security still applies to what each subscriber receives
+
+  2. Notes
+    - `REPLICA IDENTITY FULL` on `events` and `alerts` so updates carry the previous row,
+      letting clients notice status and severity transitions
+*/
+
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        CREATE PUBLICATION supabase_realtime;
+    END IF;
+
+    FOREACH v_table IN ARRAY ARRAY['signals', 'events', 'alerts'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime'
+            AND schemaname = 'public'
+            AND tablename = v_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+        END IF;
+    END LOOP;
+END;
+$$;
+
+ALTER TABLE events REPLICA IDENTITY FULL;
+ALTER TABLE alerts REPLICA IDENTITY FULL;
@@ -0,0 +1,345 @@
+/*
+  # Event lifecycle with recorded transitions
+
+  1. Lifecycle
+    - Statuses: `active`, `monitoring`, `resolved` and the new terminal `merged`
+    - Allowed status changes:
+      - active -> monitoring, resolved, merged
+      - monitoring -> active, resolved, merged
+      - resolved -> active (reopen)
+    - Any other status change is rejected by `enforce_event_transition()`
+
+  2. New Tables
+    - `event_status_history` - One row per status or severity change
+      - `action` - created, escalate, downgrade, merge, absorb, resolve, reopen, auto_resolve or system
+      - `from_status` / `to_status`, `from_severity` / `to_severity`
+      - `related_event_id` - The other event in a merge
+      - `reason`, `changed_by`, `changed_by_name`, `changed_at`
+
+  3. Changes to `events`
+    - `merged_into_id` - Event a merged event was folded into
+    - `resolved_at` - When the event was last resolved
+
+  4. Functions
+    - `transition_event()` - Admin action: escalate, downgrade, resolve, reopen or merge, with a reason
+      - escalate: monitoring -> active, or raise the severity of an active event
+      - downgrade: lower the severity, or move a low severity active event to monitoring
+      - merge: fold the event into another open event, combining signals and scores
+    - `auto_resolve_old_events()` records its transitions instead of appending to `description`
+
+  5. Security
+    - Everyone can read the history, as they can read events
+    - History is only written by definer triggers and `transition_event()`
+*/
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_status_check;
+ALTER TABLE events ADD CONSTRAINT events_status_check
+    CHECK (status IN ('active', 'monitoring', 'resolved', 'merged'));
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS merged_into_id uuid REFERENCES events(id) ON DELETE SET NULL;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS event_status_history (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    action text NOT NULL CHECK (action IN (
+        'created', 'escalate', 'downgrade', 'merge', 'absorb', 'resolve', 'reopen', 'auto_resolve', 'system'
+    )),
+    from_status text,
+    to_status text NOT NULL,
+    from_severity text,
+    to_severity text NOT NULL,
+    related_event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+    reason text,
+    changed_by uuid,
+    changed_by_name text,
+    changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_status_history_event_id ON event_status_history(event_id, changed_at);
+
+ALTER TABLE event_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read event status history"
+  ON event_status_history
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Backfill a starting point for events created before the lifecycle existed
+INSERT INTO event_status_history (event_id, action, to_status, to_severity, reason, changed_at)
+SELECT events.id, 'created', events.status, events.severity, 'Recorded before lifecycle tracking', events.created_at
+FROM events
+WHERE NOT EXISTS (
+    SELECT 1 FROM event_status_history WHERE event_status_history.event_id = events.id
+);
+
+UPDATE events
+SET resolved_at = COALESCE(events.updated_at, events.created_at)
+WHERE events.status = 'resolved'
+AND events.resolved_at IS NULL;
+
+CREATE OR REPLACE FUNCTION event_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN p_from = p_to
+        OR (p_from = 'active' AND p_to IN ('monitoring', 'resolved', 'merged'))
+        OR (p_from = 'monitoring' AND p_to IN ('active', 'resolved', 'merged'))
+        OR (p_from = 'resolved' AND p_to = 'active');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_event_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT event_transition_allowed(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Event % cannot move from % to %', OLD.id, OLD.status, NEW.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'resolved' AND OLD.status <> 'resolved' THEN
+        NEW.resolved_at := NOW();
+    ELSIF NEW.status <> 'resolved' THEN
+        NEW.resolved_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_event_transition ON events;
+CREATE TRIGGER trigger_enforce_event_transition
+    BEFORE UPDATE OF status ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_event_transition();
+
+-- Record status and severity changes; callers describe them through transaction-local settings
+CREATE OR REPLACE FUNCTION record_event_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_action TEXT;
+    v_changed_by_name TEXT;
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.status = NEW.status AND OLD.severity = NEW.severity THEN
+        RETURN NEW;
+    END IF;
+
+    v_action := COALESCE(
+        NULLIF(current_setting('prevora.event_action', true), ''),
+        CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'system' END
+    );
+
+    SELECT COALESCE(NULLIF(user_profiles.username, ''), user_profiles.full_name)
+    INTO v_changed_by_name
+    FROM user_profiles
+    WHERE user_profiles.id = auth.uid();
+
+    INSERT INTO event_status_history (
+        event_id, action, from_status, to_status, from_severity, to_severity,
+        related_event_id, reason, changed_by, changed_by_name
+    ) VALUES (
+        NEW.id,
+        CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE v_action END,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+        NEW.status,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.severity END,
+        NEW.severity,
+        NEW.merged_into_id,
+        CASE
+            WHEN TG_OP = 'INSERT' THEN 'Cluster detected from ' || NEW.signal_count || ' signals'
+            ELSE NULLIF(current_setting('prevora.event_reason', true), '')
+        END,
+        auth.uid(),
+        v_changed_by_name
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_record_event_status_change ON events;
+CREATE TRIGGER trigger_record_event_status_change
+    AFTER INSERT OR UPDATE OF status, severity ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION record_event_status_change();
+
+-- Admin lifecycle actions
+CREATE OR REPLACE FUNCTION transition_event(
+    p_event_id UUID,
+    p_action TEXT,
+    p_reason TEXT,
+    p_target_event_id UUID DEFAULT NULL
+)
+RETURNS events AS $$
+DECLARE
+    v_event events%ROWTYPE;
+    v_target events%ROWTYPE;
+    v_levels TEXT[] := ARRAY['low', 'medium', 'high'];
+    v_level INTEGER;
+    v_status TEXT;
+    v_severity TEXT;
+    v_signal_ids UUID[];
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can change event status' USING ERRCODE = '42501';
+    END IF;
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_event FROM events WHERE events.id = p_event_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event % does not exist', p_event_id USING ERRCODE = 'P0002';
+    END IF;
+
+    v_level := array_position(v_levels, v_event.severity);
+    v_status := v_event.status;
+    v_severity := v_event.severity;
+
+    CASE p_action
+        WHEN 'escalate' THEN
+            IF v_event.status = 'monitoring' THEN
+                v_status := 'active';
+            ELSIF v_event.status = 'active' AND v_level < 3 THEN
+                v_severity := v_levels[v_level + 1];
+            ELSE
+                RAISE EXCEPTION 'A % % event cannot be escalated', v_event.severity, v_event.status
+                    USING ERRCODE = 'check_violation';
+            END IF;
+        WHEN 'downgrade' THEN
+            IF v_event.status NOT IN ('active', 'monitoring') THEN
+                RAISE EXCEPTION 'A % event cannot be downgraded', v_event.status USING ERRCODE = 'check_violation';
+            ELSIF v_level > 1 THEN
+                v_severity := v_levels[v_level - 1];
+            ELSIF v_event.status = 'active' THEN
+                v_status := 'monitoring';
+            ELSE
+                RAISE EXCEPTION 'Event is already low severity and under monitoring' USING ERRCODE = 'check_violation';
+            END IF;
+        WHEN 'resolve' THEN
+            v_status := 'resolved';
+        WHEN 'reopen' THEN
+            v_status := 'active';
+        WHEN 'merge' THEN
+            IF p_target_event_id IS NULL OR p_target_event_id = p_event_id THEN
+                RAISE EXCEPTION 'Choose another event to merge into' USING ERRCODE = '22023';
+            END IF;
+
+            SELECT * INTO v_target FROM events WHERE events.id = p_target_event_id FOR UPDATE;
+            IF NOT FOUND OR v_target.status NOT IN ('active', 'monitoring') THEN
+                RAISE EXCEPTION 'Events can only be merged into an open event' USING ERRCODE = 'check_violation';
+            END IF;
+
+            v_status := 'merged';
+        ELSE
+            RAISE EXCEPTION 'Unknown event action %', p_action USING ERRCODE = '22023';
+    END CASE;
+
+    IF NOT event_transition_allowed(v_event.status, v_status) THEN
+        RAISE EXCEPTION 'Event cannot move from % to %', v_event.status, v_status USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM set_config('prevora.event_action', p_action, true);
+    PERFORM set_config('prevora.event_reason', TRIM(p_reason), true);
+
+    UPDATE events
+    SET status = v_status,
+        severity = v_severity,
+        merged_into_id = CASE WHEN p_action = 'merge' THEN p_target_event_id ELSE events.merged_into_id END,
+        updated_at = NOW()
+    WHERE events.id = p_event_id
+    RETURNING * INTO v_event;
+
+    IF p_action = 'merge' THEN
+        SELECT ARRAY_AGG(DISTINCT signal_id)
+        INTO v_signal_ids
+        FROM UNNEST(COALESCE(v_target.signal_ids, '{}') || COALESCE(v_event.signal_ids, '{}')) AS signal_id;
+
+        PERFORM set_config('prevora.event_action', 'absorb', true);
+
+        UPDATE events
+        SET signal_ids = v_signal_ids,
+            signal_count = COALESCE(ARRAY_LENGTH(v_signal_ids, 1), 0),
+            severity = v_levels[GREATEST(array_position(v_levels, v_target.severity), v_level)],
+            anomaly_score = GREATEST(v_target.anomaly_score, v_event.anomaly_score),
+            confidence = GREATEST(v_target.confidence, v_event.confidence),
+            updated_at = NOW()
+        WHERE events.id = p_target_event_id;
+
+        -- The target's severity may not change, so note the merge on its timeline directly
+        INSERT INTO event_status_history (
+            event_id, action, from_status, to_status, from_severity, to_severity,
+            related_event_id, reason, changed_by, changed_by_name
+        )
+        SELECT
+            p_target_event_id, 'absorb', v_target.status, v_target.status, v_target.severity, events.severity,
+            p_event_id, TRIM(p_reason), auth.uid(),
+            (SELECT COALESCE(NULLIF(user_profiles.username, ''), user_profiles.full_name) FROM user_profiles WHERE user_profiles.id = auth.uid())
+        FROM events
+        WHERE events.id = p_target_event_id
+        AND events.severity = v_target.severity;
+    END IF;
+
+    PERFORM set_config('prevora.event_action', '', true);
+    PERFORM set_config('prevora.event_reason', '', true);
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Resolve events whose cluster has gone quiet, and the alerts raised for them
+CREATE OR REPLACE FUNCTION auto_resolve_old_events()
+RETURNS void AS $$
+DECLARE
+    v_seventy_two_hours_ago TIMESTAMPTZ;
+    v_radius_km NUMERIC;
+BEGIN
+    v_seventy_two_hours_ago := NOW() - INTERVAL '72 hours';
+    v_radius_km := cluster_radius_km();
+
+    PERFORM set_config('prevora.event_action', 'auto_resolve', true);
+    PERFORM set_config('prevora.event_reason', 'No signals of this type in the cluster for 48 hours', true);
+
+    -- Auto-resolve events older than 72 hours with no recent signals of their type
+    UPDATE events
+    SET status = 'resolved',
+        updated_at = NOW()
+    WHERE events.status = 'active'
+    AND events.created_at < v_seventy_two_hours_ago
+    AND NOT EXISTS (
+        SELECT 1 FROM signals
+        WHERE signals.created_at >= NOW() - INTERVAL '48 hours'
+        AND LOWER(signals.type) = LOWER(events.type)
+        AND signal_in_cluster(
+            signals.latitude, signals.longitude, signals.location,
+            events.latitude, events.longitude, events.location, v_radius_km
+        )
+    );
+
+    PERFORM set_config('prevora.event_action', '', true);
+    PERFORM set_config('prevora.event_reason', '', true);
+
+    -- Also resolve corresponding alerts
+    UPDATE alerts
+    SET status = 'resolved'
+    WHERE alerts.status = 'active'
+    AND alerts.issued_at < v_seventy_two_hours_ago
+    AND EXISTS (
+        SELECT 1 FROM events
+        WHERE events.status = 'resolved'
+        AND (
+            events.id = alerts.event_id
+            OR (
+                alerts.event_id IS NULL
+                AND LOWER(events.type) = LOWER(alerts.type)
+                AND normalize_location(events.location) = normalize_location(alerts.location)
+            )
+        )
+    );
+END;
+$$ LANGUAGE plpgsql;
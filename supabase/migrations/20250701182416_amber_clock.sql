@@ -0,0 +1,213 @@
+/*
+  # Scheduled housekeeping jobs
+
+  1. New Tables
+    - `scheduled_jobs` - Catalogue of recurring jobs
+      - `name` - Job identifier passed to `run_scheduled_job()`
+      - `description`, `schedule` (cron expression), `is_enabled`
+    - `job_runs` - One row per execution
+      - `job_name`, `trigger` (schedule or manual), `status` (running, succeeded, failed)
+      - `affected_rows`, `details`, `error`, `started_at`, `finished_at`, `triggered_by`
+
+  2. Jobs
+    - `auto_resolve_events` - Runs `auto_resolve_old_events()` every 15 minutes
+    - `expire_alerts` - Resolves active alerts whose `expires_at` has passed, every 5 minutes
+    - `purge_admin_otps` - Deletes used OTPs and OTPs expired for over a day, hourly
+    - `purge_operational_data` - Deletes idempotency records older than 24 hours,
+      rate limit windows older than an hour and job runs older than 30 days, daily
+
+  3. Functions
+    - `run_scheduled_job()` - Runs one job and records the outcome in `job_runs`;
+      called by pg_cron, or by an admin from the System Status card
+
+  4. Security
+    - Admins can read both tables and toggle `is_enabled`
+    - Only admins and the scheduler can run jobs
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+    name text PRIMARY KEY,
+    description text NOT NULL,
+    schedule text NOT NULL,
+    is_enabled boolean NOT NULL DEFAULT true
+);
+
+CREATE TABLE IF NOT EXISTS job_runs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_name text NOT NULL REFERENCES scheduled_jobs(name) ON DELETE CASCADE,
+    trigger text NOT NULL DEFAULT 'schedule' CHECK (trigger IN ('schedule', 'manual')),
+    status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+    affected_rows integer,
+    details jsonb,
+    error text,
+    triggered_by uuid,
+    started_at timestamptz NOT NULL DEFAULT now(),
+    finished_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_name ON job_runs(job_name, started_at DESC);
+
+ALTER TABLE scheduled_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read scheduled jobs"
+  ON scheduled_jobs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE POLICY "Admins can pause scheduled jobs"
+  ON scheduled_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE POLICY "Admins can read job runs"
+  ON job_runs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+INSERT INTO scheduled_jobs (name, description, schedule) VALUES
+    ('auto_resolve_events', 'Resolve events with no signals in their cluster for 48 hours', '*/15 * * * *'),
+    ('expire_alerts', 'Resolve active alerts past their expiry time', '*/5 * * * *'),
+    ('purge_admin_otps', 'Delete used and expired admin OTP codes', '0 * * * *'),
+    ('purge_operational_data', 'Delete old idempotency records, rate limit windows and job runs', '30 3 * * *')
+ON CONFLICT (name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION run_scheduled_job(p_job_name TEXT, p_trigger TEXT DEFAULT 'schedule')
+RETURNS job_runs AS $$
+DECLARE
+    v_job scheduled_jobs%ROWTYPE;
+    v_run job_runs%ROWTYPE;
+    v_started_at TIMESTAMPTZ := clock_timestamp();
+    v_count INTEGER := 0;
+    v_details JSONB;
+    v_requests INTEGER;
+    v_windows INTEGER;
+    v_runs INTEGER;
+BEGIN
+    -- Signed-in callers must be admins; the scheduler runs without a user
+    IF auth.uid() IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can run scheduled jobs' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_job FROM scheduled_jobs WHERE scheduled_jobs.name = p_job_name;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown scheduled job %', p_job_name USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Paused jobs still run when started by hand
+    IF NOT v_job.is_enabled AND p_trigger = 'schedule' THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO job_runs (job_name, trigger, triggered_by, started_at)
+    VALUES (p_job_name, p_trigger, auth.uid(), v_started_at)
+    RETURNING * INTO v_run;
+
+    BEGIN
+        CASE p_job_name
+            WHEN 'auto_resolve_events' THEN
+                PERFORM auto_resolve_old_events();
+
+                SELECT COUNT(*) INTO v_count
+                FROM event_status_history
+                WHERE event_status_history.action = 'auto_resolve'
+                AND event_status_history.changed_at >= v_started_at;
+            WHEN 'expire_alerts' THEN
+                UPDATE alerts
+                SET status = 'resolved'
+                WHERE alerts.status <> 'resolved'
+                AND alerts.expires_at IS NOT NULL
+                AND alerts.expires_at <= NOW();
+
+                GET DIAGNOSTICS v_count = ROW_COUNT;
+            WHEN 'purge_admin_otps' THEN
+                DELETE FROM admin_otps
+                WHERE admin_otps.used = true
+                OR admin_otps.expires_at < NOW() - INTERVAL '1 day';
+
+                GET DIAGNOSTICS v_count = ROW_COUNT;
+            WHEN 'purge_operational_data' THEN
+                DELETE FROM ingestion_requests WHERE ingestion_requests.created_at < NOW() - INTERVAL '24 hours';
+                GET DIAGNOSTICS v_requests = ROW_COUNT;
+
+                DELETE FROM ingestion_rate_windows WHERE ingestion_rate_windows.window_start < NOW() - INTERVAL '1 hour';
+                GET DIAGNOSTICS v_windows = ROW_COUNT;
+
+                DELETE FROM job_runs
+                WHERE job_runs.started_at < NOW() - INTERVAL '30 days'
+                AND job_runs.id <> v_run.id;
+                GET DIAGNOSTICS v_runs = ROW_COUNT;
+
+                v_count := v_requests + v_windows + v_runs;
+                v_details := jsonb_build_object(
+                    'ingestion_requests', v_requests,
+                    'ingestion_rate_windows', v_windows,
+                    'job_runs', v_runs
+                );
+        END CASE;
+
+        UPDATE job_runs
+        SET status = 'succeeded',
+            affected_rows = v_count,
+            details = v_details,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    EXCEPTION WHEN OTHERS THEN
+        -- The job's own changes are rolled back; the run is kept as failed
+        UPDATE job_runs
+        SET status = 'failed',
+            error = SQLERRM,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    END;
+
+    RETURN v_run;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION run_scheduled_job(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION run_scheduled_job(TEXT, TEXT) TO authenticated, service_role;
+
+-- Register every catalogued job with pg_cron; re-running replaces existing schedules
+DO $$
+DECLARE
+    v_job RECORD;
+BEGIN
+    FOR v_job IN SELECT * FROM scheduled_jobs LOOP
+        PERFORM cron.schedule(
+            'prevora_' || v_job.name,
+            v_job.schedule,
+            format('SELECT run_scheduled_job(%L)', v_job.name)
+        );
+    END LOOP;
+END;
+$$;
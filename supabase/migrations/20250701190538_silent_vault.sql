@@ -0,0 +1,331 @@
+/*
+  # Retention policies with archival
+
+  1. New Tables
+    - `retention_policies` - How long to keep rows in `signals`, `alerts` and `events`
+      - `table_name` - signals, alerts or events
+      - `retain_days` - Rows older than this are removed
+      - `action` - `archive` copies rows to `archived_records` first, `purge` deletes outright
+      - `is_enabled`, `updated_at`, `updated_by`
+    - `archived_records` - Removed rows kept as JSON
+      - `source_table`, `record_id`, `record`, `archived_at`
+
+  2. What is eligible
+    - Signals created before the cutoff
+    - Resolved alerts created before the cutoff
+    - Resolved or merged events last resolved or updated before the cutoff; events still
+      referenced by an alert or blog are kept until those are removed
+
+  3. Functions
+    - `apply_retention()` - Applies every enabled policy and returns per-table counts;
+      with `p_dry_run` it only counts what would be removed
+    - `run_scheduled_job()` gains an `apply_retention` job, run daily
+
+  4. Security
+    - Only admins can read or change policies, read the archive and apply retention
+*/
+
+CREATE TABLE IF NOT EXISTS retention_policies (
+    table_name text PRIMARY KEY CHECK (table_name IN ('signals', 'alerts', 'events')),
+    retain_days integer NOT NULL CHECK (retain_days > 0),
+    action text NOT NULL DEFAULT 'archive' CHECK (action IN ('archive', 'purge')),
+    is_enabled boolean NOT NULL DEFAULT false,
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS archived_records (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_table text NOT NULL,
+    record_id uuid NOT NULL,
+    record jsonb NOT NULL,
+    archived_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_archived_records_source ON archived_records(source_table, archived_at DESC);
+CREATE INDEX IF NOT EXISTS idx_archived_records_record_id ON archived_records(record_id);
+
+ALTER TABLE retention_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE archived_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read retention policies"
+  ON retention_policies
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE POLICY "Admins can update retention policies"
+  ON retention_policies
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE POLICY "Admins can read archived records"
+  ON archived_records
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+-- Matches the defaults the settings page used to show; disabled until an admin opts in
+INSERT INTO retention_policies (table_name, retain_days) VALUES
+    ('signals', 90),
+    ('alerts', 365),
+    ('events', 365)
+ON CONFLICT (table_name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION touch_retention_policy()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    NEW.updated_by := auth.uid();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_touch_retention_policy ON retention_policies;
+CREATE TRIGGER trigger_touch_retention_policy
+    BEFORE UPDATE ON retention_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_retention_policy();
+
+CREATE OR REPLACE FUNCTION apply_retention(p_dry_run BOOLEAN DEFAULT true)
+RETURNS TABLE (
+    target_table TEXT,
+    policy_action TEXT,
+    retain_days INTEGER,
+    cutoff TIMESTAMPTZ,
+    affected_rows INTEGER,
+    oldest_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_policy retention_policies%ROWTYPE;
+    v_cutoff TIMESTAMPTZ;
+    v_count INTEGER;
+    v_oldest TIMESTAMPTZ;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can apply retention policies' USING ERRCODE = '42501';
+    END IF;
+
+    -- Alerts go before events so events they pointed at become eligible in the same run
+    FOR v_policy IN
+        SELECT * FROM retention_policies
+        WHERE retention_policies.is_enabled = true
+        ORDER BY array_position(ARRAY['signals', 'alerts', 'events'], retention_policies.table_name)
+    LOOP
+        v_cutoff := NOW() - make_interval(days => v_policy.retain_days);
+
+        CASE v_policy.table_name
+            WHEN 'signals' THEN
+                SELECT COUNT(*), MIN(signals.created_at) INTO v_count, v_oldest
+                FROM signals
+                WHERE signals.created_at < v_cutoff;
+
+                IF NOT p_dry_run AND v_count > 0 THEN
+                    IF v_policy.action = 'archive' THEN
+                        INSERT INTO archived_records (source_table, record_id, record)
+                        SELECT 'signals', signals.id, to_jsonb(signals)
+                        FROM signals
+                        WHERE signals.created_at < v_cutoff;
+                    END IF;
+
+                    DELETE FROM signals WHERE signals.created_at < v_cutoff;
+                    GET DIAGNOSTICS v_count = ROW_COUNT;
+                END IF;
+            WHEN 'alerts' THEN
+                SELECT COUNT(*), MIN(alerts.created_at) INTO v_count, v_oldest
+                FROM alerts
+                WHERE alerts.status = 'resolved'
+                AND alerts.created_at < v_cutoff;
+
+                IF NOT p_dry_run AND v_count > 0 THEN
+                    IF v_policy.action = 'archive' THEN
+                        INSERT INTO archived_records (source_table, record_id, record)
+                        SELECT 'alerts', alerts.id, to_jsonb(alerts)
+                        FROM alerts
+                        WHERE alerts.status = 'resolved'
+                        AND alerts.created_at < v_cutoff;
+                    END IF;
+
+                    DELETE FROM alerts
+                    WHERE alerts.status = 'resolved'
+                    AND alerts.created_at < v_cutoff;
+                    GET DIAGNOSTICS v_count = ROW_COUNT;
+                END IF;
+            WHEN 'events' THEN
+                SELECT COUNT(*), MIN(events.created_at) INTO v_count, v_oldest
+                FROM events
+                WHERE events.status IN ('resolved', 'merged')
+                AND COALESCE(events.resolved_at, events.updated_at, events.created_at) < v_cutoff
+                AND NOT EXISTS (SELECT 1 FROM alerts WHERE alerts.event_id = events.id)
+                AND NOT EXISTS (SELECT 1 FROM blogs WHERE blogs.event_id = events.id);
+
+                IF NOT p_dry_run AND v_count > 0 THEN
+                    IF v_policy.action = 'archive' THEN
+                        INSERT INTO archived_records (source_table, record_id, record)
+                        SELECT 'events', events.id, to_jsonb(events) || jsonb_build_object(
+                            'status_history',
+                            (SELECT COALESCE(jsonb_agg(to_jsonb(event_status_history) ORDER BY event_status_history.changed_at), '[]'::jsonb)
+                             FROM event_status_history
+                             WHERE event_status_history.event_id = events.id)
+                        )
+                        FROM events
+                        WHERE events.status IN ('resolved', 'merged')
+                        AND COALESCE(events.resolved_at, events.updated_at, events.created_at) < v_cutoff
+                        AND NOT EXISTS (SELECT 1 FROM alerts WHERE alerts.event_id = events.id)
+                        AND NOT EXISTS (SELECT 1 FROM blogs WHERE blogs.event_id = events.id);
+                    END IF;
+
+                    DELETE FROM events
+                    WHERE events.status IN ('resolved', 'merged')
+                    AND COALESCE(events.resolved_at, events.updated_at, events.created_at) < v_cutoff
+                    AND NOT EXISTS (SELECT 1 FROM alerts WHERE alerts.event_id = events.id)
+                    AND NOT EXISTS (SELECT 1 FROM blogs WHERE blogs.event_id = events.id);
+                    GET DIAGNOSTICS v_count = ROW_COUNT;
+                END IF;
+        END CASE;
+
+        target_table := v_policy.table_name;
+        policy_action := v_policy.action;
+        retain_days := v_policy.retain_days;
+        cutoff := v_cutoff;
+        affected_rows := v_count;
+        oldest_at := v_oldest;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_retention(BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION apply_retention(BOOLEAN) TO authenticated, service_role;
+
+INSERT INTO scheduled_jobs (name, description, schedule) VALUES
+    ('apply_retention', 'Archive or purge signals, alerts and events past their retention period', '0 4 * * *')
+ON CONFLICT (name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION run_scheduled_job(p_job_name TEXT, p_trigger TEXT DEFAULT 'schedule')
+RETURNS job_runs AS $$
+DECLARE
+    v_job scheduled_jobs%ROWTYPE;
+    v_run job_runs%ROWTYPE;
+    v_started_at TIMESTAMPTZ := clock_timestamp();
+    v_count INTEGER := 0;
+    v_details JSONB;
+    v_requests INTEGER;
+    v_windows INTEGER;
+    v_runs INTEGER;
+BEGIN
+    -- Signed-in callers must be admins; the scheduler runs without a user
+    IF auth.uid() IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can run scheduled jobs' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_job FROM scheduled_jobs WHERE scheduled_jobs.name = p_job_name;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown scheduled job %', p_job_name USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Paused jobs still run when started by hand
+    IF NOT v_job.is_enabled AND p_trigger = 'schedule' THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO job_runs (job_name, trigger, triggered_by, started_at)
+    VALUES (p_job_name, p_trigger, auth.uid(), v_started_at)
+    RETURNING * INTO v_run;
+
+    BEGIN
+        CASE p_job_name
+            WHEN 'auto_resolve_events' THEN
+                PERFORM auto_resolve_old_events();
+
+                SELECT COUNT(*) INTO v_count
+                FROM event_status_history
+                WHERE event_status_history.action = 'auto_resolve'
+                AND event_status_history.changed_at >= v_started_at;
+            WHEN 'expire_alerts' THEN
+                UPDATE alerts
+                SET status = 'resolved'
+                WHERE alerts.status <> 'resolved'
+                AND alerts.expires_at IS NOT NULL
+                AND alerts.expires_at <= NOW();
+
+                GET DIAGNOSTICS v_count = ROW_COUNT;
+            WHEN 'purge_admin_otps' THEN
+                DELETE FROM admin_otps
+                WHERE admin_otps.used = true
+                OR admin_otps.expires_at < NOW() - INTERVAL '1 day';
+
+                GET DIAGNOSTICS v_count = ROW_COUNT;
+            WHEN 'purge_operational_data' THEN
+                DELETE FROM ingestion_requests WHERE ingestion_requests.created_at < NOW() - INTERVAL '24 hours';
+                GET DIAGNOSTICS v_requests = ROW_COUNT;
+
+                DELETE FROM ingestion_rate_windows WHERE ingestion_rate_windows.window_start < NOW() - INTERVAL '1 hour';
+                GET DIAGNOSTICS v_windows = ROW_COUNT;
+
+                DELETE FROM job_runs
+                WHERE job_runs.started_at < NOW() - INTERVAL '30 days'
+                AND job_runs.id <> v_run.id;
+                GET DIAGNOSTICS v_runs = ROW_COUNT;
+
+                v_count := v_requests + v_windows + v_runs;
+                v_details := jsonb_build_object(
+                    'ingestion_requests', v_requests,
+                    'ingestion_rate_windows', v_windows,
+                    'job_runs', v_runs
+                );
+            WHEN 'apply_retention' THEN
+                SELECT COALESCE(SUM(retention.affected_rows), 0), jsonb_object_agg(retention.target_table, retention.affected_rows)
+                INTO v_count, v_details
+                FROM apply_retention(false) AS retention;
+        END CASE;
+
+        UPDATE job_runs
+        SET status = 'succeeded',
+            affected_rows = v_count,
+            details = v_details,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    EXCEPTION WHEN OTHERS THEN
+        -- The job's own changes are rolled back; the run is kept as failed
+        UPDATE job_runs
+        SET status = 'failed',
+            error = SQLERRM,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    END;
+
+    RETURN v_run;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+SELECT cron.schedule('prevora_apply_retention', '0 4 * * *', $$SELECT run_scheduled_job('apply_retention')$$);
@@ -0,0 +1,401 @@
+/*
+  # Weighted severity scoring
+
+  1. New Tables
+    - `signal_type_weights` - How much one signal of a type counts towards severity
+      - `signal_type` (text, matched case-insensitively), `weight` (> 0), `updated_at`
+      - Types without a row count with weight 1
+
+  2. Changes to `events`
+    - `risk_score` - 0 to 100; 70 is the high threshold of the resolved detection rule
+    - `score_breakdown` - The factors behind the score and severity, for the event page
+
+  3. Scoring
+    - `score_signal_cluster()` weighs every signal in the cluster by
+      - its own severity: high 2, medium 1, low 0.5
+      - the weight of its type
+      - the reliability of its source
+      - recency: 1 for a new signal, falling linearly to 0.5 at the 24 hour window edge
+    - The weighted total is compared with the rule's `medium_threshold` and `high_threshold`
+      to choose the severity, replacing the fixed high/medium signal count rule
+    - `create_event_from_signals()` scores new events, rescores events when signals join
+      them, and raises (never lowers) the severity of an event whose score has grown
+
+  4. Security
+    - Everyone can read type weights (the event trigger runs as the inserting user)
+    - Only admins can change them
+*/
+
+CREATE TABLE IF NOT EXISTS signal_type_weights (
+    signal_type text PRIMARY KEY,
+    weight numeric NOT NULL DEFAULT 1 CHECK (weight > 0),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_signal_type_weights_lower ON signal_type_weights (LOWER(signal_type));
+
+ALTER TABLE signal_type_weights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read signal type weights"
+  ON signal_type_weights
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage signal type weights"
+  ON signal_type_weights
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+-- Lab-grade and aggregate sources outweigh self-reported symptoms
+INSERT INTO signal_type_weights (signal_type, weight) VALUES
+    ('Wastewater', 2),
+    ('Pharmacy', 1.5),
+    ('Respiratory', 1.2),
+    ('Fever', 1),
+    ('Environmental', 1),
+    ('Acoustic', 0.8),
+    ('Cough', 0.7),
+    ('Other', 0.5)
+ON CONFLICT (signal_type) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION touch_signal_type_weight()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_touch_signal_type_weight ON signal_type_weights;
+CREATE TRIGGER trigger_touch_signal_type_weight
+    BEFORE UPDATE ON signal_type_weights
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_signal_type_weight();
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS risk_score numeric;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS score_breakdown jsonb;
+
+CREATE OR REPLACE FUNCTION signal_type_weight(p_type TEXT)
+RETURNS NUMERIC AS $$
+BEGIN
+    RETURN COALESCE(
+        (SELECT signal_type_weights.weight FROM signal_type_weights WHERE LOWER(signal_type_weights.signal_type) = LOWER(p_type)),
+        1
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION score_signal_cluster(
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_location TEXT,
+    p_type TEXT,
+    p_since TIMESTAMPTZ
+)
+RETURNS TABLE (
+    risk_score NUMERIC,
+    severity TEXT,
+    breakdown JSONB
+) AS $$
+DECLARE
+    v_rule detection_settings%ROWTYPE;
+    v_type_weight NUMERIC;
+    v_window_hours NUMERIC;
+    v_weighted NUMERIC;
+    v_signal_count INTEGER;
+    v_reliability NUMERIC;
+    v_recency NUMERIC;
+    v_by_severity JSONB;
+BEGIN
+    v_rule := resolve_detection_settings(p_type, p_location);
+    v_type_weight := signal_type_weight(p_type);
+    v_window_hours := GREATEST(EXTRACT(EPOCH FROM NOW() - p_since) / 3600, 1);
+
+    WITH weighted AS (
+        SELECT
+            cluster.severity,
+            CASE cluster.severity WHEN 'high' THEN 2 WHEN 'medium' THEN 1 ELSE 0.5 END AS points,
+            source_reliability(cluster.source_id) AS reliability,
+            GREATEST(0.5, 1 - 0.5 * (EXTRACT(EPOCH FROM NOW() - cluster.created_at) / 3600) / v_window_hours) AS recency
+        FROM cluster_signals(p_latitude, p_longitude, p_location, p_since, p_type) AS cluster
+    ),
+    per_severity AS (
+        SELECT
+            weighted.severity,
+            COUNT(*) AS signals,
+            MIN(weighted.points) AS points,
+            SUM(weighted.points * weighted.reliability * weighted.recency * v_type_weight) AS contribution
+        FROM weighted
+        GROUP BY weighted.severity
+    )
+    SELECT
+        (SELECT COALESCE(SUM(per_severity.contribution), 0) FROM per_severity),
+        (SELECT COUNT(*) FROM weighted),
+        (SELECT AVG(weighted.reliability) FROM weighted),
+        (SELECT AVG(weighted.recency) FROM weighted),
+        (SELECT COALESCE(jsonb_object_agg(per_severity.severity, jsonb_build_object(
+            'signals', per_severity.signals,
+            'points', per_severity.points,
+            'contribution', ROUND(per_severity.contribution, 2)
+        )), '{}'::jsonb) FROM per_severity)
+    INTO v_weighted, v_signal_count, v_reliability, v_recency, v_by_severity;
+
+    risk_score := ROUND(LEAST(100, 70 * v_weighted / v_rule.high_threshold), 1);
+    severity := CASE
+        WHEN v_weighted >= v_rule.high_threshold THEN 'high'
+        WHEN v_weighted >= v_rule.medium_threshold THEN 'medium'
+        ELSE 'low'
+    END;
+    breakdown := jsonb_build_object(
+        'signal_count', v_signal_count,
+        'weighted_total', ROUND(v_weighted, 2),
+        'type_weight', v_type_weight,
+        'avg_source_reliability', ROUND(COALESCE(v_reliability, 1), 3),
+        'avg_recency', ROUND(COALESCE(v_recency, 1), 3),
+        'by_severity', v_by_severity,
+        'medium_threshold', v_rule.medium_threshold,
+        'high_threshold', v_rule.high_threshold,
+        'scored_at', NOW()
+    );
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Severity now comes from the weighted cluster score
+CREATE OR REPLACE FUNCTION create_event_from_signals()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_detection RECORD;
+    v_signal_count INTEGER;
+    v_high_count INTEGER;
+    v_medium_count INTEGER;
+    v_low_count INTEGER;
+    v_center_latitude DOUBLE PRECISION;
+    v_center_longitude DOUBLE PRECISION;
+    v_signal_ids UUID[];
+    v_event_severity TEXT;
+    v_event_title TEXT;
+    v_event_description TEXT;
+    v_existing_event_count INTEGER;
+    v_new_event_id UUID;
+    v_alert_id UUID;
+    v_blog_id UUID;
+    v_twenty_four_hours_ago TIMESTAMPTZ;
+    v_radius_km NUMERIC;
+    v_bounds RECORD;
+    v_source_quality NUMERIC;
+    v_confidence DOUBLE PRECISION;
+    v_score RECORD;
+BEGIN
+    v_twenty_four_hours_ago := NOW() - INTERVAL '24 hours';
+    v_radius_km := cluster_radius_km();
+
+    SELECT * INTO v_bounds FROM cluster_bounds(NEW.latitude, NEW.longitude, v_radius_km);
+
+    SELECT * INTO v_detection
+    FROM detect_signal_anomaly(NEW.latitude, NEW.longitude, NEW.location, NEW.type);
+
+    -- Readings from less reliable sources lower how sure we are of the cluster
+    SELECT AVG(source_reliability(cluster.source_id))
+    INTO v_source_quality
+    FROM cluster_signals(NEW.latitude, NEW.longitude, NEW.location, v_twenty_four_hours_ago, NEW.type) AS cluster;
+
+    v_source_quality := COALESCE(v_source_quality, source_reliability(NEW.source_id));
+    v_confidence := v_detection.confidence * v_source_quality;
+
+    SELECT * INTO v_score
+    FROM score_signal_cluster(NEW.latitude, NEW.longitude, NEW.location, NEW.type, v_twenty_four_hours_ago);
+
+    -- Check if an active event of this type already covers the cluster
+    SELECT COUNT(*) INTO v_existing_event_count
+    FROM events
+    WHERE events.status = 'active'
+    AND events.created_at >= v_twenty_four_hours_ago
+    AND LOWER(events.type) = LOWER(NEW.type)
+    AND (
+        events.latitude IS NULL
+        OR events.longitude IS NULL
+        OR (
+            events.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+            AND events.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+        )
+    )
+    AND signal_in_cluster(
+        NEW.latitude, NEW.longitude, NEW.location,
+        events.latitude, events.longitude, events.location, v_radius_km
+    );
+
+    IF v_existing_event_count > 0 THEN
+        -- A growing score can raise severity but never lowers it; the change is recorded on the timeline
+        PERFORM set_config('prevora.event_action', 'system', true);
+        PERFORM set_config('prevora.event_reason', 'Risk score rose to ' || v_score.risk_score, true);
+
+        -- Note the additional signal; update_event_signal_count() recounts
+        UPDATE events
+        SET updated_at = NOW(),
+            anomaly_score = GREATEST(COALESCE(events.anomaly_score, 0), v_detection.anomaly_score),
+            confidence = GREATEST(COALESCE(events.confidence, 0), v_confidence),
+            source_quality = v_source_quality,
+            risk_score = v_score.risk_score,
+            score_breakdown = v_score.breakdown,
+            severity = CASE
+                WHEN array_position(ARRAY['low', 'medium', 'high'], v_score.severity)
+                     > array_position(ARRAY['low', 'medium', 'high'], events.severity)
+                THEN v_score.severity
+                ELSE events.severity
+            END,
+            description = events.description || ' Updated: ' || TO_CHAR(NOW(), 'HH24:MI') || ' - Additional signal detected.'
+        WHERE events.status = 'active'
+        AND events.created_at >= v_twenty_four_hours_ago
+        AND LOWER(events.type) = LOWER(NEW.type)
+        AND (
+            events.latitude IS NULL
+            OR events.longitude IS NULL
+            OR (
+                events.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+                AND events.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+            )
+        )
+        AND signal_in_cluster(
+            NEW.latitude, NEW.longitude, NEW.location,
+            events.latitude, events.longitude, events.location, v_radius_km
+        );
+
+        PERFORM set_config('prevora.event_action', '', true);
+        PERFORM set_config('prevora.event_reason', '', true);
+    ELSIF v_detection.is_anomaly THEN
+        -- Summarise the cluster around the new signal
+        SELECT
+            COUNT(*),
+            COUNT(CASE WHEN cluster.severity = 'high' THEN 1 END),
+            COUNT(CASE WHEN cluster.severity = 'medium' THEN 1 END),
+            COUNT(CASE WHEN cluster.severity = 'low' THEN 1 END),
+            AVG(cluster.latitude),
+            AVG(cluster.longitude),
+            ARRAY_AGG(cluster.id)
+        INTO v_signal_count, v_high_count, v_medium_count, v_low_count,
+             v_center_latitude, v_center_longitude, v_signal_ids
+        FROM cluster_signals(NEW.latitude, NEW.longitude, NEW.location, v_twenty_four_hours_ago, NEW.type) AS cluster;
+
+        -- Weighted cluster score against the rule's thresholds
+        v_event_severity := v_score.severity;
+
+        -- Create event title and description
+        v_event_title := NEW.type || ' cluster detected – ' || SPLIT_PART(NEW.location, ',', 1);
+        v_event_description := 'Unusual spike in ' || NEW.type || ' signals detected in ' || NEW.location || ' area. ' ||
+                            v_signal_count || ' signals reported within 24 hours against an expected ' ||
+                            ROUND(v_detection.ewma::NUMERIC, 1) || ' per day (z-score ' || ROUND(v_detection.z_score::NUMERIC, 1) || '). ' ||
+                            'Severity distribution: High (' || v_high_count || '), Medium (' || v_medium_count || '), Low (' || v_low_count || '). ' ||
+                            'Risk score ' || v_score.risk_score || ' of 100. ' ||
+                            'Automated cluster detection triggered by AI monitoring system.';
+
+        -- Create the event at the cluster centroid
+        INSERT INTO events (
+            title,
+            location,
+            latitude,
+            longitude,
+            type,
+            severity,
+            status,
+            signal_ids,
+            signal_count,
+            anomaly_score,
+            confidence,
+            source_quality,
+            risk_score,
+            score_breakdown,
+            description
+        ) VALUES (
+            v_event_title,
+            NEW.location,
+            COALESCE(v_center_latitude, NEW.latitude),
+            COALESCE(v_center_longitude, NEW.longitude),
+            NEW.type,
+            v_event_severity,
+            'active',
+            v_signal_ids,
+            v_signal_count,
+            v_detection.anomaly_score,
+            v_confidence,
+            v_source_quality,
+            v_score.risk_score,
+            v_score.breakdown,
+            v_event_description
+        ) RETURNING id INTO v_new_event_id;
+
+        -- Create corresponding alert
+        INSERT INTO alerts (
+            title,
+            location,
+            type,
+            severity,
+            status
+        ) VALUES (
+            CASE
+                WHEN v_event_severity = 'high' THEN 'URGENT: '
+                WHEN v_event_severity = 'medium' THEN 'ALERT: '
+                ELSE 'NOTICE: '
+            END || NEW.type || ' signals spike in ' || SPLIT_PART(NEW.location, ',', 1),
+            NEW.location,
+            NEW.type,
+            v_event_severity,
+            'active'
+        ) RETURNING id INTO v_alert_id;
+
+        -- Create comprehensive blog post
+        INSERT INTO blogs (
+            event_id,
+            title,
+            content,
+            summary,
+            location,
+            type,
+            severity,
+            author,
+            published,
+            published_at
+        ) VALUES (
+            v_new_event_id,
+            CASE
+                WHEN v_event_severity = 'high' THEN 'URGENT Health Alert: '
+                WHEN v_event_severity = 'medium' THEN 'Health Alert: '
+                ELSE 'Health Notice: '
+            END || NEW.type || ' signal spike detected in ' || SPLIT_PART(NEW.location, ',', 1),
+            compose_event_blog_content(
+                v_new_event_id, v_alert_id, NEW.type, NEW.location, v_event_severity,
+                v_signal_count, v_high_count, v_medium_count, v_low_count
+            ),
+            'Increased ' || NEW.type || ' activity detected in ' || NEW.location || ' - early warning issued.',
+            NEW.location,
+            NEW.type,
+            v_event_severity,
+            'Prevora AI System',
+            true,
+            NOW()
+        ) RETURNING id INTO v_blog_id;
+
+        -- Log the event creation for monitoring
+        RAISE NOTICE 'Event created: ID=%, Signals=%, Severity=%, Anomaly=%, Blog=%, Alert=%',
+            v_new_event_id, v_signal_count, v_event_severity, v_detection.anomaly_score, v_blog_id, v_alert_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
@@ -0,0 +1,715 @@
+/*
+  # Alerts tied to events, with managed lifecycle and version history
+
+  1. Changes to `alerts`
+    - `origin` - `event` for alerts raised by detection, `manual` for alerts an admin issued
+    - `version` - Bumped on every change to content, severity, status or expiry
+    - `superseded_by` - The alert that replaced this one
+    - `updated_at`
+    - Status gains `retracted` and `superseded`; both are final
+    - Existing alerts are linked to the closest event of the same type and area;
+      alerts with no such event become manual alerts
+
+  2. New Tables
+    - `alert_versions` - Snapshot of an alert after each change
+      - `action` - issue, update, extend, retract, supersede, event_sync, expire or system
+      - `snapshot` (the alert row as JSON), `reason`, `changed_by`, `changed_by_name`, `changed_at`
+
+  3. Lifecycle
+    - `create_event_from_signals()` sets `event_id` on the alerts it raises
+    - `sync_event_alerts()` keeps open alerts in step with their event:
+      - monitoring, resolved and reactivated events move their alerts to the same status
+      - severity changes carry over
+      - alerts of a merged event are superseded by the surviving event's open alert,
+        or moved onto that event when it has none
+    - `auto_resolve_old_events()` no longer matches alerts by location; they follow their event
+    - The `expire_alerts` job leaves retracted and superseded alerts alone
+
+  4. Functions
+    - `manage_alert()` - Admin action: issue, update, extend, retract or supersede, with a reason
+
+  5. Security
+    - Everyone can read alert versions, as they can read alerts
+    - Versions are only written by the definer trigger
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS origin text NOT NULL DEFAULT 'event' CHECK (origin IN ('event', 'manual'));
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS superseded_by uuid REFERENCES alerts(id) ON DELETE SET NULL;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS updated_at timestamptz;
+
+ALTER TABLE alerts DROP CONSTRAINT IF EXISTS alerts_status_check;
+ALTER TABLE alerts ADD CONSTRAINT alerts_status_check
+    CHECK (status IN ('active', 'monitoring', 'resolved', 'retracted', 'superseded'));
+
+CREATE INDEX IF NOT EXISTS idx_alerts_event_id ON alerts(event_id);
+
+-- Link existing alerts to the event they were raised for
+UPDATE alerts
+SET event_id = (
+    SELECT events.id
+    FROM events
+    WHERE LOWER(events.type) = LOWER(alerts.type)
+    AND normalize_location(events.location) = normalize_location(alerts.location)
+    ORDER BY ABS(EXTRACT(EPOCH FROM events.created_at - alerts.issued_at))
+    LIMIT 1
+)
+WHERE alerts.event_id IS NULL;
+
+UPDATE alerts SET origin = 'manual' WHERE alerts.event_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS alert_versions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+    version integer NOT NULL,
+    action text NOT NULL CHECK (action IN (
+        'issue', 'update', 'extend', 'retract', 'supersede', 'event_sync', 'expire', 'system'
+    )),
+    snapshot jsonb NOT NULL,
+    reason text,
+    changed_by uuid,
+    changed_by_name text,
+    changed_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (alert_id, version)
+);
+
+ALTER TABLE alert_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read alert versions"
+  ON alert_versions
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Every alert starts its history at its current state
+INSERT INTO alert_versions (alert_id, version, action, snapshot, reason, changed_at)
+SELECT alerts.id, alerts.version, 'issue', to_jsonb(alerts), 'Recorded before version tracking', COALESCE(alerts.issued_at, alerts.created_at, NOW())
+FROM alerts
+WHERE NOT EXISTS (
+    SELECT 1 FROM alert_versions WHERE alert_versions.alert_id = alerts.id
+);
+
+CREATE OR REPLACE FUNCTION bump_alert_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status IN ('retracted', 'superseded') AND NEW.status <> OLD.status THEN
+        RAISE EXCEPTION 'A % alert cannot change status', OLD.status USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF (OLD.title, OLD.severity, OLD.status, OLD.description, OLD.recommendations, OLD.expires_at, OLD.event_id, OLD.superseded_by)
+       IS DISTINCT FROM
+       (NEW.title, NEW.severity, NEW.status, NEW.description, NEW.recommendations, NEW.expires_at, NEW.event_id, NEW.superseded_by) THEN
+        NEW.version := OLD.version + 1;
+        NEW.updated_at := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_bump_alert_version ON alerts;
+CREATE TRIGGER trigger_bump_alert_version
+    BEFORE UPDATE ON alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION bump_alert_version();
+
+-- Snapshot each version; callers describe the change through transaction-local settings
+CREATE OR REPLACE FUNCTION record_alert_version()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_action TEXT;
+    v_changed_by_name TEXT;
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.version = NEW.version THEN
+        RETURN NEW;
+    END IF;
+
+    v_action := NULLIF(current_setting('prevora.alert_action', true), '');
+    IF TG_OP = 'INSERT' THEN
+        v_action := CASE WHEN v_action = 'supersede' THEN 'supersede' ELSE 'issue' END;
+    ELSIF v_action IS NULL THEN
+        v_action := CASE
+            WHEN NEW.status = 'resolved' AND OLD.status <> 'resolved' AND NEW.expires_at <= NOW() THEN 'expire'
+            ELSE 'system'
+        END;
+    END IF;
+
+    SELECT COALESCE(NULLIF(user_profiles.username, ''), user_profiles.full_name)
+    INTO v_changed_by_name
+    FROM user_profiles
+    WHERE user_profiles.id = auth.uid();
+
+    INSERT INTO alert_versions (alert_id, version, action, snapshot, reason, changed_by, changed_by_name)
+    VALUES (
+        NEW.id,
+        NEW.version,
+        v_action,
+        to_jsonb(NEW),
+        NULLIF(current_setting('prevora.alert_reason', true), ''),
+        auth.uid(),
+        v_changed_by_name
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_record_alert_version ON alerts;
+CREATE TRIGGER trigger_record_alert_version
+    AFTER INSERT OR UPDATE ON alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION record_alert_version();
+
+-- Carry event status and severity changes over to the event's open alerts
+CREATE OR REPLACE FUNCTION sync_event_alerts()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_target_alert_id UUID;
+BEGIN
+    PERFORM set_config('prevora.alert_action', 'event_sync', true);
+
+    IF NEW.status = 'merged' AND OLD.status <> 'merged' THEN
+        PERFORM set_config('prevora.alert_reason', 'Event merged into ' || NEW.merged_into_id, true);
+
+        SELECT alerts.id INTO v_target_alert_id
+        FROM alerts
+        WHERE alerts.event_id = NEW.merged_into_id
+        AND alerts.status IN ('active', 'monitoring')
+        ORDER BY alerts.issued_at DESC
+        LIMIT 1;
+
+        IF v_target_alert_id IS NOT NULL THEN
+            UPDATE alerts
+            SET status = 'superseded',
+                superseded_by = v_target_alert_id
+            WHERE alerts.event_id = NEW.id
+            AND alerts.status IN ('active', 'monitoring');
+        ELSE
+            UPDATE alerts
+            SET event_id = NEW.merged_into_id
+            WHERE alerts.event_id = NEW.id
+            AND alerts.status IN ('active', 'monitoring');
+        END IF;
+    ELSIF NEW.status <> OLD.status THEN
+        PERFORM set_config('prevora.alert_reason', 'Event moved to ' || NEW.status, true);
+
+        UPDATE alerts
+        SET status = NEW.status
+        WHERE alerts.event_id = NEW.id
+        AND alerts.status IN ('active', 'monitoring', 'resolved')
+        AND alerts.status <> NEW.status
+        -- Reopening an event does not revive alerts that expired on their own
+        AND (NEW.status <> 'active' OR alerts.expires_at IS NULL OR alerts.expires_at > NOW());
+    END IF;
+
+    IF NEW.severity <> OLD.severity THEN
+        PERFORM set_config('prevora.alert_reason', 'Event severity changed to ' || NEW.severity, true);
+
+        UPDATE alerts
+        SET severity = NEW.severity
+        WHERE alerts.event_id = NEW.id
+        AND alerts.status IN ('active', 'monitoring');
+    END IF;
+
+    PERFORM set_config('prevora.alert_action', '', true);
+    PERFORM set_config('prevora.alert_reason', '', true);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_sync_event_alerts ON events;
+CREATE TRIGGER trigger_sync_event_alerts
+    AFTER UPDATE OF status, severity ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_event_alerts();
+
+-- Admin alert actions; p_fields carries title, location, type, severity, description,
+-- recommendations, expires_at and event_id as needed by the action
+CREATE OR REPLACE FUNCTION manage_alert(
+    p_action TEXT,
+    p_alert_id UUID,
+    p_fields JSONB,
+    p_reason TEXT
+)
+RETURNS alerts AS $$
+DECLARE
+    v_alert alerts%ROWTYPE;
+    v_result alerts%ROWTYPE;
+    v_fields JSONB := COALESCE(p_fields, '{}'::jsonb);
+    v_event events%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can manage alerts' USING ERRCODE = '42501';
+    END IF;
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_action <> 'issue' THEN
+        SELECT * INTO v_alert FROM alerts WHERE alerts.id = p_alert_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Alert % does not exist', p_alert_id USING ERRCODE = 'P0002';
+        END IF;
+        IF v_alert.status IN ('retracted', 'superseded') THEN
+            RAISE EXCEPTION 'A % alert can no longer change', v_alert.status USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    PERFORM set_config('prevora.alert_action', p_action, true);
+    PERFORM set_config('prevora.alert_reason', TRIM(p_reason), true);
+
+    CASE p_action
+        WHEN 'issue' THEN
+            IF v_fields->>'event_id' IS NOT NULL THEN
+                SELECT * INTO v_event FROM events WHERE events.id = (v_fields->>'event_id')::uuid;
+                IF NOT FOUND THEN
+                    RAISE EXCEPTION 'Event % does not exist', v_fields->>'event_id' USING ERRCODE = 'P0002';
+                END IF;
+            END IF;
+
+            INSERT INTO alerts (
+                event_id, origin, title, location, type, severity, status,
+                description, recommendations, issued_at, expires_at
+            ) VALUES (
+                v_event.id,
+                'manual',
+                v_fields->>'title',
+                COALESCE(v_fields->>'location', v_event.location),
+                COALESCE(v_fields->>'type', v_event.type),
+                COALESCE(v_fields->>'severity', v_event.severity),
+                'active',
+                v_fields->>'description',
+                CASE WHEN v_fields ? 'recommendations'
+                    THEN ARRAY(SELECT jsonb_array_elements_text(v_fields->'recommendations')) END,
+                NOW(),
+                (v_fields->>'expires_at')::timestamptz
+            ) RETURNING * INTO v_result;
+        WHEN 'update' THEN
+            UPDATE alerts
+            SET title = COALESCE(v_fields->>'title', alerts.title),
+                severity = COALESCE(v_fields->>'severity', alerts.severity),
+                description = CASE WHEN v_fields ? 'description' THEN v_fields->>'description' ELSE alerts.description END,
+                recommendations = CASE WHEN v_fields ? 'recommendations'
+                    THEN ARRAY(SELECT jsonb_array_elements_text(v_fields->'recommendations'))
+                    ELSE alerts.recommendations END
+            WHERE alerts.id = p_alert_id
+            RETURNING * INTO v_result;
+        WHEN 'extend' THEN
+            IF (v_fields->>'expires_at')::timestamptz IS NULL OR (v_fields->>'expires_at')::timestamptz <= NOW() THEN
+                RAISE EXCEPTION 'The new expiry must be in the future' USING ERRCODE = '22023';
+            END IF;
+
+            -- An alert that already expired becomes active again
+            UPDATE alerts
+            SET expires_at = (v_fields->>'expires_at')::timestamptz,
+                status = CASE WHEN alerts.status = 'resolved' THEN 'active' ELSE alerts.status END
+            WHERE alerts.id = p_alert_id
+            RETURNING * INTO v_result;
+        WHEN 'retract' THEN
+            UPDATE alerts
+            SET status = 'retracted'
+            WHERE alerts.id = p_alert_id
+            RETURNING * INTO v_result;
+        WHEN 'supersede' THEN
+            INSERT INTO alerts (
+                event_id, origin, title, location, type, severity, status,
+                description, recommendations, issued_at, expires_at
+            ) VALUES (
+                v_alert.event_id,
+                v_alert.origin,
+                COALESCE(v_fields->>'title', v_alert.title),
+                v_alert.location,
+                v_alert.type,
+                COALESCE(v_fields->>'severity', v_alert.severity),
+                'active',
+                CASE WHEN v_fields ? 'description' THEN v_fields->>'description' ELSE v_alert.description END,
+                CASE WHEN v_fields ? 'recommendations'
+                    THEN ARRAY(SELECT jsonb_array_elements_text(v_fields->'recommendations'))
+                    ELSE v_alert.recommendations END,
+                NOW(),
+                CASE WHEN v_fields ? 'expires_at' THEN (v_fields->>'expires_at')::timestamptz ELSE v_alert.expires_at END
+            ) RETURNING * INTO v_result;
+
+            UPDATE alerts
+            SET status = 'superseded',
+                superseded_by = v_result.id
+            WHERE alerts.id = p_alert_id;
+        ELSE
+            RAISE EXCEPTION 'Unknown alert action %', p_action USING ERRCODE = '22023';
+    END CASE;
+
+    PERFORM set_config('prevora.alert_action', '', true);
+    PERFORM set_config('prevora.alert_reason', '', true);
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Alerts raised for an event now carry its id
+CREATE OR REPLACE FUNCTION create_event_from_signals()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_detection RECORD;
+    v_signal_count INTEGER;
+    v_high_count INTEGER;
+    v_medium_count INTEGER;
+    v_low_count INTEGER;
+    v_center_latitude DOUBLE PRECISION;
+    v_center_longitude DOUBLE PRECISION;
+    v_signal_ids UUID[];
+    v_event_severity TEXT;
+    v_event_title TEXT;
+    v_event_description TEXT;
+    v_existing_event_count INTEGER;
+    v_new_event_id UUID;
+    v_alert_id UUID;
+    v_blog_id UUID;
+    v_twenty_four_hours_ago TIMESTAMPTZ;
+    v_radius_km NUMERIC;
+    v_bounds RECORD;
+    v_source_quality NUMERIC;
+    v_confidence DOUBLE PRECISION;
+    v_score RECORD;
+BEGIN
+    v_twenty_four_hours_ago := NOW() - INTERVAL '24 hours';
+    v_radius_km := cluster_radius_km();
+
+    SELECT * INTO v_bounds FROM cluster_bounds(NEW.latitude, NEW.longitude, v_radius_km);
+
+    SELECT * INTO v_detection
+    FROM detect_signal_anomaly(NEW.latitude, NEW.longitude, NEW.location, NEW.type);
+
+    -- Readings from less reliable sources lower how sure we are of the cluster
+    SELECT AVG(source_reliability(cluster.source_id))
+    INTO v_source_quality
+    FROM cluster_signals(NEW.latitude, NEW.longitude, NEW.location, v_twenty_four_hours_ago, NEW.type) AS cluster;
+
+    v_source_quality := COALESCE(v_source_quality, source_reliability(NEW.source_id));
+    v_confidence := v_detection.confidence * v_source_quality;
+
+    SELECT * INTO v_score
+    FROM score_signal_cluster(NEW.latitude, NEW.longitude, NEW.location, NEW.type, v_twenty_four_hours_ago);
+
+    -- Check if an active event of this type already covers the cluster
+    SELECT COUNT(*) INTO v_existing_event_count
+    FROM events
+    WHERE events.status = 'active'
+    AND events.created_at >= v_twenty_four_hours_ago
+    AND LOWER(events.type) = LOWER(NEW.type)
+    AND (
+        events.latitude IS NULL
+        OR events.longitude IS NULL
+        OR (
+            events.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+            AND events.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+        )
+    )
+    AND signal_in_cluster(
+        NEW.latitude, NEW.longitude, NEW.location,
+        events.latitude, events.longitude, events.location, v_radius_km
+    );
+
+    IF v_existing_event_count > 0 THEN
+        -- A growing score can raise severity but never lowers it; the change is recorded on the timeline
+        PERFORM set_config('prevora.event_action', 'system', true);
+        PERFORM set_config('prevora.event_reason', 'Risk score rose to ' || v_score.risk_score, true);
+
+        -- Note the additional signal; update_event_signal_count() recounts
+        UPDATE events
+        SET updated_at = NOW(),
+            anomaly_score = GREATEST(COALESCE(events.anomaly_score, 0), v_detection.anomaly_score),
+            confidence = GREATEST(COALESCE(events.confidence, 0), v_confidence),
+            source_quality = v_source_quality,
+            risk_score = v_score.risk_score,
+            score_breakdown = v_score.breakdown,
+            severity = CASE
+                WHEN array_position(ARRAY['low', 'medium', 'high'], v_score.severity)
+                     > array_position(ARRAY['low', 'medium', 'high'], events.severity)
+                THEN v_score.severity
+                ELSE events.severity
+            END,
+            description = events.description || ' Updated: ' || TO_CHAR(NOW(), 'HH24:MI') || ' - Additional signal detected.'
+        WHERE events.status = 'active'
+        AND events.created_at >= v_twenty_four_hours_ago
+        AND LOWER(events.type) = LOWER(NEW.type)
+        AND (
+            events.latitude IS NULL
+            OR events.longitude IS NULL
+            OR (
+                events.latitude BETWEEN v_bounds.min_latitude AND v_bounds.max_latitude
+                AND events.longitude BETWEEN v_bounds.min_longitude AND v_bounds.max_longitude
+            )
+        )
+        AND signal_in_cluster(
+            NEW.latitude, NEW.longitude, NEW.location,
+            events.latitude, events.longitude, events.location, v_radius_km
+        );
+
+        PERFORM set_config('prevora.event_action', '', true);
+        PERFORM set_config('prevora.event_reason', '', true);
+    ELSIF v_detection.is_anomaly THEN
+        -- Summarise the cluster around the new signal
+        SELECT
+            COUNT(*),
+            COUNT(CASE WHEN cluster.severity = 'high' THEN 1 END),
+            COUNT(CASE WHEN cluster.severity = 'medium' THEN 1 END),
+            COUNT(CASE WHEN cluster.severity = 'low' THEN 1 END),
+            AVG(cluster.latitude),
+            AVG(cluster.longitude),
+            ARRAY_AGG(cluster.id)
+        INTO v_signal_count, v_high_count, v_medium_count, v_low_count,
+             v_center_latitude, v_center_longitude, v_signal_ids
+        FROM cluster_signals(NEW.latitude, NEW.longitude, NEW.location, v_twenty_four_hours_ago, NEW.type) AS cluster;
+
+        -- Weighted cluster score against the rule's thresholds
+        v_event_severity := v_score.severity;
+
+        -- Create event title and description
+        v_event_title := NEW.type || ' cluster detected – ' || SPLIT_PART(NEW.location, ',', 1);
+        v_event_description := 'Unusual spike in ' || NEW.type || ' signals detected in ' || NEW.location || ' area. ' ||
+                            v_signal_count || ' signals reported within 24 hours against an expected ' ||
+                            ROUND(v_detection.ewma::NUMERIC, 1) || ' per day (z-score ' || ROUND(v_detection.z_score::NUMERIC, 1) || '). ' ||
+                            'Severity distribution: High (' || v_high_count || '), Medium (' || v_medium_count || '), Low (' || v_low_count || '). ' ||
+                            'Risk score ' || v_score.risk_score || ' of 100. ' ||
+                            'Automated cluster detection triggered by AI monitoring system.';
+
+        -- Create the event at the cluster centroid
+        INSERT INTO events (
+            title,
+            location,
+            latitude,
+            longitude,
+            type,
+            severity,
+            status,
+            signal_ids,
+            signal_count,
+            anomaly_score,
+            confidence,
+            source_quality,
+            risk_score,
+            score_breakdown,
+            description
+        ) VALUES (
+            v_event_title,
+            NEW.location,
+            COALESCE(v_center_latitude, NEW.latitude),
+            COALESCE(v_center_longitude, NEW.longitude),
+            NEW.type,
+            v_event_severity,
+            'active',
+            v_signal_ids,
+            v_signal_count,
+            v_detection.anomaly_score,
+            v_confidence,
+            v_source_quality,
+            v_score.risk_score,
+            v_score.breakdown,
+            v_event_description
+        ) RETURNING id INTO v_new_event_id;
+
+        -- Raise the event's alert
+        INSERT INTO alerts (
+            event_id,
+            title,
+            location,
+            type,
+            severity,
+            status
+        ) VALUES (
+            v_new_event_id,
+            CASE
+                WHEN v_event_severity = 'high' THEN 'URGENT: '
+                WHEN v_event_severity = 'medium' THEN 'ALERT: '
+                ELSE 'NOTICE: '
+            END || NEW.type || ' signals spike in ' || SPLIT_PART(NEW.location, ',', 1),
+            NEW.location,
+            NEW.type,
+            v_event_severity,
+            'active'
+        ) RETURNING id INTO v_alert_id;
+
+        -- Create comprehensive blog post
+        INSERT INTO blogs (
+            event_id,
+            title,
+            content,
+            summary,
+            location,
+            type,
+            severity,
+            author,
+            published,
+            published_at
+        ) VALUES (
+            v_new_event_id,
+            CASE
+                WHEN v_event_severity = 'high' THEN 'URGENT Health Alert: '
+                WHEN v_event_severity = 'medium' THEN 'Health Alert: '
+                ELSE 'Health Notice: '
+            END || NEW.type || ' signal spike detected in ' || SPLIT_PART(NEW.location, ',', 1),
+            compose_event_blog_content(
+                v_new_event_id, v_alert_id, NEW.type, NEW.location, v_event_severity,
+                v_signal_count, v_high_count, v_medium_count, v_low_count
+            ),
+            'Increased ' || NEW.type || ' activity detected in ' || NEW.location || ' - early warning issued.',
+            NEW.location,
+            NEW.type,
+            v_event_severity,
+            'Prevora AI System',
+            true,
+            NOW()
+        ) RETURNING id INTO v_blog_id;
+
+        -- Log the event creation for monitoring
+        RAISE NOTICE 'Event created: ID=%, Signals=%, Severity=%, Anomaly=%, Blog=%, Alert=%',
+            v_new_event_id, v_signal_count, v_event_severity, v_detection.anomaly_score, v_blog_id, v_alert_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Alerts follow their event through sync_event_alerts()
+CREATE OR REPLACE FUNCTION auto_resolve_old_events()
+RETURNS void AS $$
+DECLARE
+    v_seventy_two_hours_ago TIMESTAMPTZ;
+    v_radius_km NUMERIC;
+BEGIN
+    v_seventy_two_hours_ago := NOW() - INTERVAL '72 hours';
+    v_radius_km := cluster_radius_km();
+
+    PERFORM set_config('prevora.event_action', 'auto_resolve', true);
+    PERFORM set_config('prevora.event_reason', 'No signals of this type in the cluster for 48 hours', true);
+
+    -- Auto-resolve events older than 72 hours with no recent signals of their type
+    UPDATE events
+    SET status = 'resolved',
+        updated_at = NOW()
+    WHERE events.status = 'active'
+    AND events.created_at < v_seventy_two_hours_ago
+    AND NOT EXISTS (
+        SELECT 1 FROM signals
+        WHERE signals.created_at >= NOW() - INTERVAL '48 hours'
+        AND LOWER(signals.type) = LOWER(events.type)
+        AND signal_in_cluster(
+            signals.latitude, signals.longitude, signals.location,
+            events.latitude, events.longitude, events.location, v_radius_km
+        )
+    );
+
+    PERFORM set_config('prevora.event_action', '', true);
+    PERFORM set_config('prevora.event_reason', '', true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only open alerts expire
+CREATE OR REPLACE FUNCTION run_scheduled_job(p_job_name TEXT, p_trigger TEXT DEFAULT 'schedule')
+RETURNS job_runs AS $$
+DECLARE
+    v_job scheduled_jobs%ROWTYPE;
+    v_run job_runs%ROWTYPE;
+    v_started_at TIMESTAMPTZ := clock_timestamp();
+    v_count INTEGER := 0;
+    v_details JSONB;
+    v_requests INTEGER;
+    v_windows INTEGER;
+    v_runs INTEGER;
+BEGIN
+    -- Signed-in callers must be admins; the scheduler runs without a user
+    IF auth.uid() IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can run scheduled jobs' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_job FROM scheduled_jobs WHERE scheduled_jobs.name = p_job_name;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown scheduled job %', p_job_name USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Paused jobs still run when started by hand
+    IF NOT v_job.is_enabled AND p_trigger = 'schedule' THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO job_runs (job_name, trigger, triggered_by, started_at)
+    VALUES (p_job_name, p_trigger, auth.uid(), v_started_at)
+    RETURNING * INTO v_run;
+
+    BEGIN
+        CASE p_job_name
+            WHEN 'auto_resolve_events' THEN
+                PERFORM auto_resolve_old_events();
+
+                SELECT COUNT(*) INTO v_count
+                FROM event_status_history
+                WHERE event_status_history.action = 'auto_resolve'
+                AND event_status_history.changed_at >= v_started_at;
+            WHEN 'expire_alerts' THEN
+                UPDATE alerts
+                SET status = 'resolved'
+                WHERE alerts.status IN ('active', 'monitoring')
+                AND alerts.expires_at IS NOT NULL
+                AND alerts.expires_at <= NOW();
+
+                GET DIAGNOSTICS v_count = ROW_COUNT;
+            WHEN 'purge_admin_otps' THEN
+                DELETE FROM admin_otps
+                WHERE admin_otps.used = true
+                OR admin_otps.expires_at < NOW() - INTERVAL '1 day';
+
+                GET DIAGNOSTICS v_count = ROW_COUNT;
+            WHEN 'purge_operational_data' THEN
+                DELETE FROM ingestion_requests WHERE ingestion_requests.created_at < NOW() - INTERVAL '24 hours';
+                GET DIAGNOSTICS v_requests = ROW_COUNT;
+
+                DELETE FROM ingestion_rate_windows WHERE ingestion_rate_windows.window_start < NOW() - INTERVAL '1 hour';
+                GET DIAGNOSTICS v_windows = ROW_COUNT;
+
+                DELETE FROM job_runs
+                WHERE job_runs.started_at < NOW() - INTERVAL '30 days'
+                AND job_runs.id <> v_run.id;
+                GET DIAGNOSTICS v_runs = ROW_COUNT;
+
+                v_count := v_requests + v_windows + v_runs;
+                v_details := jsonb_build_object(
+                    'ingestion_requests', v_requests,
+                    'ingestion_rate_windows', v_windows,
+                    'job_runs', v_runs
+                );
+            WHEN 'apply_retention' THEN
+                SELECT COALESCE(SUM(retention.affected_rows), 0), jsonb_object_agg(retention.target_table, retention.affected_rows)
+                INTO v_count, v_details
+                FROM apply_retention(false) AS retention;
+        END CASE;
+
+        UPDATE job_runs
+        SET status = 'succeeded',
+            affected_rows = v_count,
+            details = v_details,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    EXCEPTION WHEN OTHERS THEN
+        -- The job's own changes are rolled back; the run is kept as failed
+        UPDATE job_runs
+        SET status = 'failed',
+            error = SQLERRM,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    END;
+
+    RETURN v_run;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
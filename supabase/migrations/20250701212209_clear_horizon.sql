@@ -0,0 +1,342 @@
+/*
+  # Geographic alert subscriptions with email delivery
+
+  1. New Tables
+    - `alert_subscriptions` - An area a user wants to hear about
+      - `area_type` - `place` (a place name contained in the alert's location),
+        `radius` (kilometres around a point) or `polygon` (an array of [lat, lng] vertices)
+      - `min_severity` - Lowest alert severity that triggers an email
+      - `signal_types` - Alert types to include; empty means every type
+      - `is_active` - Paused subscriptions keep their settings but send nothing
+    - `alert_emails` - Outbox of emails waiting for the mail transport
+      - One row per user and alert, however many of the user's subscriptions match
+      - `status` - pending, sending, sent, failed or cancelled
+      - `attempts`, `last_error`, `next_attempt_at` for up to five attempts with backoff
+
+  2. Matching
+    - `subscription_covers()` - Area test; radius and polygon subscriptions use the
+      coordinates of the alert's event, so alerts without one only match place subscriptions
+    - `enqueue_alert_emails()` - Queues emails when an alert is issued, reopened or
+      raised to a severity that now meets a subscription's minimum
+
+  3. Delivery
+    - `claim_alert_emails()` - Hands the `send-alert-emails` edge function a batch of due
+      emails with the recipient and alert content; emails for alerts that have since closed,
+      or subscriptions that were paused, are cancelled instead
+
+  4. Security
+    - Users manage only their own subscriptions
+    - Admins can read the outbox; only the service role claims from it
+
+  5. Notes
+    - `user_profiles.subscribed` is no longer written at signup; subscriptions replace it
+*/
+
+CREATE TABLE IF NOT EXISTS alert_subscriptions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    area_type text NOT NULL CHECK (area_type IN ('place', 'radius', 'polygon')),
+    place_name text,
+    center_latitude double precision CHECK (center_latitude BETWEEN -90 AND 90),
+    center_longitude double precision CHECK (center_longitude BETWEEN -180 AND 180),
+    radius_km numeric CHECK (radius_km > 0 AND radius_km <= 500),
+    polygon jsonb,
+    min_severity text NOT NULL DEFAULT 'medium' CHECK (min_severity IN ('low', 'medium', 'high')),
+    signal_types text[] NOT NULL DEFAULT '{}',
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT alert_subscriptions_area_check CHECK (
+        (area_type = 'place' AND NULLIF(TRIM(place_name), '') IS NOT NULL)
+        OR (area_type = 'radius' AND center_latitude IS NOT NULL AND center_longitude IS NOT NULL AND radius_km IS NOT NULL)
+        OR (area_type = 'polygon' AND jsonb_typeof(polygon) = 'array' AND jsonb_array_length(polygon) >= 3)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_subscriptions_user_id ON alert_subscriptions(user_id);
+
+ALTER TABLE alert_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own alert subscriptions"
+  ON alert_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own alert subscriptions"
+  ON alert_subscriptions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own alert subscriptions"
+  ON alert_subscriptions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own alert subscriptions"
+  ON alert_subscriptions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION touch_alert_subscription()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_touch_alert_subscription ON alert_subscriptions;
+CREATE TRIGGER trigger_touch_alert_subscription
+    BEFORE UPDATE ON alert_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_alert_subscription();
+
+CREATE TABLE IF NOT EXISTS alert_emails (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    subscription_id uuid REFERENCES alert_subscriptions(id) ON DELETE CASCADE,
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+    attempts integer NOT NULL DEFAULT 0,
+    last_error text,
+    next_attempt_at timestamptz NOT NULL DEFAULT now(),
+    sent_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    UNIQUE (user_id, alert_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_emails_due ON alert_emails(next_attempt_at) WHERE status IN ('pending', 'failed');
+
+ALTER TABLE alert_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read alert emails"
+  ON alert_emails
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE OR REPLACE FUNCTION severity_rank(p_severity TEXT)
+RETURNS INTEGER AS $$
+BEGIN
+    RETURN CASE p_severity
+        WHEN 'high' THEN 3
+        WHEN 'medium' THEN 2
+        WHEN 'low' THEN 1
+        ELSE 0
+    END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Ray casting over [lat, lng] vertices; the polygon is closed implicitly
+CREATE OR REPLACE FUNCTION point_in_polygon(
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_polygon JSONB
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_count INTEGER := jsonb_array_length(p_polygon);
+    v_inside BOOLEAN := false;
+    v_lat_i DOUBLE PRECISION;
+    v_lng_i DOUBLE PRECISION;
+    v_lat_j DOUBLE PRECISION;
+    v_lng_j DOUBLE PRECISION;
+    v_j INTEGER := v_count - 1;
+BEGIN
+    FOR v_i IN 0..v_count - 1 LOOP
+        v_lat_i := (p_polygon->v_i->>0)::DOUBLE PRECISION;
+        v_lng_i := (p_polygon->v_i->>1)::DOUBLE PRECISION;
+        v_lat_j := (p_polygon->v_j->>0)::DOUBLE PRECISION;
+        v_lng_j := (p_polygon->v_j->>1)::DOUBLE PRECISION;
+
+        IF (v_lat_i > p_latitude) <> (v_lat_j > p_latitude)
+           AND p_longitude < (v_lng_j - v_lng_i) * (p_latitude - v_lat_i) / (v_lat_j - v_lat_i) + v_lng_i THEN
+            v_inside := NOT v_inside;
+        END IF;
+
+        v_j := v_i;
+    END LOOP;
+
+    RETURN v_inside;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION subscription_covers(
+    p_subscription alert_subscriptions,
+    p_location TEXT,
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF p_subscription.area_type = 'place' THEN
+        RETURN POSITION(normalize_location(p_subscription.place_name) IN normalize_location(p_location)) > 0;
+    END IF;
+
+    IF p_latitude IS NULL OR p_longitude IS NULL THEN
+        RETURN false;
+    END IF;
+
+    IF p_subscription.area_type = 'radius' THEN
+        RETURN haversine_km(
+            p_latitude, p_longitude,
+            p_subscription.center_latitude, p_subscription.center_longitude
+        ) <= p_subscription.radius_km;
+    END IF;
+
+    RETURN point_in_polygon(p_latitude, p_longitude, p_subscription.polygon);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Runs as definer so every user's subscriptions are visible to whoever raised the alert
+CREATE OR REPLACE FUNCTION enqueue_alert_emails()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_latitude DOUBLE PRECISION;
+    v_longitude DOUBLE PRECISION;
+BEGIN
+    IF NEW.status NOT IN ('active', 'monitoring') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Updates only matter when the alert reopens or its severity rises
+    IF TG_OP = 'UPDATE'
+       AND OLD.status IN ('active', 'monitoring')
+       AND severity_rank(NEW.severity) <= severity_rank(OLD.severity) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT events.latitude, events.longitude
+    INTO v_latitude, v_longitude
+    FROM events
+    WHERE events.id = NEW.event_id;
+
+    INSERT INTO alert_emails (alert_id, user_id, subscription_id)
+    SELECT DISTINCT ON (alert_subscriptions.user_id)
+        NEW.id, alert_subscriptions.user_id, alert_subscriptions.id
+    FROM alert_subscriptions
+    WHERE alert_subscriptions.is_active
+    AND severity_rank(NEW.severity) >= severity_rank(alert_subscriptions.min_severity)
+    AND (
+        cardinality(alert_subscriptions.signal_types) = 0
+        OR EXISTS (
+            SELECT 1 FROM unnest(alert_subscriptions.signal_types) AS subscribed_type
+            WHERE LOWER(subscribed_type) = LOWER(NEW.type)
+        )
+    )
+    AND subscription_covers(alert_subscriptions, NEW.location, v_latitude, v_longitude)
+    ORDER BY alert_subscriptions.user_id, alert_subscriptions.created_at
+    ON CONFLICT (user_id, alert_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_enqueue_alert_emails ON alerts;
+CREATE TRIGGER trigger_enqueue_alert_emails
+    AFTER INSERT OR UPDATE OF status, severity ON alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION enqueue_alert_emails();
+
+-- Failed emails are retried until their fifth attempt; emails stuck in `sending`
+-- for ten minutes are assumed lost and handed out again
+CREATE OR REPLACE FUNCTION claim_alert_emails(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+    id UUID,
+    attempts INTEGER,
+    email TEXT,
+    recipient_name TEXT,
+    subscription_name TEXT,
+    alert_id UUID,
+    event_id UUID,
+    title TEXT,
+    location TEXT,
+    type TEXT,
+    severity TEXT,
+    status TEXT,
+    description TEXT,
+    recommendations TEXT[],
+    issued_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    UPDATE alert_emails
+    SET status = 'cancelled',
+        last_error = 'Alert closed or subscription paused before delivery'
+    WHERE alert_emails.status IN ('pending', 'failed')
+    AND (
+        NOT EXISTS (
+            SELECT 1 FROM alerts
+            WHERE alerts.id = alert_emails.alert_id
+            AND alerts.status IN ('active', 'monitoring')
+        )
+        OR NOT EXISTS (
+            SELECT 1 FROM alert_subscriptions
+            WHERE alert_subscriptions.id = alert_emails.subscription_id
+            AND alert_subscriptions.is_active
+        )
+    );
+
+    RETURN QUERY
+    WITH due AS (
+        SELECT alert_emails.id
+        FROM alert_emails
+        WHERE (
+            alert_emails.status IN ('pending', 'failed')
+            AND alert_emails.attempts < 5
+            AND alert_emails.next_attempt_at <= NOW()
+        ) OR (
+            alert_emails.status = 'sending'
+            AND alert_emails.next_attempt_at <= NOW() - INTERVAL '10 minutes'
+        )
+        ORDER BY alert_emails.next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    ), claimed AS (
+        UPDATE alert_emails
+        SET status = 'sending',
+            attempts = alert_emails.attempts + 1,
+            next_attempt_at = NOW()
+        FROM due
+        WHERE alert_emails.id = due.id
+        RETURNING alert_emails.*
+    )
+    SELECT
+        claimed.id,
+        claimed.attempts,
+        users.email::TEXT,
+        COALESCE(NULLIF(user_profiles.full_name, ''), NULLIF(user_profiles.username, '')),
+        alert_subscriptions.name,
+        alerts.id,
+        alerts.event_id,
+        alerts.title,
+        alerts.location,
+        alerts.type,
+        alerts.severity,
+        alerts.status,
+        alerts.description,
+        alerts.recommendations,
+        alerts.issued_at,
+        alerts.expires_at
+    FROM claimed
+    JOIN alerts ON alerts.id = claimed.alert_id
+    JOIN auth.users AS users ON users.id = claimed.user_id
+    LEFT JOIN alert_subscriptions ON alert_subscriptions.id = claimed.subscription_id
+    LEFT JOIN user_profiles ON user_profiles.id = claimed.user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_alert_emails(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_alert_emails(INTEGER) TO service_role;
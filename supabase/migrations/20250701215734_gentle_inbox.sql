@@ -0,0 +1,226 @@
+/*
+  # Persistent per-user notification inbox
+
+  1. New Tables
+    - `system_notices` - Announcements published by an admin
+      - `audience` - `all` users or only `admins`
+    - `notifications` - One user's inbox entries
+      - `kind` - `alert` for alerts matching the user's subscriptions, `system` for notices
+      - `alert_id` / `notice_id` - What the entry is about
+      - `read_at`, `dismissed_at`, `archived_at` - Unread entries have none of the three;
+        dismissed entries are hidden, archived entries move out of the inbox
+
+  2. Sources
+    - Every alert email queued for a user also lands in their inbox
+    - `publish_system_notice()` - Admin action fanning a notice out to its audience
+    - A scheduled job run that fails notifies every admin
+
+  3. Security
+    - Users read their own notifications and may only change the three state columns
+    - Rows are written by definer functions only
+    - Admins read system notices
+
+  4. Realtime
+    - `notifications` is added to the `supabase_realtime` publication; RLS limits each
+      subscriber to their own rows
+*/
+
+CREATE TABLE IF NOT EXISTS system_notices (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    title text NOT NULL,
+    message text NOT NULL,
+    severity text NOT NULL DEFAULT 'low' CHECK (severity IN ('low', 'medium', 'high')),
+    action_url text,
+    audience text NOT NULL DEFAULT 'all' CHECK (audience IN ('all', 'admins')),
+    recipient_count integer NOT NULL DEFAULT 0,
+    published_by uuid,
+    published_by_name text,
+    published_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE system_notices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read system notices"
+  ON system_notices
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    kind text NOT NULL CHECK (kind IN ('alert', 'system')),
+    title text NOT NULL,
+    message text NOT NULL,
+    severity text NOT NULL DEFAULT 'low' CHECK (severity IN ('low', 'medium', 'high')),
+    action_url text,
+    alert_id uuid REFERENCES alerts(id) ON DELETE CASCADE,
+    notice_id uuid REFERENCES system_notices(id) ON DELETE CASCADE,
+    read_at timestamptz,
+    dismissed_at timestamptz,
+    archived_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id)
+    WHERE read_at IS NULL AND dismissed_at IS NULL AND archived_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Content is fixed once delivered; users only move entries between states
+REVOKE UPDATE ON notifications FROM anon, authenticated;
+GRANT UPDATE (read_at, dismissed_at, archived_at) ON notifications TO authenticated;
+
+CREATE OR REPLACE FUNCTION notify_admins(
+    p_title TEXT,
+    p_message TEXT,
+    p_severity TEXT DEFAULT 'low',
+    p_action_url TEXT DEFAULT NULL,
+    p_notice_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    INSERT INTO notifications (user_id, kind, title, message, severity, action_url, notice_id)
+    SELECT user_profiles.id, 'system', p_title, p_message, p_severity, p_action_url, p_notice_id
+    FROM user_profiles
+    WHERE user_profiles.is_admin = true;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notify_admins(TEXT, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION publish_system_notice(
+    p_title TEXT,
+    p_message TEXT,
+    p_severity TEXT DEFAULT 'low',
+    p_action_url TEXT DEFAULT NULL,
+    p_audience TEXT DEFAULT 'all'
+)
+RETURNS system_notices AS $$
+DECLARE
+    v_notice system_notices;
+    v_count INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can publish system notices' USING ERRCODE = '42501';
+    END IF;
+
+    IF NULLIF(TRIM(p_title), '') IS NULL OR NULLIF(TRIM(p_message), '') IS NULL THEN
+        RAISE EXCEPTION 'A notice needs a title and a message' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO system_notices (title, message, severity, action_url, audience, published_by, published_by_name)
+    SELECT TRIM(p_title), TRIM(p_message), p_severity, NULLIF(TRIM(p_action_url), ''), p_audience, auth.uid(),
+           COALESCE(NULLIF(user_profiles.username, ''), user_profiles.full_name)
+    FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    RETURNING * INTO v_notice;
+
+    IF p_audience = 'admins' THEN
+        v_count := notify_admins(v_notice.title, v_notice.message, v_notice.severity, v_notice.action_url, v_notice.id);
+    ELSE
+        INSERT INTO notifications (user_id, kind, title, message, severity, action_url, notice_id)
+        SELECT users.id, 'system', v_notice.title, v_notice.message, v_notice.severity, v_notice.action_url, v_notice.id
+        FROM auth.users AS users;
+
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+    END IF;
+
+    UPDATE system_notices
+    SET recipient_count = v_count
+    WHERE system_notices.id = v_notice.id
+    RETURNING * INTO v_notice;
+
+    RETURN v_notice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Alert emails are queued per user for alerts matching their subscriptions
+CREATE OR REPLACE FUNCTION notify_alert_subscriber()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO notifications (user_id, kind, title, message, severity, action_url, alert_id)
+    SELECT
+        NEW.user_id,
+        'alert',
+        alerts.title,
+        INITCAP(alerts.severity) || ' severity ' || alerts.type || ' alert issued for ' || alerts.location,
+        alerts.severity,
+        CASE WHEN alerts.event_id IS NOT NULL THEN '/event/' || alerts.event_id ELSE '/alerts' END,
+        alerts.id
+    FROM alerts
+    WHERE alerts.id = NEW.alert_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_notify_alert_subscriber ON alert_emails;
+CREATE TRIGGER trigger_notify_alert_subscriber
+    AFTER INSERT ON alert_emails
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_alert_subscriber();
+
+CREATE OR REPLACE FUNCTION notify_failed_job_run()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'failed' AND OLD.status IS DISTINCT FROM 'failed' THEN
+        PERFORM notify_admins(
+            'Scheduled job failed: ' || NEW.job_name,
+            COALESCE(NEW.error, 'The job failed without an error message'),
+            'medium',
+            '/admin'
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_notify_failed_job_run ON job_runs;
+CREATE TRIGGER trigger_notify_failed_job_run
+    AFTER UPDATE OF status ON job_runs
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_failed_job_run();
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'notifications'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+    END IF;
+END;
+$$;
@@ -0,0 +1,320 @@
+/*
+  # Outbound webhooks for events and alerts
+
+  1. New Tables
+    - `webhook_endpoints` - HTTPS endpoints registered for a partner organization
+      - `event_types` - Any of event.created, event.escalated, alert.issued, alert.resolved
+      - `secret` - HMAC-SHA256 signing key; never readable from the browser,
+        shown once when generated by `rotate_webhook_secret()`
+    - `webhook_deliveries` - One row per payload per endpoint, kept as the delivery log
+      - `status` - pending, sending, succeeded or failed (gave up after `max_attempts`)
+      - `attempts`, `next_attempt_at`, `last_status_code`, `last_error`, `response_body`,
+        `duration_ms`, `delivered_at`
+      - `is_test` marks payloads sent with the admin "send test" button
+
+  2. Triggers
+    - New events queue `event.created`; a rise in severity queues `event.escalated`
+    - New open alerts queue `alert.issued`; alerts moving to resolved queue `alert.resolved`
+
+  3. Functions
+    - `rotate_webhook_secret()` - Admin action returning a fresh secret
+    - `send_test_webhook()` - Admin action queueing a `test` payload for one endpoint
+    - `claim_webhook_deliveries()` - Hands the `deliver-webhooks` edge function due deliveries
+      together with the endpoint URL and secret; service role only
+
+  4. Security
+    - Admins manage endpoints and read the delivery log
+*/
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization text NOT NULL,
+    url text NOT NULL CHECK (url ~ '^https://'),
+    description text,
+    event_types text[] NOT NULL CHECK (
+        cardinality(event_types) > 0
+        AND event_types <@ ARRAY['event.created', 'event.escalated', 'alert.issued', 'alert.resolved']
+    ),
+    secret text NOT NULL DEFAULT 'whsec_' || encode(extensions.gen_random_bytes(32), 'hex'),
+    is_active boolean NOT NULL DEFAULT true,
+    created_by uuid DEFAULT auth.uid(),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage webhook endpoints"
+  ON webhook_endpoints
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+-- The secret is only handed out by rotate_webhook_secret()
+REVOKE SELECT, UPDATE ON webhook_endpoints FROM anon, authenticated;
+GRANT SELECT (id, organization, url, description, event_types, is_active, created_by, created_at, updated_at)
+    ON webhook_endpoints TO authenticated;
+GRANT UPDATE (organization, url, description, event_types, is_active)
+    ON webhook_endpoints TO authenticated;
+
+CREATE OR REPLACE FUNCTION touch_webhook_endpoint()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_touch_webhook_endpoint ON webhook_endpoints;
+CREATE TRIGGER trigger_touch_webhook_endpoint
+    BEFORE UPDATE ON webhook_endpoints
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_webhook_endpoint();
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    endpoint_id uuid NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    event_type text NOT NULL CHECK (event_type IN (
+        'event.created', 'event.escalated', 'alert.issued', 'alert.resolved', 'test'
+    )),
+    payload jsonb NOT NULL,
+    is_test boolean NOT NULL DEFAULT false,
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'succeeded', 'failed')),
+    attempts integer NOT NULL DEFAULT 0,
+    max_attempts integer NOT NULL DEFAULT 6,
+    next_attempt_at timestamptz NOT NULL DEFAULT now(),
+    last_status_code integer,
+    last_error text,
+    response_body text,
+    duration_ms integer,
+    delivered_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at)
+    WHERE status IN ('pending', 'sending');
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.is_admin = true
+    )
+  );
+
+-- Queues one delivery per active endpoint subscribed to the event type
+CREATE OR REPLACE FUNCTION enqueue_webhook(p_event_type TEXT, p_data JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    INSERT INTO webhook_deliveries (endpoint_id, event_type, payload)
+    SELECT
+        webhook_endpoints.id,
+        p_event_type,
+        jsonb_build_object('type', p_event_type, 'occurred_at', NOW(), 'data', p_data)
+    FROM webhook_endpoints
+    WHERE webhook_endpoints.is_active
+    AND p_event_type = ANY(webhook_endpoints.event_types);
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION enqueue_webhook(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Event payloads leave out the signal id list, which can be long
+CREATE OR REPLACE FUNCTION webhook_event_data(p_event events)
+RETURNS JSONB AS $$
+BEGIN
+    RETURN to_jsonb(p_event) - 'signal_ids';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION queue_event_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM enqueue_webhook('event.created', webhook_event_data(NEW));
+    ELSIF severity_rank(NEW.severity) > severity_rank(OLD.severity) THEN
+        PERFORM enqueue_webhook(
+            'event.escalated',
+            webhook_event_data(NEW) || jsonb_build_object('previous_severity', OLD.severity)
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_queue_event_webhooks ON events;
+CREATE TRIGGER trigger_queue_event_webhooks
+    AFTER INSERT OR UPDATE OF severity ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION queue_event_webhooks();
+
+CREATE OR REPLACE FUNCTION queue_alert_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status IN ('active', 'monitoring') THEN
+            PERFORM enqueue_webhook('alert.issued', to_jsonb(NEW));
+        END IF;
+    ELSIF NEW.status = 'resolved' AND OLD.status IS DISTINCT FROM 'resolved' THEN
+        PERFORM enqueue_webhook('alert.resolved', to_jsonb(NEW));
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_queue_alert_webhooks ON alerts;
+CREATE TRIGGER trigger_queue_alert_webhooks
+    AFTER INSERT OR UPDATE OF status ON alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION queue_alert_webhooks();
+
+CREATE OR REPLACE FUNCTION rotate_webhook_secret(p_endpoint_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_secret TEXT;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can rotate webhook secrets' USING ERRCODE = '42501';
+    END IF;
+
+    v_secret := 'whsec_' || encode(gen_random_bytes(32), 'hex');
+
+    UPDATE webhook_endpoints
+    SET secret = v_secret
+    WHERE webhook_endpoints.id = p_endpoint_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook endpoint % does not exist', p_endpoint_id USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_secret;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION send_test_webhook(p_endpoint_id UUID)
+RETURNS webhook_deliveries AS $$
+DECLARE
+    v_delivery webhook_deliveries;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can send test webhooks' USING ERRCODE = '42501';
+    END IF;
+
+    -- Tests are tried once so a broken endpoint reports straight back
+    INSERT INTO webhook_deliveries (endpoint_id, event_type, payload, is_test, max_attempts)
+    SELECT
+        webhook_endpoints.id,
+        'test',
+        jsonb_build_object(
+            'type', 'test',
+            'occurred_at', NOW(),
+            'data', jsonb_build_object(
+                'message', 'Test delivery from Prevora',
+                'organization', webhook_endpoints.organization
+            )
+        ),
+        true,
+        1
+    FROM webhook_endpoints
+    WHERE webhook_endpoints.id = p_endpoint_id
+    RETURNING * INTO v_delivery;
+
+    IF v_delivery.id IS NULL THEN
+        RAISE EXCEPTION 'Webhook endpoint % does not exist', p_endpoint_id USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deliveries stuck in `sending` for ten minutes are assumed lost and handed out again;
+-- `p_delivery_id` claims just that delivery, for sending a test straight away
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit INTEGER DEFAULT 50, p_delivery_id UUID DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    endpoint_id UUID,
+    url TEXT,
+    secret TEXT,
+    event_type TEXT,
+    payload JSONB,
+    attempts INTEGER,
+    max_attempts INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH due AS (
+        SELECT webhook_deliveries.id
+        FROM webhook_deliveries
+        JOIN webhook_endpoints ON webhook_endpoints.id = webhook_deliveries.endpoint_id
+        WHERE (p_delivery_id IS NULL OR webhook_deliveries.id = p_delivery_id)
+        AND (webhook_endpoints.is_active OR webhook_deliveries.is_test)
+        AND (
+            (webhook_deliveries.status = 'pending' AND webhook_deliveries.next_attempt_at <= NOW())
+            OR (
+                webhook_deliveries.status = 'sending'
+                AND webhook_deliveries.next_attempt_at <= NOW() - INTERVAL '10 minutes'
+            )
+        )
+        ORDER BY webhook_deliveries.next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE OF webhook_deliveries SKIP LOCKED
+    ), claimed AS (
+        UPDATE webhook_deliveries
+        SET status = 'sending',
+            attempts = webhook_deliveries.attempts + 1,
+            next_attempt_at = NOW()
+        FROM due
+        WHERE webhook_deliveries.id = due.id
+        RETURNING webhook_deliveries.*
+    )
+    SELECT
+        claimed.id,
+        claimed.endpoint_id,
+        webhook_endpoints.url,
+        webhook_endpoints.secret,
+        claimed.event_type,
+        claimed.payload,
+        claimed.attempts,
+        claimed.max_attempts
+    FROM claimed
+    JOIN webhook_endpoints ON webhook_endpoints.id = claimed.endpoint_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, UUID) TO service_role;
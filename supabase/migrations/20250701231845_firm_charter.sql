@@ -0,0 +1,476 @@
+/*
+  # Role-based access control
+
+  1. Roles
+    - `user_profiles.role` - One of, from least to most privileged:
+      - `registered` - Any signed-in user: dashboard, subscriptions, inbox
+      - `data_contributor` - May submit signals
+      - `org_admin` - Administers their own organization; its rights are checked against that
+        organization's rows with `is_org_admin()`, not by rank, so it grants nothing platform-wide
+        beyond what a data contributor may do
+      - `analyst` - May correct and delete signals, change event status and manage alerts
+      - `platform_admin` - Everything, including sources, webhooks, users and settings
+    - Signed-out visitors are `public` and can read published data only
+    - Each role includes everything the roles below it may do
+    - `is_admin` is kept as a mirror of `role = 'platform_admin'` by a trigger, so the
+      existing "Admins can ..." policies keep meaning platform admins
+    - Existing admins become platform admins; everyone else starts as registered
+    - `user_type` stays a self-described label chosen at signup and grants nothing
+
+  2. Functions
+    - `role_rank()`, `current_user_role()` and `has_role()` - Used by policies and definer
+      functions; `has_role('analyst')` is true for analysts and every role above
+    - `set_user_role()` - Platform admin action; admins cannot demote themselves
+    - `transition_event()` and `manage_alert()` are open to analysts
+
+  3. Consolidated policies
+    - The overlapping policies on `signals`, `events`, `alerts`, `blogs` and `user_profiles`,
+      including the `USING (true)` "manage" and "public insert" policies, are dropped and
+      replaced by one policy per action
+    - Events and alerts are no longer written directly by clients; changes go through
+      `transition_event()`, `manage_alert()` and the detection triggers
+    - `create_event_from_signals()` and `update_event_signal_count()` now run as definer,
+      since the signal inserting them may lack write access to events, alerts and blogs.
+      Redefinitions of either must keep SECURITY DEFINER
+    - Users may no longer write `role` or `is_admin` on their own profile
+    - `admin_otps` is left as is until admin OTP moves server-side
+*/
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'registered'
+    CHECK (role IN ('registered', 'data_contributor', 'org_admin', 'analyst', 'platform_admin'));
+
+UPDATE user_profiles SET role = 'platform_admin' WHERE user_profiles.is_admin = true;
+
+CREATE OR REPLACE FUNCTION sync_profile_admin_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.is_admin := NEW.role = 'platform_admin';
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sync_profile_admin_flag ON user_profiles;
+CREATE TRIGGER trigger_sync_profile_admin_flag
+    BEFORE INSERT OR UPDATE OF role, is_admin ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_profile_admin_flag();
+
+CREATE OR REPLACE FUNCTION role_rank(p_role TEXT)
+RETURNS INTEGER AS $$
+BEGIN
+    RETURN COALESCE(
+        array_position(
+            ARRAY['public', 'registered', 'data_contributor', 'org_admin', 'analyst', 'platform_admin'],
+            p_role
+        ) - 1,
+        0
+    );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Signed-in users without a profile row count as registered
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN 'public';
+    END IF;
+
+    RETURN COALESCE(
+        (SELECT user_profiles.role FROM user_profiles WHERE user_profiles.id = auth.uid()),
+        'registered'
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_role(p_role TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN role_rank(current_user_role()) >= role_rank(p_role);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_user_role(p_user_id UUID, p_role TEXT)
+RETURNS user_profiles AS $$
+DECLARE
+    v_profile user_profiles;
+BEGIN
+    IF NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only platform admins can change roles' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_user_id = auth.uid() AND p_role <> 'platform_admin' THEN
+        RAISE EXCEPTION 'Admins cannot remove their own admin role' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE user_profiles
+    SET role = p_role,
+        updated_at = NOW()
+    WHERE user_profiles.id = p_user_id
+    RETURNING * INTO v_profile;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % has no profile', p_user_id USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Signals
+DROP POLICY IF EXISTS "Anyone can read signals" ON signals;
+DROP POLICY IF EXISTS "Admins can insert signals" ON signals;
+DROP POLICY IF EXISTS "Admins can update signals" ON signals;
+DROP POLICY IF EXISTS "Allow public read access to signals" ON signals;
+DROP POLICY IF EXISTS "Allow public insert access to signals" ON signals;
+
+CREATE POLICY "Anyone can read signals"
+  ON signals
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Contributors can add signals"
+  ON signals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('data_contributor'));
+
+CREATE POLICY "Analysts can update signals"
+  ON signals
+  FOR UPDATE
+  TO authenticated
+  USING (has_role('analyst'))
+  WITH CHECK (has_role('analyst'));
+
+CREATE POLICY "Analysts can delete signals"
+  ON signals
+  FOR DELETE
+  TO authenticated
+  USING (has_role('analyst'));
+
+-- Events
+DROP POLICY IF EXISTS "Anyone can read events" ON events;
+DROP POLICY IF EXISTS "System can manage events" ON events;
+DROP POLICY IF EXISTS "Allow public read access to events" ON events;
+DROP POLICY IF EXISTS "Allow public insert access to events" ON events;
+DROP POLICY IF EXISTS "Allow authenticated users to manage events" ON events;
+
+CREATE POLICY "Anyone can read events"
+  ON events
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Alerts
+DROP POLICY IF EXISTS "Anyone can read alerts" ON alerts;
+DROP POLICY IF EXISTS "System can manage alerts" ON alerts;
+DROP POLICY IF EXISTS "Allow public read access to alerts" ON alerts;
+DROP POLICY IF EXISTS "Allow authenticated users to manage alerts" ON alerts;
+
+CREATE POLICY "Anyone can read alerts"
+  ON alerts
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Blogs
+DROP POLICY IF EXISTS "Anyone can read published blogs" ON blogs;
+DROP POLICY IF EXISTS "Admins can manage blogs" ON blogs;
+DROP POLICY IF EXISTS "Allow public read access to published blogs" ON blogs;
+DROP POLICY IF EXISTS "Allow authenticated users to manage blogs" ON blogs;
+
+CREATE POLICY "Anyone can read published blogs"
+  ON blogs
+  FOR SELECT
+  TO anon, authenticated
+  USING (published = true OR has_role('analyst'));
+
+CREATE POLICY "Admins can manage blogs"
+  ON blogs
+  FOR ALL
+  TO authenticated
+  USING (has_role('platform_admin'))
+  WITH CHECK (has_role('platform_admin'));
+
+-- User profiles
+DROP POLICY IF EXISTS "Users can read own profile" ON user_profiles;
+DROP POLICY IF EXISTS "Users can update own profile" ON user_profiles;
+DROP POLICY IF EXISTS "Users can insert own profile" ON user_profiles;
+DROP POLICY IF EXISTS "System can insert profiles" ON user_profiles;
+
+CREATE POLICY "Users can read own profile"
+  ON user_profiles
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = id OR has_role('platform_admin'));
+
+CREATE POLICY "Users can insert own profile"
+  ON user_profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Users can update own profile"
+  ON user_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+-- Roles are only changed through set_user_role()
+REVOKE INSERT, UPDATE ON user_profiles FROM anon, authenticated;
+GRANT INSERT (id, full_name, username, user_type, org_name) ON user_profiles TO authenticated;
+GRANT UPDATE (full_name, username, user_type, org_name, updated_at) ON user_profiles TO authenticated;
+
+-- Detection triggers write events, alerts and blogs on behalf of whoever inserted the signal
+ALTER FUNCTION create_event_from_signals() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION update_event_signal_count() SECURITY DEFINER SET search_path = public;
+
+-- Analyst lifecycle actions
+CREATE OR REPLACE FUNCTION transition_event(
+    p_event_id UUID,
+    p_action TEXT,
+    p_reason TEXT,
+    p_target_event_id UUID DEFAULT NULL
+)
+RETURNS events AS $$
+DECLARE
+    v_event events%ROWTYPE;
+    v_target events%ROWTYPE;
+    v_levels TEXT[] := ARRAY['low', 'medium', 'high'];
+    v_level INTEGER;
+    v_status TEXT;
+    v_severity TEXT;
+    v_signal_ids UUID[];
+BEGIN
+    IF NOT has_role('analyst') THEN
+        RAISE EXCEPTION 'Only analysts and admins can change event status' USING ERRCODE = '42501';
+    END IF;
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_event FROM events WHERE events.id = p_event_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event % does not exist', p_event_id USING ERRCODE = 'P0002';
+    END IF;
+
+    v_level := array_position(v_levels, v_event.severity);
+    v_status := v_event.status;
+    v_severity := v_event.severity;
+
+    CASE p_action
+        WHEN 'escalate' THEN
+            IF v_event.status = 'monitoring' THEN
+                v_status := 'active';
+            ELSIF v_event.status = 'active' AND v_level < 3 THEN
+                v_severity := v_levels[v_level + 1];
+            ELSE
+                RAISE EXCEPTION 'A % % event cannot be escalated', v_event.severity, v_event.status
+                    USING ERRCODE = 'check_violation';
+            END IF;
+        WHEN 'downgrade' THEN
+            IF v_event.status NOT IN ('active', 'monitoring') THEN
+                RAISE EXCEPTION 'A % event cannot be downgraded', v_event.status USING ERRCODE = 'check_violation';
+            ELSIF v_level > 1 THEN
+                v_severity := v_levels[v_level - 1];
+            ELSIF v_event.status = 'active' THEN
+                v_status := 'monitoring';
+            ELSE
+                RAISE EXCEPTION 'Event is already low severity and under monitoring' USING ERRCODE = 'check_violation';
+            END IF;
+        WHEN 'resolve' THEN
+            v_status := 'resolved';
+        WHEN 'reopen' THEN
+            v_status := 'active';
+        WHEN 'merge' THEN
+            IF p_target_event_id IS NULL OR p_target_event_id = p_event_id THEN
+                RAISE EXCEPTION 'Choose another event to merge into' USING ERRCODE = '22023';
+            END IF;
+
+            SELECT * INTO v_target FROM events WHERE events.id = p_target_event_id FOR UPDATE;
+            IF NOT FOUND OR v_target.status NOT IN ('active', 'monitoring') THEN
+                RAISE EXCEPTION 'Events can only be merged into an open event' USING ERRCODE = 'check_violation';
+            END IF;
+
+            v_status := 'merged';
+        ELSE
+            RAISE EXCEPTION 'Unknown event action %', p_action USING ERRCODE = '22023';
+    END CASE;
+
+    IF NOT event_transition_allowed(v_event.status, v_status) THEN
+        RAISE EXCEPTION 'Event cannot move from % to %', v_event.status, v_status USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM set_config('prevora.event_action', p_action, true);
+    PERFORM set_config('prevora.event_reason', TRIM(p_reason), true);
+
+    UPDATE events
+    SET status = v_status,
+        severity = v_severity,
+        merged_into_id = CASE WHEN p_action = 'merge' THEN p_target_event_id ELSE events.merged_into_id END,
+        updated_at = NOW()
+    WHERE events.id = p_event_id
+    RETURNING * INTO v_event;
+
+    IF p_action = 'merge' THEN
+        SELECT ARRAY_AGG(DISTINCT signal_id)
+        INTO v_signal_ids
+        FROM UNNEST(COALESCE(v_target.signal_ids, '{}') || COALESCE(v_event.signal_ids, '{}')) AS signal_id;
+
+        PERFORM set_config('prevora.event_action', 'absorb', true);
+
+        UPDATE events
+        SET signal_ids = v_signal_ids,
+            signal_count = COALESCE(ARRAY_LENGTH(v_signal_ids, 1), 0),
+            severity = v_levels[GREATEST(array_position(v_levels, v_target.severity), v_level)],
+            anomaly_score = GREATEST(v_target.anomaly_score, v_event.anomaly_score),
+            confidence = GREATEST(v_target.confidence, v_event.confidence),
+            updated_at = NOW()
+        WHERE events.id = p_target_event_id;
+
+        -- The target's severity may not change, so note the merge on its timeline directly
+        INSERT INTO event_status_history (
+            event_id, action, from_status, to_status, from_severity, to_severity,
+            related_event_id, reason, changed_by, changed_by_name
+        )
+        SELECT
+            p_target_event_id, 'absorb', v_target.status, v_target.status, v_target.severity, events.severity,
+            p_event_id, TRIM(p_reason), auth.uid(),
+            (SELECT COALESCE(NULLIF(user_profiles.username, ''), user_profiles.full_name) FROM user_profiles WHERE user_profiles.id = auth.uid())
+        FROM events
+        WHERE events.id = p_target_event_id
+        AND events.severity = v_target.severity;
+    END IF;
+
+    PERFORM set_config('prevora.event_action', '', true);
+    PERFORM set_config('prevora.event_reason', '', true);
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Analyst alert actions; p_fields carries title, location, type, severity, description,
+-- recommendations, expires_at and event_id as needed by the action
+CREATE OR REPLACE FUNCTION manage_alert(
+    p_action TEXT,
+    p_alert_id UUID,
+    p_fields JSONB,
+    p_reason TEXT
+)
+RETURNS alerts AS $$
+DECLARE
+    v_alert alerts%ROWTYPE;
+    v_result alerts%ROWTYPE;
+    v_fields JSONB := COALESCE(p_fields, '{}'::jsonb);
+    v_event events%ROWTYPE;
+BEGIN
+    IF NOT has_role('analyst') THEN
+        RAISE EXCEPTION 'Only analysts and admins can manage alerts' USING ERRCODE = '42501';
+    END IF;
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_action <> 'issue' THEN
+        SELECT * INTO v_alert FROM alerts WHERE alerts.id = p_alert_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Alert % does not exist', p_alert_id USING ERRCODE = 'P0002';
+        END IF;
+        IF v_alert.status IN ('retracted', 'superseded') THEN
+            RAISE EXCEPTION 'A % alert can no longer change', v_alert.status USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    PERFORM set_config('prevora.alert_action', p_action, true);
+    PERFORM set_config('prevora.alert_reason', TRIM(p_reason), true);
+
+    CASE p_action
+        WHEN 'issue' THEN
+            IF v_fields->>'event_id' IS NOT NULL THEN
+                SELECT * INTO v_event FROM events WHERE events.id = (v_fields->>'event_id')::uuid;
+                IF NOT FOUND THEN
+                    RAISE EXCEPTION 'Event % does not exist', v_fields->>'event_id' USING ERRCODE = 'P0002';
+                END IF;
+            END IF;
+
+            INSERT INTO alerts (
+                event_id, origin, title, location, type, severity, status,
+                description, recommendations, issued_at, expires_at
+            ) VALUES (
+                v_event.id,
+                'manual',
+                v_fields->>'title',
+                COALESCE(v_fields->>'location', v_event.location),
+                COALESCE(v_fields->>'type', v_event.type),
+                COALESCE(v_fields->>'severity', v_event.severity),
+                'active',
+                v_fields->>'description',
+                CASE WHEN v_fields ? 'recommendations'
+                    THEN ARRAY(SELECT jsonb_array_elements_text(v_fields->'recommendations')) END,
+                NOW(),
+                (v_fields->>'expires_at')::timestamptz
+            ) RETURNING * INTO v_result;
+        WHEN 'update' THEN
+            UPDATE alerts
+            SET title = COALESCE(v_fields->>'title', alerts.title),
+                severity = COALESCE(v_fields->>'severity', alerts.severity),
+                description = CASE WHEN v_fields ? 'description' THEN v_fields->>'description' ELSE alerts.description END,
+                recommendations = CASE WHEN v_fields ? 'recommendations'
+                    THEN ARRAY(SELECT jsonb_array_elements_text(v_fields->'recommendations'))
+                    ELSE alerts.recommendations END
+            WHERE alerts.id = p_alert_id
+            RETURNING * INTO v_result;
+        WHEN 'extend' THEN
+            IF (v_fields->>'expires_at')::timestamptz IS NULL OR (v_fields->>'expires_at')::timestamptz <= NOW() THEN
+                RAISE EXCEPTION 'The new expiry must be in the future' USING ERRCODE = '22023';
+            END IF;
+
+            -- An alert that already expired becomes active again
+            UPDATE alerts
+            SET expires_at = (v_fields->>'expires_at')::timestamptz,
+                status = CASE WHEN alerts.status = 'resolved' THEN 'active' ELSE alerts.status END
+            WHERE alerts.id = p_alert_id
+            RETURNING * INTO v_result;
+        WHEN 'retract' THEN
+            UPDATE alerts
+            SET status = 'retracted'
+            WHERE alerts.id = p_alert_id
+            RETURNING * INTO v_result;
+        WHEN 'supersede' THEN
+            INSERT INTO alerts (
+                event_id, origin, title, location, type, severity, status,
+                description, recommendations, issued_at, expires_at
+            ) VALUES (
+                v_alert.event_id,
+                v_alert.origin,
+                COALESCE(v_fields->>'title', v_alert.title),
+                v_alert.location,
+                v_alert.type,
+                COALESCE(v_fields->>'severity', v_alert.severity),
+                'active',
+                CASE WHEN v_fields ? 'description' THEN v_fields->>'description' ELSE v_alert.description END,
+                CASE WHEN v_fields ? 'recommendations'
+                    THEN ARRAY(SELECT jsonb_array_elements_text(v_fields->'recommendations'))
+                    ELSE v_alert.recommendations END,
+                NOW(),
+                CASE WHEN v_fields ? 'expires_at' THEN (v_fields->>'expires_at')::timestamptz ELSE v_alert.expires_at END
+            ) RETURNING * INTO v_result;
+
+            UPDATE alerts
+            SET status = 'superseded',
+                superseded_by = v_result.id
+            WHERE alerts.id = p_alert_id;
+        ELSE
+            RAISE EXCEPTION 'Unknown alert action %', p_action USING ERRCODE = '22023';
+    END CASE;
+
+    PERFORM set_config('prevora.alert_action', '', true);
+    PERFORM set_config('prevora.alert_reason', '', true);
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,531 @@
+/*
+  # Organizations, memberships, invitations and private event notes
+
+  1. New Tables
+    - `organizations` - Partner workspaces such as NGOs and health departments
+      - `kind` - ngo, health_dept, research or other
+    - `organization_members` - Who belongs to which organization
+      - A user belongs to at most one organization
+      - `member_role` - `member` or `admin`; every organization keeps at least one admin
+    - `organization_invitations` - Invitations by email address
+      - Accepted only by a signed-in user whose confirmed email matches
+      - Open until `expires_at` (14 days) unless accepted, declined or revoked
+    - `event_notes` - Notes on an event visible only to the author's organization
+
+  2. Changes
+    - `signals.organization_id` - Stamped on insert from the signal's source, or from the
+      organization of whoever inserted it
+    - `signal_sources.organization_id` - Workspace a source reports for
+    - Membership raises the profile role: members become at least data contributors and
+      organization admins at least org admins. Leaving or a role change only touches a role
+      the membership granted, so roles a platform admin set are kept
+    - `user_profiles.role_before_membership` - The role a member had on joining; restored
+      when they leave
+    - Joining copies the organization's name into `user_profiles.org_name`
+    - Invitations to an existing account land in that user's notification inbox
+
+  3. Functions
+    - `user_organization_id()`, `is_org_admin()` - Used by policies
+    - `get_organization_invitation()` - Organization and email behind an invite link, for signup
+    - `get_my_organization_invitations()` - Open invitations for the signed-in user's email
+    - `respond_to_organization_invitation()` - Accept or decline
+    - `get_organization_members()` - Member list with names and emails, for members
+
+  4. Security
+    - Members read their organization, its members and its notes
+    - Organization admins manage invitations and member roles, and remove members
+    - Members may leave; platform admins manage every organization
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE CHECK (LENGTH(TRIM(name)) > 0),
+    kind text NOT NULL DEFAULT 'other' CHECK (kind IN ('ngo', 'health_dept', 'research', 'other')),
+    created_by uuid DEFAULT auth.uid(),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+    organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    member_role text NOT NULL DEFAULT 'member' CHECK (member_role IN ('member', 'admin')),
+    joined_at timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS organization_invitations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    email text NOT NULL CHECK (email = LOWER(email) AND email ~ '^[^@\s]+@[^@\s]+$'),
+    member_role text NOT NULL DEFAULT 'member' CHECK (member_role IN ('member', 'admin')),
+    invited_by uuid DEFAULT auth.uid(),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    expires_at timestamptz NOT NULL DEFAULT now() + INTERVAL '14 days',
+    accepted_at timestamptz,
+    accepted_by uuid,
+    declined_at timestamptz,
+    revoked_at timestamptz
+);
+
+-- One open invitation per address and organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invitations_open
+    ON organization_invitations(organization_id, email)
+    WHERE accepted_at IS NULL AND declined_at IS NULL AND revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_email ON organization_invitations(email);
+
+CREATE TABLE IF NOT EXISTS event_notes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    author_id uuid DEFAULT auth.uid(),
+    author_name text,
+    body text NOT NULL CHECK (LENGTH(TRIM(body)) BETWEEN 1 AND 5000),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_notes_event ON event_notes(event_id, organization_id, created_at DESC);
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS role_before_membership text;
+
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_signals_organization_id ON signals(organization_id, created_at DESC);
+
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION user_organization_id()
+RETURNS UUID AS $$
+BEGIN
+    RETURN (
+        SELECT organization_members.organization_id
+        FROM organization_members
+        WHERE organization_members.user_id = auth.uid()
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Platform admins count as admins of every organization
+CREATE OR REPLACE FUNCTION is_org_admin(p_organization_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN has_role('platform_admin') OR EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_members.organization_id = p_organization_id
+        AND organization_members.user_id = auth.uid()
+        AND organization_members.member_role = 'admin'
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organization"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (id = user_organization_id() OR has_role('platform_admin'));
+
+CREATE POLICY "Platform admins can create organizations"
+  ON organizations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('platform_admin'));
+
+CREATE POLICY "Organization admins can update their organization"
+  ON organizations
+  FOR UPDATE
+  TO authenticated
+  USING (is_org_admin(id))
+  WITH CHECK (is_org_admin(id));
+
+CREATE POLICY "Platform admins can delete organizations"
+  ON organizations
+  FOR DELETE
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE POLICY "Members can read fellow members"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (organization_id = user_organization_id() OR has_role('platform_admin'));
+
+CREATE POLICY "Organization admins can change member roles"
+  ON organization_members
+  FOR UPDATE
+  TO authenticated
+  USING (is_org_admin(organization_id))
+  WITH CHECK (is_org_admin(organization_id));
+
+CREATE POLICY "Organization admins can remove members and members can leave"
+  ON organization_members
+  FOR DELETE
+  TO authenticated
+  USING (is_org_admin(organization_id) OR user_id = auth.uid());
+
+-- Members join by accepting an invitation
+REVOKE INSERT, UPDATE ON organization_members FROM anon, authenticated;
+GRANT UPDATE (member_role) ON organization_members TO authenticated;
+
+CREATE POLICY "Organization admins can read invitations"
+  ON organization_invitations
+  FOR SELECT
+  TO authenticated
+  USING (is_org_admin(organization_id));
+
+CREATE POLICY "Organization admins can invite"
+  ON organization_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_org_admin(organization_id));
+
+CREATE POLICY "Organization admins can revoke invitations"
+  ON organization_invitations
+  FOR UPDATE
+  TO authenticated
+  USING (is_org_admin(organization_id))
+  WITH CHECK (is_org_admin(organization_id));
+
+REVOKE UPDATE ON organization_invitations FROM anon, authenticated;
+GRANT UPDATE (revoked_at) ON organization_invitations TO authenticated;
+
+CREATE POLICY "Members can read their organization's notes"
+  ON event_notes
+  FOR SELECT
+  TO authenticated
+  USING (organization_id = user_organization_id());
+
+CREATE POLICY "Members can add notes for their organization"
+  ON event_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = user_organization_id() AND author_id = auth.uid());
+
+CREATE POLICY "Authors can edit their notes"
+  ON event_notes
+  FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid() AND organization_id = user_organization_id())
+  WITH CHECK (author_id = auth.uid() AND organization_id = user_organization_id());
+
+CREATE POLICY "Authors and organization admins can delete notes"
+  ON event_notes
+  FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = user_organization_id()
+    AND (author_id = auth.uid() OR is_org_admin(organization_id))
+  );
+
+REVOKE UPDATE ON event_notes FROM anon, authenticated;
+GRANT UPDATE (body) ON event_notes TO authenticated;
+
+CREATE OR REPLACE FUNCTION touch_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_touch_organization ON organizations;
+CREATE TRIGGER trigger_touch_organization
+    BEFORE UPDATE ON organizations
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_organization();
+
+CREATE OR REPLACE FUNCTION prepare_event_note()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.author_name := (
+            SELECT COALESCE(NULLIF(user_profiles.username, ''), user_profiles.full_name)
+            FROM user_profiles
+            WHERE user_profiles.id = NEW.author_id
+        );
+    END IF;
+
+    NEW.body := TRIM(NEW.body);
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_prepare_event_note ON event_notes;
+CREATE TRIGGER trigger_prepare_event_note
+    BEFORE INSERT OR UPDATE ON event_notes
+    FOR EACH ROW
+    EXECUTE FUNCTION prepare_event_note();
+
+-- Skipped when the whole organization is being deleted
+CREATE OR REPLACE FUNCTION keep_organization_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.member_role = 'admin'
+    AND (TG_OP = 'DELETE' OR NEW.member_role <> 'admin')
+    AND EXISTS (SELECT 1 FROM organizations WHERE organizations.id = OLD.organization_id)
+    AND NOT EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_members.organization_id = OLD.organization_id
+        AND organization_members.user_id <> OLD.user_id
+        AND organization_members.member_role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'An organization needs at least one admin' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_keep_organization_admin ON organization_members;
+CREATE TRIGGER trigger_keep_organization_admin
+    BEFORE UPDATE OF member_role OR DELETE ON organization_members
+    FOR EACH ROW
+    EXECUTE FUNCTION keep_organization_admin();
+
+-- The membership's role is the higher of the role held before joining and the one the
+-- membership grants. A profile role that differs from it was set by a platform admin since,
+-- and is left alone
+CREATE OR REPLACE FUNCTION sync_member_profile()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_user_id UUID;
+    v_role TEXT;
+    v_prior TEXT;
+    v_granted TEXT;
+    v_previously_granted TEXT;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_user_id := OLD.user_id;
+    ELSE
+        v_user_id := NEW.user_id;
+    END IF;
+
+    SELECT user_profiles.role, user_profiles.role_before_membership INTO v_role, v_prior
+    FROM user_profiles
+    WHERE user_profiles.id = v_user_id
+    FOR UPDATE;
+
+    v_prior := COALESCE(CASE WHEN TG_OP = 'INSERT' THEN v_role ELSE v_prior END, 'registered');
+
+    IF TG_OP = 'DELETE' THEN
+        v_granted := v_prior;
+    ELSE
+        v_granted := CASE WHEN NEW.member_role = 'admin' THEN 'org_admin' ELSE 'data_contributor' END;
+        v_granted := CASE WHEN role_rank(v_prior) > role_rank(v_granted) THEN v_prior ELSE v_granted END;
+    END IF;
+
+    IF TG_OP <> 'INSERT' THEN
+        v_previously_granted := CASE WHEN OLD.member_role = 'admin' THEN 'org_admin' ELSE 'data_contributor' END;
+        v_previously_granted := CASE
+            WHEN role_rank(v_prior) > role_rank(v_previously_granted) THEN v_prior
+            ELSE v_previously_granted
+        END;
+    END IF;
+
+    UPDATE user_profiles
+    SET role = CASE
+            WHEN TG_OP = 'INSERT' OR user_profiles.role = v_previously_granted THEN v_granted
+            ELSE user_profiles.role
+        END,
+        role_before_membership = CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE v_prior END,
+        org_name = CASE
+            WHEN TG_OP = 'INSERT' THEN (SELECT organizations.name FROM organizations WHERE organizations.id = NEW.organization_id)
+            ELSE user_profiles.org_name
+        END,
+        updated_at = NOW()
+    WHERE user_profiles.id = v_user_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_sync_member_profile ON organization_members;
+CREATE TRIGGER trigger_sync_member_profile
+    AFTER INSERT OR UPDATE OF member_role OR DELETE ON organization_members
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_member_profile();
+
+CREATE OR REPLACE FUNCTION notify_invited_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO notifications (user_id, kind, title, message, severity, action_url)
+    SELECT
+        users.id,
+        'system',
+        'Invitation to join ' || organizations.name,
+        'You have been invited to join ' || organizations.name || ' on Prevora as ' ||
+            CASE WHEN NEW.member_role = 'admin' THEN 'an admin' ELSE 'a member' END || '.',
+        'low',
+        '/dashboard?tab=organization'
+    FROM auth.users AS users
+    JOIN organizations ON organizations.id = NEW.organization_id
+    WHERE LOWER(users.email) = NEW.email;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_notify_invited_user ON organization_invitations;
+CREATE TRIGGER trigger_notify_invited_user
+    AFTER INSERT ON organization_invitations
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_invited_user();
+
+-- Whatever the client sends, a signal belongs to its source's organization or its submitter's
+CREATE OR REPLACE FUNCTION stamp_signal_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.organization_id := COALESCE(
+        (SELECT signal_sources.organization_id FROM signal_sources WHERE signal_sources.id = NEW.source_id),
+        user_organization_id()
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_stamp_signal_organization ON signals;
+CREATE TRIGGER trigger_stamp_signal_organization
+    BEFORE INSERT ON signals
+    FOR EACH ROW
+    EXECUTE FUNCTION stamp_signal_organization();
+
+-- Shown on the signup form for an invite link; the id itself is the secret
+CREATE OR REPLACE FUNCTION get_organization_invitation(p_invitation_id UUID)
+RETURNS TABLE (
+    organization_name TEXT,
+    email TEXT,
+    member_role TEXT,
+    expires_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT organizations.name, organization_invitations.email, organization_invitations.member_role,
+           organization_invitations.expires_at
+    FROM organization_invitations
+    JOIN organizations ON organizations.id = organization_invitations.organization_id
+    WHERE organization_invitations.id = p_invitation_id
+    AND organization_invitations.accepted_at IS NULL
+    AND organization_invitations.declined_at IS NULL
+    AND organization_invitations.revoked_at IS NULL
+    AND organization_invitations.expires_at > NOW();
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_my_organization_invitations()
+RETURNS TABLE (
+    id UUID,
+    organization_id UUID,
+    organization_name TEXT,
+    member_role TEXT,
+    created_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT organization_invitations.id, organizations.id, organizations.name, organization_invitations.member_role,
+           organization_invitations.created_at, organization_invitations.expires_at
+    FROM organization_invitations
+    JOIN organizations ON organizations.id = organization_invitations.organization_id
+    WHERE organization_invitations.email = LOWER(auth.jwt() ->> 'email')
+    AND organization_invitations.accepted_at IS NULL
+    AND organization_invitations.declined_at IS NULL
+    AND organization_invitations.revoked_at IS NULL
+    AND organization_invitations.expires_at > NOW()
+    ORDER BY organization_invitations.created_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION respond_to_organization_invitation(p_invitation_id UUID, p_accept BOOLEAN)
+RETURNS organization_invitations AS $$
+DECLARE
+    v_invitation organization_invitations;
+    v_email TEXT;
+    v_confirmed_at TIMESTAMPTZ;
+BEGIN
+    SELECT LOWER(users.email), users.email_confirmed_at
+    INTO v_email, v_confirmed_at
+    FROM auth.users AS users
+    WHERE users.id = auth.uid();
+
+    SELECT * INTO v_invitation
+    FROM organization_invitations
+    WHERE organization_invitations.id = p_invitation_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_email IS NULL OR v_invitation.email <> v_email THEN
+        RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_invitation.accepted_at IS NOT NULL
+    OR v_invitation.declined_at IS NOT NULL
+    OR v_invitation.revoked_at IS NOT NULL
+    OR v_invitation.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'This invitation is no longer open' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NOT p_accept THEN
+        UPDATE organization_invitations
+        SET declined_at = NOW()
+        WHERE organization_invitations.id = p_invitation_id
+        RETURNING * INTO v_invitation;
+        RETURN v_invitation;
+    END IF;
+
+    IF v_confirmed_at IS NULL THEN
+        RAISE EXCEPTION 'Confirm your email address before joining an organization' USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM organization_members WHERE organization_members.user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'You already belong to an organization; leave it before joining another'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO organization_members (organization_id, user_id, member_role)
+    VALUES (v_invitation.organization_id, auth.uid(), v_invitation.member_role);
+
+    UPDATE organization_invitations
+    SET accepted_at = NOW(),
+        accepted_by = auth.uid()
+    WHERE organization_invitations.id = p_invitation_id
+    RETURNING * INTO v_invitation;
+
+    RETURN v_invitation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_organization_members(p_organization_id UUID)
+RETURNS TABLE (
+    user_id UUID,
+    member_role TEXT,
+    joined_at TIMESTAMPTZ,
+    full_name TEXT,
+    username TEXT,
+    email TEXT
+) AS $$
+BEGIN
+    IF p_organization_id IS DISTINCT FROM user_organization_id() AND NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only members can list an organization''s members' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT organization_members.user_id, organization_members.member_role, organization_members.joined_at,
+           user_profiles.full_name, user_profiles.username, users.email::TEXT
+    FROM organization_members
+    JOIN auth.users AS users ON users.id = organization_members.user_id
+    LEFT JOIN user_profiles ON user_profiles.id = organization_members.user_id
+    WHERE organization_members.organization_id = p_organization_id
+    ORDER BY organization_members.member_role, organization_members.joined_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_my_organization_invitations() FROM anon;
+REVOKE EXECUTE ON FUNCTION respond_to_organization_invitation(UUID, BOOLEAN) FROM anon;
+REVOKE EXECUTE ON FUNCTION get_organization_members(UUID) FROM anon;
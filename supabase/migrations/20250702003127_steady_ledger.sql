@@ -0,0 +1,293 @@
+/*
+  # User management for platform admins
+
+  1. Changes
+    - `user_profiles.suspended_at`, `suspended_reason` - Set while an account is suspended.
+      Suspension also bans the auth user and ends their sessions, so they cannot sign in
+      or refresh a token until reactivated. Users cannot write either column, as profile
+      updates are limited to the columns granted in the role migration
+
+  2. New Tables
+    - `admin_audit_log` - One entry per admin action on a user account
+      - `action` - role_change, suspend, reactivate or password_reset
+      - `details` - Action-specific values such as the previous and new role
+      - `actor_email`, `target_email` - Copied in when written, so entries stay readable after
+        an account is deleted
+      - Written only by the functions below; readable by platform admins
+
+  3. Functions
+    - `admin_list_users()` - Profiles joined with auth email, sign-in and confirmation times
+      and organization; searchable, filterable and paged, with the total match count on every row
+    - `set_user_role()` - Now creates a missing profile and records an audit entry
+    - `suspend_user()`, `reactivate_user()` - Platform admins cannot suspend themselves
+    - `force_password_reset()` - Replaces the password with a random one and ends every
+      session; resolves to the email the reset link should go to
+    - All are platform-admin only
+    - `current_user_role()` - Suspended users count as `public`, so a token issued before the
+      suspension grants nothing while it lasts
+*/
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS suspended_at timestamptz;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS suspended_reason text;
+
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN 'public';
+    END IF;
+
+    -- Suspended accounts hold no role, even with a token issued before the ban
+    IF EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.suspended_at IS NOT NULL
+    ) THEN
+        RETURN 'public';
+    END IF;
+
+    RETURN COALESCE(
+        (SELECT user_profiles.role FROM user_profiles WHERE user_profiles.id = auth.uid()),
+        'registered'
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    actor_id uuid DEFAULT auth.uid(),
+    actor_email text,
+    target_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    target_email text,
+    action text NOT NULL CHECK (action IN ('role_change', 'suspend', 'reactivate', 'password_reset')),
+    details jsonb NOT NULL DEFAULT '{}'::jsonb,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_user_id, created_at DESC);
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Platform admins can read the audit log"
+  ON admin_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+REVOKE INSERT, UPDATE, DELETE ON admin_audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION stamp_admin_audit_emails()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.actor_email := (SELECT users.email FROM auth.users AS users WHERE users.id = NEW.actor_id);
+    NEW.target_email := (SELECT users.email FROM auth.users AS users WHERE users.id = NEW.target_user_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_stamp_admin_audit_emails ON admin_audit_log;
+CREATE TRIGGER trigger_stamp_admin_audit_emails
+    BEFORE INSERT ON admin_audit_log
+    FOR EACH ROW
+    EXECUTE FUNCTION stamp_admin_audit_emails();
+
+CREATE OR REPLACE FUNCTION require_platform_admin(p_target_user_id UUID, p_allow_self BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only platform admins can manage users' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT p_allow_self AND p_target_user_id = auth.uid() THEN
+        RAISE EXCEPTION 'Admins cannot do this to their own account' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM auth.users AS users WHERE users.id = p_target_user_id) THEN
+        RAISE EXCEPTION 'User % not found', p_target_user_id USING ERRCODE = 'P0002';
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION require_platform_admin(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION admin_list_users(
+    p_search TEXT DEFAULT NULL,
+    p_role TEXT DEFAULT NULL,
+    p_status TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    email TEXT,
+    full_name TEXT,
+    username TEXT,
+    user_type TEXT,
+    role TEXT,
+    organization_name TEXT,
+    created_at TIMESTAMPTZ,
+    last_sign_in_at TIMESTAMPTZ,
+    email_confirmed_at TIMESTAMPTZ,
+    suspended_at TIMESTAMPTZ,
+    suspended_reason TEXT,
+    total_count BIGINT
+) AS $$
+DECLARE
+    v_search TEXT := NULLIF(TRIM(p_search), '');
+    v_pattern TEXT;
+BEGIN
+    IF NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only platform admins can list users' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_status IS NOT NULL AND p_status NOT IN ('active', 'suspended', 'unconfirmed') THEN
+        RAISE EXCEPTION 'Unknown status %', p_status USING ERRCODE = '22023';
+    END IF;
+
+    -- Backslash, % and _ in the search text match themselves rather than acting as wildcards
+    v_pattern := '%' || REPLACE(REPLACE(REPLACE(v_search, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+    RETURN QUERY
+    SELECT
+        users.id,
+        users.email::TEXT,
+        user_profiles.full_name,
+        user_profiles.username,
+        user_profiles.user_type,
+        COALESCE(user_profiles.role, 'registered'),
+        organizations.name,
+        users.created_at,
+        users.last_sign_in_at,
+        users.email_confirmed_at,
+        user_profiles.suspended_at,
+        user_profiles.suspended_reason,
+        COUNT(*) OVER ()
+    FROM auth.users AS users
+    LEFT JOIN user_profiles ON user_profiles.id = users.id
+    LEFT JOIN organization_members ON organization_members.user_id = users.id
+    LEFT JOIN organizations ON organizations.id = organization_members.organization_id
+    WHERE (
+        v_search IS NULL
+        OR users.email ILIKE v_pattern ESCAPE '\'
+        OR user_profiles.full_name ILIKE v_pattern ESCAPE '\'
+        OR user_profiles.username ILIKE v_pattern ESCAPE '\'
+        OR organizations.name ILIKE v_pattern ESCAPE '\'
+    )
+    AND (p_role IS NULL OR COALESCE(user_profiles.role, 'registered') = p_role)
+    AND (
+        p_status IS NULL
+        OR (p_status = 'suspended' AND user_profiles.suspended_at IS NOT NULL)
+        OR (p_status = 'unconfirmed' AND users.email_confirmed_at IS NULL)
+        OR (p_status = 'active' AND user_profiles.suspended_at IS NULL AND users.email_confirmed_at IS NOT NULL)
+    )
+    ORDER BY users.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_user_role(p_user_id UUID, p_role TEXT)
+RETURNS user_profiles AS $$
+DECLARE
+    v_previous TEXT;
+    v_profile user_profiles;
+BEGIN
+    PERFORM require_platform_admin(p_user_id, true);
+
+    IF p_user_id = auth.uid() AND p_role <> 'platform_admin' THEN
+        RAISE EXCEPTION 'Admins cannot remove their own admin role' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT user_profiles.role INTO v_previous FROM user_profiles WHERE user_profiles.id = p_user_id;
+
+    -- Accounts created before profiles were reliable may have none yet
+    INSERT INTO user_profiles (id, role)
+    VALUES (p_user_id, p_role)
+    ON CONFLICT (id) DO UPDATE
+    SET role = EXCLUDED.role,
+        updated_at = NOW()
+    RETURNING * INTO v_profile;
+
+    INSERT INTO admin_audit_log (target_user_id, action, details)
+    VALUES (p_user_id, 'role_change', jsonb_build_object('from', COALESCE(v_previous, 'registered'), 'to', p_role));
+
+    RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION suspend_user(p_user_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS user_profiles AS $$
+DECLARE
+    v_profile user_profiles;
+BEGIN
+    PERFORM require_platform_admin(p_user_id, false);
+
+    INSERT INTO user_profiles (id, suspended_at, suspended_reason)
+    VALUES (p_user_id, NOW(), NULLIF(TRIM(p_reason), ''))
+    ON CONFLICT (id) DO UPDATE
+    SET suspended_at = EXCLUDED.suspended_at,
+        suspended_reason = EXCLUDED.suspended_reason,
+        updated_at = NOW()
+    RETURNING * INTO v_profile;
+
+    UPDATE auth.users SET banned_until = 'infinity' WHERE auth.users.id = p_user_id;
+    DELETE FROM auth.sessions WHERE auth.sessions.user_id = p_user_id;
+
+    INSERT INTO admin_audit_log (target_user_id, action, details)
+    VALUES (p_user_id, 'suspend', jsonb_build_object('reason', NULLIF(TRIM(p_reason), '')));
+
+    RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reactivate_user(p_user_id UUID)
+RETURNS user_profiles AS $$
+DECLARE
+    v_profile user_profiles;
+BEGIN
+    PERFORM require_platform_admin(p_user_id, false);
+
+    UPDATE user_profiles
+    SET suspended_at = NULL,
+        suspended_reason = NULL,
+        updated_at = NOW()
+    WHERE user_profiles.id = p_user_id
+    RETURNING * INTO v_profile;
+
+    UPDATE auth.users SET banned_until = NULL WHERE auth.users.id = p_user_id;
+
+    INSERT INTO admin_audit_log (target_user_id, action)
+    VALUES (p_user_id, 'reactivate');
+
+    RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The old password stops working at once; the user sets a new one from the reset email
+CREATE OR REPLACE FUNCTION force_password_reset(p_user_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_email TEXT;
+BEGIN
+    PERFORM require_platform_admin(p_user_id, false);
+
+    UPDATE auth.users
+    SET encrypted_password = extensions.crypt(encode(extensions.gen_random_bytes(32), 'hex'), extensions.gen_salt('bf')),
+        updated_at = NOW()
+    WHERE auth.users.id = p_user_id
+    RETURNING auth.users.email INTO v_email;
+
+    DELETE FROM auth.sessions WHERE auth.sessions.user_id = p_user_id;
+
+    INSERT INTO admin_audit_log (target_user_id, action)
+    VALUES (p_user_id, 'password_reset');
+
+    RETURN v_email;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION admin_list_users(TEXT, TEXT, TEXT, INTEGER, INTEGER) FROM anon;
+REVOKE EXECUTE ON FUNCTION suspend_user(UUID, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION reactivate_user(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION force_password_reset(UUID) FROM anon;
@@ -0,0 +1,736 @@
+/*
+  # Server-side admin OTP verification
+
+  1. Changes
+    - `admin_otps` is now written and read only by the `admin-otp` edge function
+      - The public access policies are dropped and clients lose all access to the table
+      - `otp_code` is replaced by `code_hash`, an HMAC of the code keyed with a function secret;
+        existing plaintext codes are deleted
+      - `user_id` - The account the code was issued to; codes are mailed to its email only
+      - `attempts` - Wrong guesses against this code; it is burned after the fifth
+
+  2. New Tables
+    - `admin_otp_lockouts` - Failed verifications per account; ten in a row lock the account
+      out of admin verification for 30 minutes
+    - `admin_sessions` - Sign-in sessions that passed verification, valid for 8 hours.
+      Rows go away with the auth session, so signing out ends admin access too
+
+  3. Functions
+    - `issue_admin_otp()` - Stores a new code hash, replacing any unused code; refuses while
+      locked out or after five codes in 15 minutes
+    - `verify_admin_otp()` - Single use; records failures and applies the lockout; on success
+      marks the caller's session as verified
+    - Both are service role only
+    - `admin_session_verified()` - Whether the current request's session passed verification
+    - `current_user_role()` - Platform admins act as analysts until their session is verified,
+      so every `has_role('platform_admin')` check now requires it
+
+  4. Admin checks
+    - Policies and functions that read `user_profiles.is_admin` directly now call
+      `has_role('platform_admin')`, so they need a verified session as well: detection
+      settings, signal sources and API keys, scheduled jobs, retention, signal type weights,
+      clustering settings, alert emails, system notices and webhooks
+    - `issue_source_api_key()`, `apply_retention()`, `run_scheduled_job()`,
+      `publish_system_notice()`, `rotate_webhook_secret()` and `send_test_webhook()` are
+      redefined with the same check
+*/
+
+DROP POLICY IF EXISTS "Allow public access to admin OTPs" ON admin_otps;
+DROP POLICY IF EXISTS "Admins can manage OTPs" ON admin_otps;
+
+REVOKE ALL ON admin_otps FROM anon, authenticated;
+
+DELETE FROM admin_otps;
+
+ALTER TABLE admin_otps DROP COLUMN IF EXISTS otp_code;
+ALTER TABLE admin_otps ADD COLUMN IF NOT EXISTS user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE admin_otps ADD COLUMN IF NOT EXISTS code_hash text NOT NULL;
+ALTER TABLE admin_otps ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_admin_otps_user ON admin_otps(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS admin_otp_lockouts (
+    user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    failed_attempts integer NOT NULL DEFAULT 0,
+    locked_until timestamptz,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE admin_otp_lockouts ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON admin_otp_lockouts FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS admin_sessions (
+    session_id uuid PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    verified_at timestamptz NOT NULL DEFAULT now(),
+    expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_user ON admin_sessions(user_id);
+
+ALTER TABLE admin_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own admin sessions"
+  ON admin_sessions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+REVOKE INSERT, UPDATE, DELETE ON admin_sessions FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION issue_admin_otp(p_user_id UUID, p_code_hash TEXT)
+RETURNS admin_otps AS $$
+DECLARE
+    v_email TEXT;
+    v_otp admin_otps;
+BEGIN
+    SELECT users.email INTO v_email FROM auth.users AS users WHERE users.id = p_user_id;
+
+    IF v_email IS NULL THEN
+        RAISE EXCEPTION 'User % not found', p_user_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM admin_otp_lockouts
+        WHERE admin_otp_lockouts.user_id = p_user_id
+        AND admin_otp_lockouts.locked_until > NOW()
+    ) THEN
+        RAISE EXCEPTION 'Too many failed attempts; try again later' USING ERRCODE = '54000';
+    END IF;
+
+    IF (
+        SELECT COUNT(*) FROM admin_otps
+        WHERE admin_otps.user_id = p_user_id
+        AND admin_otps.created_at > NOW() - INTERVAL '15 minutes'
+    ) >= 5 THEN
+        RAISE EXCEPTION 'Too many codes requested; try again in a few minutes' USING ERRCODE = '54000';
+    END IF;
+
+    -- Only the newest code can be used
+    UPDATE admin_otps
+    SET used = true
+    WHERE admin_otps.user_id = p_user_id
+    AND admin_otps.used = false;
+
+    INSERT INTO admin_otps (user_id, email, code_hash, expires_at)
+    VALUES (p_user_id, v_email, p_code_hash, NOW() + INTERVAL '10 minutes')
+    RETURNING * INTO v_otp;
+
+    RETURN v_otp;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Resolves to verified, invalid, expired (no usable code) or locked
+CREATE OR REPLACE FUNCTION verify_admin_otp(p_user_id UUID, p_session_id UUID, p_code_hash TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_otp admin_otps;
+    v_failures INTEGER;
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM admin_otp_lockouts
+        WHERE admin_otp_lockouts.user_id = p_user_id
+        AND admin_otp_lockouts.locked_until > NOW()
+    ) THEN
+        RETURN 'locked';
+    END IF;
+
+    SELECT * INTO v_otp
+    FROM admin_otps
+    WHERE admin_otps.user_id = p_user_id
+    AND admin_otps.used = false
+    AND admin_otps.expires_at > NOW()
+    ORDER BY admin_otps.created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_otp.id IS NULL THEN
+        RETURN 'expired';
+    END IF;
+
+    IF v_otp.code_hash = p_code_hash THEN
+        UPDATE admin_otps SET used = true WHERE admin_otps.id = v_otp.id;
+        DELETE FROM admin_otp_lockouts WHERE admin_otp_lockouts.user_id = p_user_id;
+
+        INSERT INTO admin_sessions (session_id, user_id, expires_at)
+        VALUES (p_session_id, p_user_id, NOW() + INTERVAL '8 hours')
+        ON CONFLICT (session_id) DO UPDATE
+        SET verified_at = NOW(),
+            expires_at = EXCLUDED.expires_at;
+
+        RETURN 'verified';
+    END IF;
+
+    UPDATE admin_otps
+    SET attempts = admin_otps.attempts + 1,
+        used = admin_otps.attempts + 1 >= 5
+    WHERE admin_otps.id = v_otp.id;
+
+    INSERT INTO admin_otp_lockouts (user_id, failed_attempts)
+    VALUES (p_user_id, 1)
+    ON CONFLICT (user_id) DO UPDATE
+    SET failed_attempts = admin_otp_lockouts.failed_attempts + 1,
+        updated_at = NOW()
+    RETURNING admin_otp_lockouts.failed_attempts INTO v_failures;
+
+    IF v_failures >= 10 THEN
+        UPDATE admin_otp_lockouts
+        SET failed_attempts = 0,
+            locked_until = NOW() + INTERVAL '30 minutes',
+            updated_at = NOW()
+        WHERE admin_otp_lockouts.user_id = p_user_id;
+
+        UPDATE admin_otps SET used = true WHERE admin_otps.user_id = p_user_id;
+
+        RETURN 'locked';
+    END IF;
+
+    RETURN 'invalid';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION issue_admin_otp(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION verify_admin_otp(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_admin_otp(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION verify_admin_otp(UUID, UUID, TEXT) TO service_role;
+
+CREATE OR REPLACE FUNCTION admin_session_verified()
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM admin_sessions
+        WHERE admin_sessions.session_id = (NULLIF(auth.jwt()->>'session_id', ''))::uuid
+        AND admin_sessions.user_id = auth.uid()
+        AND admin_sessions.expires_at > NOW()
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT AS $$
+DECLARE
+    v_role TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN 'public';
+    END IF;
+
+    -- Suspended accounts hold no role, even with a token issued before the ban
+    IF EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.suspended_at IS NOT NULL
+    ) THEN
+        RETURN 'public';
+    END IF;
+
+    v_role := COALESCE(
+        (SELECT user_profiles.role FROM user_profiles WHERE user_profiles.id = auth.uid()),
+        'registered'
+    );
+
+    IF v_role = 'platform_admin' AND NOT admin_session_verified() THEN
+        RETURN 'analyst';
+    END IF;
+
+    RETURN v_role;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Detection settings
+DROP POLICY IF EXISTS "Admins can add detection settings" ON detection_settings;
+DROP POLICY IF EXISTS "Admins can update detection settings" ON detection_settings;
+DROP POLICY IF EXISTS "Admins can delete scoped detection settings" ON detection_settings;
+DROP POLICY IF EXISTS "Admins can read detection settings audit" ON detection_settings_audit;
+
+CREATE POLICY "Admins can add detection settings"
+  ON detection_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('platform_admin'));
+
+CREATE POLICY "Admins can update detection settings"
+  ON detection_settings
+  FOR UPDATE
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE POLICY "Admins can delete scoped detection settings"
+  ON detection_settings
+  FOR DELETE
+  TO authenticated
+  USING ((signal_type IS NOT NULL OR region IS NOT NULL) AND has_role('platform_admin'));
+
+CREATE POLICY "Admins can read detection settings audit"
+  ON detection_settings_audit
+  FOR SELECT
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+-- Signal sources and API keys
+DROP POLICY IF EXISTS "Admins can read signal sources" ON signal_sources;
+DROP POLICY IF EXISTS "Admins can add signal sources" ON signal_sources;
+DROP POLICY IF EXISTS "Admins can update signal sources" ON signal_sources;
+DROP POLICY IF EXISTS "Admins can read source API keys" ON source_api_keys;
+DROP POLICY IF EXISTS "Admins can revoke source API keys" ON source_api_keys;
+
+CREATE POLICY "Admins can read signal sources"
+  ON signal_sources
+  FOR SELECT
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE POLICY "Admins can add signal sources"
+  ON signal_sources
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('platform_admin'));
+
+CREATE POLICY "Admins can update signal sources"
+  ON signal_sources
+  FOR UPDATE
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE POLICY "Admins can read source API keys"
+  ON source_api_keys
+  FOR SELECT
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE POLICY "Admins can revoke source API keys"
+  ON source_api_keys
+  FOR UPDATE
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE OR REPLACE FUNCTION issue_source_api_key(p_source_id UUID, p_label TEXT DEFAULT NULL)
+RETURNS TEXT AS $$
+DECLARE
+    v_key TEXT;
+BEGIN
+    IF NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only admins can issue API keys' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM signal_sources WHERE signal_sources.id = p_source_id) THEN
+        RAISE EXCEPTION 'Signal source % does not exist', p_source_id USING ERRCODE = 'P0002';
+    END IF;
+
+    v_key := 'prv_' || encode(gen_random_bytes(24), 'hex');
+
+    INSERT INTO source_api_keys (source_id, label, key_prefix, key_hash, created_by)
+    VALUES (p_source_id, NULLIF(TRIM(p_label), ''), LEFT(v_key, 12), encode(digest(v_key, 'sha256'), 'hex'), auth.uid());
+
+    RETURN v_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Scheduled jobs
+DROP POLICY IF EXISTS "Admins can read scheduled jobs" ON scheduled_jobs;
+DROP POLICY IF EXISTS "Admins can pause scheduled jobs" ON scheduled_jobs;
+DROP POLICY IF EXISTS "Admins can read job runs" ON job_runs;
+
+CREATE POLICY "Admins can read scheduled jobs"
+  ON scheduled_jobs
+  FOR SELECT
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE POLICY "Admins can pause scheduled jobs"
+  ON scheduled_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE POLICY "Admins can read job runs"
+  ON job_runs
+  FOR SELECT
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE OR REPLACE FUNCTION run_scheduled_job(p_job_name TEXT, p_trigger TEXT DEFAULT 'schedule')
+RETURNS job_runs AS $$
+DECLARE
+    v_job scheduled_jobs%ROWTYPE;
+    v_run job_runs%ROWTYPE;
+    v_started_at TIMESTAMPTZ := clock_timestamp();
+    v_count INTEGER := 0;
+    v_details JSONB;
+    v_requests INTEGER;
+    v_windows INTEGER;
+    v_runs INTEGER;
+BEGIN
+    -- Signed-in callers must be admins; the scheduler runs without a user
+    IF auth.uid() IS NOT NULL AND NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only admins can run scheduled jobs' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_job FROM scheduled_jobs WHERE scheduled_jobs.name = p_job_name;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown scheduled job %', p_job_name USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Paused jobs still run when started by hand
+    IF NOT v_job.is_enabled AND p_trigger = 'schedule' THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO job_runs (job_name, trigger, triggered_by, started_at)
+    VALUES (p_job_name, p_trigger, auth.uid(), v_started_at)
+    RETURNING * INTO v_run;
+
+    BEGIN
+        CASE p_job_name
+            WHEN 'auto_resolve_events' THEN
+                PERFORM auto_resolve_old_events();
+
+                SELECT COUNT(*) INTO v_count
+                FROM event_status_history
+                WHERE event_status_history.action = 'auto_resolve'
+                AND event_status_history.changed_at >= v_started_at;
+            WHEN 'expire_alerts' THEN
+                UPDATE alerts
+                SET status = 'resolved'
+                WHERE alerts.status IN ('active', 'monitoring')
+                AND alerts.expires_at IS NOT NULL
+                AND alerts.expires_at <= NOW();
+
+                GET DIAGNOSTICS v_count = ROW_COUNT;
+            WHEN 'purge_admin_otps' THEN
+                DELETE FROM admin_otps
+                WHERE admin_otps.used = true
+                OR admin_otps.expires_at < NOW() - INTERVAL '1 day';
+
+                GET DIAGNOSTICS v_count = ROW_COUNT;
+            WHEN 'purge_operational_data' THEN
+                DELETE FROM ingestion_requests WHERE ingestion_requests.created_at < NOW() - INTERVAL '24 hours';
+                GET DIAGNOSTICS v_requests = ROW_COUNT;
+
+                DELETE FROM ingestion_rate_windows WHERE ingestion_rate_windows.window_start < NOW() - INTERVAL '1 hour';
+                GET DIAGNOSTICS v_windows = ROW_COUNT;
+
+                DELETE FROM job_runs
+                WHERE job_runs.started_at < NOW() - INTERVAL '30 days'
+                AND job_runs.id <> v_run.id;
+                GET DIAGNOSTICS v_runs = ROW_COUNT;
+
+                v_count := v_requests + v_windows + v_runs;
+                v_details := jsonb_build_object(
+                    'ingestion_requests', v_requests,
+                    'ingestion_rate_windows', v_windows,
+                    'job_runs', v_runs
+                );
+            WHEN 'apply_retention' THEN
+                SELECT COALESCE(SUM(retention.affected_rows), 0), jsonb_object_agg(retention.target_table, retention.affected_rows)
+                INTO v_count, v_details
+                FROM apply_retention(false) AS retention;
+        END CASE;
+
+        UPDATE job_runs
+        SET status = 'succeeded',
+            affected_rows = v_count,
+            details = v_details,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    EXCEPTION WHEN OTHERS THEN
+        -- The job's own changes are rolled back; the run is kept as failed
+        UPDATE job_runs
+        SET status = 'failed',
+            error = SQLERRM,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    END;
+
+    RETURN v_run;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Retention
+DROP POLICY IF EXISTS "Admins can read retention policies" ON retention_policies;
+DROP POLICY IF EXISTS "Admins can update retention policies" ON retention_policies;
+DROP POLICY IF EXISTS "Admins can read archived records" ON archived_records;
+
+CREATE POLICY "Admins can read retention policies"
+  ON retention_policies
+  FOR SELECT
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE POLICY "Admins can update retention policies"
+  ON retention_policies
+  FOR UPDATE
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE POLICY "Admins can read archived records"
+  ON archived_records
+  FOR SELECT
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE OR REPLACE FUNCTION apply_retention(p_dry_run BOOLEAN DEFAULT true)
+RETURNS TABLE (
+    target_table TEXT,
+    policy_action TEXT,
+    retain_days INTEGER,
+    cutoff TIMESTAMPTZ,
+    affected_rows INTEGER,
+    oldest_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_policy retention_policies%ROWTYPE;
+    v_cutoff TIMESTAMPTZ;
+    v_count INTEGER;
+    v_oldest TIMESTAMPTZ;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only admins can apply retention policies' USING ERRCODE = '42501';
+    END IF;
+
+    -- Alerts go before events so events they pointed at become eligible in the same run
+    FOR v_policy IN
+        SELECT * FROM retention_policies
+        WHERE retention_policies.is_enabled = true
+        ORDER BY array_position(ARRAY['signals', 'alerts', 'events'], retention_policies.table_name)
+    LOOP
+        v_cutoff := NOW() - make_interval(days => v_policy.retain_days);
+
+        CASE v_policy.table_name
+            WHEN 'signals' THEN
+                SELECT COUNT(*), MIN(signals.created_at) INTO v_count, v_oldest
+                FROM signals
+                WHERE signals.created_at < v_cutoff;
+
+                IF NOT p_dry_run AND v_count > 0 THEN
+                    IF v_policy.action = 'archive' THEN
+                        INSERT INTO archived_records (source_table, record_id, record)
+                        SELECT 'signals', signals.id, to_jsonb(signals)
+                        FROM signals
+                        WHERE signals.created_at < v_cutoff;
+                    END IF;
+
+                    DELETE FROM signals WHERE signals.created_at < v_cutoff;
+                    GET DIAGNOSTICS v_count = ROW_COUNT;
+                END IF;
+            WHEN 'alerts' THEN
+                SELECT COUNT(*), MIN(alerts.created_at) INTO v_count, v_oldest
+                FROM alerts
+                WHERE alerts.status = 'resolved'
+                AND alerts.created_at < v_cutoff;
+
+                IF NOT p_dry_run AND v_count > 0 THEN
+                    IF v_policy.action = 'archive' THEN
+                        INSERT INTO archived_records (source_table, record_id, record)
+                        SELECT 'alerts', alerts.id, to_jsonb(alerts)
+                        FROM alerts
+                        WHERE alerts.status = 'resolved'
+                        AND alerts.created_at < v_cutoff;
+                    END IF;
+
+                    DELETE FROM alerts
+                    WHERE alerts.status = 'resolved'
+                    AND alerts.created_at < v_cutoff;
+                    GET DIAGNOSTICS v_count = ROW_COUNT;
+                END IF;
+            WHEN 'events' THEN
+                SELECT COUNT(*), MIN(events.created_at) INTO v_count, v_oldest
+                FROM events
+                WHERE events.status IN ('resolved', 'merged')
+                AND COALESCE(events.resolved_at, events.updated_at, events.created_at) < v_cutoff
+                AND NOT EXISTS (SELECT 1 FROM alerts WHERE alerts.event_id = events.id)
+                AND NOT EXISTS (SELECT 1 FROM blogs WHERE blogs.event_id = events.id);
+
+                IF NOT p_dry_run AND v_count > 0 THEN
+                    IF v_policy.action = 'archive' THEN
+                        INSERT INTO archived_records (source_table, record_id, record)
+                        SELECT 'events', events.id, to_jsonb(events) || jsonb_build_object(
+                            'status_history',
+                            (SELECT COALESCE(jsonb_agg(to_jsonb(event_status_history) ORDER BY event_status_history.changed_at), '[]'::jsonb)
+                             FROM event_status_history
+                             WHERE event_status_history.event_id = events.id)
+                        )
+                        FROM events
+                        WHERE events.status IN ('resolved', 'merged')
+                        AND COALESCE(events.resolved_at, events.updated_at, events.created_at) < v_cutoff
+                        AND NOT EXISTS (SELECT 1 FROM alerts WHERE alerts.event_id = events.id)
+                        AND NOT EXISTS (SELECT 1 FROM blogs WHERE blogs.event_id = events.id);
+                    END IF;
+
+                    DELETE FROM events
+                    WHERE events.status IN ('resolved', 'merged')
+                    AND COALESCE(events.resolved_at, events.updated_at, events.created_at) < v_cutoff
+                    AND NOT EXISTS (SELECT 1 FROM alerts WHERE alerts.event_id = events.id)
+                    AND NOT EXISTS (SELECT 1 FROM blogs WHERE blogs.event_id = events.id);
+                    GET DIAGNOSTICS v_count = ROW_COUNT;
+                END IF;
+        END CASE;
+
+        target_table := v_policy.table_name;
+        policy_action := v_policy.action;
+        retain_days := v_policy.retain_days;
+        cutoff := v_cutoff;
+        affected_rows := v_count;
+        oldest_at := v_oldest;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Signal type weights, clustering settings and alert emails
+DROP POLICY IF EXISTS "Admins can manage signal type weights" ON signal_type_weights;
+DROP POLICY IF EXISTS "Admins can update clustering settings" ON clustering_settings;
+DROP POLICY IF EXISTS "Admins can read alert emails" ON alert_emails;
+
+CREATE POLICY "Admins can manage signal type weights"
+  ON signal_type_weights
+  FOR ALL
+  TO authenticated
+  USING (has_role('platform_admin'))
+  WITH CHECK (has_role('platform_admin'));
+
+CREATE POLICY "Admins can update clustering settings"
+  ON clustering_settings
+  FOR UPDATE
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE POLICY "Admins can read alert emails"
+  ON alert_emails
+  FOR SELECT
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+-- System notices
+DROP POLICY IF EXISTS "Admins can read system notices" ON system_notices;
+
+CREATE POLICY "Admins can read system notices"
+  ON system_notices
+  FOR SELECT
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE OR REPLACE FUNCTION publish_system_notice(
+    p_title TEXT,
+    p_message TEXT,
+    p_severity TEXT DEFAULT 'low',
+    p_action_url TEXT DEFAULT NULL,
+    p_audience TEXT DEFAULT 'all'
+)
+RETURNS system_notices AS $$
+DECLARE
+    v_notice system_notices;
+    v_count INTEGER;
+BEGIN
+    IF NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only admins can publish system notices' USING ERRCODE = '42501';
+    END IF;
+
+    IF NULLIF(TRIM(p_title), '') IS NULL OR NULLIF(TRIM(p_message), '') IS NULL THEN
+        RAISE EXCEPTION 'A notice needs a title and a message' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO system_notices (title, message, severity, action_url, audience, published_by, published_by_name)
+    SELECT TRIM(p_title), TRIM(p_message), p_severity, NULLIF(TRIM(p_action_url), ''), p_audience, auth.uid(),
+           COALESCE(NULLIF(user_profiles.username, ''), user_profiles.full_name)
+    FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    RETURNING * INTO v_notice;
+
+    IF p_audience = 'admins' THEN
+        v_count := notify_admins(v_notice.title, v_notice.message, v_notice.severity, v_notice.action_url, v_notice.id);
+    ELSE
+        INSERT INTO notifications (user_id, kind, title, message, severity, action_url, notice_id)
+        SELECT users.id, 'system', v_notice.title, v_notice.message, v_notice.severity, v_notice.action_url, v_notice.id
+        FROM auth.users AS users;
+
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+    END IF;
+
+    UPDATE system_notices
+    SET recipient_count = v_count
+    WHERE system_notices.id = v_notice.id
+    RETURNING * INTO v_notice;
+
+    RETURN v_notice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Webhooks
+DROP POLICY IF EXISTS "Admins can manage webhook endpoints" ON webhook_endpoints;
+DROP POLICY IF EXISTS "Admins can read webhook deliveries" ON webhook_deliveries;
+
+CREATE POLICY "Admins can manage webhook endpoints"
+  ON webhook_endpoints
+  FOR ALL
+  TO authenticated
+  USING (has_role('platform_admin'))
+  WITH CHECK (has_role('platform_admin'));
+
+CREATE POLICY "Admins can read webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (has_role('platform_admin'));
+
+CREATE OR REPLACE FUNCTION rotate_webhook_secret(p_endpoint_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_secret TEXT;
+BEGIN
+    IF NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only admins can rotate webhook secrets' USING ERRCODE = '42501';
+    END IF;
+
+    v_secret := 'whsec_' || encode(gen_random_bytes(32), 'hex');
+
+    UPDATE webhook_endpoints
+    SET secret = v_secret
+    WHERE webhook_endpoints.id = p_endpoint_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook endpoint % does not exist', p_endpoint_id USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_secret;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION send_test_webhook(p_endpoint_id UUID)
+RETURNS webhook_deliveries AS $$
+DECLARE
+    v_delivery webhook_deliveries;
+BEGIN
+    IF NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only admins can send test webhooks' USING ERRCODE = '42501';
+    END IF;
+
+    -- Tests are tried once so a broken endpoint reports straight back
+    INSERT INTO webhook_deliveries (endpoint_id, event_type, payload, is_test, max_attempts)
+    SELECT
+        webhook_endpoints.id,
+        'test',
+        jsonb_build_object(
+            'type', 'test',
+            'occurred_at', NOW(),
+            'data', jsonb_build_object(
+                'message', 'Test delivery from Prevora',
+                'organization', webhook_endpoints.organization
+            )
+        ),
+        true,
+        1
+    FROM webhook_endpoints
+    WHERE webhook_endpoints.id = p_endpoint_id
+    RETURNING * INTO v_delivery;
+
+    IF v_delivery.id IS NULL THEN
+        RAISE EXCEPTION 'Webhook endpoint % does not exist', p_endpoint_id USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,92 @@
+/*
+  # Usernames and username sign-in
+
+  1. Changes
+    - `user_profiles.username` - Now 3-30 lowercase letters, digits or underscores, and unique.
+      Existing usernames are lowercased, other characters become underscores, short ones are
+      padded and duplicates get a suffix from their account id (the oldest profile keeps the
+      plain name). Empty usernames become NULL
+    - Usernames are trimmed and lowercased on write, so `Alice` and `alice` are the same name
+
+  2. Functions
+    - `username_available()` - For the signup form; says nothing about the account behind a name
+    - `resolve_login_email()` - Maps a username to the account's email for the `username-login`
+      edge function, which signs in with it server-side. Service role only, so emails are never
+      returned to browsers
+*/
+
+ALTER TABLE user_profiles ALTER COLUMN username DROP DEFAULT;
+
+UPDATE user_profiles SET username = NULL WHERE TRIM(user_profiles.username) = '';
+
+-- RPAD also truncates to its length, so only names shorter than three characters go through it
+WITH cleaned AS (
+    SELECT
+        user_profiles.id,
+        user_profiles.created_at,
+        LEFT(REGEXP_REPLACE(LOWER(TRIM(user_profiles.username)), '[^a-z0-9_]', '_', 'g'), 30) AS name
+    FROM user_profiles
+    WHERE user_profiles.username IS NOT NULL
+), normalized AS (
+    SELECT
+        cleaned.id,
+        CASE WHEN LENGTH(cleaned.name) < 3 THEN RPAD(cleaned.name, 3, '_') ELSE cleaned.name END AS base,
+        ROW_NUMBER() OVER (
+            PARTITION BY CASE WHEN LENGTH(cleaned.name) < 3 THEN RPAD(cleaned.name, 3, '_') ELSE cleaned.name END
+            ORDER BY cleaned.created_at, cleaned.id
+        ) AS position
+    FROM cleaned
+)
+UPDATE user_profiles
+SET username = CASE
+    WHEN normalized.position = 1 THEN normalized.base
+    ELSE LEFT(normalized.base, 22) || '_' || LEFT(REPLACE(normalized.id::TEXT, '-', ''), 7)
+END
+FROM normalized
+WHERE normalized.id = user_profiles.id;
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_username_format;
+ALTER TABLE user_profiles ADD CONSTRAINT user_profiles_username_format
+    CHECK (username ~ '^[a-z0-9_]{3,30}$');
+
+DROP INDEX IF EXISTS idx_user_profiles_username;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_profiles_username ON user_profiles(username);
+
+CREATE OR REPLACE FUNCTION normalize_profile_username()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.username := NULLIF(LOWER(TRIM(NEW.username)), '');
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_normalize_profile_username ON user_profiles;
+CREATE TRIGGER trigger_normalize_profile_username
+    BEFORE INSERT OR UPDATE OF username ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION normalize_profile_username();
+
+CREATE OR REPLACE FUNCTION username_available(p_username TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.username = LOWER(TRIM(p_username))
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_login_email(p_username TEXT)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN (
+        SELECT users.email::TEXT
+        FROM user_profiles
+        JOIN auth.users AS users ON users.id = user_profiles.id
+        WHERE user_profiles.username = LOWER(TRIM(p_username))
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION resolve_login_email(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_login_email(TEXT) TO service_role;
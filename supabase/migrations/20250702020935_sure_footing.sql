@@ -0,0 +1,195 @@
+/*
+  # Profiles created with the auth account
+
+  1. Changes
+    - `create_profile_for_new_user` trigger on `auth.users` inserts the profile in the same
+      transaction as the account, from the signup metadata (`username`, `full_name`,
+      `user_type`, `org_name`). A taken or malformed username fails the signup instead of
+      leaving an account without a profile
+    - Clients can no longer insert profiles; the insert policy and grant are removed
+
+  2. Functions
+    - `repair_user_profiles()` - Creates the profile for any account that lacks one, from its
+      metadata; usernames that are malformed or already taken are left empty. Run once here to
+      backfill, then hourly as the `repair_user_profiles` scheduled job
+*/
+
+CREATE OR REPLACE FUNCTION create_profile_for_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO user_profiles (id, full_name, username, user_type, org_name)
+    VALUES (
+        NEW.id,
+        COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+        NULLIF(TRIM(NEW.raw_user_meta_data->>'username'), ''),
+        COALESCE(NULLIF(NEW.raw_user_meta_data->>'user_type', ''), 'user'),
+        COALESCE(NEW.raw_user_meta_data->>'org_name', '')
+    )
+    ON CONFLICT (id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_create_profile_for_new_user ON auth.users;
+CREATE TRIGGER trigger_create_profile_for_new_user
+    AFTER INSERT ON auth.users
+    FOR EACH ROW
+    EXECUTE FUNCTION create_profile_for_new_user();
+
+CREATE OR REPLACE FUNCTION repair_user_profiles()
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    WITH missing AS (
+        SELECT
+            users.id,
+            users.raw_user_meta_data AS metadata,
+            NULLIF(LOWER(TRIM(users.raw_user_meta_data->>'username')), '') AS requested_username
+        FROM auth.users AS users
+        LEFT JOIN user_profiles ON user_profiles.id = users.id
+        WHERE user_profiles.id IS NULL
+    ),
+    ranked AS (
+        SELECT
+            missing.*,
+            ROW_NUMBER() OVER (PARTITION BY missing.requested_username ORDER BY missing.id) AS position
+        FROM missing
+    )
+    INSERT INTO user_profiles (id, full_name, username, user_type, org_name)
+    SELECT
+        ranked.id,
+        COALESCE(ranked.metadata->>'full_name', ''),
+        CASE
+            WHEN ranked.position = 1
+                AND ranked.requested_username ~ '^[a-z0-9_]{3,30}$'
+                AND NOT EXISTS (
+                    SELECT 1 FROM user_profiles
+                    WHERE user_profiles.username = ranked.requested_username
+                )
+            THEN ranked.requested_username
+        END,
+        COALESCE(NULLIF(ranked.metadata->>'user_type', ''), 'user'),
+        COALESCE(ranked.metadata->>'org_name', '')
+    FROM ranked
+    ON CONFLICT (id) DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION repair_user_profiles() FROM PUBLIC, anon, authenticated;
+
+SELECT repair_user_profiles();
+
+DROP POLICY IF EXISTS "Users can insert own profile" ON user_profiles;
+REVOKE INSERT ON user_profiles FROM anon, authenticated;
+
+INSERT INTO scheduled_jobs (name, description, schedule) VALUES
+    ('repair_user_profiles', 'Create missing user profiles from signup metadata', '15 * * * *')
+ON CONFLICT (name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION run_scheduled_job(p_job_name TEXT, p_trigger TEXT DEFAULT 'schedule')
+RETURNS job_runs AS $$
+DECLARE
+    v_job scheduled_jobs%ROWTYPE;
+    v_run job_runs%ROWTYPE;
+    v_started_at TIMESTAMPTZ := clock_timestamp();
+    v_count INTEGER := 0;
+    v_details JSONB;
+    v_requests INTEGER;
+    v_windows INTEGER;
+    v_runs INTEGER;
+BEGIN
+    -- Signed-in callers must be admins; the scheduler runs without a user
+    IF auth.uid() IS NOT NULL AND NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only admins can run scheduled jobs' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_job FROM scheduled_jobs WHERE scheduled_jobs.name = p_job_name;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown scheduled job %', p_job_name USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Paused jobs still run when started by hand
+    IF NOT v_job.is_enabled AND p_trigger = 'schedule' THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO job_runs (job_name, trigger, triggered_by, started_at)
+    VALUES (p_job_name, p_trigger, auth.uid(), v_started_at)
+    RETURNING * INTO v_run;
+
+    BEGIN
+        CASE p_job_name
+            WHEN 'auto_resolve_events' THEN
+                PERFORM auto_resolve_old_events();
+
+                SELECT COUNT(*) INTO v_count
+                FROM event_status_history
+                WHERE event_status_history.action = 'auto_resolve'
+                AND event_status_history.changed_at >= v_started_at;
+            WHEN 'expire_alerts' THEN
+                UPDATE alerts
+                SET status = 'resolved'
+                WHERE alerts.status IN ('active', 'monitoring')
+                AND alerts.expires_at IS NOT NULL
+                AND alerts.expires_at <= NOW();
+
+                GET DIAGNOSTICS v_count = ROW_COUNT;
+            WHEN 'purge_admin_otps' THEN
+                DELETE FROM admin_otps
+                WHERE admin_otps.used = true
+                OR admin_otps.expires_at < NOW() - INTERVAL '1 day';
+
+                GET DIAGNOSTICS v_count = ROW_COUNT;
+            WHEN 'purge_operational_data' THEN
+                DELETE FROM ingestion_requests WHERE ingestion_requests.created_at < NOW() - INTERVAL '24 hours';
+                GET DIAGNOSTICS v_requests = ROW_COUNT;
+
+                DELETE FROM ingestion_rate_windows WHERE ingestion_rate_windows.window_start < NOW() - INTERVAL '1 hour';
+                GET DIAGNOSTICS v_windows = ROW_COUNT;
+
+                DELETE FROM job_runs
+                WHERE job_runs.started_at < NOW() - INTERVAL '30 days'
+                AND job_runs.id <> v_run.id;
+                GET DIAGNOSTICS v_runs = ROW_COUNT;
+
+                v_count := v_requests + v_windows + v_runs;
+                v_details := jsonb_build_object(
+                    'ingestion_requests', v_requests,
+                    'ingestion_rate_windows', v_windows,
+                    'job_runs', v_runs
+                );
+            WHEN 'apply_retention' THEN
+                SELECT COALESCE(SUM(retention.affected_rows), 0), jsonb_object_agg(retention.target_table, retention.affected_rows)
+                INTO v_count, v_details
+                FROM apply_retention(false) AS retention;
+            WHEN 'repair_user_profiles' THEN
+                v_count := repair_user_profiles();
+        END CASE;
+
+        UPDATE job_runs
+        SET status = 'succeeded',
+            affected_rows = v_count,
+            details = v_details,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    EXCEPTION WHEN OTHERS THEN
+        -- The job's own changes are rolled back; the run is kept as failed
+        UPDATE job_runs
+        SET status = 'failed',
+            error = SQLERRM,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    END;
+
+    RETURN v_run;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+SELECT cron.schedule('prevora_repair_user_profiles', '15 * * * *', $$SELECT run_scheduled_job('repair_user_profiles')$$);
@@ -0,0 +1,178 @@
+/*
+  # Multi-factor authentication for staff roles
+
+  1. Changes
+    - Analysts and every role above them must use TOTP multi-factor authentication.
+      `current_user_role()` treats their sessions as `data_contributor` until the session
+      reaches AAL2, so every `has_role()` check for analyst or above requires the second
+      factor. Platform admins also still need the admin email code from the admin-otp function
+    - Factors are enrolled and challenged through Supabase Auth's built-in TOTP support
+
+  2. New Tables
+    - `mfa_recovery_codes` - One-time codes for a lost authenticator, stored as SHA-256 hashes.
+      Not readable by clients
+    - `mfa_recovery_lockouts` - Wrong recovery codes per account; five in a row lock recovery
+      for 30 minutes
+
+  3. Functions
+    - `mfa_required()` - Whether the signed-in user's role requires MFA
+    - `generate_mfa_recovery_codes()` - Replaces the user's codes with ten new ones and returns
+      them; they are never shown again. Needs an AAL2 session
+    - `redeem_mfa_recovery_code()` - Uses up one code and removes the user's factors, so they
+      can sign in with their password and enroll a new authenticator. Resolves to redeemed,
+      invalid or locked
+*/
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    code_hash text NOT NULL,
+    used_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user ON mfa_recovery_codes(user_id);
+
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON mfa_recovery_codes FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_lockouts (
+    user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    failed_attempts integer NOT NULL DEFAULT 0,
+    locked_until timestamptz,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE mfa_recovery_lockouts ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON mfa_recovery_lockouts FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION mfa_required()
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN role_rank(COALESCE(
+        (SELECT user_profiles.role FROM user_profiles WHERE user_profiles.id = auth.uid()),
+        'registered'
+    )) >= role_rank('analyst');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION generate_mfa_recovery_codes()
+RETURNS TEXT[] AS $$
+DECLARE
+    v_codes TEXT[] := '{}';
+    v_code TEXT;
+BEGIN
+    IF auth.uid() IS NULL OR COALESCE(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+        RAISE EXCEPTION 'Verify with your authenticator app first' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM mfa_recovery_codes WHERE mfa_recovery_codes.user_id = auth.uid();
+
+    FOR i IN 1..10 LOOP
+        v_code := encode(gen_random_bytes(5), 'hex');
+        v_code := substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5);
+        v_codes := array_append(v_codes, v_code);
+
+        INSERT INTO mfa_recovery_codes (user_id, code_hash)
+        VALUES (auth.uid(), encode(digest(v_code, 'sha256'), 'hex'));
+    END LOOP;
+
+    RETURN v_codes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Failures are returned rather than raised, so the attempt count survives the call
+CREATE OR REPLACE FUNCTION redeem_mfa_recovery_code(p_code TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_code_id UUID;
+    v_failures INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in with your password first' USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM mfa_recovery_lockouts
+        WHERE mfa_recovery_lockouts.user_id = auth.uid()
+        AND mfa_recovery_lockouts.locked_until > NOW()
+    ) THEN
+        RETURN 'locked';
+    END IF;
+
+    SELECT mfa_recovery_codes.id INTO v_code_id
+    FROM mfa_recovery_codes
+    WHERE mfa_recovery_codes.user_id = auth.uid()
+    AND mfa_recovery_codes.used_at IS NULL
+    AND mfa_recovery_codes.code_hash = encode(digest(LOWER(TRIM(p_code)), 'sha256'), 'hex')
+    FOR UPDATE;
+
+    IF v_code_id IS NULL THEN
+        INSERT INTO mfa_recovery_lockouts (user_id, failed_attempts)
+        VALUES (auth.uid(), 1)
+        ON CONFLICT (user_id) DO UPDATE
+        SET failed_attempts = mfa_recovery_lockouts.failed_attempts + 1,
+            updated_at = NOW()
+        RETURNING mfa_recovery_lockouts.failed_attempts INTO v_failures;
+
+        IF v_failures >= 5 THEN
+            UPDATE mfa_recovery_lockouts
+            SET failed_attempts = 0,
+                locked_until = NOW() + INTERVAL '30 minutes',
+                updated_at = NOW()
+            WHERE mfa_recovery_lockouts.user_id = auth.uid();
+
+            RETURN 'locked';
+        END IF;
+
+        RETURN 'invalid';
+    END IF;
+
+    UPDATE mfa_recovery_codes SET used_at = NOW() WHERE mfa_recovery_codes.id = v_code_id;
+    DELETE FROM mfa_recovery_lockouts WHERE mfa_recovery_lockouts.user_id = auth.uid();
+    DELETE FROM auth.mfa_factors WHERE auth.mfa_factors.user_id = auth.uid();
+
+    RETURN 'redeemed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION mfa_required() FROM anon;
+REVOKE EXECUTE ON FUNCTION generate_mfa_recovery_codes() FROM anon;
+REVOKE EXECUTE ON FUNCTION redeem_mfa_recovery_code(TEXT) FROM anon;
+
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT AS $$
+DECLARE
+    v_role TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN 'public';
+    END IF;
+
+    -- Suspended accounts hold no role, even with a token issued before the ban
+    IF EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_profiles.id = auth.uid()
+        AND user_profiles.suspended_at IS NOT NULL
+    ) THEN
+        RETURN 'public';
+    END IF;
+
+    v_role := COALESCE(
+        (SELECT user_profiles.role FROM user_profiles WHERE user_profiles.id = auth.uid()),
+        'registered'
+    );
+
+    IF role_rank(v_role) >= role_rank('analyst') AND COALESCE(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+        RETURN 'data_contributor';
+    END IF;
+
+    IF v_role = 'platform_admin' AND NOT admin_session_verified() THEN
+        RETURN 'analyst';
+    END IF;
+
+    RETURN v_role;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,173 @@
+/*
+  # Scheduled alert email delivery
+
+  1. Changes
+    - `scheduled_jobs.edge_function` - Jobs with this set call that edge function through
+      pg_net instead of running SQL. The run records the pg_net request id in `details`;
+      the function's own response is in `net._http_response`
+    - `send_alert_emails` job - Invokes `send-alert-emails` every minute, so the
+      `alert_emails` outbox is drained and failed sends are retried without anyone
+      calling the function by hand. It starts paused when the Vault secrets below are
+      missing; enable it from the System Status card once they are set
+
+  2. Functions
+    - `invoke_edge_function()` - POSTs to an edge function with the service role key.
+      Reads the `project_url` and `service_role_key` secrets from Vault; create them once
+      per project with `vault.create_secret()`
+    - `run_scheduled_job()` - Dispatches edge function jobs
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+ALTER TABLE scheduled_jobs ADD COLUMN IF NOT EXISTS edge_function text;
+
+CREATE OR REPLACE FUNCTION invoke_edge_function(p_function TEXT, p_body JSONB DEFAULT '{}')
+RETURNS BIGINT AS $$
+DECLARE
+    v_url TEXT;
+    v_key TEXT;
+BEGIN
+    SELECT decrypted_secrets.decrypted_secret INTO v_url
+    FROM vault.decrypted_secrets
+    WHERE decrypted_secrets.name = 'project_url';
+
+    SELECT decrypted_secrets.decrypted_secret INTO v_key
+    FROM vault.decrypted_secrets
+    WHERE decrypted_secrets.name = 'service_role_key';
+
+    IF v_url IS NULL OR v_key IS NULL THEN
+        RAISE EXCEPTION 'Vault secrets project_url and service_role_key must be set to call edge functions'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN net.http_post(
+        url := RTRIM(v_url, '/') || '/functions/v1/' || p_function,
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || v_key
+        ),
+        body := COALESCE(p_body, '{}'::jsonb)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+INSERT INTO scheduled_jobs (name, description, schedule, edge_function) VALUES
+    ('send_alert_emails', 'Send queued alert subscription emails and retry failed ones', '* * * * *', 'send-alert-emails')
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE scheduled_jobs
+SET is_enabled = false
+WHERE scheduled_jobs.name = 'send_alert_emails'
+AND (
+    SELECT COUNT(*) FROM vault.decrypted_secrets
+    WHERE decrypted_secrets.name IN ('project_url', 'service_role_key')
+) < 2;
+
+CREATE OR REPLACE FUNCTION run_scheduled_job(p_job_name TEXT, p_trigger TEXT DEFAULT 'schedule')
+RETURNS job_runs AS $$
+DECLARE
+    v_job scheduled_jobs%ROWTYPE;
+    v_run job_runs%ROWTYPE;
+    v_started_at TIMESTAMPTZ := clock_timestamp();
+    v_count INTEGER := 0;
+    v_details JSONB;
+    v_requests INTEGER;
+    v_windows INTEGER;
+    v_runs INTEGER;
+BEGIN
+    -- Signed-in callers must be admins; the scheduler runs without a user
+    IF auth.uid() IS NOT NULL AND NOT has_role('platform_admin') THEN
+        RAISE EXCEPTION 'Only admins can run scheduled jobs' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_job FROM scheduled_jobs WHERE scheduled_jobs.name = p_job_name;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown scheduled job %', p_job_name USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Paused jobs still run when started by hand
+    IF NOT v_job.is_enabled AND p_trigger = 'schedule' THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO job_runs (job_name, trigger, triggered_by, started_at)
+    VALUES (p_job_name, p_trigger, auth.uid(), v_started_at)
+    RETURNING * INTO v_run;
+
+    BEGIN
+        IF v_job.edge_function IS NOT NULL THEN
+            v_details := jsonb_build_object('request_id', invoke_edge_function(v_job.edge_function));
+        ELSE
+            CASE p_job_name
+                WHEN 'auto_resolve_events' THEN
+                    PERFORM auto_resolve_old_events();
+
+                    SELECT COUNT(*) INTO v_count
+                    FROM event_status_history
+                    WHERE event_status_history.action = 'auto_resolve'
+                    AND event_status_history.changed_at >= v_started_at;
+                WHEN 'expire_alerts' THEN
+                    UPDATE alerts
+                    SET status = 'resolved'
+                    WHERE alerts.status IN ('active', 'monitoring')
+                    AND alerts.expires_at IS NOT NULL
+                    AND alerts.expires_at <= NOW();
+
+                    GET DIAGNOSTICS v_count = ROW_COUNT;
+                WHEN 'purge_admin_otps' THEN
+                    DELETE FROM admin_otps
+                    WHERE admin_otps.used = true
+                    OR admin_otps.expires_at < NOW() - INTERVAL '1 day';
+
+                    GET DIAGNOSTICS v_count = ROW_COUNT;
+                WHEN 'purge_operational_data' THEN
+                    DELETE FROM ingestion_requests WHERE ingestion_requests.created_at < NOW() - INTERVAL '24 hours';
+                    GET DIAGNOSTICS v_requests = ROW_COUNT;
+
+                    DELETE FROM ingestion_rate_windows WHERE ingestion_rate_windows.window_start < NOW() - INTERVAL '1 hour';
+                    GET DIAGNOSTICS v_windows = ROW_COUNT;
+
+                    DELETE FROM job_runs
+                    WHERE job_runs.started_at < NOW() - INTERVAL '30 days'
+                    AND job_runs.id <> v_run.id;
+                    GET DIAGNOSTICS v_runs = ROW_COUNT;
+
+                    v_count := v_requests + v_windows + v_runs;
+                    v_details := jsonb_build_object(
+                        'ingestion_requests', v_requests,
+                        'ingestion_rate_windows', v_windows,
+                        'job_runs', v_runs
+                    );
+                WHEN 'apply_retention' THEN
+                    SELECT COALESCE(SUM(retention.affected_rows), 0), jsonb_object_agg(retention.target_table, retention.affected_rows)
+                    INTO v_count, v_details
+                    FROM apply_retention(false) AS retention;
+                WHEN 'repair_user_profiles' THEN
+                    v_count := repair_user_profiles();
+            END CASE;
+        END IF;
+
+        UPDATE job_runs
+        SET status = 'succeeded',
+            affected_rows = v_count,
+            details = v_details,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    EXCEPTION WHEN OTHERS THEN
+        -- The job's own changes are rolled back; the run is kept as failed
+        UPDATE job_runs
+        SET status = 'failed',
+            error = SQLERRM,
+            finished_at = clock_timestamp()
+        WHERE job_runs.id = v_run.id
+        RETURNING * INTO v_run;
+    END;
+
+    RETURN v_run;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+SELECT cron.schedule('prevora_send_alert_emails', '* * * * *', $$SELECT run_scheduled_job('send_alert_emails')$$);
@@ -0,0 +1,199 @@
+/*
+  # Organization-owned webhooks and scheduled delivery
+
+  1. Changes
+    - `webhook_endpoints.organization_id` - Replaces the free-text `organization` column.
+      Existing endpoints are matched to the organization with the same name, and names with
+      no organization get one
+    - `deliver_webhooks` job - Invokes `deliver-webhooks` every minute, so queued deliveries
+      and retries go out without anyone calling the function by hand. Like
+      `send_alert_emails`, it starts paused when the Vault secrets are missing
+
+  2. Functions
+    - `check_webhook_endpoint_url()` - Refuses endpoints on localhost, internal names and
+      private, loopback, link-local or reserved IP addresses when they are saved. The
+      `deliver-webhooks` function checks the resolved addresses again before each request
+    - `rotate_webhook_secret()`, `send_test_webhook()` - Open to admins of the endpoint's
+      organization; test payloads carry the organization's name
+
+  3. Security
+    - Organization admins manage their organization's endpoints and read their delivery log;
+      platform admins manage every organization's
+    - `webhook_deliveries.response_body` now holds only the response's status line; bodies
+      already stored are cleared
+*/
+
+ALTER TABLE webhook_endpoints ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+
+INSERT INTO organizations (name)
+SELECT DISTINCT COALESCE(NULLIF(TRIM(webhook_endpoints.organization), ''), 'Unnamed partner')
+FROM webhook_endpoints
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE webhook_endpoints
+SET organization_id = organizations.id
+FROM organizations
+WHERE organizations.name = COALESCE(NULLIF(TRIM(webhook_endpoints.organization), ''), 'Unnamed partner');
+
+ALTER TABLE webhook_endpoints ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE webhook_endpoints DROP COLUMN IF EXISTS organization;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_organization ON webhook_endpoints(organization_id);
+
+DROP POLICY IF EXISTS "Admins can manage webhook endpoints" ON webhook_endpoints;
+DROP POLICY IF EXISTS "Admins can read webhook deliveries" ON webhook_deliveries;
+
+CREATE POLICY "Organization admins can manage webhook endpoints"
+  ON webhook_endpoints
+  FOR ALL
+  TO authenticated
+  USING (is_org_admin(organization_id))
+  WITH CHECK (is_org_admin(organization_id));
+
+CREATE POLICY "Organization admins can read webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM webhook_endpoints
+      WHERE webhook_endpoints.id = webhook_deliveries.endpoint_id
+      AND is_org_admin(webhook_endpoints.organization_id)
+    )
+  );
+
+GRANT SELECT (organization_id) ON webhook_endpoints TO authenticated;
+GRANT UPDATE (organization_id) ON webhook_endpoints TO authenticated;
+
+-- A host whose last label is numeric is parsed as an IPv4 address by URL parsers, including
+-- forms such as 2130706433 or 0x7f.1, so only plain dotted quads are accepted and compared
+CREATE OR REPLACE FUNCTION check_webhook_endpoint_url()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_host TEXT;
+BEGIN
+    v_host := LOWER(substring(NEW.url FROM '^https://(?:[^@/?#]*@)?(\[[^\]]*\]|[^:/?#]*)'));
+    v_host := RTRIM(v_host, '.');
+
+    IF v_host IS NULL OR v_host = '' THEN
+        RAISE EXCEPTION 'Endpoint URL must include a host' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_host = 'localhost' OR v_host ~ '\.(localhost|local|localdomain|internal|home\.arpa)$' THEN
+        RAISE EXCEPTION 'Endpoint URL cannot point at an internal host' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_host ~ '^\[.*\]$' THEN
+        IF BTRIM(v_host, '[]')::inet <<= ANY(ARRAY['::/127', '::ffff:0:0/96', 'fc00::/7', 'fe80::/10', 'fec0::/10', 'ff00::/8']::inet[]) THEN
+            RAISE EXCEPTION 'Endpoint URL cannot point at a private or reserved address' USING ERRCODE = '22023';
+        END IF;
+    ELSIF v_host ~ '(^|\.)(0x[0-9a-f]*|[0-9]+)$' THEN
+        IF v_host !~ '^\d{1,3}(\.\d{1,3}){3}$' THEN
+            RAISE EXCEPTION 'Write IP addresses in endpoint URLs as four decimal numbers' USING ERRCODE = '22023';
+        END IF;
+
+        IF v_host::inet <<= ANY(ARRAY[
+            '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16',
+            '172.16.0.0/12', '192.168.0.0/16', '198.18.0.0/15', '224.0.0.0/3'
+        ]::inet[]) THEN
+            RAISE EXCEPTION 'Endpoint URL cannot point at a private or reserved address' USING ERRCODE = '22023';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_webhook_endpoint_url ON webhook_endpoints;
+CREATE TRIGGER trigger_check_webhook_endpoint_url
+    BEFORE INSERT OR UPDATE OF url ON webhook_endpoints
+    FOR EACH ROW
+    EXECUTE FUNCTION check_webhook_endpoint_url();
+
+UPDATE webhook_deliveries
+SET response_body = NULL
+WHERE webhook_deliveries.response_body IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION rotate_webhook_secret(p_endpoint_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_organization_id UUID;
+    v_secret TEXT;
+BEGIN
+    SELECT webhook_endpoints.organization_id INTO v_organization_id
+    FROM webhook_endpoints
+    WHERE webhook_endpoints.id = p_endpoint_id;
+
+    IF NOT is_org_admin(v_organization_id) THEN
+        RAISE EXCEPTION 'Only organization admins can rotate webhook secrets' USING ERRCODE = '42501';
+    END IF;
+
+    v_secret := 'whsec_' || encode(gen_random_bytes(32), 'hex');
+
+    UPDATE webhook_endpoints
+    SET secret = v_secret
+    WHERE webhook_endpoints.id = p_endpoint_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook endpoint % does not exist', p_endpoint_id USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_secret;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION send_test_webhook(p_endpoint_id UUID)
+RETURNS webhook_deliveries AS $$
+DECLARE
+    v_organization_id UUID;
+    v_delivery webhook_deliveries;
+BEGIN
+    SELECT webhook_endpoints.organization_id INTO v_organization_id
+    FROM webhook_endpoints
+    WHERE webhook_endpoints.id = p_endpoint_id;
+
+    IF NOT is_org_admin(v_organization_id) THEN
+        RAISE EXCEPTION 'Only organization admins can send test webhooks' USING ERRCODE = '42501';
+    END IF;
+
+    -- Tests are tried once so a broken endpoint reports straight back
+    INSERT INTO webhook_deliveries (endpoint_id, event_type, payload, is_test, max_attempts)
+    SELECT
+        webhook_endpoints.id,
+        'test',
+        jsonb_build_object(
+            'type', 'test',
+            'occurred_at', NOW(),
+            'data', jsonb_build_object(
+                'message', 'Test delivery from Prevora',
+                'organization', organizations.name
+            )
+        ),
+        true,
+        1
+    FROM webhook_endpoints
+    JOIN organizations ON organizations.id = webhook_endpoints.organization_id
+    WHERE webhook_endpoints.id = p_endpoint_id
+    RETURNING * INTO v_delivery;
+
+    IF v_delivery.id IS NULL THEN
+        RAISE EXCEPTION 'Webhook endpoint % does not exist', p_endpoint_id USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+INSERT INTO scheduled_jobs (name, description, schedule, edge_function) VALUES
+    ('deliver_webhooks', 'Send queued webhook deliveries and retry failed ones', '* * * * *', 'deliver-webhooks')
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE scheduled_jobs
+SET is_enabled = false
+WHERE scheduled_jobs.name = 'deliver_webhooks'
+AND (
+    SELECT COUNT(*) FROM vault.decrypted_secrets
+    WHERE decrypted_secrets.name IN ('project_url', 'service_role_key')
+) < 2;
+
+SELECT cron.schedule('prevora_deliver_webhooks', '* * * * *', $$SELECT run_scheduled_job('deliver_webhooks')$$);